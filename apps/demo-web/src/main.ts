@@ -4,7 +4,7 @@
 
 
 import { createMockConnector } from "@queryscape/connectors";
-import { createSession, createQueryBuilder } from "@queryscape/core";
+import { createSession, createQueryBuilder, getPatchSummary } from "@queryscape/core";
 import type { GraphSession, GraphNode, NodeId } from "@queryscape/core";
 import { createRenderer } from "@queryscape/renderer-cytoscape";
 import type { GraphRenderer } from "@queryscape/renderer-cytoscape";
@@ -78,6 +78,16 @@ async function init(): Promise<void> {
       },
     });
 
+    // Keep the renderer and stats in step with every change to the session
+    session.on("patch", (patch) => {
+      renderer.applyPatch(patch);
+      // New nodes are placed by laying the graph out again
+      if (getPatchSummary(patch).nodesAdded > 0) {
+        renderer.runLayout();
+      }
+      updateStats();
+    });
+
     // Set up event handlers
     renderer.setEventHandlers({
       onNodeClick: handleNodeClick,
@@ -129,14 +139,11 @@ async function handleNodeDoubleClick(nodeId: NodeId, _node: GraphNode): Promise<
       qb.getNeighbors(nodeId, "both")
     );
 
-    // Apply the patch to renderer
+    // The renderer has already applied the patch
     const patch = session.getLastPatchSummary();
     if (patch && (patch.nodesAdded > 0 || patch.edgesAdded > 0)) {
-      renderer.setData(session.getData());
       showToast(`Added ${patch.nodesAdded} nodes and ${patch.edgesAdded} edges`, "success");
     }
-
-    updateStats();
   } catch (error) {
     showToast(`Error: ${error instanceof Error ? error.message : String(error)}`, "error");
   }
@@ -177,9 +184,6 @@ async function handleSampleRandom(): Promise<void> {
       count: 20,
     });
 
-    renderer.setData(session.getData());
-    updateStats();
-
     const patch = session.getLastPatchSummary();
     if (patch) {
       showToast(`Sampled ${patch.nodesAdded} new nodes`, "success");
@@ -202,9 +206,7 @@ function handleFitView(): void {
 /** Handle clear session */
 function handleClearSession(): void {
   session.clear();
-  renderer.setData(session.getData());
   nodeDetailsEl.innerHTML = '<p class="hint">Click a node to see details</p>';
-  updateStats();
   showToast("Session cleared", "success");
 }
 
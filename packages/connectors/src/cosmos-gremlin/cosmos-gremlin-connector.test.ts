@@ -0,0 +1,237 @@
+import { AuthError } from "@queryscape/core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  startFakeGremlinServer,
+  type FakeGremlinRequest,
+  type FakeGremlinServer,
+} from "../gremlin/fake-gremlin-server";
+
+import { CosmosGremlinConnector } from "./index";
+
+/** Cosmos serializes elements as untyped JSON */
+const vertex = (
+  id: string,
+  label: string,
+  props: Record<string, unknown> = {}
+): unknown => ({
+  id,
+  label,
+  type: "vertex",
+  properties: Object.fromEntries(
+    Object.entries(props).map(([key, value]) => [
+      key,
+      [{ id: `${id}-${key}`, value }],
+    ])
+  ),
+});
+
+const edge = (
+  id: string,
+  label: string,
+  outV: string,
+  inV: string
+): unknown => ({
+  id,
+  label,
+  type: "edge",
+  inVLabel: "Person",
+  outVLabel: "Person",
+  inV,
+  outV,
+  properties: { since: 2020 },
+});
+
+/** Evaluation requests (excluding SASL handshakes) */
+const evals = (server: FakeGremlinServer): FakeGremlinRequest[] =>
+  server.requests.filter((r) => r.op === "eval");
+
+describe("CosmosGremlinConnector", () => {
+  let server: FakeGremlinServer;
+  let connector: CosmosGremlinConnector;
+
+  const createConnector = (partitionKey?: string): CosmosGremlinConnector =>
+    new CosmosGremlinConnector({
+      endpoint: `ws://${server.host}:${server.port}/`,
+      primaryKey: "secret-key",
+      database: "db",
+      container: "graph",
+      partitionKey,
+    });
+
+  beforeEach(async () => {
+    server = await startFakeGremlinServer();
+    connector = createConnector("tenantId");
+    await connector.connect();
+  });
+
+  afterEach(async () => {
+    await connector.disconnect();
+    await server.close();
+  });
+
+  describe("connection", () => {
+    it("should build the URL and SASL username", () => {
+      const cosmos = new CosmosGremlinConnector({
+        endpoint: "account.gremlin.cosmos.azure.com",
+        primaryKey: "key",
+        database: "db",
+        container: "graph",
+      });
+      expect(cosmos.getGremlinUrl()).toBe(
+        "wss://account.gremlin.cosmos.azure.com:443/"
+      );
+      expect(cosmos.getUsername()).toBe("/dbs/db/colls/graph");
+    });
+
+    it("should answer SASL challenges with the primary key", async () => {
+      server.setHandler((request) =>
+        request.op === "authentication"
+          ? { status: 200, data: [vertex("v1", "Person")] }
+          : { status: 407, message: "Authentication required" }
+      );
+
+      const result = await connector.executeQuery({
+        type: "getNode",
+        nodeId: "v1",
+      });
+
+      const [challenged, auth] = server.requests;
+      expect(challenged!.mimeType).toBe("application/vnd.gremlin-v2.0+json");
+      expect(auth!.op).toBe("authentication");
+      expect(auth!.requestId).toBe(challenged!.requestId);
+      expect(
+        Buffer.from(auth!.args["SASL"] as string, "base64").toString("utf8")
+      ).toBe("\u0000/dbs/db/colls/graph\u0000secret-key");
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["v1"]);
+    });
+
+    it("should raise AuthError when credentials are rejected", async () => {
+      server.setHandler(() => ({ status: 407 }));
+
+      await expect(
+        connector.executeQuery({ type: "getNode", nodeId: "v1" })
+      ).rejects.toBeInstanceOf(AuthError);
+    });
+  });
+
+  describe("queries", () => {
+    it("should send scripts with bound values", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: [vertex("v1", "Person", { name: "Alice", tenantId: "acme" })],
+      }));
+
+      const result = await connector.executeQuery({
+        type: "getNode",
+        nodeId: "v1') .drop() //",
+      });
+
+      const request = evals(server)[0]!;
+      expect(request.args["gremlin"]).toBe("g.V(p0)");
+      expect(request.args["bindings"]).toEqual({ p0: "v1') .drop() //" });
+      expect(result.data.nodes).toEqual([
+        {
+          id: "v1",
+          labels: ["Person"],
+          properties: { name: "Alice", tenantId: "acme" },
+        },
+      ]);
+    });
+
+    it("should use [pk, id] lookups once the partition is known", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: [vertex("v1", "Person", { tenantId: "acme" })],
+      }));
+
+      await connector.executeQuery({ type: "findNodes" });
+      await connector.executeQuery({ type: "getNode", nodeId: "v1" });
+      await connector.executeQuery({ type: "getNode", nodeId: "v2" });
+
+      const [, known, unknown] = evals(server);
+      expect(known!.args["gremlin"]).toBe("g.V([p0, p1])");
+      expect(known!.args["bindings"]).toEqual({ p0: "acme", p1: "v1" });
+      expect(unknown!.args["gremlin"]).toBe("g.V(p0)");
+    });
+
+    it("should use the ID as partition key when configured", async () => {
+      const byId = createConnector("/id");
+      await byId.connect();
+      await byId.executeQuery({ type: "getNode", nodeId: "v1" });
+      await byId.disconnect();
+
+      expect(evals(server)[0]!.args["bindings"]).toEqual({
+        p0: "v1",
+        p1: "v1",
+      });
+    });
+
+    it("should map untyped paths from getNeighbors", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: [
+          {
+            labels: [[], [], []],
+            objects: [
+              vertex("v1", "Person"),
+              edge("e1", "KNOWS", "v1", "v2"),
+              vertex("v2", "Person"),
+            ],
+          },
+        ],
+      }));
+
+      const result = await connector.executeQuery({
+        type: "getNeighbors",
+        nodeId: "v1",
+        direction: "outgoing",
+        edgeTypes: ["KNOWS"],
+        pagination: { limit: 5 },
+      });
+
+      expect(evals(server)[0]!.args["gremlin"]).toBe(
+        "g.V(p0).outE(p1).inV().limit(5).path()"
+      );
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["v1", "v2"]);
+      expect(result.data.edges).toEqual([
+        {
+          id: "e1",
+          source: "v1",
+          target: "v2",
+          type: "KNOWS",
+          properties: { since: 2020 },
+        },
+      ]);
+    });
+
+    it("should avoid unsupported steps in findPath", async () => {
+      await connector.executeQuery({
+        type: "findPath",
+        sourceId: "a",
+        targetId: "b",
+        maxLength: 3,
+      });
+
+      expect(evals(server)[0]!.args["gremlin"]).toBe(
+        "g.V(p0).repeat(__.bothE().otherV().simplePath())" +
+          ".emit(__.hasId(p1)).times(3).hasId(p2).limit(1).path()"
+      );
+    });
+
+    it("should report the request charge", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: [],
+        attributes: {
+          "x-ms-request-charge": 3.5,
+          "x-ms-total-request-charge": 12.25,
+        },
+      }));
+
+      const result = await connector.executeQuery({ type: "findNodes" });
+
+      expect(result.metadata.requestCharge).toBe(12.25);
+    });
+  });
+});
@@ -1,11 +1,41 @@
 /**
  * Azure Cosmos DB Gremlin connector
- * Skeleton implementation
  */
 
-import type { Query, QueryResult } from "@queryscape/core";
-import { QueryNotSupportedError } from "@queryscape/core";
+import type {
+  ExecuteOptions,
+  ExplainOptions,
+  GraphNode,
+  NodeId,
+  PropertyValue,
+  Query,
+  QueryExplanation,
+  QueryResult,
+} from "@queryscape/core";
+import {
+  QueryError,
+  cancellationError,
+  isQueryScapeError,
+  querySignal,
+} from "@queryscape/core";
 
+import {
+  createExplainRecorder,
+  explainedStatement,
+  queryExplanation,
+} from "../explain.js";
+import {
+  GRAPHSON_V2_MIME_TYPE,
+  GremlinClient,
+  createScriptRequest,
+  gremlinLimit,
+  mapGremlinResults,
+  nextGremlinCursor,
+  toGremlinScript,
+  translateToGremlin,
+  type GremlinArgument,
+  type GremlinTranslationOptions,
+} from "../gremlin/index.js";
 import {
   BaseConnector,
   type ConnectorCapabilities,
@@ -14,7 +44,7 @@ import {
 
 /** Cosmos Gremlin connector configuration */
 export interface CosmosGremlinConnectorConfig extends BaseConnectorConfig {
-  /** Cosmos DB account endpoint */
+  /** Cosmos DB Gremlin endpoint (wss://account.gremlin.cosmos.azure.com:443/) */
   endpoint: string;
   /** Primary key */
   primaryKey: string;
@@ -22,11 +52,23 @@ export interface CosmosGremlinConnectorConfig extends BaseConnectorConfig {
   database: string;
   /** Container/Graph name */
   container: string;
+  /**
+   * Partition key property (e.g. "tenantId"). Point lookups use
+   * g.V([pk, id]) once a vertex's partition key value has been seen.
+   */
+  partitionKey?: string;
+  /** Per-request timeout in ms (default 30000) */
+  requestTimeoutMs?: number;
 }
 
-/** Cosmos Gremlin connector implementation (skeleton) */
+/** Upper bound on remembered vertex partition key values */
+const MAX_PARTITION_KEYS = 10000;
+
+/** Cosmos Gremlin connector implementation */
 export class CosmosGremlinConnector extends BaseConnector {
   protected readonly cosmosConfig: CosmosGremlinConnectorConfig;
+  private client: GremlinClient | null = null;
+  private readonly partitionKeys = new Map<NodeId, PropertyValue>();
 
   constructor(config: CosmosGremlinConnectorConfig) {
     super(config);
@@ -45,34 +87,183 @@ export class CosmosGremlinConnector extends BaseConnector {
         "getNode",
         "getNeighbors",
         "findNodes",
+        "findEdges",
         "findPath",
         "expandNode",
+        "pattern",
       ],
       supportsFullTextSearch: false,
       supportsPagination: true,
       supportsRawQueries: true,
+      supportsSchema: false,
+      supportsExplain: true,
       maxPageSize: 1000,
     };
   }
 
+  /** Gremlin WebSocket URL for the configured endpoint */
+  getGremlinUrl(): string {
+    const { endpoint } = this.cosmosConfig;
+    return /^wss?:\/\//.test(endpoint) ? endpoint : `wss://${endpoint}:443/`;
+  }
+
+  /** SASL username identifying the graph */
+  getUsername(): string {
+    const { database, container } = this.cosmosConfig;
+    return `/dbs/${database}/colls/${container}`;
+  }
+
   async connect(): Promise<void> {
-    // TODO: Implement Gremlin connection with Cosmos auth
+    const client = new GremlinClient({
+      url: this.getGremlinUrl(),
+      mimeType: GRAPHSON_V2_MIME_TYPE,
+      requestTimeoutMs: this.cosmosConfig.requestTimeoutMs,
+      credentials: {
+        username: this.getUsername(),
+        password: this.cosmosConfig.primaryKey,
+      },
+    });
+
+    await client.open();
+    this.client = client;
     this.connected = true;
   }
 
   async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+      this.client = null;
+    }
+    this.partitionKeys.clear();
     this.connected = false;
   }
 
-  async executeQuery(query: Query): Promise<QueryResult> {
+  async executeQuery(
+    query: Query,
+    execution: ExecuteOptions = {}
+  ): Promise<QueryResult> {
     this.ensureConnected();
     this.checkQuerySupported(query.type);
 
-    throw new QueryNotSupportedError(
-      "Cosmos Gremlin connector not yet implemented",
-      query.type
+    const startTime = Date.now();
+    const signal = querySignal(query, execution.signal);
+
+    try {
+      // Cosmos closes idle connections; reopen transparently
+      if (!this.client!.isOpen()) {
+        await this.client!.open();
+      }
+
+      const options = this.translationOptions();
+      const traversal = translateToGremlin(query, options);
+      const { script, bindings } = toGremlinScript(traversal);
+      const response = await this.client!.submit(
+        createScriptRequest(script, bindings),
+        signal
+      );
+      const data = mapGremlinResults(response.data);
+
+      this.rememberPartitionKeys(data.nodes);
+
+      return {
+        data,
+        metadata: {
+          executionTimeMs: Date.now() - startTime,
+          totalAvailable: null,
+          truncated: response.data.length >= gremlinLimit(query, options),
+          cursor: nextGremlinCursor(query, response.data.length, options),
+          requestCharge: readRequestCharge(response.attributes),
+        },
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw cancellationError(signal, query);
+      }
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
+      throw new QueryError(
+        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        query.type
+      );
+    }
+  }
+
+  /**
+   * Explain a query: the script and bindings executeQuery sends. Cosmos DB
+   * has no explain() step (executionProfile() runs the query), so there is no
+   * plan.
+   */
+  async explain(
+    query: Query,
+    options: ExplainOptions = {}
+  ): Promise<QueryExplanation> {
+    this.ensureConnected();
+    this.checkQuerySupported(query.type);
+
+    const recorder = createExplainRecorder(options);
+    const { script, bindings, propertyKeys } = toGremlinScript(
+      translateToGremlin(query, this.translationOptions())
+    );
+    recorder.statements.push(
+      explainedStatement("gremlin", script, bindings, null, propertyKeys)
     );
+    return queryExplanation(this.getCapabilities(), query, recorder);
+  }
+
+  /**
+   * Cosmos has no bytecode support and rejects path().by() projections, so
+   * whole elements are returned and traversals are sent as scripts
+   */
+  private translationOptions(): GremlinTranslationOptions {
+    return {
+      projectElements: false,
+      vertexId: (nodeId) => this.vertexId(nodeId),
+    };
+  }
+
+  /** Name of the partition key property, without a leading slash */
+  private partitionKeyProperty(): string | undefined {
+    return this.cosmosConfig.partitionKey?.replace(/^\//, "");
   }
+
+  /** Vertex lookup argument: [pk, id] when the partition is known */
+  private vertexId(nodeId: NodeId): GremlinArgument {
+    const property = this.partitionKeyProperty();
+    if (property === "id") {
+      return [nodeId, nodeId];
+    }
+    const partitionKey = this.partitionKeys.get(nodeId);
+    return partitionKey === undefined ? nodeId : [partitionKey, nodeId];
+  }
+
+  private rememberPartitionKeys(nodes: readonly GraphNode[]): void {
+    const property = this.partitionKeyProperty();
+    if (!property || property === "id") return;
+
+    for (const node of nodes) {
+      const value = node.properties[property];
+      if (typeof value !== "string" && typeof value !== "number") continue;
+
+      this.partitionKeys.delete(node.id);
+      this.partitionKeys.set(node.id, value);
+      if (this.partitionKeys.size > MAX_PARTITION_KEYS) {
+        const oldest = this.partitionKeys.keys().next().value;
+        if (oldest !== undefined) this.partitionKeys.delete(oldest);
+      }
+    }
+  }
+}
+
+/** Read the RU cost Cosmos reports in the response status attributes */
+function readRequestCharge(
+  attributes: Record<string, unknown>
+): number | undefined {
+  const charge =
+    attributes["x-ms-total-request-charge"] ??
+    attributes["x-ms-request-charge"];
+  const value = Number(charge);
+  return charge === undefined || Number.isNaN(value) ? undefined : value;
 }
 
 /** Create Cosmos Gremlin connector */
@@ -0,0 +1,10 @@
+/**
+ * Encoding helpers that work in Node and browsers alike
+ */
+
+/** Base64-encode bytes without Node's Buffer */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
@@ -0,0 +1,94 @@
+/**
+ * Query explanation
+ * Helpers for connectors that explain a query by recording the statements
+ * they would send (a dry run) instead of sending them.
+ */
+
+import type {
+  ExplainedStatement,
+  ExplainOptions,
+  Query,
+  QueryExplanation,
+  QueryPlanOperator,
+} from "@queryscape/core";
+import { isSensitiveKey, redactSensitive } from "@queryscape/core";
+
+import type { ConnectorCapabilities } from "./interface.js";
+
+/** Statements recorded during a dry run */
+export interface ExplainRecorder {
+  readonly statements: ExplainedStatement[];
+  /** Ask the database for the plan of each statement */
+  readonly includePlan: boolean;
+}
+
+/** Start recording statements for explain */
+export function createExplainRecorder(
+  options: ExplainOptions = {}
+): ExplainRecorder {
+  return { statements: [], includePlan: options.includePlan !== false };
+}
+
+/**
+ * Statement with common indentation removed and parameters redacted.
+ * `propertyKeys` maps a parameter to the property key its value is compared
+ * with, so a value bound as `prop0` for `password` is redacted as well.
+ */
+export function explainedStatement(
+  language: ExplainedStatement["language"],
+  text: string,
+  parameters: Record<string, unknown> = {},
+  plan: QueryPlanOperator | null = null,
+  propertyKeys: Record<string, string> = {}
+): ExplainedStatement {
+  const redacted = redactSensitive(parameters);
+  for (const [param, key] of Object.entries(propertyKeys)) {
+    if (param in redacted && isSensitiveKey(key)) {
+      redacted[param] = "[REDACTED]";
+    }
+  }
+  return { language, text: dedent(text), parameters: redacted, plan };
+}
+
+/** Explanation of the statements recorded for a query */
+export function queryExplanation(
+  capabilities: ConnectorCapabilities,
+  query: Query,
+  recorder: ExplainRecorder,
+  defaultLimit = 100
+): QueryExplanation {
+  return {
+    connectorType: capabilities.connectorType,
+    queryType: query.type,
+    statements: recorder.statements,
+    limits: {
+      limit: appliedLimit(query, defaultLimit),
+      timeoutMs: query.timeoutMs ?? null,
+      maxPageSize: capabilities.maxPageSize,
+    },
+  };
+}
+
+/** Result limit a connector applies to a query, null when unbounded */
+function appliedLimit(query: Query, defaultLimit: number): number | null {
+  switch (query.type) {
+    case "getNode":
+    case "findPath":
+    case "raw":
+      return null;
+    case "sample":
+      return query.count;
+    default:
+      return query.pagination?.limit ?? defaultLimit;
+  }
+}
+
+function dedent(text: string): string {
+  const lines = text.replace(/^\s*\n|\s+$/g, "").split("\n");
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim() !== "")
+      .map((line) => line.length - line.trimStart().length)
+  );
+  return lines.map((line) => line.slice(indent)).join("\n");
+}
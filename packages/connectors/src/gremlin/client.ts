@@ -0,0 +1,383 @@
+/**
+ * Minimal Gremlin Server WebSocket client
+ * Speaks the Gremlin Server request/response protocol over the `ws` package.
+ * Uses web platform APIs only, so it bundles for browsers; `ws` is loaded on
+ * open.
+ */
+
+import {
+  AuthError,
+  ConnectionError,
+  QueryCancelledError,
+  QueryError,
+} from "@queryscape/core";
+
+import { toBase64 } from "../encoding.js";
+
+import {
+  GRAPHSON_V3_MIME_TYPE,
+  readGraphSON,
+  writeGraphSON,
+  type GraphSONVersion,
+} from "./graphson.js";
+import type { GremlinTraversal } from "./traversal.js";
+
+/** WebSocket types (imported dynamically from `ws`) */
+interface WebSocketLike {
+  readonly readyState: number;
+  on(event: "open", listener: () => void): void;
+  on(event: "message", listener: (data: unknown) => void): void;
+  on(event: "error", listener: (error: Error) => void): void;
+  on(event: "close", listener: (code: number) => void): void;
+  send(data: Uint8Array | string): void;
+  close(): void;
+}
+
+type WebSocketConstructor = new (
+  url: string,
+  options?: { headers?: Record<string, string> }
+) => WebSocketLike;
+
+const WEBSOCKET_OPEN = 1;
+
+/** Produces upgrade headers each time the connection is opened */
+export type GremlinHeadersProvider = () => Promise<Record<string, string>>;
+
+/** Gremlin client configuration */
+export interface GremlinClientConfig {
+  /** WebSocket URL (e.g., wss://host:8182/gremlin) */
+  url: string;
+  /** Serializer mime type */
+  mimeType?: string;
+  /**
+   * Extra headers sent with the WebSocket upgrade request
+   * (a provider is invoked on every open, e.g. to re-sign requests)
+   */
+  headers?: Record<string, string> | GremlinHeadersProvider;
+  /** Per-request timeout in ms (default 30000) */
+  requestTimeoutMs?: number;
+  /** Credentials answered to SASL PLAIN challenges (status 407) */
+  credentials?: { username: string; password: string };
+}
+
+/** Gremlin Server request */
+export interface GremlinRequest {
+  readonly op: string;
+  readonly processor: string;
+  readonly args: Record<string, unknown>;
+}
+
+/** Gremlin Server response (all partial responses combined) */
+export interface GremlinResponse {
+  readonly data: unknown[];
+  readonly attributes: Record<string, unknown>;
+}
+
+interface PendingRequest {
+  readonly data: unknown[];
+  authenticated: boolean;
+  readonly resolve: (response: GremlinResponse) => void;
+  readonly reject: (error: Error) => void;
+  readonly timer: ReturnType<typeof setTimeout>;
+  /** Remove the abort listener */
+  readonly detach: () => void;
+}
+
+interface RawResponse {
+  requestId: unknown;
+  status: { code: number; message?: string; attributes?: unknown };
+  result?: { data?: unknown };
+}
+
+/** Gremlin Server status codes */
+const STATUS_SUCCESS = 200;
+const STATUS_NO_CONTENT = 204;
+const STATUS_PARTIAL_CONTENT = 206;
+const STATUS_UNAUTHORIZED = 401;
+const STATUS_AUTHENTICATE = 407;
+
+/** Build a bytecode request for a traversal */
+export function createBytecodeRequest(
+  traversal: GremlinTraversal,
+  version: GraphSONVersion = 3
+): GremlinRequest {
+  return {
+    op: "bytecode",
+    processor: "traversal",
+    args: {
+      gremlin: writeGraphSON(traversal, version),
+      aliases: { g: "g" },
+    },
+  };
+}
+
+/** Build a script evaluation request with parameter bindings */
+export function createScriptRequest(
+  script: string,
+  bindings: Record<string, unknown> = {}
+): GremlinRequest {
+  return {
+    op: "eval",
+    processor: "",
+    args: { gremlin: script, bindings, language: "gremlin-groovy" },
+  };
+}
+
+/** Gremlin WebSocket client */
+export class GremlinClient {
+  private socket: WebSocketLike | null = null;
+  /** Open in progress, shared by everyone waiting for it */
+  private opening: Promise<void> | null = null;
+  private readonly pending = new Map<string, PendingRequest>();
+  private readonly mimeType: string;
+
+  constructor(private readonly config: GremlinClientConfig) {
+    this.mimeType = config.mimeType ?? GRAPHSON_V3_MIME_TYPE;
+  }
+
+  /** Open the WebSocket connection, joining an open already in progress */
+  open(): Promise<void> {
+    this.opening ??= this.connect().finally(() => {
+      this.opening = null;
+    });
+    return this.opening;
+  }
+
+  private async connect(): Promise<void> {
+    const ws = await import("ws");
+    const WebSocket = ws.default as unknown as WebSocketConstructor;
+    const headers =
+      typeof this.config.headers === "function"
+        ? await this.config.headers()
+        : this.config.headers;
+    const socket = new WebSocket(this.config.url, { headers });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.on("open", () => resolve());
+      socket.on("error", (error) => {
+        if (this.socket !== socket) {
+          reject(this.toConnectionError(error));
+        }
+      });
+    });
+
+    socket.on("message", (data) => this.handleMessage(data));
+    socket.on("close", () => this.handleClose(socket));
+    this.socket = socket;
+  }
+
+  /** Check if the connection is open */
+  isOpen(): boolean {
+    return this.socket?.readyState === WEBSOCKET_OPEN;
+  }
+
+  /**
+   * Submit a request and wait for the complete response. Aborting `signal`
+   * rejects the request and drops its remaining responses; the server is
+   * not asked to stop the traversal.
+   */
+  submit(
+    request: GremlinRequest,
+    signal?: AbortSignal
+  ): Promise<GremlinResponse> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WEBSOCKET_OPEN) {
+      return Promise.reject(
+        new ConnectionError("Gremlin connection is not open", this.config.url)
+      );
+    }
+    if (signal?.aborted) {
+      return Promise.reject(
+        new QueryCancelledError("Gremlin request was cancelled")
+      );
+    }
+
+    const requestId = globalThis.crypto.randomUUID();
+
+    return new Promise<GremlinResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(requestId);
+        reject(new QueryError("Gremlin request timed out"));
+      }, this.config.requestTimeoutMs ?? 30000);
+
+      const onAbort = (): void => {
+        this.settle(requestId);
+        reject(new QueryCancelledError("Gremlin request was cancelled"));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(requestId, {
+        data: [],
+        authenticated: false,
+        resolve,
+        reject,
+        timer,
+        detach: () => signal?.removeEventListener("abort", onAbort),
+      });
+      this.send(socket, requestId, request);
+    });
+  }
+
+  /** Close the connection, rejecting outstanding requests */
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.rejectAll(new ConnectionError("Gremlin connection closed"));
+  }
+
+  private send(
+    socket: WebSocketLike,
+    requestId: string,
+    request: GremlinRequest
+  ): void {
+    const message = JSON.stringify({
+      requestId: { "@type": "g:UUID", "@value": requestId },
+      op: request.op,
+      processor: request.processor,
+      args: request.args,
+    });
+    socket.send(this.frame(message));
+  }
+
+  /** Answer a SASL challenge; the server then replies to the original request */
+  private authenticate(requestId: string, pending: PendingRequest): boolean {
+    const { credentials } = this.config;
+    if (!credentials || pending.authenticated || !this.socket) {
+      return false;
+    }
+
+    pending.authenticated = true;
+    const sasl = toBase64(
+      new TextEncoder().encode(
+        `\u0000${credentials.username}\u0000${credentials.password}`
+      )
+    );
+    this.send(this.socket, requestId, {
+      op: "authentication",
+      processor: "",
+      args: { SASL: sasl, saslMechanism: "PLAIN" },
+    });
+    return true;
+  }
+
+  /** Prefix a message with the serializer mime type */
+  private frame(message: string): Uint8Array {
+    const encoder = new TextEncoder();
+    const mime = encoder.encode(this.mimeType);
+    const body = encoder.encode(message);
+    const frame = new Uint8Array(1 + mime.length + body.length);
+    frame[0] = mime.length;
+    frame.set(mime, 1);
+    frame.set(body, 1 + mime.length);
+    return frame;
+  }
+
+  private handleMessage(data: unknown): void {
+    // `ws` delivers Buffers, which are Uint8Arrays
+    const text =
+      data instanceof Uint8Array
+        ? new TextDecoder().decode(data)
+        : String(data as string);
+
+    let response: RawResponse;
+    try {
+      response = JSON.parse(text) as RawResponse;
+    } catch {
+      return;
+    }
+
+    const requestId = String(readGraphSON(response.requestId));
+    const pending = this.pending.get(requestId);
+    if (!pending) return;
+
+    const { code, message } = response.status;
+
+    if (
+      code === STATUS_SUCCESS ||
+      code === STATUS_NO_CONTENT ||
+      code === STATUS_PARTIAL_CONTENT
+    ) {
+      const decoded = readGraphSON(response.result?.data ?? null);
+      if (Array.isArray(decoded)) {
+        pending.data.push(...decoded);
+      } else if (decoded !== null && decoded !== undefined) {
+        pending.data.push(decoded);
+      }
+
+      if (code !== STATUS_PARTIAL_CONTENT) {
+        this.settle(requestId);
+        pending.resolve({
+          data: pending.data,
+          attributes: toRecord(readGraphSON(response.status.attributes)),
+        });
+      }
+      return;
+    }
+
+    if (code === STATUS_AUTHENTICATE && this.authenticate(requestId, pending)) {
+      return;
+    }
+
+    this.settle(requestId);
+    if (code === STATUS_UNAUTHORIZED || code === STATUS_AUTHENTICATE) {
+      pending.reject(
+        new AuthError(`Gremlin server rejected credentials: ${message ?? ""}`)
+      );
+    } else {
+      pending.reject(
+        new QueryError(`Gremlin server error ${code}: ${message ?? ""}`)
+      );
+    }
+  }
+
+  private handleClose(socket: WebSocketLike): void {
+    // A socket replaced by a later open no longer owns the pending requests
+    if (this.socket !== socket) return;
+    this.socket = null;
+    this.rejectAll(
+      new ConnectionError("Gremlin connection closed", this.config.url)
+    );
+  }
+
+  private settle(requestId: string): void {
+    const pending = this.pending.get(requestId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      pending.detach();
+      this.pending.delete(requestId);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const [requestId, pending] of this.pending) {
+      this.settle(requestId);
+      pending.reject(error);
+    }
+  }
+
+  private toConnectionError(error: Error): Error {
+    if (/\b(401|403)\b/.test(error.message)) {
+      return new AuthError(`Gremlin authentication failed: ${error.message}`);
+    }
+    return new ConnectionError(
+      `Failed to connect to Gremlin server: ${error.message}`,
+      this.config.url
+    );
+  }
+}
+
+/** Convert a decoded GraphSON map into a plain record */
+function toRecord(value: unknown): Record<string, unknown> {
+  if (value instanceof Map) {
+    const record: Record<string, unknown> = {};
+    for (const [key, item] of value) {
+      record[String(key)] = item;
+    }
+    return record;
+  }
+  if (typeof value === "object" && value !== null) {
+    return value as Record<string, unknown>;
+  }
+  return {};
+}
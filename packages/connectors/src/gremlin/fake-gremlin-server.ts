@@ -0,0 +1,157 @@
+/**
+ * In-process fake Gremlin Server for connector tests
+ * Accepts framed GraphSON requests and replies with canned GraphSON responses.
+ */
+
+import type { IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { WebSocketServer } from "ws";
+
+/** Request received by the fake server */
+export interface FakeGremlinRequest {
+  readonly requestId: string;
+  readonly mimeType: string;
+  readonly op: string;
+  readonly processor: string;
+  readonly args: Record<string, unknown>;
+  readonly headers: IncomingHttpHeaders;
+}
+
+/** Single response message sent by the fake server */
+export interface FakeGremlinReply {
+  readonly status: number;
+  readonly message?: string;
+  /** GraphSON-encoded result data */
+  readonly data?: unknown;
+  /** GraphSON-encoded status attributes */
+  readonly attributes?: unknown;
+}
+
+/** Produces replies for a request (several replies stream partial content) */
+export type FakeGremlinHandler = (
+  request: FakeGremlinRequest
+) => FakeGremlinReply | FakeGremlinReply[];
+
+/** Running fake server */
+export interface FakeGremlinServer {
+  readonly url: string;
+  readonly host: string;
+  readonly port: number;
+  readonly requests: FakeGremlinRequest[];
+  /** Connections accepted so far */
+  readonly connections: number;
+  setHandler(handler: FakeGremlinHandler): void;
+  /** Terminate open client connections, keeping the server listening */
+  dropConnections(): void;
+  close(): Promise<void>;
+}
+
+const EMPTY_MAP = { "@type": "g:Map", "@value": [] };
+
+/** Start a fake Gremlin server on a random local port */
+export async function startFakeGremlinServer(
+  handler: FakeGremlinHandler = () => ({ status: 204 })
+): Promise<FakeGremlinServer> {
+  const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  const requests: FakeGremlinRequest[] = [];
+  let currentHandler = handler;
+  let connections = 0;
+
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+
+  server.on("connection", (socket, upgrade) => {
+    connections++;
+    socket.on("message", (raw: Buffer) => {
+      const mimeLength = raw[0] ?? 0;
+      const mimeType = raw.subarray(1, 1 + mimeLength).toString("utf8");
+      const body = JSON.parse(
+        raw.subarray(1 + mimeLength).toString("utf8")
+      ) as {
+        requestId: string | { "@value": string };
+        op: string;
+        processor: string;
+        args: Record<string, unknown>;
+      };
+
+      const requestId =
+        typeof body.requestId === "string"
+          ? body.requestId
+          : body.requestId["@value"];
+
+      const request: FakeGremlinRequest = {
+        requestId,
+        mimeType,
+        op: body.op,
+        processor: body.processor,
+        args: body.args,
+        headers: upgrade.headers,
+      };
+      requests.push(request);
+
+      const replies = currentHandler(request);
+      for (const reply of Array.isArray(replies) ? replies : [replies]) {
+        socket.send(
+          JSON.stringify({
+            requestId,
+            status: {
+              code: reply.status,
+              message: reply.message ?? "",
+              attributes: reply.attributes ?? EMPTY_MAP,
+            },
+            result: {
+              data: reply.data ?? null,
+              meta: EMPTY_MAP,
+            },
+          })
+        );
+      }
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `ws://127.0.0.1:${port}/gremlin`,
+    host: "127.0.0.1",
+    port,
+    requests,
+    get connections(): number {
+      return connections;
+    },
+    setHandler(next: FakeGremlinHandler): void {
+      currentHandler = next;
+    },
+    dropConnections(): void {
+      for (const client of server.clients) {
+        client.terminate();
+      }
+    },
+    close(): Promise<void> {
+      for (const client of server.clients) {
+        client.terminate();
+      }
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+/** GraphSON 3.0 encoding helpers for fixtures */
+export const graphson = {
+  list: (items: unknown[]) => ({ "@type": "g:List", "@value": items }),
+  map: (pairs: unknown[]) => ({ "@type": "g:Map", "@value": pairs }),
+  int64: (value: number) => ({ "@type": "g:Int64", "@value": value }),
+  double: (value: number) => ({ "@type": "g:Double", "@value": value }),
+  t: (name: "id" | "label") => ({ "@type": "g:T", "@value": name }),
+  direction: (name: "IN" | "OUT") => ({
+    "@type": "g:Direction",
+    "@value": name,
+  }),
+  path: (objects: unknown[]) => ({
+    "@type": "g:Path",
+    "@value": {
+      labels: { "@type": "g:List", "@value": [] },
+      objects: { "@type": "g:List", "@value": objects },
+    },
+  }),
+};
@@ -0,0 +1,347 @@
+/**
+ * GraphSON serialization for Gremlin connectors
+ * Reads GraphSON 2.0/3.0 typed values and writes traversal arguments.
+ */
+
+import { EnumValue, GremlinTraversal, Predicate } from "./traversal.js";
+
+/** Supported GraphSON versions */
+export type GraphSONVersion = 2 | 3;
+
+/** GraphSON 3.0 mime type */
+export const GRAPHSON_V3_MIME_TYPE = "application/vnd.gremlin-v3.0+json";
+
+/** GraphSON 2.0 mime type */
+export const GRAPHSON_V2_MIME_TYPE = "application/vnd.gremlin-v2.0+json";
+
+/** Decoded vertex */
+export interface GremlinVertex {
+  readonly kind: "vertex";
+  readonly id: unknown;
+  readonly label: string;
+  readonly properties: Record<string, unknown[]>;
+}
+
+/** Decoded edge */
+export interface GremlinEdge {
+  readonly kind: "edge";
+  readonly id: unknown;
+  readonly label: string;
+  readonly outV: unknown;
+  readonly inV: unknown;
+  readonly properties: Record<string, unknown>;
+}
+
+/** Decoded vertex property */
+export interface GremlinVertexProperty {
+  readonly kind: "vertexProperty";
+  readonly id: unknown;
+  readonly label: string;
+  readonly value: unknown;
+}
+
+/** Decoded edge/meta property */
+export interface GremlinProperty {
+  readonly kind: "property";
+  readonly key: string;
+  readonly value: unknown;
+}
+
+/** Decoded path */
+export interface GremlinPath {
+  readonly kind: "path";
+  readonly labels: unknown[];
+  readonly objects: unknown[];
+}
+
+/** Any decoded graph structure element */
+export type GremlinStructure =
+  | GremlinVertex
+  | GremlinEdge
+  | GremlinVertexProperty
+  | GremlinProperty
+  | GremlinPath;
+
+/** Check if a decoded value is a graph structure element */
+export function isGremlinStructure(value: unknown): value is GremlinStructure {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !(value instanceof Map) &&
+    !Array.isArray(value) &&
+    "kind" in value
+  );
+}
+
+interface TypedValue {
+  "@type": string;
+  "@value": unknown;
+}
+
+function isTypedValue(value: unknown): value is TypedValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "@type" in value &&
+    "@value" in value
+  );
+}
+
+/** Decode a GraphSON value into plain JavaScript values */
+export function readGraphSON(value: unknown): unknown {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => readGraphSON(item));
+  }
+
+  if (!isTypedValue(value)) {
+    const element = readUntypedElement(value as Record<string, unknown>);
+    if (element) {
+      return element;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = readGraphSON(item);
+    }
+    return result;
+  }
+
+  const typed = value["@value"];
+
+  switch (value["@type"]) {
+    case "g:Int32":
+    case "g:Int64":
+    case "g:Float":
+    case "g:Double":
+    case "gx:BigInteger":
+    case "gx:BigDecimal":
+    case "gx:Byte":
+    case "gx:Int16":
+      return Number(typed);
+    case "g:Date":
+    case "g:Timestamp":
+      return new Date(Number(typed)).toISOString();
+    case "g:UUID":
+    case "g:Class":
+      return String(typed);
+    case "g:List":
+    case "g:Set":
+      return ((typed as unknown[] | null) ?? []).map((item) =>
+        readGraphSON(item)
+      );
+    case "g:Map":
+      return readMap((typed as unknown[] | null) ?? []);
+    case "g:T":
+      return new EnumValue("T", String(typed));
+    case "g:Direction":
+      return new EnumValue("Direction", String(typed));
+    case "g:Vertex":
+      return readVertex(typed as Record<string, unknown>);
+    case "g:Edge":
+      return readEdge(typed as Record<string, unknown>);
+    case "g:VertexProperty":
+      return readVertexProperty(typed as Record<string, unknown>);
+    case "g:Property": {
+      const property = typed as { key: string; value: unknown };
+      return {
+        kind: "property",
+        key: property.key,
+        value: readGraphSON(property.value),
+      } satisfies GremlinProperty;
+    }
+    case "g:Path": {
+      const path = typed as { labels: unknown; objects: unknown };
+      return {
+        kind: "path",
+        labels: readGraphSON(path.labels) as unknown[],
+        objects: readGraphSON(path.objects) as unknown[],
+      } satisfies GremlinPath;
+    }
+    case "g:Traverser": {
+      const traverser = typed as { value: unknown };
+      return readGraphSON(traverser.value);
+    }
+    default:
+      return readGraphSON(typed);
+  }
+}
+
+/**
+ * Decode graph elements serialized as plain JSON objects
+ * (Cosmos DB returns vertices, edges and paths without GraphSON types)
+ */
+function readUntypedElement(
+  raw: Record<string, unknown>
+): GremlinStructure | null {
+  const keys = Object.keys(raw);
+
+  if (raw["type"] === "vertex" && "id" in raw && "label" in raw) {
+    const properties: Record<string, unknown[]> = {};
+    const rawProperties = (raw["properties"] ?? {}) as Record<
+      string,
+      unknown[]
+    >;
+    for (const [key, values] of Object.entries(rawProperties)) {
+      properties[key] = values.map((property) =>
+        readVertexProperty({
+          ...(property as Record<string, unknown>),
+          label: key,
+        })
+      );
+    }
+    return {
+      kind: "vertex",
+      id: readGraphSON(raw["id"]),
+      label: String(raw["label"]),
+      properties,
+    };
+  }
+
+  if (raw["type"] === "edge" && "id" in raw && "label" in raw) {
+    return readEdge(raw);
+  }
+
+  if (
+    keys.length === 2 &&
+    Array.isArray(raw["labels"]) &&
+    Array.isArray(raw["objects"])
+  ) {
+    return {
+      kind: "path",
+      labels: readGraphSON(raw["labels"]) as unknown[],
+      objects: readGraphSON(raw["objects"]) as unknown[],
+    };
+  }
+
+  return null;
+}
+
+function readMap(pairs: unknown[]): Map<unknown, unknown> {
+  const map = new Map<unknown, unknown>();
+  for (let i = 0; i + 1 < pairs.length; i += 2) {
+    map.set(readGraphSON(pairs[i]), readGraphSON(pairs[i + 1]));
+  }
+  return map;
+}
+
+function readVertex(raw: Record<string, unknown>): GremlinVertex {
+  const properties: Record<string, unknown[]> = {};
+  const rawProperties = (raw["properties"] ?? {}) as Record<string, unknown>;
+
+  for (const [key, values] of Object.entries(rawProperties)) {
+    const decoded = readGraphSON(values);
+    properties[key] = Array.isArray(decoded) ? decoded : [decoded];
+  }
+
+  return {
+    kind: "vertex",
+    id: readGraphSON(raw["id"]),
+    label: String(raw["label"] ?? "vertex"),
+    properties,
+  };
+}
+
+function readEdge(raw: Record<string, unknown>): GremlinEdge {
+  const properties: Record<string, unknown> = {};
+  const rawProperties = (raw["properties"] ?? {}) as Record<string, unknown>;
+
+  for (const [key, property] of Object.entries(rawProperties)) {
+    properties[key] = readGraphSON(property);
+  }
+
+  return {
+    kind: "edge",
+    id: readGraphSON(raw["id"]),
+    label: String(raw["label"] ?? "edge"),
+    outV: readGraphSON(raw["outV"]),
+    inV: readGraphSON(raw["inV"]),
+    properties,
+  };
+}
+
+function readVertexProperty(
+  raw: Record<string, unknown>
+): GremlinVertexProperty {
+  return {
+    kind: "vertexProperty",
+    id: readGraphSON(raw["id"]),
+    label: String(raw["label"] ?? ""),
+    value: readGraphSON(raw["value"]),
+  };
+}
+
+/** Encode a value as typed GraphSON */
+export function writeGraphSON(
+  value: unknown,
+  version: GraphSONVersion = 3
+): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+
+  if (typeof value === "number") {
+    if (Number.isInteger(value)) {
+      const isInt32 = value >= -2147483648 && value <= 2147483647;
+      return { "@type": isInt32 ? "g:Int32" : "g:Int64", "@value": value };
+    }
+    return { "@type": "g:Double", "@value": value };
+  }
+
+  if (value instanceof EnumValue) {
+    return { "@type": `g:${value.typeName}`, "@value": value.elementName };
+  }
+
+  if (value instanceof Predicate) {
+    return {
+      "@type": `g:${value.typeName}`,
+      "@value": {
+        predicate: value.operator,
+        value: writeGraphSON(value.value, version),
+      },
+    };
+  }
+
+  if (value instanceof GremlinTraversal) {
+    return {
+      "@type": "g:Bytecode",
+      "@value": {
+        step: value
+          .getSteps()
+          .map((step) => [
+            step.name,
+            ...step.args.map((arg) => writeGraphSON(arg, version)),
+          ]),
+      },
+    };
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => writeGraphSON(item, version));
+    return version === 3 ? { "@type": "g:List", "@value": items } : items;
+  }
+
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (version === 2) {
+      return Object.fromEntries(
+        entries.map(([key, item]) => [key, writeGraphSON(item, version)])
+      );
+    }
+    return {
+      "@type": "g:Map",
+      "@value": entries.flatMap(([key, item]) => [
+        key,
+        writeGraphSON(item, version),
+      ]),
+    };
+  }
+
+  return String(value);
+}
@@ -0,0 +1,10 @@
+/**
+ * Shared Gremlin support for the Neptune and Cosmos DB connectors
+ */
+
+export * from "./traversal.js";
+export * from "./graphson.js";
+export * from "./client.js";
+export * from "./script.js";
+export * from "./translator.js";
+export * from "./mapper.js";
@@ -0,0 +1,276 @@
+/**
+ * Map decoded Gremlin results to the QueryScape graph model
+ */
+
+import type {
+  GraphData,
+  GraphEdge,
+  GraphNode,
+  Properties,
+  PropertyValue,
+  QueryPlanOperator,
+} from "@queryscape/core";
+
+import {
+  isGremlinStructure,
+  type GremlinEdge,
+  type GremlinVertex,
+} from "./graphson.js";
+import { EnumValue } from "./traversal.js";
+
+/** Separator Neptune uses for multi-label vertices */
+const MULTI_LABEL_SEPARATOR = "::";
+
+/** Lookup keys for decoded token maps */
+const T_ID = "T.id";
+const T_LABEL = "T.label";
+const DIRECTION_OUT = "Direction.OUT";
+const DIRECTION_IN = "Direction.IN";
+
+/** Collect nodes and edges from Gremlin results */
+export function mapGremlinResults(results: readonly unknown[]): GraphData {
+  const nodeMap = new Map<string, GraphNode>();
+  const edgeMap = new Map<string, GraphEdge>();
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+
+    if (value instanceof Map) {
+      if (isEdgeMap(value)) {
+        const edge = elementMapToEdge(value);
+        edgeMap.set(edge.id, edge);
+      } else if (normalizeKeys(value).has(T_ID)) {
+        const node = valueMapToNode(value);
+        nodeMap.set(node.id, node);
+      }
+      return;
+    }
+
+    if (!isGremlinStructure(value)) return;
+
+    switch (value.kind) {
+      case "vertex": {
+        const node = vertexToNode(value);
+        nodeMap.set(node.id, node);
+        break;
+      }
+      case "edge": {
+        const edge = edgeToGraphEdge(value);
+        edgeMap.set(edge.id, edge);
+        break;
+      }
+      case "path":
+        value.objects.forEach(visit);
+        break;
+    }
+  };
+
+  results.forEach(visit);
+
+  return {
+    nodes: Array.from(nodeMap.values()),
+    edges: Array.from(edgeMap.values()),
+  };
+}
+
+/** Normalize map keys so enum tokens can be looked up by name */
+function normalizeKeys(map: Map<unknown, unknown>): Map<string, unknown> {
+  const normalized = new Map<string, unknown>();
+  for (const [key, value] of map) {
+    normalized.set(
+      key instanceof EnumValue ? key.toString() : String(key),
+      value
+    );
+  }
+  return normalized;
+}
+
+function isEdgeMap(map: Map<unknown, unknown>): boolean {
+  for (const key of map.keys()) {
+    if (key instanceof EnumValue && key.typeName === "Direction") {
+      return true;
+    }
+  }
+  return false;
+}
+
+function splitLabels(label: unknown): string[] {
+  return String(label ?? "")
+    .split(MULTI_LABEL_SEPARATOR)
+    .filter((l) => l.length > 0);
+}
+
+/** Map a valueMap(true) result to a node */
+function valueMapToNode(raw: Map<unknown, unknown>): GraphNode {
+  const map = normalizeKeys(raw);
+  const properties: Properties = {};
+
+  for (const [key, value] of map) {
+    if (key === T_ID || key === T_LABEL) continue;
+    properties[key] = toPropertyValue(unwrapSingle(value));
+  }
+
+  return {
+    id: String(map.get(T_ID)),
+    labels: splitLabels(map.get(T_LABEL)),
+    properties,
+  };
+}
+
+/** Map an elementMap() result to an edge */
+function elementMapToEdge(raw: Map<unknown, unknown>): GraphEdge {
+  const map = normalizeKeys(raw);
+  const properties: Properties = {};
+
+  for (const [key, value] of map) {
+    if (
+      key === T_ID ||
+      key === T_LABEL ||
+      key === DIRECTION_OUT ||
+      key === DIRECTION_IN
+    ) {
+      continue;
+    }
+    properties[key] = toPropertyValue(value);
+  }
+
+  return {
+    id: String(map.get(T_ID)),
+    source: endpointId(map.get(DIRECTION_OUT)),
+    target: endpointId(map.get(DIRECTION_IN)),
+    type: String(map.get(T_LABEL) ?? ""),
+    properties,
+  };
+}
+
+function endpointId(endpoint: unknown): string {
+  if (endpoint instanceof Map) {
+    return String(normalizeKeys(endpoint).get(T_ID));
+  }
+  return String(endpoint);
+}
+
+/** Map a decoded vertex to a node */
+function vertexToNode(vertex: GremlinVertex): GraphNode {
+  const properties: Properties = {};
+
+  for (const [key, values] of Object.entries(vertex.properties)) {
+    const plain = values.map((v) =>
+      isGremlinStructure(v) && v.kind === "vertexProperty" ? v.value : v
+    );
+    properties[key] = toPropertyValue(unwrapSingle(plain));
+  }
+
+  return {
+    id: String(vertex.id),
+    labels: splitLabels(vertex.label),
+    properties,
+  };
+}
+
+/** Map a decoded edge to a graph edge */
+function edgeToGraphEdge(edge: GremlinEdge): GraphEdge {
+  const properties: Properties = {};
+
+  for (const [key, value] of Object.entries(edge.properties)) {
+    properties[key] = toPropertyValue(
+      isGremlinStructure(value) && value.kind === "property"
+        ? value.value
+        : value
+    );
+  }
+
+  return {
+    id: String(edge.id),
+    source: String(edge.outV),
+    target: String(edge.inV),
+    type: edge.label,
+    properties,
+  };
+}
+
+/** Single-valued properties arrive as one-element lists */
+function unwrapSingle(value: unknown): unknown {
+  return Array.isArray(value) && value.length === 1 ? value[0] : value;
+}
+
+/** Convert a decoded value to a property value */
+export function toPropertyValue(value: unknown): PropertyValue {
+  if (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+  if (value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPropertyValue);
+  }
+  if (value instanceof EnumValue) {
+    return value.toString();
+  }
+  if (value instanceof Map) {
+    const result: Record<string, PropertyValue> = {};
+    for (const [key, item] of value) {
+      result[String(key)] = toPropertyValue(item);
+    }
+    return result;
+  }
+  if (isGremlinStructure(value)) {
+    return "value" in value ? toPropertyValue(value.value) : String(value.kind);
+  }
+  if (typeof value === "object") {
+    const result: Record<string, PropertyValue> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = toPropertyValue(item);
+    }
+    return result;
+  }
+  return String(value);
+}
+
+/**
+ * Map the result of the explain() step (a TraversalExplanation) to a plan: the
+ * final traversal, with the strategies applied to it as children
+ */
+export function mapTraversalExplanation(
+  value: unknown
+): QueryPlanOperator | null {
+  const explanation = asRecord(toPropertyValue(value));
+  if (!explanation) {
+    return null;
+  }
+
+  const intermediate = explanation["intermediate"];
+  return {
+    operator: "Traversal",
+    details: {
+      original: explanation["original"] ?? null,
+      final: explanation["final"] ?? null,
+    },
+    children: (Array.isArray(intermediate) ? intermediate : []).map((item) => {
+      const step = asRecord(item) ?? {};
+      return {
+        operator: String(step["strategy"] ?? "Strategy"),
+        details: {
+          category: step["category"] ?? null,
+          traversal: step["traversal"] ?? null,
+        },
+        children: [],
+      };
+    }),
+  };
+}
+
+function asRecord(value: PropertyValue): Record<string, PropertyValue> | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? value
+    : null;
+}
@@ -0,0 +1,82 @@
+/**
+ * Render traversals as parameterized Gremlin scripts
+ * For servers without bytecode support (e.g. Cosmos DB). Strings and other
+ * user-supplied values are always passed as bindings, never inlined.
+ */
+
+import type { PropertyValue } from "@queryscape/core";
+
+import {
+  EnumValue,
+  GremlinTraversal,
+  Predicate,
+  type GremlinArgument,
+  type GremlinStep,
+} from "./traversal.js";
+
+/** Script text with its parameter bindings */
+export interface GremlinScript {
+  readonly script: string;
+  readonly bindings: Record<string, PropertyValue>;
+  /** Property key each bound value is compared with or written to */
+  readonly propertyKeys: Record<string, string>;
+}
+
+/** Steps whose first argument is a property key and the rest its values */
+const PROPERTY_STEPS = new Set(["has", "property"]);
+
+/** Render a traversal as script text with bindings */
+export function toGremlinScript(traversal: GremlinTraversal): GremlinScript {
+  const bindings: Record<string, PropertyValue> = {};
+  const propertyKeys: Record<string, string> = {};
+  let next = 0;
+
+  const bind = (value: PropertyValue, key?: string): string => {
+    const name = `p${next++}`;
+    bindings[name] = value;
+    if (key !== undefined) propertyKeys[name] = key;
+    return name;
+  };
+
+  const renderArgument = (arg: GremlinArgument, key?: string): string => {
+    if (arg instanceof GremlinTraversal) {
+      return renderTraversal(arg);
+    }
+    if (arg instanceof EnumValue) {
+      return arg.toString();
+    }
+    if (arg instanceof Predicate) {
+      return `${arg.typeName}.${arg.operator}(${renderArgument(arg.value, key)})`;
+    }
+    if (arg === null) {
+      return "null";
+    }
+    if (typeof arg === "boolean") {
+      return String(arg);
+    }
+    if (typeof arg === "number" && Number.isFinite(arg)) {
+      return String(arg);
+    }
+    if (Array.isArray(arg)) {
+      return `[${arg.map((a) => renderArgument(a, key)).join(", ")}]`;
+    }
+    return bind(arg, key);
+  };
+
+  const renderStep = ({ name, args }: GremlinStep): string => {
+    const [first] = args;
+    const key =
+      PROPERTY_STEPS.has(name) && args.length > 1 && typeof first === "string"
+        ? first
+        : undefined;
+    const rendered = args.map((arg, i) =>
+      renderArgument(arg, i > 0 ? key : undefined)
+    );
+    return `${name}(${rendered.join(", ")})`;
+  };
+
+  const renderTraversal = (t: GremlinTraversal): string =>
+    [t.source, ...t.getSteps().map(renderStep)].join(".");
+
+  return { script: renderTraversal(traversal), bindings, propertyKeys };
+}
@@ -0,0 +1,349 @@
+/**
+ * Translate QueryScape queries into Gremlin traversals
+ */
+
+import type {
+  Direction,
+  FilterExpression,
+  LabelFilter,
+  NodeId,
+  PatternNode,
+  PatternQuery,
+  PropertyFilter,
+  Query,
+} from "@queryscape/core";
+import { QueryNotSupportedError } from "@queryscape/core";
+
+import { nextOffsetCursor, pageOffset } from "../pagination.js";
+import { planPattern, type PatternStep } from "../pattern.js";
+
+import {
+  __,
+  g,
+  P,
+  TextP,
+  type GremlinArgument,
+  type GremlinTraversal,
+  type Predicate,
+} from "./traversal.js";
+
+/** Translation options */
+export interface GremlinTranslationOptions {
+  /**
+   * Project vertices with valueMap(true) and edges with elementMap().
+   * Needed for servers that return element references without properties.
+   */
+  readonly projectElements: boolean;
+  /** Limit used when a query has no pagination (default 100) */
+  readonly defaultLimit?: number;
+  /**
+   * Argument used to look up a start vertex by ID
+   * (e.g. a [partitionKey, id] pair for Cosmos DB point reads)
+   */
+  readonly vertexId?: (nodeId: NodeId) => GremlinArgument;
+}
+
+/** Translate a query into a Gremlin traversal */
+export function translateToGremlin(
+  query: Query,
+  options: GremlinTranslationOptions
+): GremlinTraversal {
+  const limit = gremlinLimit(query, options);
+  const offset = pageOffset(query);
+  // Later pages skip the results already returned
+  const page = (traversal: GremlinTraversal): GremlinTraversal =>
+    offset > 0
+      ? traversal.range(offset, offset + limit)
+      : traversal.limit(limit);
+  const vertexId = options.vertexId ?? ((nodeId: NodeId) => nodeId);
+
+  switch (query.type) {
+    case "getNode":
+      return projectVertices(g().V(vertexId(query.nodeId)), options);
+
+    case "getNeighbors": {
+      const traversal = g().V(vertexId(query.nodeId));
+      hop(traversal, query.direction, query.edgeTypes);
+      return projectPath(page(traversal).path(), options);
+    }
+
+    case "findNodes": {
+      rejectFilterExpression(query.filter);
+      const traversal = g().V(...(query.nodeIds ?? []).map(vertexId));
+      applyLabelFilter(traversal, query.labelFilter);
+      for (const filter of query.propertyFilters ?? []) {
+        traversal.has(filter.key, toPredicate(filter));
+      }
+      return projectVertices(page(traversal), options);
+    }
+
+    case "findEdges": {
+      rejectFilterExpression(query.filter);
+      // Start from the source vertex when known (a point read on Cosmos DB)
+      const traversal =
+        query.sourceId !== undefined
+          ? g()
+              .V(vertexId(query.sourceId))
+              .outE(...(query.edgeTypes ?? []))
+          : g().E(...(query.edgeIds ?? []));
+      if (query.sourceId === undefined && query.edgeTypes?.length) {
+        traversal.hasLabel(...query.edgeTypes);
+      }
+      if (query.sourceId !== undefined && query.edgeIds?.length) {
+        traversal.hasId(...query.edgeIds);
+      }
+      if (query.targetId !== undefined) {
+        traversal.where(__().inV().hasId(query.targetId));
+      }
+      return projectEdges(page(traversal), options);
+    }
+
+    case "findPath": {
+      // Breadth-first search bounded by times(); emit() keeps only paths
+      // reaching the target (avoids loops(), which not every server supports)
+      const step = hop(__(), "both", query.edgeTypes).simplePath();
+      const traversal = g()
+        .V(vertexId(query.sourceId))
+        .repeat(step)
+        .emit(__().hasId(query.targetId))
+        .times(query.maxLength ?? 10)
+        .hasId(query.targetId)
+        .limit(1)
+        .path();
+      return projectPath(traversal, options);
+    }
+
+    case "expandNode": {
+      const step = hop(__(), query.direction, query.edgeTypes);
+      if (query.nodeLabels?.length) {
+        step.hasLabel(...query.nodeLabels);
+      }
+      const traversal = g()
+        .V(vertexId(query.nodeId))
+        .repeat(step.simplePath())
+        .emit()
+        .times(query.depth ?? 1);
+      return projectPath(page(traversal).path(), options);
+    }
+
+    case "pattern":
+      return projectPatternPath(
+        page(translatePattern(query, vertexId)).path(),
+        options
+      );
+
+    default:
+      throw new QueryNotSupportedError(
+        `Query type '${query.type}' cannot be translated to Gremlin`,
+        query.type
+      );
+  }
+}
+
+/**
+ * Walk a pattern along its plan. Node variable i is labeled `n<i>` and edge
+ * j `r<j>`; where() keeps required edges distinct and checks that edges
+ * closing a cycle end at the bound node. Optional edges run in optional().
+ */
+function translatePattern(
+  query: PatternQuery,
+  vertexId: (nodeId: NodeId) => GremlinArgument
+): GremlinTraversal {
+  for (const element of [...query.nodes, ...(query.edges ?? [])]) {
+    rejectFilterExpression(element.filter);
+  }
+  const plan = planPattern(query);
+  const labels = new Map(query.nodes.map((n, i) => [n.variable, `n${i}`]));
+  const label = (variable: string): string => labels.get(variable)!;
+
+  // Follow one edge from the current traverser and label both ends
+  const walk = (
+    traversal: GremlinTraversal,
+    step: PatternStep,
+    distinctFrom: readonly string[] = []
+  ): GremlinTraversal => {
+    const types = step.edge.types ?? [];
+    if (step.outgoing) traversal.outE(...types);
+    else traversal.inE(...types);
+    applyPropertyFilters(traversal, step.edge.propertyFilters);
+    for (const edge of distinctFrom) traversal.where(P.neq(edge));
+    traversal.as(`r${step.index}`);
+    if (step.outgoing) traversal.inV();
+    else traversal.outV();
+
+    if (!step.binds) return traversal.where(P.eq(label(step.to)));
+    applyPatternNode(traversal, plan.nodes.get(step.to)!);
+    return traversal.as(label(step.to));
+  };
+
+  const { start } = plan;
+  const traversal =
+    start.nodeId !== undefined ? g().V(vertexId(start.nodeId)) : g().V();
+  applyPatternNode(traversal, { ...start, nodeId: undefined });
+  traversal.as(label(start.variable));
+
+  let current = start.variable;
+  const walked: string[] = [];
+  for (const step of plan.steps) {
+    if (step.from !== current) traversal.select(label(step.from));
+    walk(traversal, step, walked);
+    walked.push(`r${step.index}`);
+    current = step.to;
+  }
+
+  for (const step of plan.optionalSteps) {
+    traversal.optional(walk(__().select(label(step.from)), step));
+  }
+
+  return traversal;
+}
+
+function applyPatternNode(
+  traversal: GremlinTraversal,
+  node: PatternNode
+): void {
+  if (node.nodeId !== undefined) traversal.hasId(node.nodeId);
+  for (const label of node.labels ?? []) traversal.hasLabel(label);
+  applyPropertyFilters(traversal, node.propertyFilters);
+}
+
+function applyPropertyFilters(
+  traversal: GremlinTraversal,
+  filters: readonly PropertyFilter[] | undefined
+): void {
+  for (const filter of filters ?? []) {
+    traversal.has(filter.key, toPredicate(filter));
+  }
+}
+
+/** Filter expressions are only supported by the Neo4j and mock connectors */
+function rejectFilterExpression(filter: FilterExpression | undefined): void {
+  if (filter) {
+    throw new QueryNotSupportedError(
+      "Filter expressions cannot be translated to Gremlin",
+      "filter"
+    );
+  }
+}
+
+/** Cursor for the page after a full page of a paged query type */
+export function nextGremlinCursor(
+  query: Query,
+  returned: number,
+  options: GremlinTranslationOptions
+): string | null {
+  switch (query.type) {
+    case "getNeighbors":
+    case "findNodes":
+    case "findEdges":
+    case "expandNode":
+    case "pattern":
+      return nextOffsetCursor(
+        query,
+        pageOffset(query),
+        returned,
+        gremlinLimit(query, options)
+      );
+    default:
+      return null;
+  }
+}
+
+/** Page size a translated query is limited to */
+export function gremlinLimit(
+  query: Query,
+  options: GremlinTranslationOptions
+): number {
+  return query.pagination?.limit ?? options.defaultLimit ?? 100;
+}
+
+/** Append a single edge hop in the given direction */
+function hop(
+  traversal: GremlinTraversal,
+  direction: Direction,
+  edgeTypes?: readonly string[]
+): GremlinTraversal {
+  const types = edgeTypes ?? [];
+  switch (direction) {
+    case "outgoing":
+      return traversal.outE(...types).inV();
+    case "incoming":
+      return traversal.inE(...types).outV();
+    default:
+      return traversal.bothE(...types).otherV();
+  }
+}
+
+function applyLabelFilter(
+  traversal: GremlinTraversal,
+  labelFilter?: LabelFilter
+): void {
+  if (!labelFilter?.labels.length) return;
+
+  if (labelFilter.mode === "all") {
+    for (const label of labelFilter.labels) {
+      traversal.hasLabel(label);
+    }
+  } else {
+    traversal.hasLabel(...labelFilter.labels);
+  }
+}
+
+/** Map a property filter to a Gremlin predicate */
+function toPredicate(filter: PropertyFilter): Predicate {
+  switch (filter.op) {
+    case "eq":
+      return P.eq(filter.value);
+    case "neq":
+      return P.neq(filter.value);
+    case "gt":
+      return P.gt(filter.value);
+    case "gte":
+      return P.gte(filter.value);
+    case "lt":
+      return P.lt(filter.value);
+    case "lte":
+      return P.lte(filter.value);
+    case "contains":
+      return TextP.containing(String(filter.value));
+    case "startsWith":
+      return TextP.startingWith(String(filter.value));
+    case "endsWith":
+      return TextP.endingWith(String(filter.value));
+  }
+}
+
+function projectVertices(
+  traversal: GremlinTraversal,
+  options: GremlinTranslationOptions
+): GremlinTraversal {
+  return options.projectElements ? traversal.valueMap(true) : traversal;
+}
+
+function projectEdges(
+  traversal: GremlinTraversal,
+  options: GremlinTranslationOptions
+): GremlinTraversal {
+  return options.projectElements ? traversal.elementMap() : traversal;
+}
+
+/**
+ * Project pattern paths. select() revisits vertices, so vertices and edges do
+ * not alternate and one elementMap() modulator projects both.
+ */
+function projectPatternPath(
+  traversal: GremlinTraversal,
+  options: GremlinTranslationOptions
+): GremlinTraversal {
+  return options.projectElements ? traversal.by(__().elementMap()) : traversal;
+}
+
+/** Project path objects; by() modulators alternate vertex, edge, vertex... */
+function projectPath(
+  traversal: GremlinTraversal,
+  options: GremlinTranslationOptions
+): GremlinTraversal {
+  return options.projectElements
+    ? traversal.by(__().valueMap(true)).by(__().elementMap())
+    : traversal;
+}
@@ -0,0 +1,211 @@
+/**
+ * Gremlin traversal model
+ * Traversals are recorded as steps with typed arguments so that values are
+ * always sent as parameters and never spliced into query text.
+ */
+
+import type { PropertyValue } from "@queryscape/core";
+
+/** Gremlin enum value (e.g. T.id, Direction.OUT) */
+export class EnumValue {
+  constructor(
+    readonly typeName: string,
+    readonly elementName: string
+  ) {}
+
+  toString(): string {
+    return `${this.typeName}.${this.elementName}`;
+  }
+}
+
+/** Gremlin predicate (P or TextP) */
+export class Predicate {
+  constructor(
+    readonly typeName: "P" | "TextP",
+    readonly operator: string,
+    readonly value: GremlinArgument
+  ) {}
+}
+
+/** Argument accepted by a traversal step */
+export type GremlinArgument =
+  | PropertyValue
+  | EnumValue
+  | Predicate
+  | GremlinTraversal;
+
+/** Single traversal step */
+export interface GremlinStep {
+  readonly name: string;
+  readonly args: readonly GremlinArgument[];
+}
+
+/** Element tokens */
+export const T = {
+  id: new EnumValue("T", "id"),
+  label: new EnumValue("T", "label"),
+} as const;
+
+/** Comparison predicates */
+export const P = {
+  eq: (value: GremlinArgument) => new Predicate("P", "eq", value),
+  neq: (value: GremlinArgument) => new Predicate("P", "neq", value),
+  gt: (value: GremlinArgument) => new Predicate("P", "gt", value),
+  gte: (value: GremlinArgument) => new Predicate("P", "gte", value),
+  lt: (value: GremlinArgument) => new Predicate("P", "lt", value),
+  lte: (value: GremlinArgument) => new Predicate("P", "lte", value),
+  within: (values: PropertyValue[]) => new Predicate("P", "within", values),
+} as const;
+
+/** Text predicates */
+export const TextP = {
+  containing: (value: string) => new Predicate("TextP", "containing", value),
+  startingWith: (value: string) =>
+    new Predicate("TextP", "startingWith", value),
+  endingWith: (value: string) => new Predicate("TextP", "endingWith", value),
+} as const;
+
+/** Recorded Gremlin traversal */
+export class GremlinTraversal {
+  private readonly steps: GremlinStep[] = [];
+
+  constructor(readonly source: "g" | "__") {}
+
+  /** Append an arbitrary step */
+  step(name: string, ...args: GremlinArgument[]): this {
+    this.steps.push({ name, args });
+    return this;
+  }
+
+  /** Get recorded steps */
+  getSteps(): readonly GremlinStep[] {
+    return this.steps;
+  }
+
+  V(...ids: GremlinArgument[]): this {
+    return this.step("V", ...ids);
+  }
+
+  E(...ids: GremlinArgument[]): this {
+    return this.step("E", ...ids);
+  }
+
+  has(key: string, predicate: GremlinArgument): this {
+    return this.step("has", key, predicate);
+  }
+
+  hasId(...ids: GremlinArgument[]): this {
+    return this.step("hasId", ...ids);
+  }
+
+  hasLabel(...labels: string[]): this {
+    return this.step("hasLabel", ...labels);
+  }
+
+  outE(...edgeTypes: string[]): this {
+    return this.step("outE", ...edgeTypes);
+  }
+
+  inE(...edgeTypes: string[]): this {
+    return this.step("inE", ...edgeTypes);
+  }
+
+  bothE(...edgeTypes: string[]): this {
+    return this.step("bothE", ...edgeTypes);
+  }
+
+  inV(): this {
+    return this.step("inV");
+  }
+
+  outV(): this {
+    return this.step("outV");
+  }
+
+  otherV(): this {
+    return this.step("otherV");
+  }
+
+  repeat(traversal: GremlinTraversal): this {
+    return this.step("repeat", traversal);
+  }
+
+  until(traversal: GremlinTraversal): this {
+    return this.step("until", traversal);
+  }
+
+  emit(traversal?: GremlinTraversal): this {
+    return traversal ? this.step("emit", traversal) : this.step("emit");
+  }
+
+  times(count: number): this {
+    return this.step("times", count);
+  }
+
+  loops(): this {
+    return this.step("loops");
+  }
+
+  is(value: GremlinArgument): this {
+    return this.step("is", value);
+  }
+
+  or(...traversals: GremlinTraversal[]): this {
+    return this.step("or", ...traversals);
+  }
+
+  /** Filter by a child traversal, or compare with a step label (P.eq("a")) */
+  where(condition: GremlinTraversal | Predicate): this {
+    return this.step("where", condition);
+  }
+
+  as(label: string): this {
+    return this.step("as", label);
+  }
+
+  select(label: string): this {
+    return this.step("select", label);
+  }
+
+  optional(traversal: GremlinTraversal): this {
+    return this.step("optional", traversal);
+  }
+
+  simplePath(): this {
+    return this.step("simplePath");
+  }
+
+  limit(count: number): this {
+    return this.step("limit", count);
+  }
+
+  range(low: number, high: number): this {
+    return this.step("range", low, high);
+  }
+
+  path(): this {
+    return this.step("path");
+  }
+
+  by(traversal?: GremlinTraversal): this {
+    return traversal ? this.step("by", traversal) : this.step("by");
+  }
+
+  valueMap(includeTokens: boolean): this {
+    return this.step("valueMap", includeTokens);
+  }
+
+  elementMap(): this {
+    return this.step("elementMap");
+  }
+}
+
+/** Start a traversal from the graph traversal source */
+export function g(): GremlinTraversal {
+  return new GremlinTraversal("g");
+}
+
+/** Start an anonymous (child) traversal */
+export function __(): GremlinTraversal {
+  return new GremlinTraversal("__");
+}
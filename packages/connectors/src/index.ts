@@ -3,8 +3,13 @@
  */
 
 export * from "./interface.js";
+export * from "./pagination.js";
+export * from "./pattern.js";
+export * from "./schema.js";
+export * from "./explain.js";
 export * from "./mock/index.js";
 export * from "./neo4j/index.js";
 export * from "./neptune/index.js";
 export * from "./cosmos-gremlin/index.js";
 export * from "./stardog-sparql/index.js";
+export * from "./sparql/index.js";
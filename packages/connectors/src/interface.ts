@@ -3,14 +3,21 @@
  */
 
 import type {
+  ExecuteOptions,
+  ExplainOptions,
+  GraphSchema,
   Query,
+  QueryExplanation,
   QueryType,
   QueryResult,
+  SchemaOptions,
 } from "@queryscape/core";
 import {
   ConnectionError,
   AuthError,
   QueryError,
+  QueryCancelledError,
+  QueryTimeoutError,
   QueryNotSupportedError,
   ValidationError,
 } from "@queryscape/core";
@@ -20,6 +27,8 @@ export {
   ConnectionError,
   AuthError,
   QueryError,
+  QueryCancelledError,
+  QueryTimeoutError,
   QueryNotSupportedError,
   ValidationError,
 };
@@ -36,6 +45,10 @@ export interface ConnectorCapabilities {
   readonly supportsPagination: boolean;
   /** Supports raw queries (requires explicit unsafe mode) */
   readonly supportsRawQueries: boolean;
+  /** Supports schema statistics (getSchema) */
+  readonly supportsSchema: boolean;
+  /** Supports query explanation (explain) */
+  readonly supportsExplain: boolean;
   /** Maximum page size */
   readonly maxPageSize: number;
 }
@@ -63,8 +76,17 @@ export interface Connector {
   /** Check if connected */
   isConnected(): boolean;
 
-  /** Execute a query */
-  executeQuery(query: Query): Promise<QueryResult>;
+  /**
+   * Execute a query. Aborting options.signal, or exceeding the query's
+   * timeoutMs, rejects with QueryCancelledError.
+   */
+  executeQuery(query: Query, options?: ExecuteOptions): Promise<QueryResult>;
+
+  /** Get label, edge type and property statistics */
+  getSchema(options?: SchemaOptions): Promise<GraphSchema>;
+
+  /** Get the native statements for a query without running it */
+  explain(query: Query, options?: ExplainOptions): Promise<QueryExplanation>;
 
   /** Test connection */
   testConnection(): Promise<boolean>;
@@ -94,7 +116,29 @@ export abstract class BaseConnector implements Connector {
     return this.connected;
   }
 
-  abstract executeQuery(query: Query): Promise<QueryResult>;
+  abstract executeQuery(
+    query: Query,
+    options?: ExecuteOptions
+  ): Promise<QueryResult>;
+
+  /** Connectors that support schema statistics override this */
+  async getSchema(_options?: SchemaOptions): Promise<GraphSchema> {
+    throw new QueryNotSupportedError(
+      `Schema statistics are not supported by ${this.getCapabilities().connectorType}`,
+      "schema"
+    );
+  }
+
+  /** Connectors that support query explanation override this */
+  async explain(
+    _query: Query,
+    _options?: ExplainOptions
+  ): Promise<QueryExplanation> {
+    throw new QueryNotSupportedError(
+      `Query explanation is not supported by ${this.getCapabilities().connectorType}`,
+      "explain"
+    );
+  }
 
   async testConnection(): Promise<boolean> {
     try {
@@ -0,0 +1,55 @@
+import type { Query } from "@queryscape/core";
+import { QueryCancelledError, QueryTimeoutError } from "@queryscape/core";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MockConnector } from "./index";
+
+const QUERY: Query = {
+  type: "findNodes",
+  labelFilter: { labels: ["Person"], mode: "any" },
+};
+
+describe("MockConnector cancellation", () => {
+  let connector: MockConnector;
+
+  beforeEach(async () => {
+    connector = new MockConnector({ latencyMs: 200 });
+    await connector.connect();
+  });
+
+  it("should stop the latency timer when the signal aborts", async () => {
+    const controller = new AbortController();
+    const startTime = Date.now();
+
+    const pending = connector.executeQuery(QUERY, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(Date.now() - startTime).toBeLessThan(200);
+  });
+
+  it("should reject an already aborted signal", async () => {
+    await expect(
+      connector.executeQuery(QUERY, { signal: AbortSignal.abort() })
+    ).rejects.toThrow("Query 'findNodes' was cancelled");
+  });
+
+  it("should time out after the query's timeoutMs", async () => {
+    await expect(
+      connector.executeQuery({ ...QUERY, timeoutMs: 5 })
+    ).rejects.toBeInstanceOf(QueryTimeoutError);
+  });
+
+  it("should answer normally without a signal or timeout", async () => {
+    const fast = new MockConnector();
+    await fast.connect();
+
+    const result = await fast.executeQuery(QUERY, {
+      signal: new AbortController().signal,
+    });
+
+    expect(result.data.nodes.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,173 @@
+import type { FilterExpression, GraphData } from "@queryscape/core";
+import { ValidationError } from "@queryscape/core";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { MockConnector } from "./index";
+
+const DATA: GraphData = {
+  nodes: [
+    {
+      id: "alice",
+      labels: ["Person", "Employee"],
+      properties: { name: "Alice", age: 30, email: "alice@acme.io" },
+    },
+    { id: "bob", labels: ["Person"], properties: { name: "Bob", age: 25 } },
+    {
+      id: "carol",
+      labels: ["Person", "Employee"],
+      properties: { name: "Carol", age: "40", email: null },
+    },
+    { id: "acme", labels: ["Company"], properties: { name: "Acme" } },
+  ],
+  edges: [
+    {
+      id: "e1",
+      source: "alice",
+      target: "acme",
+      type: "WORKS_AT",
+      properties: { since: 2019 },
+    },
+    {
+      id: "e2",
+      source: "carol",
+      target: "acme",
+      type: "WORKS_AT",
+      properties: { since: 2023 },
+    },
+    {
+      id: "e3",
+      source: "alice",
+      target: "bob",
+      type: "KNOWS",
+      properties: {},
+    },
+  ],
+};
+
+const CASES: readonly {
+  name: string;
+  filter: FilterExpression;
+  expected: string[];
+}[] = [
+  {
+    name: "or of labels",
+    filter: {
+      op: "or",
+      filters: [
+        { op: "hasLabel", label: "Company" },
+        { op: "eq", key: "name", value: "Bob" },
+      ],
+    },
+    expected: ["acme", "bob"],
+  },
+  {
+    name: "nested groups",
+    filter: {
+      op: "and",
+      filters: [
+        { op: "hasLabel", label: "Person" },
+        {
+          op: "or",
+          filters: [
+            { op: "lt", key: "age", value: 28 },
+            { op: "startsWith", key: "email", value: "alice" },
+          ],
+        },
+      ],
+    },
+    expected: ["alice", "bob"],
+  },
+  {
+    name: "not of a missing property is unknown",
+    filter: { op: "not", filter: { op: "gt", key: "age", value: 26 } },
+    expected: ["bob"],
+  },
+  {
+    name: "in",
+    filter: { op: "in", key: "name", values: ["Alice", "Acme", "Zed"] },
+    expected: ["acme", "alice"],
+  },
+  {
+    name: "notIn skips missing properties",
+    filter: { op: "notIn", key: "age", values: [30] },
+    expected: ["bob", "carol"],
+  },
+  {
+    name: "exists treats null as missing",
+    filter: { op: "exists", key: "email" },
+    expected: ["alice"],
+  },
+  {
+    name: "isNull",
+    filter: { op: "isNull", key: "email" },
+    expected: ["acme", "bob", "carol"],
+  },
+  {
+    name: "matches the whole value",
+    filter: { op: "matches", key: "name", pattern: "a.*" },
+    expected: [],
+  },
+  {
+    name: "matches case-insensitively",
+    filter: {
+      op: "matches",
+      key: "name",
+      pattern: "a.*",
+      caseInsensitive: true,
+    },
+    expected: ["acme", "alice"],
+  },
+  {
+    name: "between is inclusive and typed",
+    filter: { op: "between", key: "age", min: 25, max: 30 },
+    expected: ["alice", "bob"],
+  },
+];
+
+describe("MockConnector filter expressions", () => {
+  const connector = new MockConnector({ data: DATA });
+
+  beforeAll(async () => {
+    await connector.connect();
+  });
+
+  it.each(CASES)("$name", async ({ filter, expected }) => {
+    const result = await connector.executeQuery({ type: "findNodes", filter });
+
+    expect(result.data.nodes.map((n) => n.id).sort()).toEqual(expected);
+  });
+
+  it("should combine the filter with label and property filters", async () => {
+    const result = await connector.executeQuery({
+      type: "findNodes",
+      labelFilter: { labels: ["Employee"], mode: "any" },
+      filter: { op: "not", filter: { op: "eq", key: "name", value: "Alice" } },
+    });
+
+    expect(result.data.nodes.map((n) => n.id)).toEqual(["carol"]);
+  });
+
+  it("should filter edges by type and properties", async () => {
+    const result = await connector.executeQuery({
+      type: "findEdges",
+      filter: {
+        op: "and",
+        filters: [
+          { op: "hasLabel", label: "WORKS_AT" },
+          { op: "gte", key: "since", value: 2020 },
+        ],
+      },
+    });
+
+    expect(result.data.edges.map((e) => e.id)).toEqual(["e2"]);
+  });
+
+  it("should reject invalid filters", async () => {
+    await expect(
+      connector.executeQuery({
+        type: "findNodes",
+        filter: { op: "matches", key: "name", pattern: "(" },
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import type {
+  ExecuteOptions,
   Query,
   QueryResult,
   GraphData,
@@ -10,6 +11,23 @@ import type {
   GraphEdge,
   NodeId,
   Direction,
+  FindEdgesQuery,
+  FilterExpression,
+  FilterValue,
+  GraphSchema,
+  LabelFilter,
+  PatternEdge,
+  PatternNode,
+  PatternQuery,
+  Properties,
+  PropertyFilter,
+  PropertyValue,
+  SchemaOptions,
+} from "@queryscape/core";
+import {
+  querySignal,
+  throwIfCancelled,
+  validateFilter,
 } from "@queryscape/core";
 
 import {
@@ -17,6 +35,9 @@ import {
   type ConnectorCapabilities,
   type BaseConnectorConfig,
 } from "../interface.js";
+import { nextOffsetCursor, pageOffset } from "../pagination.js";
+import { planPattern, type PatternStep } from "../pattern.js";
+import { computeGraphSchema, validateSchemaOptions } from "../schema.js";
 
 /** Mock data generator options */
 export interface MockDataOptions {
@@ -63,7 +84,9 @@ class SeededRandom {
 }
 
 /** Generate mock graph data */
-export function generateMockData(options: Partial<MockDataOptions> = {}): GraphData {
+export function generateMockData(
+  options: Partial<MockDataOptions> = {}
+): GraphData {
   const opts = { ...DEFAULT_MOCK_OPTIONS, ...options };
   const random = new SeededRandom(opts.seed ?? Date.now());
 
@@ -78,7 +101,9 @@ export function generateMockData(options: Partial<MockDataOptions> = {}): GraphD
       labels: [label],
       properties: {
         name: `${label} ${i}`,
-        created: new Date(Date.now() - random.nextInt(365 * 24 * 60 * 60 * 1000)).toISOString(),
+        created: new Date(
+          Date.now() - random.nextInt(365 * 24 * 60 * 60 * 1000)
+        ).toISOString(),
         score: random.next(),
         active: random.next() > 0.3,
       },
@@ -107,7 +132,9 @@ export function generateMockData(options: Partial<MockDataOptions> = {}): GraphD
       type: edgeType,
       properties: {
         weight: random.next(),
-        since: new Date(Date.now() - random.nextInt(365 * 24 * 60 * 60 * 1000)).toISOString(),
+        since: new Date(
+          Date.now() - random.nextInt(365 * 24 * 60 * 60 * 1000)
+        ).toISOString(),
       },
     });
   }
@@ -161,14 +188,18 @@ export class MockConnector extends BaseConnector {
         "getNode",
         "getNeighbors",
         "findNodes",
+        "findEdges",
         "findPath",
         "expandNode",
         "search",
         "sample",
+        "pattern",
       ],
       supportsFullTextSearch: true,
       supportsPagination: true,
       supportsRawQueries: false,
+      supportsSchema: true,
+      supportsExplain: false,
       maxPageSize: 500,
     };
   }
@@ -183,51 +214,104 @@ export class MockConnector extends BaseConnector {
     this.connected = false;
   }
 
-  async executeQuery(query: Query): Promise<QueryResult> {
+  async executeQuery(
+    query: Query,
+    options: ExecuteOptions = {}
+  ): Promise<QueryResult> {
     this.ensureConnected();
     this.checkQuerySupported(query.type);
 
     const startTime = Date.now();
-    await this.simulateLatency();
+    const signal = querySignal(query, options.signal);
+    throwIfCancelled(signal, query);
+    await this.simulateLatency(signal);
+    throwIfCancelled(signal, query);
 
     let result: GraphData;
+    let cursor: string | null = null;
 
     switch (query.type) {
       case "getNode":
         result = this.handleGetNode(query.nodeId);
         break;
-      case "getNeighbors":
-        result = this.handleGetNeighbors(
-          query.nodeId,
-          query.direction,
-          query.edgeTypes,
-          query.pagination?.limit
+      case "getNeighbors": {
+        const page = this.page(
+          query,
+          this.neighborEdges(query.nodeId, query.direction, query.edgeTypes)
         );
+        result = this.withEndpoints(page.items);
+        cursor = page.cursor;
         break;
-      case "findNodes":
-        result = this.handleFindNodes(
-          query.labelFilter,
-          query.propertyFilters,
-          query.pagination?.limit
+      }
+      case "findNodes": {
+        const page = this.page(
+          query,
+          this.handleFindNodes(
+            query.labelFilter,
+            query.propertyFilters,
+            query.nodeIds,
+            query.filter
+          )
         );
+        result = { nodes: page.items, edges: [] };
+        cursor = page.cursor;
         break;
+      }
+      case "findEdges": {
+        const page = this.page(query, this.handleFindEdges(query));
+        result = this.withEndpoints(page.items);
+        cursor = page.cursor;
+        break;
+      }
       case "expandNode":
         result = this.handleExpandNode(
           query.nodeId,
           query.direction,
           query.depth ?? 1,
-          query.pagination?.limit
+          query.pagination?.limit,
+          query.edgeTypes,
+          query.nodeLabels
         );
         break;
-      case "search":
-        result = this.handleSearch(query.text, query.labels, query.pagination?.limit);
+      case "search": {
+        const page = this.page(
+          query,
+          this.handleSearch(query.text, query.labels, query.caseSensitive)
+        );
+        result = { nodes: page.items, edges: [] };
+        cursor = page.cursor;
         break;
+      }
       case "sample":
-        result = this.handleSample(query.strategy, query.count, query.startNodeId);
+        result = this.handleSample(
+          query.strategy,
+          query.count,
+          query.startNodeId
+        );
         break;
       case "findPath":
-        result = this.handleFindPath(query.sourceId, query.targetId, query.maxLength);
+        result = this.handleFindPath(
+          query.sourceId,
+          query.targetId,
+          query.maxLength,
+          query.edgeTypes,
+          query.shortestOnly
+        );
+        break;
+      case "pattern": {
+        // One match past the page tells whether another page exists
+        const limit = query.pagination?.limit;
+        const page = this.page(
+          query,
+          this.handlePattern(
+            query,
+            limit ? pageOffset(query) + limit + 1 : Infinity
+          )
+        );
+        result = mergeMatches(page.items);
+        cursor = page.cursor;
         break;
+      }
       default:
         result = { nodes: [], edges: [] };
     }
@@ -239,16 +323,51 @@ export class MockConnector extends BaseConnector {
       metadata: {
         executionTimeMs,
         totalAvailable: null,
-        truncated: false,
-        cursor: null,
+        truncated: cursor !== null,
+        cursor,
       },
     };
   }
 
-  private async simulateLatency(): Promise<void> {
-    if (this.latencyMs > 0) {
-      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
-    }
+  /** Exact statistics of the whole graph; sampleSize limits property stats */
+  async getSchema(options: SchemaOptions = {}): Promise<GraphSchema> {
+    this.ensureConnected();
+    validateSchemaOptions(options);
+    await this.simulateLatency();
+    return computeGraphSchema(this.data, options);
+  }
+
+  /** Slice the requested page, with an offset cursor when more remain */
+  private page<T>(
+    query: Query,
+    items: readonly T[]
+  ): { items: T[]; cursor: string | null } {
+    const offset = pageOffset(query);
+    const limit = query.pagination?.limit;
+    if (!limit) return { items: items.slice(offset), cursor: null };
+
+    const page = items.slice(offset, offset + limit);
+    return {
+      items: page,
+      cursor:
+        offset + limit < items.length
+          ? nextOffsetCursor(query, offset, page.length, limit)
+          : null,
+    };
+  }
+
+  /** Wait latencyMs; an aborted signal clears the timer and resolves early */
+  private async simulateLatency(signal?: AbortSignal): Promise<void> {
+    if (this.latencyMs <= 0 || signal?.aborted) return;
+    await new Promise<void>((resolve) => {
+      const done = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, this.latencyMs);
+      signal?.addEventListener("abort", done, { once: true });
+    });
   }
 
   private handleGetNode(nodeId: NodeId): GraphData {
@@ -256,21 +375,18 @@ export class MockConnector extends BaseConnector {
     return node ? { nodes: [node], edges: [] } : { nodes: [], edges: [] };
   }
 
-  private handleGetNeighbors(
+  private neighborEdges(
     nodeId: NodeId,
     direction: Direction,
-    edgeTypes?: readonly string[],
-    limit?: number
-  ): GraphData {
+    edgeTypes?: readonly string[]
+  ): GraphEdge[] {
     const edges: GraphEdge[] = [];
-    const nodeIds = new Set<NodeId>();
 
     if (direction === "outgoing" || direction === "both") {
       const outEdges = this.edgesBySource.get(nodeId) ?? [];
       for (const edge of outEdges) {
         if (!edgeTypes || edgeTypes.includes(edge.type)) {
           edges.push(edge);
-          nodeIds.add(edge.target);
         }
       }
     }
@@ -280,27 +396,30 @@ export class MockConnector extends BaseConnector {
       for (const edge of inEdges) {
         if (!edgeTypes || edgeTypes.includes(edge.type)) {
           edges.push(edge);
-          nodeIds.add(edge.source);
         }
       }
     }
 
-    const limitedEdges = limit ? edges.slice(0, limit) : edges;
-    const limitedNodeIds = new Set(
-      limitedEdges.flatMap((e) => [e.source, e.target])
-    );
+    return edges;
+  }
 
-    const nodes = this.data.nodes.filter((n) => limitedNodeIds.has(n.id));
+  /** Edges with their endpoint nodes */
+  private withEndpoints(edges: GraphEdge[]): GraphData {
+    const nodeIds = new Set(edges.flatMap((e) => [e.source, e.target]));
+    const nodes = this.data.nodes.filter((n) => nodeIds.has(n.id));
 
-    return { nodes, edges: limitedEdges };
+    return { nodes, edges };
   }
 
   private handleFindNodes(
-    labelFilter?: { labels: readonly string[]; mode: "any" | "all" },
-    propertyFilters?: readonly { key: string; op: string; value: unknown }[],
-    limit?: number
-  ): GraphData {
-    let filtered = [...this.data.nodes];
+    labelFilter?: LabelFilter,
+    propertyFilters?: readonly PropertyFilter[],
+    nodeIds?: readonly NodeId[],
+    filter?: FilterExpression
+  ): GraphNode[] {
+    let filtered = nodeIds
+      ? nodeIds.flatMap((id) => this.nodeIndex.get(id) ?? [])
+      : [...this.data.nodes];
 
     if (labelFilter) {
       filtered = filtered.filter((n) => {
@@ -311,34 +430,124 @@ export class MockConnector extends BaseConnector {
       });
     }
 
-    if (propertyFilters) {
-      for (const filter of propertyFilters) {
-        filtered = filtered.filter((n) => {
-          const value = n.properties[filter.key];
-          switch (filter.op) {
-            case "eq":
-              return value === filter.value;
-            case "neq":
-              return value !== filter.value;
-            case "contains":
-              return String(value).includes(String(filter.value));
-            default:
-              return true;
-          }
-        });
-      }
+    for (const filter of propertyFilters ?? []) {
+      filtered = filtered.filter((n) =>
+        matchesPropertyFilter(n.properties[filter.key], filter)
+      );
     }
 
-    const limitedNodes = limit ? filtered.slice(0, limit) : filtered;
+    if (filter) {
+      validateFilter(filter);
+      filtered = filtered.filter((n) => evaluateFilter(filter, n) === true);
+    }
+
+    return filtered;
+  }
+
+  private handleFindEdges(query: FindEdgesQuery): GraphEdge[] {
+    const { edgeIds, edgeTypes, sourceId, targetId, filter } = query;
+    if (filter) validateFilter(filter);
+
+    return (
+      sourceId !== undefined
+        ? (this.edgesBySource.get(sourceId) ?? [])
+        : this.data.edges
+    ).filter(
+      (e) =>
+        (!edgeIds || edgeIds.includes(e.id)) &&
+        (!edgeTypes || edgeTypes.includes(e.type)) &&
+        (targetId === undefined || e.target === targetId) &&
+        (!filter ||
+          evaluateFilter(filter, {
+            labels: [e.type],
+            properties: e.properties,
+          }) === true)
+    );
+  }
+
+  /** Subgraph matching: backtrack along the planned edges */
+  private handlePattern(query: PatternQuery, maxMatches: number): GraphData[] {
+    const plan = planPattern(query);
+    const matches: GraphData[] = [];
+    const bound = new Map<string, GraphNode>();
+    const used: GraphEdge[] = [];
+
+    // Edges leaving the step's bound node whose far end fits the pattern
+    const extend = (
+      step: PatternStep
+    ): { edge: GraphEdge; node: GraphNode }[] =>
+      (
+        (step.outgoing ? this.edgesBySource : this.edgesByTarget).get(
+          bound.get(step.from)!.id
+        ) ?? []
+      ).flatMap((edge) => {
+        const node = this.nodeIndex.get(
+          step.outgoing ? edge.target : edge.source
+        );
+        if (!node || !matchesPatternEdge(edge, step.edge)) return [];
+        const fits = step.binds
+          ? matchesPatternNode(node, plan.nodes.get(step.to)!)
+          : bound.get(step.to)?.id === node.id;
+        return fits ? [{ edge, node }] : [];
+      });
+
+    // Each optional edge multiplies the match by its alternatives, if any
+    const complete = (): void => {
+      let rows: GraphData[] = [
+        { nodes: Array.from(bound.values()), edges: [...used] },
+      ];
+      for (const step of plan.optionalSteps) {
+        const found = extend(step);
+        if (found.length === 0) continue;
+        rows = rows.flatMap((row) =>
+          found.map(({ edge, node }) => ({
+            nodes: [...row.nodes, node],
+            edges: [...row.edges, edge],
+          }))
+        );
+      }
+      matches.push(...rows.slice(0, maxMatches - matches.length));
+    };
+
+    const search = (depth: number): void => {
+      const step = plan.steps[depth];
+      if (!step) {
+        complete();
+        return;
+      }
+      for (const { edge, node } of extend(step)) {
+        if (matches.length >= maxMatches) return;
+        if (used.includes(edge)) continue;
+        used.push(edge);
+        bound.set(step.to, node);
+        search(depth + 1);
+        used.pop();
+        if (step.binds) bound.delete(step.to);
+      }
+    };
+
+    const { start } = plan;
+    const candidates =
+      start.nodeId !== undefined
+        ? [this.nodeIndex.get(start.nodeId) ?? []].flat()
+        : this.data.nodes;
+    for (const node of candidates) {
+      if (matches.length >= maxMatches) break;
+      if (!matchesPatternNode(node, start)) continue;
+      bound.set(start.variable, node);
+      search(0);
+    }
 
-    return { nodes: limitedNodes, edges: [] };
+    return matches;
   }
 
   private handleExpandNode(
     nodeId: NodeId,
     direction: Direction,
     depth: number,
-    limit?: number
+    limit?: number,
+    edgeTypes?: readonly string[],
+    nodeLabels?: readonly string[]
   ): GraphData {
     const visitedNodes = new Set<NodeId>();
     const visitedEdges = new Set<string>();
@@ -352,12 +561,11 @@ export class MockConnector extends BaseConnector {
 
       if (limit && visitedNodes.size >= limit) break;
 
-      const neighbors = this.handleGetNeighbors(current.id, direction);
-
-      for (const edge of neighbors.edges) {
+      for (const edge of this.neighborEdges(current.id, direction, edgeTypes)) {
+        const nextId = edge.source === current.id ? edge.target : edge.source;
+        if (!this.hasAnyLabel(nextId, nodeLabels)) continue;
         if (!visitedEdges.has(edge.id)) {
           visitedEdges.add(edge.id);
-          const nextId = edge.source === current.id ? edge.target : edge.source;
           if (!visitedNodes.has(nextId)) {
             queue.push({ id: nextId, depth: current.depth + 1 });
           }
@@ -371,20 +579,29 @@ export class MockConnector extends BaseConnector {
     return { nodes, edges };
   }
 
+  /** Whether a node has one of the labels (always true without labels) */
+  private hasAnyLabel(nodeId: NodeId, labels?: readonly string[]): boolean {
+    if (!labels || labels.length === 0) return true;
+    const node = this.nodeIndex.get(nodeId);
+    return !!node && labels.some((l) => node.labels.includes(l));
+  }
+
   private handleSearch(
     text: string,
     labels?: readonly string[],
-    limit?: number
-  ): GraphData {
-    const lowerText = text.toLowerCase();
+    caseSensitive = false
+  ): GraphNode[] {
+    const fold = (value: string): string =>
+      caseSensitive ? value : value.toLowerCase();
+    const needle = fold(text);
 
     let filtered = this.data.nodes.filter((n) => {
-      const nameMatch = String(n.properties["name"] ?? "")
-        .toLowerCase()
-        .includes(lowerText);
+      const nameMatch = fold(String(n.properties["name"] ?? "")).includes(
+        needle
+      );
 
       const propsMatch = Object.values(n.properties).some((v) =>
-        String(v).toLowerCase().includes(lowerText)
+        fold(String(v)).includes(needle)
       );
 
       return nameMatch || propsMatch;
@@ -396,9 +613,7 @@ export class MockConnector extends BaseConnector {
       );
     }
 
-    const limitedNodes = limit ? filtered.slice(0, limit) : filtered;
-
-    return { nodes: limitedNodes, edges: [] };
+    return filtered;
   }
 
   private handleSample(
@@ -434,9 +649,13 @@ export class MockConnector extends BaseConnector {
 
           if (allEdges.length === 0) break;
 
-          const randomEdge = allEdges[Math.floor(Math.random() * allEdges.length)]!;
+          const randomEdge =
+            allEdges[Math.floor(Math.random() * allEdges.length)]!;
           visitedEdges.add(randomEdge.id);
-          currentNode = randomEdge.source === currentNode ? randomEdge.target : randomEdge.source;
+          currentNode =
+            randomEdge.source === currentNode
+              ? randomEdge.target
+              : randomEdge.source;
         }
 
         const nodes = this.data.nodes.filter((n) => visitedNodes.has(n.id));
@@ -444,8 +663,15 @@ export class MockConnector extends BaseConnector {
         return { nodes, edges };
       }
       case "frontier": {
-        const startIds = startNodeId ? [startNodeId] : [this.data.nodes[0]?.id].filter(Boolean) as string[];
-        return this.handleExpandNode(startIds[0]!, "both", Math.ceil(count / 10), count);
+        const startIds = startNodeId
+          ? [startNodeId]
+          : ([this.data.nodes[0]?.id].filter(Boolean) as string[]);
+        return this.handleExpandNode(
+          startIds[0]!,
+          "both",
+          Math.ceil(count / 10),
+          count
+        );
       }
       default:
         return { nodes: [], edges: [] };
@@ -455,10 +681,18 @@ export class MockConnector extends BaseConnector {
   private handleFindPath(
     sourceId: NodeId,
     targetId: NodeId,
-    maxLength?: number
+    maxLength?: number,
+    edgeTypes?: readonly string[],
+    shortestOnly = true
   ): GraphData {
     const maxDepth = maxLength ?? 10;
-    const visited = new Map<NodeId, { parent: NodeId | null; edge: GraphEdge | null }>();
+    if (!shortestOnly) {
+      return this.handleFindAllPaths(sourceId, targetId, maxDepth, edgeTypes);
+    }
+    const visited = new Map<
+      NodeId,
+      { parent: NodeId | null; edge: GraphEdge | null }
+    >();
     const queue: NodeId[] = [sourceId];
     visited.set(sourceId, { parent: null, edge: null });
 
@@ -486,10 +720,7 @@ export class MockConnector extends BaseConnector {
       const depth = this.getPathDepth(visited, current);
       if (depth >= maxDepth) continue;
 
-      const outEdges = this.edgesBySource.get(current) ?? [];
-      const inEdges = this.edgesByTarget.get(current) ?? [];
-
-      for (const edge of [...outEdges, ...inEdges]) {
+      for (const edge of this.neighborEdges(current, "both", edgeTypes)) {
         const neighbor = edge.source === current ? edge.target : edge.source;
         if (!visited.has(neighbor)) {
           visited.set(neighbor, { parent: current, edge });
@@ -501,6 +732,43 @@ export class MockConnector extends BaseConnector {
     return { nodes: [], edges: [] };
   }
 
+  /** Union of every simple path from source to target up to maxDepth edges */
+  private handleFindAllPaths(
+    sourceId: NodeId,
+    targetId: NodeId,
+    maxDepth: number,
+    edgeTypes?: readonly string[]
+  ): GraphData {
+    const pathNodes = new Set<NodeId>();
+    const pathEdges = new Set<string>();
+    const onPath: NodeId[] = [sourceId];
+    const viaEdges: GraphEdge[] = [];
+
+    const walk = (current: NodeId): void => {
+      if (current === targetId) {
+        onPath.forEach((id) => pathNodes.add(id));
+        viaEdges.forEach((e) => pathEdges.add(e.id));
+        return;
+      }
+      if (viaEdges.length >= maxDepth) return;
+
+      for (const edge of this.neighborEdges(current, "both", edgeTypes)) {
+        const neighbor = edge.source === current ? edge.target : edge.source;
+        if (onPath.includes(neighbor)) continue;
+        onPath.push(neighbor);
+        viaEdges.push(edge);
+        walk(neighbor);
+        onPath.pop();
+        viaEdges.pop();
+      }
+    };
+    walk(sourceId);
+
+    const nodes = this.data.nodes.filter((n) => pathNodes.has(n.id));
+    const edges = this.data.edges.filter((e) => pathEdges.has(e.id));
+    return { nodes, edges };
+  }
+
   private getPathDepth(
     visited: Map<NodeId, { parent: NodeId | null; edge: GraphEdge | null }>,
     nodeId: NodeId
@@ -523,7 +791,167 @@ export class MockConnector extends BaseConnector {
   }
 }
 
+/**
+ * Evaluate a property filter with Cypher semantics: missing properties never
+ * match, ordering only compares values of the same type and string operators
+ * only match strings
+ */
+function matchesPropertyFilter(
+  value: PropertyValue | undefined,
+  filter: PropertyFilter
+): boolean {
+  if (value === undefined || value === null) return false;
+  const expected = filter.value;
+
+  switch (filter.op) {
+    case "eq":
+      return value === expected;
+    case "neq":
+      return value !== expected;
+    case "gt":
+      return compare(value, expected) > 0;
+    case "gte":
+      return compare(value, expected) >= 0;
+    case "lt":
+      return compare(value, expected) < 0;
+    case "lte":
+      return compare(value, expected) <= 0;
+    case "contains":
+      return typeof value === "string" && value.includes(String(expected));
+    case "startsWith":
+      return typeof value === "string" && value.startsWith(String(expected));
+    case "endsWith":
+      return typeof value === "string" && value.endsWith(String(expected));
+  }
+}
+
+function matchesPatternNode(node: GraphNode, pattern: PatternNode): boolean {
+  return (
+    (pattern.nodeId === undefined || node.id === pattern.nodeId) &&
+    (pattern.labels ?? []).every((l) => node.labels.includes(l)) &&
+    (pattern.propertyFilters ?? []).every((f) =>
+      matchesPropertyFilter(node.properties[f.key], f)
+    ) &&
+    (!pattern.filter || evaluateFilter(pattern.filter, node) === true)
+  );
+}
+
+function matchesPatternEdge(edge: GraphEdge, pattern: PatternEdge): boolean {
+  return (
+    (!pattern.types?.length || pattern.types.includes(edge.type)) &&
+    (pattern.propertyFilters ?? []).every((f) =>
+      matchesPropertyFilter(edge.properties[f.key], f)
+    ) &&
+    (!pattern.filter ||
+      evaluateFilter(pattern.filter, {
+        labels: [edge.type],
+        properties: edge.properties,
+      }) === true)
+  );
+}
+
+/** Union of the nodes and edges of pattern matches */
+function mergeMatches(matches: readonly GraphData[]): GraphData {
+  const nodes = new Map<NodeId, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  for (const match of matches) {
+    match.nodes.forEach((n) => nodes.set(n.id, n));
+    match.edges.forEach((e) => edges.set(e.id, e));
+  }
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+  };
+}
+
+/** Element a filter expression is evaluated against */
+interface Filterable {
+  readonly labels: readonly string[];
+  readonly properties: Properties;
+}
+
+/**
+ * Evaluate a filter expression with Cypher's three-valued logic: predicates
+ * on missing properties or values of the wrong type are unknown (null), and
+ * only true matches
+ */
+function evaluateFilter(
+  filter: FilterExpression,
+  element: Filterable
+): boolean | null {
+  switch (filter.op) {
+    case "and": {
+      const results = filter.filters.map((f) => evaluateFilter(f, element));
+      if (results.includes(false)) return false;
+      return results.includes(null) ? null : true;
+    }
+    case "or": {
+      const results = filter.filters.map((f) => evaluateFilter(f, element));
+      if (results.includes(true)) return true;
+      return results.includes(null) ? null : false;
+    }
+    case "not": {
+      const result = evaluateFilter(filter.filter, element);
+      return result === null ? null : !result;
+    }
+    case "hasLabel":
+      return element.labels.includes(filter.label);
+  }
+
+  const value = element.properties[filter.key] ?? null;
+  switch (filter.op) {
+    case "exists":
+      return value !== null;
+    case "isNull":
+      return value === null;
+  }
+  if (value === null) return null;
+
+  switch (filter.op) {
+    case "in":
+      return filter.values.includes(value as FilterValue);
+    case "notIn":
+      return !filter.values.includes(value as FilterValue);
+    case "matches":
+      if (typeof value !== "string") return null;
+      return new RegExp(
+        `^(?:${filter.pattern})$`,
+        filter.caseInsensitive ? "i" : ""
+      ).test(value);
+    case "between": {
+      const low = compare(value, filter.min);
+      const high = compare(value, filter.max);
+      if (Number.isNaN(low) || Number.isNaN(high)) return null;
+      return low >= 0 && high <= 0;
+    }
+    case "eq":
+    case "neq":
+      return matchesPropertyFilter(value, filter);
+    case "contains":
+    case "startsWith":
+    case "endsWith":
+      return typeof value === "string"
+        ? matchesPropertyFilter(value, filter)
+        : null;
+    default:
+      return Number.isNaN(compare(value, filter.value))
+        ? null
+        : matchesPropertyFilter(value, filter);
+  }
+}
+
+/** Order two numbers or two strings; NaN when they are not comparable */
+function compare(a: PropertyValue, b: PropertyValue): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return NaN;
+}
+
 /** Create a mock connector */
-export function createMockConnector(config?: MockConnectorConfig): MockConnector {
+export function createMockConnector(
+  config?: MockConnectorConfig
+): MockConnector {
   return new MockConnector(config);
 }
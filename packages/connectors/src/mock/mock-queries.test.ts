@@ -0,0 +1,106 @@
+import { QueryBuilder, normalizeQuery, type GraphData } from "@queryscape/core";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MockConnector } from "./index";
+
+const DATA: GraphData = {
+  nodes: [
+    { id: "a", labels: ["Person"], properties: { name: "Alice" } },
+    { id: "b", labels: ["Person"], properties: { name: "Bob" } },
+    { id: "c", labels: ["Company"], properties: { name: "ACME" } },
+  ],
+  edges: [
+    { id: "ab", source: "a", target: "b", type: "KNOWS", properties: {} },
+    { id: "ac", source: "a", target: "c", type: "WORKS_AT", properties: {} },
+    { id: "bc", source: "b", target: "c", type: "WORKS_AT", properties: {} },
+  ],
+};
+
+describe("MockConnector with fluent queries", () => {
+  let connector: MockConnector;
+
+  beforeEach(async () => {
+    connector = new MockConnector({ data: DATA });
+    await connector.connect();
+  });
+
+  it("should find nodes by ID", async () => {
+    const result = await connector.executeQuery(
+      normalizeQuery(QueryBuilder.nodes().byIds(["c", "a", "x"]).build())
+    );
+
+    expect(result.data.nodes.map((n) => n.id)).toEqual(["c", "a"]);
+  });
+
+  it("should find edges by type and endpoint", async () => {
+    const result = await connector.executeQuery(
+      normalizeQuery(
+        QueryBuilder.edges().ofTypes(["WORKS_AT"]).toNode("c").build()
+      )
+    );
+
+    expect(result.data.edges.map((e) => e.id)).toEqual(["ac", "bc"]);
+    expect(result.data.nodes.map((n) => n.id).sort()).toEqual(["a", "b", "c"]);
+  });
+
+  it("should honor case-sensitive search", async () => {
+    const search = (caseSensitive: boolean): Promise<string[]> =>
+      connector
+        .executeQuery(
+          normalizeQuery(
+            QueryBuilder.search("acme").caseSensitive(caseSensitive).build()
+          )
+        )
+        .then((r) => r.data.nodes.map((n) => n.id));
+
+    expect(await search(false)).toEqual(["c"]);
+    expect(await search(true)).toEqual([]);
+  });
+
+  it("should expand only along the filtered edge types and labels", async () => {
+    const expand = (
+      builder: ReturnType<typeof QueryBuilder.neighborhood>
+    ): Promise<GraphData> =>
+      connector
+        .executeQuery(normalizeQuery(builder.build()))
+        .then((r) => r.data);
+
+    const knows = await expand(
+      QueryBuilder.neighborhood("a").filterEdgeTypes(["KNOWS"])
+    );
+    expect(knows.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+    expect(knows.edges.map((e) => e.id)).toEqual(["ab"]);
+
+    const companies = await expand(
+      QueryBuilder.neighborhood("a").filterNeighborLabels(["Company"])
+    );
+    expect(companies.nodes.map((n) => n.id)).toEqual(["a", "c"]);
+    expect(companies.edges.map((e) => e.id)).toEqual(["ac"]);
+  });
+
+  it("should find paths along the filtered edge types only", async () => {
+    const path = (
+      builder: ReturnType<typeof QueryBuilder.path>
+    ): Promise<string[]> =>
+      connector
+        .executeQuery(normalizeQuery(builder.build()))
+        .then((r) => r.data.edges.map((e) => e.id));
+
+    expect(await path(QueryBuilder.path("a", "c"))).toEqual(["ac"]);
+    expect(
+      await path(QueryBuilder.path("a", "c").filterEdgeTypes(["KNOWS"]))
+    ).toEqual([]);
+    expect(
+      await path(QueryBuilder.path("a", "b").filterEdgeTypes(["KNOWS"]))
+    ).toEqual(["ab"]);
+  });
+
+  it("should merge every path up to maxLength without shortestOnly", async () => {
+    const result = await connector.executeQuery(
+      normalizeQuery(QueryBuilder.path("a", "c").allPaths().build())
+    );
+
+    expect(result.data.edges.map((e) => e.id)).toEqual(["ab", "ac", "bc"]);
+    expect(result.data.nodes.map((n) => n.id)).toEqual(["a", "b", "c"]);
+  });
+});
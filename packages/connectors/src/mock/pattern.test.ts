@@ -0,0 +1,151 @@
+import type { GraphData, PatternQuery } from "@queryscape/core";
+import { ValidationError } from "@queryscape/core";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MockConnector } from "./index";
+
+const person = (id: string): GraphData["nodes"][number] => ({
+  id,
+  labels: ["Person"],
+  properties: { name: id },
+});
+
+const edge = (
+  source: string,
+  target: string,
+  type: string
+): GraphData["edges"][number] => ({
+  id: `${source}-${type}-${target}`,
+  source,
+  target,
+  type,
+  properties: {},
+});
+
+/** alice, bob and carol work at acme; dave works at globex; alice manages bob */
+const DATA: GraphData = {
+  nodes: [
+    person("alice"),
+    person("bob"),
+    person("carol"),
+    person("dave"),
+    { id: "acme", labels: ["Company"], properties: { size: 500 } },
+    { id: "globex", labels: ["Company"], properties: { size: 20 } },
+  ],
+  edges: [
+    edge("alice", "acme", "WORKS_AT"),
+    edge("bob", "acme", "WORKS_AT"),
+    edge("carol", "acme", "WORKS_AT"),
+    edge("dave", "globex", "WORKS_AT"),
+    edge("alice", "bob", "MANAGES"),
+  ],
+};
+
+/** (a:Person)-[:WORKS_AT]->(c:Company)<-[:WORKS_AT]-(b:Person) */
+const coworkers = (overrides: Partial<PatternQuery> = {}): PatternQuery => ({
+  type: "pattern",
+  nodes: [
+    { variable: "a", labels: ["Person"] },
+    { variable: "c", labels: ["Company"] },
+    { variable: "b", labels: ["Person"] },
+  ],
+  edges: [
+    { source: "a", target: "c", types: ["WORKS_AT"] },
+    { source: "b", target: "c", types: ["WORKS_AT"] },
+  ],
+  ...overrides,
+});
+
+const ids = (items: readonly { id: string }[]): string[] =>
+  items.map((i) => i.id).sort();
+
+describe("MockConnector pattern queries", () => {
+  let connector: MockConnector;
+
+  beforeEach(async () => {
+    connector = new MockConnector({ data: DATA });
+    await connector.connect();
+  });
+
+  it("should match each required edge once per match", async () => {
+    const result = await connector.executeQuery(coworkers());
+
+    // dave has no coworker: his only WORKS_AT edge cannot be used twice
+    expect(ids(result.data.nodes)).toEqual(["acme", "alice", "bob", "carol"]);
+    expect(result.data.edges).toHaveLength(3);
+  });
+
+  it("should apply node constraints and start from bound IDs", async () => {
+    const result = await connector.executeQuery(
+      coworkers({
+        nodes: [
+          { variable: "a", nodeId: "carol" },
+          {
+            variable: "c",
+            propertyFilters: [{ key: "size", op: "gt", value: 100 }],
+          },
+          {
+            variable: "b",
+            filter: { op: "neq", key: "name", value: "alice" },
+          },
+        ],
+      })
+    );
+
+    expect(ids(result.data.nodes)).toEqual(["acme", "bob", "carol"]);
+  });
+
+  it("should close cycles on bound nodes", async () => {
+    const result = await connector.executeQuery({
+      type: "pattern",
+      nodes: [{ variable: "m" }, { variable: "r" }, { variable: "c" }],
+      edges: [
+        { source: "m", target: "r", types: ["MANAGES"] },
+        { source: "m", target: "c", types: ["WORKS_AT"] },
+        { source: "r", target: "c", types: ["WORKS_AT"] },
+      ],
+    });
+
+    expect(ids(result.data.nodes)).toEqual(["acme", "alice", "bob"]);
+    expect(result.data.edges).toHaveLength(3);
+  });
+
+  it("should keep matches without their optional edges", async () => {
+    const result = await connector.executeQuery({
+      type: "pattern",
+      nodes: [{ variable: "p", labels: ["Person"] }, { variable: "r" }],
+      edges: [{ source: "p", target: "r", types: ["MANAGES"], optional: true }],
+    });
+
+    expect(ids(result.data.nodes)).toEqual(["alice", "bob", "carol", "dave"]);
+    expect(ids(result.data.edges)).toEqual(["alice-MANAGES-bob"]);
+  });
+
+  it("should page by matches", async () => {
+    const query: PatternQuery = {
+      type: "pattern",
+      nodes: [{ variable: "p" }, { variable: "c" }],
+      edges: [{ source: "p", target: "c", types: ["WORKS_AT"] }],
+      pagination: { limit: 3 },
+    };
+
+    const first = await connector.executeQuery(query);
+    const second = await connector.executeQuery({
+      ...query,
+      pagination: { limit: 3, cursor: first.metadata.cursor! },
+    });
+
+    expect(first.data.edges).toHaveLength(3);
+    expect(second.data.edges).toHaveLength(1);
+    expect(second.metadata.cursor).toBeNull();
+  });
+
+  it("should reject invalid patterns", async () => {
+    await expect(
+      connector.executeQuery({
+        type: "pattern",
+        nodes: [{ variable: "a" }, { variable: "b" }],
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,141 @@
+import type { GraphData } from "@queryscape/core";
+import { ConnectionError, ValidationError } from "@queryscape/core";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { MockConnector } from "./index";
+
+/** Two people working at one company; one person has no email */
+const DATA: GraphData = {
+  nodes: [
+    {
+      id: "alice",
+      labels: ["Person", "Employee"],
+      properties: { name: "Alice", email: "a@example.com" },
+    },
+    { id: "bob", labels: ["Person"], properties: { name: "Bob", email: null } },
+    { id: "acme", labels: ["Company"], properties: { name: "Acme", size: 5 } },
+    { id: "orphan", labels: [], properties: {} },
+  ],
+  edges: [
+    {
+      id: "e1",
+      source: "alice",
+      target: "acme",
+      type: "WORKS_AT",
+      properties: { since: 2020 },
+    },
+    {
+      id: "e2",
+      source: "bob",
+      target: "acme",
+      type: "WORKS_AT",
+      properties: { since: 2020 },
+    },
+    {
+      id: "e3",
+      source: "alice",
+      target: "bob",
+      type: "KNOWS",
+      properties: {},
+    },
+  ],
+};
+
+describe("MockConnector getSchema", () => {
+  let connector: MockConnector;
+
+  beforeEach(async () => {
+    connector = new MockConnector({ data: DATA });
+    await connector.connect();
+  });
+
+  it("should count labels and edge types, most frequent first", async () => {
+    const schema = await connector.getSchema();
+
+    expect(schema.nodeCount).toBe(4);
+    expect(schema.edgeCount).toBe(3);
+    expect(schema.labels).toEqual([
+      { label: "Person", count: 2 },
+      { label: "Company", count: 1 },
+      { label: "Employee", count: 1 },
+    ]);
+    expect(schema.edgeTypes).toEqual([
+      { type: "WORKS_AT", count: 2 },
+      { type: "KNOWS", count: 1 },
+    ]);
+  });
+
+  it("should report label to label connectivity", async () => {
+    const { connectivity } = await connector.getSchema();
+
+    expect(connectivity).toEqual([
+      {
+        sourceLabel: "Person",
+        edgeType: "WORKS_AT",
+        targetLabel: "Company",
+        count: 2,
+      },
+      {
+        sourceLabel: "Employee",
+        edgeType: "KNOWS",
+        targetLabel: "Person",
+        count: 1,
+      },
+      {
+        sourceLabel: "Employee",
+        edgeType: "WORKS_AT",
+        targetLabel: "Company",
+        count: 1,
+      },
+      {
+        sourceLabel: "Person",
+        edgeType: "KNOWS",
+        targetLabel: "Person",
+        count: 1,
+      },
+    ]);
+  });
+
+  it("should report property types and cardinality per label", async () => {
+    const { properties } = await connector.getSchema();
+
+    expect(
+      properties.find((p) => p.owner === "Person" && p.key === "email")
+    ).toEqual({
+      element: "node",
+      owner: "Person",
+      key: "email",
+      types: ["null", "string"],
+      count: 2,
+      distinctCount: 2,
+      sampleSize: 2,
+    });
+    expect(
+      properties.find((p) => p.owner === "WORKS_AT" && p.key === "since")
+    ).toMatchObject({ element: "edge", types: ["number"], distinctCount: 1 });
+  });
+
+  it("should limit property statistics to the sample", async () => {
+    const sampled = await connector.getSchema({ sampleSize: 1 });
+    const skipped = await connector.getSchema({ includeProperties: false });
+
+    expect(sampled.nodeCount).toBe(4);
+    expect(sampled.properties.map((p) => `${p.owner}.${p.key}`)).toEqual([
+      "Employee.email",
+      "Employee.name",
+      "Person.email",
+      "Person.name",
+      "WORKS_AT.since",
+    ]);
+    expect(skipped.properties).toEqual([]);
+  });
+
+  it("should reject invalid sample sizes and closed connections", async () => {
+    await expect(connector.getSchema({ sampleSize: 0 })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+
+    await connector.disconnect();
+    await expect(connector.getSchema()).rejects.toBeInstanceOf(ConnectionError);
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Compile QueryScape filters to parameterized Cypher
+ * Values are always bound as parameters; labels and property keys are
+ * validated and escaped with backticks.
+ */
+
+import type {
+  FilterExpression,
+  FindEdgesQuery,
+  FindNodesQuery,
+  LabelFilter,
+  PatternNode,
+  PatternQuery,
+  PropertyFilter,
+} from "@queryscape/core";
+import {
+  ValidationError,
+  requiredPatternVariables,
+  validateFilter,
+  validatePattern,
+} from "@queryscape/core";
+
+/** Cypher text with its parameters */
+export interface CypherStatement {
+  readonly cypher: string;
+  readonly params: Record<string, unknown>;
+  /** Property key each filter value parameter is compared with */
+  readonly propertyKeys: Record<string, string>;
+}
+
+/** Escape a label, relationship type or property key with backticks */
+export function escapeIdentifier(name: string, field = "identifier"): string {
+  const hasControlChar = [...name].some((c) => c.charCodeAt(0) < 0x20);
+  if (name.length === 0 || hasControlChar) {
+    throw new ValidationError(
+      `Invalid ${field}: ${JSON.stringify(name)}`,
+      field
+    );
+  }
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+/** Relationship type list of a relationship pattern (`:A|B`), if any */
+export function relationshipTypes(types?: readonly string[]): string {
+  return types?.length
+    ? `:${types.map((t) => escapeIdentifier(t, "edge type")).join("|")}`
+    : "";
+}
+
+/**
+ * Label predicate for a node variable: `all` requires every label,
+ * `any` at least one
+ */
+export function labelPredicate(
+  variable: string,
+  labelFilter: LabelFilter
+): string | undefined {
+  const labels = labelFilter.labels.map((l) => escapeIdentifier(l, "label"));
+  if (labels.length === 0) return undefined;
+  if (labelFilter.mode === "all") {
+    return `${variable}:${labels.join(":")}`;
+  }
+  return labels.length === 1
+    ? `${variable}:${labels[0]}`
+    : `(${labels.map((l) => `${variable}:${l}`).join(" OR ")})`;
+}
+
+/**
+ * Property predicate bound to `$param`.
+ * Missing properties never match (including `neq`); string operators only
+ * match string properties.
+ */
+export function propertyPredicate(
+  variable: string,
+  filter: PropertyFilter,
+  param: string
+): string {
+  const property = `${variable}.${escapeIdentifier(filter.key, "key")}`;
+  const value = `$${param}`;
+
+  switch (filter.op) {
+    case "eq":
+      return `${property} = ${value}`;
+    case "neq":
+      return `${property} <> ${value}`;
+    case "gt":
+      return `${property} > ${value}`;
+    case "gte":
+      return `${property} >= ${value}`;
+    case "lt":
+      return `${property} < ${value}`;
+    case "lte":
+      return `${property} <= ${value}`;
+    case "contains":
+      return `${property} CONTAINS ${value}`;
+    case "startsWith":
+      return `${property} STARTS WITH ${value}`;
+    case "endsWith":
+      return `${property} ENDS WITH ${value}`;
+  }
+}
+
+/** Parameter value for a filter (string operators take strings) */
+function filterParam(filter: PropertyFilter): unknown {
+  switch (filter.op) {
+    case "contains":
+    case "startsWith":
+    case "endsWith":
+      return String(filter.value);
+    default:
+      return filter.value;
+  }
+}
+
+/**
+ * Predicate for a filter expression on a node (`n`) or relationship (`r`)
+ * variable. Values are added to `params` as `filter0`, `filter1`, ... (or
+ * with another prefix), and the property key each is compared with to
+ * `propertyKeys`; Cypher's null semantics match the mock connector's
+ * three-valued logic.
+ */
+export function filterPredicate(
+  variable: string,
+  element: "node" | "relationship",
+  filter: FilterExpression,
+  params: Record<string, unknown>,
+  prefix = "filter",
+  propertyKeys: Record<string, string> = {}
+): string {
+  validateFilter(filter);
+  let next = 0;
+  const bind = (value: unknown, key?: string): string => {
+    const param = `${prefix}${next++}`;
+    params[param] = value;
+    if (key !== undefined) propertyKeys[param] = key;
+    return param;
+  };
+
+  const compile = (f: FilterExpression): string => {
+    switch (f.op) {
+      case "and":
+        return `(${f.filters.map(compile).join(" AND ")})`;
+      case "or":
+        return `(${f.filters.map(compile).join(" OR ")})`;
+      case "not":
+        return `NOT (${compile(f.filter)})`;
+      case "hasLabel":
+        return element === "node"
+          ? `${variable}:${escapeIdentifier(f.label, "label")}`
+          : `type(${variable}) = $${bind(f.label)}`;
+    }
+
+    const property = `${variable}.${escapeIdentifier(f.key, "key")}`;
+    switch (f.op) {
+      case "in":
+        return `${property} IN $${bind(f.values, f.key)}`;
+      case "notIn":
+        return `NOT (${property} IN $${bind(f.values, f.key)})`;
+      case "exists":
+        return `${property} IS NOT NULL`;
+      case "isNull":
+        return `${property} IS NULL`;
+      case "matches": {
+        const pattern = f.caseInsensitive ? `(?i)${f.pattern}` : f.pattern;
+        return `${property} =~ $${bind(pattern, f.key)}`;
+      }
+      case "between":
+        return `(${property} >= $${bind(f.min, f.key)} AND ${property} <= $${bind(f.max, f.key)})`;
+      default:
+        return propertyPredicate(variable, f, bind(filterParam(f), f.key));
+    }
+  };
+
+  return compile(filter);
+}
+
+/**
+ * MATCH nodes by ID, labels and properties, returning `n` ordered by
+ * elementId so pages can resume after the last elementId seen
+ */
+export function buildFindNodesCypher(
+  criteria: Pick<
+    FindNodesQuery,
+    "nodeIds" | "labelFilter" | "propertyFilters" | "filter"
+  >,
+  limit: unknown,
+  after?: string
+): CypherStatement {
+  const { nodeIds, labelFilter, propertyFilters, filter } = criteria;
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = { limit };
+  const propertyKeys: Record<string, string> = {};
+
+  if (nodeIds) {
+    params["nodeIds"] = nodeIds;
+    conditions.push("(elementId(n) IN $nodeIds OR n.id IN $nodeIds)");
+  }
+
+  const labels = labelFilter && labelPredicate("n", labelFilter);
+  if (labels) conditions.push(labels);
+
+  (propertyFilters ?? []).forEach((filter, idx) => {
+    const param = `prop${idx}`;
+    params[param] = filterParam(filter);
+    propertyKeys[param] = filter.key;
+    conditions.push(propertyPredicate("n", filter, param));
+  });
+
+  if (filter) {
+    conditions.push(
+      filterPredicate("n", "node", filter, params, "filter", propertyKeys)
+    );
+  }
+
+  if (after !== undefined) {
+    params["after"] = after;
+    conditions.push("elementId(n) > $after");
+  }
+
+  const where = conditions.length ? ` WHERE ${conditions.join(" AND ")}` : "";
+  return {
+    cypher: `MATCH (n)${where} RETURN n ORDER BY elementId(n) LIMIT $limit`,
+    params,
+    propertyKeys,
+  };
+}
+
+/**
+ * MATCH relationships by ID, type and endpoints, returning `s, r, t` ordered
+ * by elementId(r)
+ */
+export function buildFindEdgesCypher(
+  criteria: Pick<
+    FindEdgesQuery,
+    "edgeIds" | "edgeTypes" | "sourceId" | "targetId" | "filter"
+  >,
+  limit: unknown,
+  after?: string
+): CypherStatement {
+  const { edgeIds, edgeTypes, sourceId, targetId, filter } = criteria;
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = { limit };
+  const propertyKeys: Record<string, string> = {};
+
+  if (edgeIds) {
+    params["edgeIds"] = edgeIds;
+    conditions.push("elementId(r) IN $edgeIds");
+  }
+  if (edgeTypes) {
+    params["edgeTypes"] = edgeTypes;
+    conditions.push("type(r) IN $edgeTypes");
+  }
+  if (sourceId !== undefined) {
+    params["sourceId"] = sourceId;
+    conditions.push("(elementId(s) = $sourceId OR s.id = $sourceId)");
+  }
+  if (targetId !== undefined) {
+    params["targetId"] = targetId;
+    conditions.push("(elementId(t) = $targetId OR t.id = $targetId)");
+  }
+  if (filter) {
+    conditions.push(
+      filterPredicate(
+        "r",
+        "relationship",
+        filter,
+        params,
+        "filter",
+        propertyKeys
+      )
+    );
+  }
+  if (after !== undefined) {
+    params["after"] = after;
+    conditions.push("elementId(r) > $after");
+  }
+
+  const where = conditions.length ? ` WHERE ${conditions.join(" AND ")}` : "";
+  return {
+    cypher: `MATCH (s)-[r]->(t)${where} RETURN s, r, t ORDER BY elementId(r) LIMIT $limit`,
+    params,
+    propertyKeys,
+  };
+}
+
+/**
+ * MATCH a pattern. Required edges share one MATCH, so a relationship is used
+ * once per match; each optional edge gets its own OPTIONAL MATCH. Node
+ * variable i becomes `n<i>` and edge j `r<j>`, and rows are ordered by
+ * elementId so SKIP/LIMIT pages are stable.
+ */
+export function buildPatternCypher(
+  query: PatternQuery,
+  limit: unknown,
+  skip: unknown
+): CypherStatement {
+  validatePattern(query);
+  const params: Record<string, unknown> = { skip, limit };
+  const propertyKeys: Record<string, string> = {};
+  const names = new Map(query.nodes.map((n, i) => [n.variable, `n${i}`]));
+  const edges = (query.edges ?? []).map((edge, i) => ({ edge, name: `r${i}` }));
+  const required = requiredPatternVariables(query);
+
+  const nodeConditions = (node: PatternNode): string[] => {
+    const name = names.get(node.variable)!;
+    const conditions: string[] = [];
+    if (node.nodeId !== undefined) {
+      params[`${name}Id`] = node.nodeId;
+      conditions.push(
+        `(elementId(${name}) = $${name}Id OR ${name}.id = $${name}Id)`
+      );
+    }
+    const labels =
+      node.labels && labelPredicate(name, { labels: node.labels, mode: "all" });
+    if (labels) conditions.push(labels);
+    return [
+      ...conditions,
+      ...constraints(name, "node", node, params, propertyKeys),
+    ];
+  };
+
+  const relationship = ({ edge, name }: (typeof edges)[number]): string => {
+    const types = relationshipTypes(edge.types);
+    return `(${names.get(edge.source)})-[${name}${types}]->(${names.get(edge.target)})`;
+  };
+
+  const requiredEdges = edges.filter(({ edge }) => !edge.optional);
+  const isolated = query.nodes.filter(
+    (n) =>
+      required.has(n.variable) &&
+      !requiredEdges.some(
+        ({ edge }) => edge.source === n.variable || edge.target === n.variable
+      )
+  );
+  const where = [
+    ...query.nodes
+      .filter((n) => required.has(n.variable))
+      .flatMap(nodeConditions),
+    ...requiredEdges.flatMap(({ edge, name }) =>
+      constraints(name, "relationship", edge, params, propertyKeys)
+    ),
+  ];
+  const clauses = [
+    `MATCH ${[
+      ...requiredEdges.map(relationship),
+      ...isolated.map((n) => `(${names.get(n.variable)})`),
+    ].join(", ")}`,
+    ...(where.length ? [`WHERE ${where.join(" AND ")}`] : []),
+  ];
+
+  for (const optional of edges.filter(({ edge }) => edge.optional)) {
+    const { edge, name } = optional;
+    const conditions = [
+      ...query.nodes
+        .filter(
+          (n) =>
+            !required.has(n.variable) &&
+            (n.variable === edge.source || n.variable === edge.target)
+        )
+        .flatMap(nodeConditions),
+      ...constraints(name, "relationship", edge, params, propertyKeys),
+    ];
+    clauses.push(
+      `OPTIONAL MATCH ${relationship(optional)}`,
+      ...(conditions.length ? [`WHERE ${conditions.join(" AND ")}`] : [])
+    );
+  }
+
+  const variables = [...names.values(), ...edges.map((e) => e.name)];
+  clauses.push(
+    `RETURN ${variables.join(", ")}`,
+    `ORDER BY ${variables.map((v) => `elementId(${v})`).join(", ")}`,
+    "SKIP $skip LIMIT $limit"
+  );
+  return { cypher: clauses.join(" "), params, propertyKeys };
+}
+
+/** Property filter and filter expression predicates for a pattern element */
+function constraints(
+  variable: string,
+  element: "node" | "relationship",
+  pattern: Pick<PatternNode, "propertyFilters" | "filter">,
+  params: Record<string, unknown>,
+  propertyKeys: Record<string, string>
+): string[] {
+  const conditions = (pattern.propertyFilters ?? []).map((filter, idx) => {
+    const param = `${variable}p${idx}`;
+    params[param] = filterParam(filter);
+    propertyKeys[param] = filter.key;
+    return propertyPredicate(variable, filter, param);
+  });
+  if (pattern.filter) {
+    conditions.push(
+      filterPredicate(
+        variable,
+        element,
+        pattern.filter,
+        params,
+        `${variable}f`,
+        propertyKeys
+      )
+    );
+  }
+  return conditions;
+}
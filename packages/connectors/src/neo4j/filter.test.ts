@@ -0,0 +1,128 @@
+import type { FilterExpression } from "@queryscape/core";
+import { ValidationError } from "@queryscape/core";
+import { describe, expect, it } from "vitest";
+
+import {
+  buildFindEdgesCypher,
+  buildFindNodesCypher,
+  filterPredicate,
+} from "./cypher";
+
+const compile = (
+  filter: FilterExpression,
+  element: "node" | "relationship" = "node"
+): { cypher: string; params: Record<string, unknown> } => {
+  const params: Record<string, unknown> = {};
+  const variable = element === "node" ? "n" : "r";
+  return { cypher: filterPredicate(variable, element, filter, params), params };
+};
+
+describe("filterPredicate", () => {
+  it("should compile nested boolean groups", () => {
+    expect(
+      compile({
+        op: "and",
+        filters: [
+          { op: "hasLabel", label: "Person" },
+          {
+            op: "or",
+            filters: [
+              { op: "lt", key: "age", value: 28 },
+              { op: "not", filter: { op: "exists", key: "email" } },
+            ],
+          },
+        ],
+      })
+    ).toEqual({
+      cypher:
+        "(n:`Person` AND (n.`age` < $filter0 OR NOT (n.`email` IS NOT NULL)))",
+      params: { filter0: 28 },
+    });
+  });
+
+  it("should bind list, range and regex values as parameters", () => {
+    expect(
+      compile({
+        op: "and",
+        filters: [
+          { op: "in", key: "name", values: ["a", "b"] },
+          { op: "notIn", key: "tier", values: [1] },
+          { op: "between", key: "age", min: 20, max: 30 },
+          {
+            op: "matches",
+            key: "email",
+            pattern: ".*@acme\\.io",
+            caseInsensitive: true,
+          },
+          { op: "isNull", key: "deleted" },
+        ],
+      })
+    ).toEqual({
+      cypher:
+        "(n.`name` IN $filter0 AND NOT (n.`tier` IN $filter1)" +
+        " AND (n.`age` >= $filter2 AND n.`age` <= $filter3)" +
+        " AND n.`email` =~ $filter4 AND n.`deleted` IS NULL)",
+      params: {
+        filter0: ["a", "b"],
+        filter1: [1],
+        filter2: 20,
+        filter3: 30,
+        filter4: "(?i).*@acme\\.io",
+      },
+    });
+  });
+
+  it("should test relationship types with a parameter", () => {
+    expect(compile({ op: "hasLabel", label: "KNOWS" }, "relationship")).toEqual(
+      { cypher: "type(r) = $filter0", params: { filter0: "KNOWS" } }
+    );
+  });
+
+  it("should escape keys and labels", () => {
+    expect(
+      compile({
+        op: "or",
+        filters: [
+          { op: "hasLabel", label: "a`b" },
+          { op: "exists", key: "x` OR true //" },
+        ],
+      }).cypher
+    ).toBe("(n:`a``b` OR n.`x`` OR true //` IS NOT NULL)");
+  });
+
+  it("should reject invalid filters", () => {
+    expect(() => compile({ op: "or", filters: [] })).toThrow(ValidationError);
+    expect(() =>
+      compile({ op: "between", key: "age", min: 1, max: "9" })
+    ).toThrow(ValidationError);
+  });
+});
+
+describe("filter expressions in find queries", () => {
+  it("should AND the filter into findNodes", () => {
+    const { cypher, params } = buildFindNodesCypher(
+      {
+        labelFilter: { labels: ["Person"], mode: "any" },
+        filter: { op: "in", key: "name", values: ["Alice"] },
+      },
+      10
+    );
+
+    expect(cypher).toBe(
+      "MATCH (n) WHERE n:`Person` AND n.`name` IN $filter0 RETURN n ORDER BY elementId(n) LIMIT $limit"
+    );
+    expect(params).toEqual({ limit: 10, filter0: ["Alice"] });
+  });
+
+  it("should filter relationships in findEdges", () => {
+    const { cypher, params } = buildFindEdgesCypher(
+      { filter: { op: "gte", key: "since", value: 2020 } },
+      10
+    );
+
+    expect(cypher).toBe(
+      "MATCH (s)-[r]->(t) WHERE r.`since` >= $filter0 RETURN s, r, t ORDER BY elementId(r) LIMIT $limit"
+    );
+    expect(params).toEqual({ limit: 10, filter0: 2020 });
+  });
+});
@@ -0,0 +1,273 @@
+import type {
+  GraphData,
+  GraphNode,
+  LabelFilter,
+  PropertyFilter,
+  PropertyValue,
+} from "@queryscape/core";
+import { ValidationError } from "@queryscape/core";
+import { describe, expect, it } from "vitest";
+
+import { MockConnector } from "../mock/index";
+
+import { buildFindNodesCypher, escapeIdentifier } from "./cypher";
+
+const node = (
+  id: string,
+  labels: string[],
+  properties: Record<string, PropertyValue>
+): GraphNode => ({ id, labels, properties });
+
+const DATA: GraphData = {
+  nodes: [
+    node("alice", ["Person", "Employee"], {
+      name: "Alice",
+      age: 30,
+      nickname: "Al",
+    }),
+    node("bob", ["Person"], { name: "Bob", age: 25 }),
+    node("carol", ["Person", "Employee"], {
+      name: "Carol",
+      age: "40",
+      nickname: "Caz",
+    }),
+    node("dave", ["Person"], { name: "Dave", age: 35, "odd`key": 1 }),
+    node("acme", ["Company"], { name: "Acme", founded: 1999 }),
+  ],
+  edges: [],
+};
+
+interface FindNodesCase {
+  readonly name: string;
+  readonly labelFilter?: LabelFilter;
+  readonly propertyFilters?: readonly PropertyFilter[];
+  readonly expected: readonly string[];
+}
+
+/** Semantics every findNodes implementation must agree on */
+const CASES: readonly FindNodesCase[] = [
+  {
+    name: "any label",
+    labelFilter: { labels: ["Employee", "Company"], mode: "any" },
+    expected: ["acme", "alice", "carol"],
+  },
+  {
+    name: "all labels",
+    labelFilter: { labels: ["Person", "Employee"], mode: "all" },
+    expected: ["alice", "carol"],
+  },
+  {
+    name: "eq",
+    propertyFilters: [{ key: "name", op: "eq", value: "Alice" }],
+    expected: ["alice"],
+  },
+  {
+    name: "neq skips missing properties",
+    propertyFilters: [{ key: "nickname", op: "neq", value: "Al" }],
+    expected: ["carol"],
+  },
+  {
+    name: "gt only compares numbers with numbers",
+    propertyFilters: [{ key: "age", op: "gt", value: 30 }],
+    expected: ["dave"],
+  },
+  {
+    name: "gte",
+    propertyFilters: [{ key: "age", op: "gte", value: 30 }],
+    expected: ["alice", "dave"],
+  },
+  {
+    name: "lt",
+    propertyFilters: [{ key: "age", op: "lt", value: 30 }],
+    expected: ["bob"],
+  },
+  {
+    name: "lte",
+    propertyFilters: [{ key: "age", op: "lte", value: 25 }],
+    expected: ["bob"],
+  },
+  {
+    name: "gt on strings",
+    propertyFilters: [{ key: "name", op: "gt", value: "C" }],
+    expected: ["carol", "dave"],
+  },
+  {
+    name: "contains",
+    propertyFilters: [{ key: "name", op: "contains", value: "a" }],
+    expected: ["carol", "dave"],
+  },
+  {
+    name: "contains only matches strings",
+    propertyFilters: [{ key: "founded", op: "contains", value: "99" }],
+    expected: [],
+  },
+  {
+    name: "startsWith",
+    propertyFilters: [{ key: "name", op: "startsWith", value: "A" }],
+    expected: ["acme", "alice"],
+  },
+  {
+    name: "endsWith",
+    propertyFilters: [{ key: "name", op: "endsWith", value: "e" }],
+    expected: ["acme", "alice", "dave"],
+  },
+  {
+    name: "labels and filters combined",
+    labelFilter: { labels: ["Person"], mode: "all" },
+    propertyFilters: [
+      { key: "age", op: "gte", value: 25 },
+      { key: "name", op: "startsWith", value: "B" },
+    ],
+    expected: ["bob"],
+  },
+  {
+    name: "keys needing escapes",
+    propertyFilters: [{ key: "odd`key", op: "eq", value: 1 }],
+    expected: ["dave"],
+  },
+];
+
+type FindNodes = (c: FindNodesCase) => Promise<string[]>;
+
+const viaMock: FindNodes = async (c) => {
+  const connector = new MockConnector({ data: DATA });
+  await connector.connect();
+  const result = await connector.executeQuery({
+    type: "findNodes",
+    labelFilter: c.labelFilter,
+    propertyFilters: c.propertyFilters,
+  });
+  return result.data.nodes.map((n) => n.id);
+};
+
+const viaCypher: FindNodes = async (c) => {
+  const { cypher, params } = buildFindNodesCypher(c, 100);
+  return evaluateFindNodes(cypher, params, DATA.nodes).map((n) => n.id);
+};
+
+describe.each([
+  ["MockConnector", viaMock],
+  ["Neo4j Cypher translation", viaCypher],
+] as const)("findNodes semantics: %s", (_name, findNodes) => {
+  it.each(CASES)("$name", async (c) => {
+    expect((await findNodes(c)).sort()).toEqual([...c.expected].sort());
+  });
+});
+
+describe("buildFindNodesCypher", () => {
+  it("should bind values as parameters", () => {
+    const { cypher, params } = buildFindNodesCypher(
+      { propertyFilters: [{ key: "name", op: "eq", value: "x' OR 1=1 //" }] },
+      10
+    );
+
+    expect(cypher).toBe(
+      "MATCH (n) WHERE n.`name` = $prop0 RETURN n ORDER BY elementId(n) LIMIT $limit"
+    );
+    expect(params).toEqual({ prop0: "x' OR 1=1 //", limit: 10 });
+  });
+
+  it("should escape backticks in labels and keys", () => {
+    expect(escapeIdentifier("a`) DETACH DELETE n //")).toBe(
+      "`a``) DETACH DELETE n //`"
+    );
+  });
+
+  it("should reject empty or control-character keys", () => {
+    expect(() =>
+      buildFindNodesCypher(
+        { propertyFilters: [{ key: "", op: "eq", value: 1 }] },
+        10
+      )
+    ).toThrow(ValidationError);
+    expect(() =>
+      buildFindNodesCypher(
+        { labelFilter: { labels: ["A\nB"], mode: "any" } },
+        10
+      )
+    ).toThrow(ValidationError);
+  });
+});
+
+/**
+ * Evaluate the statements produced by buildFindNodesCypher against in-memory
+ * nodes with Cypher's null and type semantics
+ */
+function evaluateFindNodes(
+  cypher: string,
+  params: Record<string, unknown>,
+  nodes: readonly GraphNode[]
+): GraphNode[] {
+  const match =
+    /^MATCH \(n\)(?: WHERE (.+))? RETURN n ORDER BY elementId\(n\) LIMIT \$limit$/.exec(
+      cypher
+    );
+  if (!match) throw new Error(`Unexpected statement: ${cypher}`);
+  const conditions = match[1]?.split(" AND ") ?? [];
+  return nodes.filter((n) =>
+    conditions.every((c) => evaluateCondition(c, params, n))
+  );
+}
+
+const IDENTIFIER = "`((?:[^`]|``)+)`";
+
+function unescape(identifier: string): string {
+  return identifier.replace(/``/g, "`");
+}
+
+function evaluateCondition(
+  condition: string,
+  params: Record<string, unknown>,
+  n: GraphNode
+): boolean {
+  const any = /^\((.+)\)$/.exec(condition);
+  if (any) {
+    return any[1]!.split(" OR ").some((c) => evaluateCondition(c, params, n));
+  }
+
+  if (new RegExp(`^n(?::${IDENTIFIER})+$`).test(condition)) {
+    return Array.from(
+      condition.matchAll(new RegExp(`:${IDENTIFIER}`, "g")),
+      (m) => unescape(m[1]!)
+    ).every((label) => n.labels.includes(label));
+  }
+
+  const property = new RegExp(
+    `^n\\.${IDENTIFIER} (=|<>|>=|<=|>|<|CONTAINS|STARTS WITH|ENDS WITH) \\$(\\w+)$`
+  ).exec(condition);
+  if (!property) throw new Error(`Unexpected condition: ${condition}`);
+
+  const value = n.properties[unescape(property[1]!)];
+  const param = params[property[3]!];
+  if (value === undefined || value === null) return false;
+
+  const comparable =
+    typeof value === typeof param &&
+    (typeof value === "number" || typeof value === "string");
+  const a = value as number | string;
+  const b = param as number | string;
+  const isString = typeof value === "string" && typeof param === "string";
+
+  switch (property[2]) {
+    case "=":
+      return value === param;
+    case "<>":
+      return value !== param;
+    case ">":
+      return comparable && a > b;
+    case ">=":
+      return comparable && a >= b;
+    case "<":
+      return comparable && a < b;
+    case "<=":
+      return comparable && a <= b;
+    case "CONTAINS":
+      return isString && (value as string).includes(param as string);
+    case "STARTS WITH":
+      return isString && (value as string).startsWith(param as string);
+    case "ENDS WITH":
+      return isString && (value as string).endsWith(param as string);
+    default:
+      return false;
+  }
+}
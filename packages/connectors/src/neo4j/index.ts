@@ -3,21 +3,60 @@
  */
 
 import type {
+  ExecuteOptions,
+  ExplainOptions,
   Query,
+  QueryExplanation,
+  QueryPlanOperator,
   QueryResult,
   GraphData,
   GraphNode,
   GraphEdge,
+  GraphSchema,
   NodeId,
   Properties,
+  ExpandNodeQuery,
+  FindEdgesQuery,
+  FindNodesQuery,
+  FindPathQuery,
+  PatternQuery,
+  SchemaOptions,
+} from "@queryscape/core";
+import {
+  QueryError,
+  ConnectionError,
+  AuthError,
+  cancellationError,
+  isQueryScapeError,
+  querySignal,
 } from "@queryscape/core";
-import { QueryError, ConnectionError, AuthError } from "@queryscape/core";
 
+import {
+  createExplainRecorder,
+  explainedStatement,
+  queryExplanation,
+  type ExplainRecorder,
+} from "../explain.js";
 import {
   BaseConnector,
   type ConnectorCapabilities,
   type BaseConnectorConfig,
 } from "../interface.js";
+import {
+  encodeCursor,
+  nextOffsetCursor,
+  pageAfter,
+  pageOffset,
+} from "../pagination.js";
+import { propertyStats, validateSchemaOptions } from "../schema.js";
+
+import {
+  buildFindEdgesCypher,
+  buildFindNodesCypher,
+  buildPatternCypher,
+  labelPredicate,
+  relationshipTypes,
+} from "./cypher.js";
 
 /** Neo4j connector configuration */
 export interface Neo4jConnectorConfig extends BaseConnectorConfig {
@@ -47,6 +86,15 @@ interface Neo4jSession {
 
 interface Neo4jResult {
   records: Neo4jRecord[];
+  /** Carries the plan of EXPLAIN statements */
+  summary?: { plan?: Neo4jPlan | false };
+}
+
+interface Neo4jPlan {
+  operatorType: string;
+  identifiers: string[];
+  arguments: Record<string, unknown>;
+  children: Neo4jPlan[];
 }
 
 interface Neo4jRecord {
@@ -54,10 +102,26 @@ interface Neo4jRecord {
   keys: string[];
 }
 
+/** Neo4j Integer (returned for counts, required for SKIP/LIMIT params) */
+interface Neo4jInteger {
+  toNumber(): number;
+}
+
+/** Cancels statements, or records them instead when explaining a query */
+interface CypherContext {
+  readonly signal?: AbortSignal;
+  readonly explain?: ExplainRecorder;
+}
+
+/** Nodes and relationships examined for property statistics by default */
+const SCHEMA_SAMPLE_SIZE = 1000;
+
 /** Neo4j connector implementation */
 export class Neo4jConnector extends BaseConnector {
   private driver: Neo4jDriver | null = null;
   private readonly config: Neo4jConnectorConfig;
+  /** Wraps numbers as Neo4j integers (JS numbers are sent as floats) */
+  private int: (value: number) => unknown = (value) => value;
 
   constructor(config: Neo4jConnectorConfig) {
     super(config);
@@ -71,14 +135,19 @@ export class Neo4jConnector extends BaseConnector {
         "getNode",
         "getNeighbors",
         "findNodes",
+        "findEdges",
         "findPath",
         "expandNode",
         "search",
+        "sample",
+        "pattern",
         "raw",
       ],
       supportsFullTextSearch: true,
       supportsPagination: true,
       supportsRawQueries: true,
+      supportsSchema: true,
+      supportsExplain: true,
       maxPageSize: 1000,
     };
   }
@@ -95,6 +164,7 @@ export class Neo4jConnector extends BaseConnector {
           maxConnectionPoolSize: this.config.maxConnectionPoolSize ?? 50,
         }
       ) as unknown as Neo4jDriver;
+      this.int = neo4j.default.int;
 
       await this.driver.verifyConnectivity();
       this.connected = true;
@@ -120,73 +190,35 @@ export class Neo4jConnector extends BaseConnector {
     }
   }
 
-  async executeQuery(query: Query): Promise<QueryResult> {
+  async executeQuery(
+    query: Query,
+    options: ExecuteOptions = {}
+  ): Promise<QueryResult> {
     this.ensureConnected();
     this.checkQuerySupported(query.type);
 
     const startTime = Date.now();
+    const signal = querySignal(query, options.signal);
 
     try {
-      let result: GraphData;
-
-      switch (query.type) {
-        case "getNode":
-          result = await this.executeGetNode(query.nodeId);
-          break;
-        case "getNeighbors":
-          result = await this.executeGetNeighbors(
-            query.nodeId,
-            query.direction,
-            query.edgeTypes,
-            query.pagination?.limit ?? 100
-          );
-          break;
-        case "findNodes":
-          result = await this.executeFindNodes(
-            query.labelFilter,
-            query.propertyFilters,
-            query.pagination?.limit ?? 100
-          );
-          break;
-        case "findPath":
-          result = await this.executeFindPath(
-            query.sourceId,
-            query.targetId,
-            query.maxLength ?? 10
-          );
-          break;
-        case "expandNode":
-          result = await this.executeExpandNode(
-            query.nodeId,
-            query.direction,
-            query.depth ?? 1,
-            query.pagination?.limit ?? 100
-          );
-          break;
-        case "search":
-          result = await this.executeSearch(
-            query.text,
-            query.labels,
-            query.pagination?.limit ?? 100
-          );
-          break;
-        case "raw":
-          result = await this.executeRaw(query.query, query.parameters);
-          break;
-        default:
-          result = { nodes: [], edges: [] };
-      }
+      const { data, cursor } = await this.runQuery(query, { signal });
 
       return {
-        data: result,
+        data,
         metadata: {
           executionTimeMs: Date.now() - startTime,
           totalAvailable: null,
-          truncated: false,
-          cursor: null,
+          truncated: cursor !== null,
+          cursor,
         },
       };
     } catch (error) {
+      if (signal?.aborted) {
+        throw cancellationError(signal, query);
+      }
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
       throw new QueryError(
         `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
         query.type
@@ -194,22 +226,279 @@ export class Neo4jConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Record the Cypher statements for a query without running them, with
+   * plans from EXPLAIN. Statements that depend on earlier results (later
+   * expandNode hops, random walk steps) are left out.
+   */
+  async explain(
+    query: Query,
+    options: ExplainOptions = {}
+  ): Promise<QueryExplanation> {
+    this.ensureConnected();
+    this.checkQuerySupported(query.type);
+
+    const recorder = createExplainRecorder(options);
+    try {
+      await this.runQuery(query, { explain: recorder });
+    } catch (error) {
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
+      throw new QueryError(
+        `Query explanation failed: ${error instanceof Error ? error.message : String(error)}`,
+        query.type
+      );
+    }
+    return queryExplanation(this.getCapabilities(), query, recorder);
+  }
+
+  /** Run the statements for a query; explain records them instead */
+  private async runQuery(
+    query: Query,
+    context: CypherContext
+  ): Promise<{ data: GraphData; cursor: string | null }> {
+    let result: GraphData;
+    let cursor: string | null = null;
+    const limit = query.pagination?.limit ?? 100;
+
+    switch (query.type) {
+      case "getNode":
+        result = await this.executeGetNode(query.nodeId, context);
+        break;
+      case "getNeighbors":
+        result = await this.executeGetNeighbors(
+          query.nodeId,
+          query.direction,
+          query.edgeTypes,
+          limit,
+          pageAfter(query),
+          context
+        );
+        cursor = keysetCursor(query, result.edges, limit);
+        break;
+      case "findNodes":
+        result = await this.executeFindNodes(
+          query,
+          limit,
+          pageAfter(query),
+          context
+        );
+        cursor = keysetCursor(query, result.nodes, limit);
+        break;
+      case "findEdges":
+        result = await this.executeFindEdges(
+          query,
+          limit,
+          pageAfter(query),
+          context
+        );
+        cursor = keysetCursor(query, result.edges, limit);
+        break;
+      case "pattern": {
+        const offset = pageOffset(query);
+        const { data, matches } = await this.executePattern(
+          query,
+          limit,
+          offset,
+          context
+        );
+        result = data;
+        cursor = nextOffsetCursor(query, offset, matches, limit);
+        break;
+      }
+      case "findPath":
+        result = await this.executeFindPath(query, limit, context);
+        break;
+      case "expandNode":
+        result = await this.executeExpandNode(query, limit, context);
+        break;
+      case "search":
+        result = await this.executeSearch(
+          query.text,
+          query.labels,
+          limit,
+          pageAfter(query),
+          query.caseSensitive,
+          context
+        );
+        cursor = keysetCursor(query, result.nodes, limit);
+        break;
+      case "sample":
+        result = await this.executeSample(
+          query.strategy,
+          query.count,
+          query.startNodeId,
+          context
+        );
+        break;
+      case "raw":
+        result = await this.executeRaw(query.query, query.parameters, context);
+        break;
+      default:
+        result = { nodes: [], edges: [] };
+    }
+
+    return { data: result, cursor };
+  }
+
+  /**
+   * Label, relationship type and connectivity counts over the whole database;
+   * property statistics come from the first `sampleSize` nodes and
+   * relationships (default 1000)
+   */
+  async getSchema(options: SchemaOptions = {}): Promise<GraphSchema> {
+    this.ensureConnected();
+    validateSchemaOptions(options);
+
+    try {
+      const counts = async (cypher: string): Promise<Neo4jRecord[]> =>
+        (await this.runCypher(cypher)).records;
+      const [nodeCount] = await counts("MATCH (n) RETURN count(n) AS count");
+      const [edgeCount] = await counts(
+        "MATCH ()-[r]->() RETURN count(r) AS count"
+      );
+      const labels = await counts(
+        "MATCH (n) UNWIND labels(n) AS label " +
+          "RETURN label, count(*) AS count ORDER BY count DESC, label"
+      );
+      const edgeTypes = await counts(
+        "MATCH ()-[r]->() " +
+          "RETURN type(r) AS type, count(*) AS count ORDER BY count DESC, type"
+      );
+      const connectivity = await counts(
+        "MATCH (a)-[r]->(b) " +
+          "UNWIND labels(a) AS sourceLabel UNWIND labels(b) AS targetLabel " +
+          "RETURN sourceLabel, type(r) AS edgeType, targetLabel, count(*) AS count " +
+          "ORDER BY count DESC, sourceLabel, edgeType, targetLabel"
+      );
+
+      let properties: GraphSchema["properties"] = [];
+      if (options.includeProperties !== false) {
+        const params = {
+          limit: this.int(options.sampleSize ?? SCHEMA_SAMPLE_SIZE),
+        };
+        const nodes = await this.runCypher(
+          "MATCH (n) RETURN n LIMIT $limit",
+          params
+        );
+        const edges = await this.runCypher(
+          "MATCH ()-[r]->() RETURN r LIMIT $limit",
+          params
+        );
+        properties = propertyStats(
+          nodes.records.map((r) =>
+            plainProperties(this.recordToNode(r.get("n")))
+          ),
+          edges.records.map((r) =>
+            plainProperties(this.recordToEdge(r.get("r"), "", ""))
+          )
+        );
+      }
+
+      return {
+        nodeCount: toNumber(nodeCount?.get("count")),
+        edgeCount: toNumber(edgeCount?.get("count")),
+        labels: labels.map((r) => ({
+          label: r.get("label") as string,
+          count: toNumber(r.get("count")),
+        })),
+        edgeTypes: edgeTypes.map((r) => ({
+          type: r.get("type") as string,
+          count: toNumber(r.get("count")),
+        })),
+        connectivity: connectivity.map((r) => ({
+          sourceLabel: r.get("sourceLabel") as string,
+          edgeType: r.get("edgeType") as string,
+          targetLabel: r.get("targetLabel") as string,
+          count: toNumber(r.get("count")),
+        })),
+        properties,
+      };
+    } catch (error) {
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
+      throw new QueryError(
+        `Schema query failed: ${error instanceof Error ? error.message : String(error)}`,
+        "schema"
+      );
+    }
+  }
+
+  /**
+   * Run a statement, or record it and ask for its plan with EXPLAIN (which
+   * does not run it) when explaining. Explained statements return no records;
+   * `propertyKeys` lets them redact filter values on sensitive properties.
+   */
   private async runCypher(
     cypher: string,
-    params?: Record<string, unknown>
+    params: Record<string, unknown> = {},
+    context: CypherContext = {},
+    propertyKeys: Record<string, string> = {}
   ): Promise<Neo4jResult> {
+    const { signal, explain } = context;
+    signal?.throwIfAborted();
+    if (explain) {
+      const plan = explain.includePlan
+        ? await this.explainPlan(cypher, params)
+        : null;
+      explain.statements.push(
+        explainedStatement(
+          "cypher",
+          cypher,
+          plainParameters(params),
+          plan,
+          propertyKeys
+        )
+      );
+      return { records: [] };
+    }
+
     const session = this.driver!.session({ database: this.config.database });
+
+    // Closing the session resets its connection, which terminates the
+    // running transaction on the server
+    let onAbort = (): void => {};
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = (): void => {
+        reject(signal?.reason);
+        void session.close();
+      };
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     try {
-      return await session.run(cypher, params);
+      return await Promise.race([session.run(cypher, params), aborted]);
     } finally {
+      signal?.removeEventListener("abort", onAbort);
       await session.close();
     }
   }
 
-  private async executeGetNode(nodeId: NodeId): Promise<GraphData> {
+  /** Plan of a statement, from EXPLAIN */
+  private async explainPlan(
+    cypher: string,
+    params: Record<string, unknown>
+  ): Promise<QueryPlanOperator | null> {
+    const session = this.driver!.session({ database: this.config.database });
+    try {
+      const result = await session.run(`EXPLAIN ${cypher.trim()}`, params);
+      const plan = result.summary?.plan;
+      return plan ? planOperator(plan) : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  private async executeGetNode(
+    nodeId: NodeId,
+    context: CypherContext = {}
+  ): Promise<GraphData> {
     const result = await this.runCypher(
       "MATCH (n) WHERE elementId(n) = $nodeId OR n.id = $nodeId RETURN n",
-      { nodeId }
+      { nodeId },
+      context
     );
 
     const nodes = result.records.map((r) => this.recordToNode(r.get("n")));
@@ -220,24 +509,36 @@ export class Neo4jConnector extends BaseConnector {
     nodeId: NodeId,
     direction: "outgoing" | "incoming" | "both",
     edgeTypes?: readonly string[],
-    limit?: number
+    limit?: number,
+    after?: string,
+    context: CypherContext = {}
   ): Promise<GraphData> {
-    const typeFilter = edgeTypes?.length ? `:${edgeTypes.join("|")}` : "";
+    const typeFilter = relationshipTypes(edgeTypes);
     const directionPattern =
       direction === "outgoing"
         ? `-[r${typeFilter}]->`
         : direction === "incoming"
           ? `<-[r${typeFilter}]-`
           : `-[r${typeFilter}]-`;
+    const afterClause = after !== undefined ? "AND elementId(r) > $after" : "";
 
     const cypher = `
       MATCH (n)${directionPattern}(m)
-      WHERE elementId(n) = $nodeId OR n.id = $nodeId
+      WHERE (elementId(n) = $nodeId OR n.id = $nodeId) ${afterClause}
       RETURN n, r, m
+      ORDER BY elementId(r)
       LIMIT $limit
     `;
 
-    const result = await this.runCypher(cypher, { nodeId, limit: limit ?? 100 });
+    const result = await this.runCypher(
+      cypher,
+      {
+        nodeId,
+        limit: this.int(limit ?? 100),
+        ...(after !== undefined && { after }),
+      },
+      context
+    );
 
     const nodeMap = new Map<string, GraphNode>();
     const edges: GraphEdge[] = [];
@@ -256,110 +557,186 @@ export class Neo4jConnector extends BaseConnector {
   }
 
   private async executeFindNodes(
-    labelFilter?: { labels: readonly string[]; mode: "any" | "all" },
-    propertyFilters?: readonly { key: string; op: string; value: unknown }[],
-    limit?: number
+    query: FindNodesQuery,
+    limit: number,
+    after?: string,
+    context: CypherContext = {}
   ): Promise<GraphData> {
-    let labelClause = "";
-    if (labelFilter?.labels.length) {
-      if (labelFilter.mode === "all") {
-        labelClause = labelFilter.labels.map((l) => `:${l}`).join("");
-      } else {
-        labelClause = `:${labelFilter.labels[0]}`;
+    const { cypher, params, propertyKeys } = buildFindNodesCypher(
+      query,
+      this.int(limit),
+      after
+    );
+    const result = await this.runCypher(cypher, params, context, propertyKeys);
+
+    const nodes = result.records.map((r) => this.recordToNode(r.get("n")));
+    return { nodes, edges: [] };
+  }
+
+  private async executePattern(
+    query: PatternQuery,
+    limit: number,
+    offset: number,
+    context: CypherContext = {}
+  ): Promise<{ data: GraphData; matches: number }> {
+    const { cypher, params, propertyKeys } = buildPatternCypher(
+      query,
+      this.int(limit),
+      this.int(offset)
+    );
+    const result = await this.runCypher(cypher, params, context, propertyKeys);
+
+    const nodeMap = new Map<string, GraphNode>();
+    const edgeMap = new Map<string, GraphEdge>();
+    const edges = query.edges ?? [];
+    for (const record of result.records) {
+      // Optional variables are null when their edge did not match
+      const bound = query.nodes.map((_, i) => {
+        const value = record.get(`n${i}`);
+        return value === null ? undefined : this.recordToNode(value);
+      });
+      for (const node of bound) {
+        if (node) nodeMap.set(node.id, node);
       }
-    }
 
-    const whereConditions: string[] = [];
-    const params: Record<string, unknown> = { limit: limit ?? 100 };
-
-    if (propertyFilters) {
-      propertyFilters.forEach((filter, idx) => {
-        const paramName = `prop${idx}`;
-        params[paramName] = filter.value;
-
-        switch (filter.op) {
-          case "eq":
-            whereConditions.push(`n.${filter.key} = $${paramName}`);
-            break;
-          case "neq":
-            whereConditions.push(`n.${filter.key} <> $${paramName}`);
-            break;
-          case "contains":
-            whereConditions.push(`n.${filter.key} CONTAINS $${paramName}`);
-            break;
-          case "startsWith":
-            whereConditions.push(`n.${filter.key} STARTS WITH $${paramName}`);
-            break;
-        }
+      edges.forEach((edge, i) => {
+        const value = record.get(`r${i}`);
+        if (value === null) return;
+        const source = query.nodes.findIndex((n) => n.variable === edge.source);
+        const target = query.nodes.findIndex((n) => n.variable === edge.target);
+        const rel = this.recordToEdge(
+          value,
+          bound[source]?.id ?? "",
+          bound[target]?.id ?? ""
+        );
+        edgeMap.set(rel.id, rel);
       });
     }
 
-    const whereClause = whereConditions.length
-      ? `WHERE ${whereConditions.join(" AND ")}`
-      : "";
+    return {
+      data: {
+        nodes: Array.from(nodeMap.values()),
+        edges: Array.from(edgeMap.values()),
+      },
+      matches: result.records.length,
+    };
+  }
 
-    const cypher = `MATCH (n${labelClause}) ${whereClause} RETURN n LIMIT $limit`;
-    const result = await this.runCypher(cypher, params);
+  private async executeFindEdges(
+    query: FindEdgesQuery,
+    limit: number,
+    after?: string,
+    context: CypherContext = {}
+  ): Promise<GraphData> {
+    const { cypher, params, propertyKeys } = buildFindEdgesCypher(
+      query,
+      this.int(limit),
+      after
+    );
+    const result = await this.runCypher(cypher, params, context, propertyKeys);
 
-    const nodes = result.records.map((r) => this.recordToNode(r.get("n")));
-    return { nodes, edges: [] };
+    const nodeMap = new Map<string, GraphNode>();
+    const edges: GraphEdge[] = [];
+    for (const record of result.records) {
+      const s = this.recordToNode(record.get("s"));
+      const t = this.recordToNode(record.get("t"));
+      nodeMap.set(s.id, s);
+      nodeMap.set(t.id, t);
+      edges.push(this.recordToEdge(record.get("r"), s.id, t.id));
+    }
+
+    return { nodes: Array.from(nodeMap.values()), edges };
   }
 
   private async executeFindPath(
-    sourceId: NodeId,
-    targetId: NodeId,
-    maxLength: number
+    query: FindPathQuery,
+    limit: number,
+    context: CypherContext = {}
   ): Promise<GraphData> {
+    const maxLength = query.maxLength ?? 10;
+    const types = relationshipTypes(query.edgeTypes);
+    const shortestOnly = query.shortestOnly ?? true;
+    // Without shortestOnly every path up to maxLength is merged into one graph
+    const match = shortestOnly
+      ? `shortestPath((source)-[${types}*1..${maxLength}]-(target))`
+      : `(source)-[${types}*1..${maxLength}]-(target)`;
     const cypher = `
-      MATCH path = shortestPath((source)-[*1..${maxLength}]-(target))
+      MATCH path = ${match}
       WHERE (elementId(source) = $sourceId OR source.id = $sourceId)
         AND (elementId(target) = $targetId OR target.id = $targetId)
       RETURN nodes(path) as nodes, relationships(path) as rels
-      LIMIT 1
+      LIMIT $limit
     `;
 
-    const result = await this.runCypher(cypher, { sourceId, targetId });
+    const result = await this.runCypher(
+      cypher,
+      {
+        sourceId: query.sourceId,
+        targetId: query.targetId,
+        limit: this.int(shortestOnly ? 1 : limit),
+      },
+      context
+    );
 
-    if (result.records.length === 0) {
-      return { nodes: [], edges: [] };
+    const nodeMap = new Map<string, GraphNode>();
+    const edgeMap = new Map<string, GraphEdge>();
+    for (const record of result.records) {
+      const rawNodes = record.get("nodes") as unknown[];
+      const rawRels = record.get("rels") as unknown[];
+
+      const nodes = rawNodes.map((n) => this.recordToNode(n));
+      for (const node of nodes) nodeMap.set(node.id, node);
+      rawRels.forEach((r, idx) => {
+        const edge = this.recordToEdge(
+          r,
+          nodes[idx]?.id ?? "",
+          nodes[idx + 1]?.id ?? ""
+        );
+        edgeMap.set(edge.id, edge);
+      });
     }
 
-    const record = result.records[0]!;
-    const rawNodes = record.get("nodes") as unknown[];
-    const rawRels = record.get("rels") as unknown[];
-
-    const nodes = rawNodes.map((n) => this.recordToNode(n));
-    const edges = rawRels.map((r, idx) =>
-      this.recordToEdge(r, nodes[idx]?.id ?? "", nodes[idx + 1]?.id ?? "")
-    );
-
-    return { nodes, edges };
+    return {
+      nodes: Array.from(nodeMap.values()),
+      edges: Array.from(edgeMap.values()),
+    };
   }
 
   private async executeExpandNode(
-    nodeId: NodeId,
-    direction: "outgoing" | "incoming" | "both",
-    depth: number,
-    limit: number
+    query: ExpandNodeQuery,
+    limit: number,
+    context: CypherContext = {}
   ): Promise<GraphData> {
+    const depth = query.depth ?? 1;
+    const rel = `[r${relationshipTypes(query.edgeTypes)}*1..${depth}]`;
     const dirPattern =
-      direction === "outgoing"
-        ? `-[r*1..${depth}]->`
-        : direction === "incoming"
-          ? `<-[r*1..${depth}]-`
-          : `-[r*1..${depth}]-`;
+      query.direction === "outgoing"
+        ? `-${rel}->`
+        : query.direction === "incoming"
+          ? `<-${rel}-`
+          : `-${rel}-`;
+    // Every node reached past the start must carry one of the labels
+    const labels =
+      query.nodeLabels &&
+      labelPredicate("x", { labels: query.nodeLabels, mode: "any" });
+    const labelClause = labels
+      ? `AND all(x IN nodes(path)[1..] WHERE ${labels})`
+      : "";
 
     const cypher = `
       MATCH path = (start)${dirPattern}(end)
-      WHERE elementId(start) = $nodeId OR start.id = $nodeId
+      WHERE (elementId(start) = $nodeId OR start.id = $nodeId) ${labelClause}
       UNWIND nodes(path) as n
       UNWIND relationships(path) as rel
       RETURN DISTINCT n, rel
       LIMIT $limit
     `;
 
-    const result = await this.runCypher(cypher, { nodeId, limit });
-
+    const result = await this.runCypher(
+      cypher,
+      { nodeId: query.nodeId, limit: this.int(limit) },
+      context
+    );
     const nodeMap = new Map<string, GraphNode>();
     const edgeMap = new Map<string, GraphEdge>();
 
@@ -383,29 +760,252 @@ export class Neo4jConnector extends BaseConnector {
   private async executeSearch(
     text: string,
     labels?: readonly string[],
-    limit?: number
+    limit?: number,
+    after?: string,
+    caseSensitive = true,
+    context: CypherContext = {}
   ): Promise<GraphData> {
     // Basic search using CONTAINS - for production, use full-text indexes
-    const labelClause = labels?.length ? `:${labels[0]}` : "";
+    const labelMatch = labels && labelPredicate("n", { labels, mode: "any" });
+    const labelClause = labelMatch ? `AND ${labelMatch}` : "";
+    const afterClause = after !== undefined ? "AND elementId(n) > $after" : "";
+    const match = caseSensitive
+      ? "toString(n[prop]) CONTAINS $text"
+      : "toLower(toString(n[prop])) CONTAINS toLower($text)";
 
     const cypher = `
-      MATCH (n${labelClause})
-      WHERE any(prop in keys(n) WHERE toString(n[prop]) CONTAINS $text)
+      MATCH (n)
+      WHERE any(prop in keys(n) WHERE ${match})
+        ${labelClause} ${afterClause}
       RETURN n
+      ORDER BY elementId(n)
       LIMIT $limit
     `;
 
-    const result = await this.runCypher(cypher, { text, limit: limit ?? 100 });
+    const result = await this.runCypher(
+      cypher,
+      {
+        text,
+        limit: this.int(limit ?? 100),
+        ...(after !== undefined && { after }),
+      },
+      context
+    );
 
     const nodes = result.records.map((r) => this.recordToNode(r.get("n")));
     return { nodes, edges: [] };
   }
 
+  private async executeSample(
+    strategy: "random" | "randomWalk" | "frontier",
+    count: number,
+    startNodeId?: NodeId,
+    context: CypherContext = {}
+  ): Promise<GraphData> {
+    if (strategy === "random") {
+      return this.sampleRandom(count, context);
+    }
+
+    const start = startNodeId ?? (await this.randomNodeId(context));
+    if (start === undefined) return { nodes: [], edges: [] };
+
+    return strategy === "randomWalk"
+      ? this.sampleRandomWalk(start, count, context)
+      : this.sampleFrontier(start, count, context);
+  }
+
+  /**
+   * Random nodes plus the edges among them. Shuffles a window of count * 10
+   * nodes at a random offset instead of ordering the whole graph by rand().
+   */
+  private async sampleRandom(
+    count: number,
+    context: CypherContext = {}
+  ): Promise<GraphData> {
+    const window = count * 10;
+    const cypher = `
+      MATCH (n)
+      WITH n SKIP $skip LIMIT $window
+      WITH n ORDER BY rand() LIMIT $count
+      WITH collect(n) AS sampled
+      UNWIND sampled AS n
+      OPTIONAL MATCH (n)-[r]->(m)
+      WHERE m IN sampled
+      RETURN n, r, m
+    `;
+
+    const result = await this.runCypher(
+      cypher,
+      {
+        skip: this.int(await this.randomOffset(window, context)),
+        window: this.int(window),
+        count: this.int(count),
+      },
+      context
+    );
+
+    return this.recordsToGraph(result.records);
+  }
+
+  /** Follow random incident edges, one hop query per step */
+  private async sampleRandomWalk(
+    startNodeId: NodeId,
+    count: number,
+    context: CypherContext = {}
+  ): Promise<GraphData> {
+    const cypher = `
+      MATCH (n)-[r]-(m)
+      WHERE elementId(n) = $nodeId OR n.id = $nodeId
+      RETURN n, r, m
+      ORDER BY rand()
+      LIMIT 1
+    `;
+
+    const nodeMap = new Map<string, GraphNode>();
+    const edgeMap = new Map<string, GraphEdge>();
+    let current = startNodeId;
+
+    for (let i = 0; i < count * 10 && nodeMap.size < count; i++) {
+      const [record] = (
+        await this.runCypher(cypher, { nodeId: current }, context)
+      ).records;
+      if (!record) break;
+
+      const n = this.recordToNode(record.get("n"));
+      const m = this.recordToNode(record.get("m"));
+      nodeMap.set(n.id, n);
+      if (nodeMap.size < count) {
+        nodeMap.set(m.id, m);
+        const edge = this.recordToEdge(record.get("r"), n.id, m.id);
+        edgeMap.set(edge.id, edge);
+      }
+      current = m.id;
+    }
+
+    // An isolated start node is still part of the sample
+    if (nodeMap.size === 0) {
+      return this.executeGetNode(startNodeId, context);
+    }
+
+    return {
+      nodes: Array.from(nodeMap.values()),
+      edges: Array.from(edgeMap.values()),
+    };
+  }
+
+  /** Breadth-first expansion from the start node until count nodes are reached */
+  private async sampleFrontier(
+    startNodeId: NodeId,
+    count: number,
+    context: CypherContext = {}
+  ): Promise<GraphData> {
+    const cypher = `
+      MATCH (n)-[r]-(m)
+      WHERE elementId(n) IN $frontier OR n.id IN $frontier
+      RETURN n, r, m
+      LIMIT $limit
+    `;
+
+    const nodeMap = new Map<string, GraphNode>();
+    const edgeMap = new Map<string, GraphEdge>();
+    let frontier: NodeId[] = [startNodeId];
+
+    while (frontier.length > 0 && nodeMap.size < count) {
+      const result = await this.runCypher(
+        cypher,
+        {
+          frontier,
+          limit: this.int(count * 10),
+        },
+        context
+      );
+
+      const next: NodeId[] = [];
+      for (const record of result.records) {
+        const n = this.recordToNode(record.get("n"));
+        const m = this.recordToNode(record.get("m"));
+        for (const node of [n, m]) {
+          if (!nodeMap.has(node.id) && nodeMap.size < count) {
+            nodeMap.set(node.id, node);
+            if (node !== n) next.push(node.id);
+          }
+        }
+        if (nodeMap.has(n.id) && nodeMap.has(m.id)) {
+          const edge = this.recordToEdge(record.get("r"), n.id, m.id);
+          edgeMap.set(edge.id, edge);
+        }
+      }
+      frontier = next;
+    }
+
+    if (nodeMap.size === 0) {
+      return this.executeGetNode(startNodeId, context);
+    }
+
+    return {
+      nodes: Array.from(nodeMap.values()),
+      edges: Array.from(edgeMap.values()),
+    };
+  }
+
+  /** Random SKIP offset leaving at least `window` nodes (when available) */
+  private async randomOffset(
+    window: number,
+    context: CypherContext = {}
+  ): Promise<number> {
+    const result = await this.runCypher(
+      "MATCH (n) RETURN count(n) AS total",
+      {},
+      context
+    );
+    const total = toNumber(result.records[0]?.get("total"));
+    return Math.floor(Math.random() * Math.max(0, total - window + 1));
+  }
+
+  private async randomNodeId(
+    context: CypherContext = {}
+  ): Promise<NodeId | undefined> {
+    const result = await this.runCypher(
+      "MATCH (n) WITH n SKIP $skip LIMIT 1 RETURN n",
+      {
+        skip: this.int(await this.randomOffset(1, context)),
+      },
+      context
+    );
+    const record = result.records[0];
+    return record ? this.recordToNode(record.get("n")).id : undefined;
+  }
+
+  /** Collect n, r, m columns (r and m optional) into graph data */
+  private recordsToGraph(records: readonly Neo4jRecord[]): GraphData {
+    const nodeMap = new Map<string, GraphNode>();
+    const edgeMap = new Map<string, GraphEdge>();
+
+    for (const record of records) {
+      const n = this.recordToNode(record.get("n"));
+      nodeMap.set(n.id, n);
+
+      const m = record.get("m");
+      const r = record.get("r");
+      if (m && r) {
+        const target = this.recordToNode(m);
+        const edge = this.recordToEdge(r, n.id, target.id);
+        edgeMap.set(edge.id, edge);
+      }
+    }
+
+    return {
+      nodes: Array.from(nodeMap.values()),
+      edges: Array.from(edgeMap.values()),
+    };
+  }
+
   private async executeRaw(
     query: string,
-    parameters?: Record<string, unknown>
+    parameters?: Record<string, unknown>,
+    context: CypherContext = {}
   ): Promise<GraphData> {
-    const result = await this.runCypher(query, parameters);
+    const result = await this.runCypher(query, parameters, context);
 
     const nodeMap = new Map<string, GraphNode>();
     const edgeMap = new Map<string, GraphEdge>();
@@ -481,8 +1081,7 @@ export class Neo4jConnector extends BaseConnector {
 
     return {
       id: rel.elementId ?? rel.identity?.toString() ?? "",
-      source:
-        rel.startNodeElementId ?? rel.start?.toString() ?? defaultSource,
+      source: rel.startNodeElementId ?? rel.start?.toString() ?? defaultSource,
       target: rel.endNodeElementId ?? rel.end?.toString() ?? defaultTarget,
       type: rel.type,
       properties: rel.properties,
@@ -490,6 +1089,61 @@ export class Neo4jConnector extends BaseConnector {
   }
 }
 
+/** Convert a Neo4j Integer (or plain number) to a number */
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "object" && value !== null && "toNumber" in value) {
+    return (value as Neo4jInteger).toNumber();
+  }
+  return 0;
+}
+
+/** Convert Neo4j Integer values to numbers */
+function plainParameters<T>(params: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [
+      key,
+      typeof value === "object" && value !== null && "toNumber" in value
+        ? (toNumber(value) as T)
+        : value,
+    ])
+  );
+}
+
+/** Convert Neo4j Integer property values, so statistics type them as numbers */
+function plainProperties<T extends { readonly properties: Properties }>(
+  element: T
+): T {
+  return { ...element, properties: plainParameters(element.properties) };
+}
+
+/** Convert an EXPLAIN plan, with Neo4j Integer arguments as numbers */
+function planOperator(plan: Neo4jPlan): QueryPlanOperator {
+  return {
+    operator: plan.operatorType,
+    details: {
+      identifiers: plan.identifiers,
+      ...plainParameters(plan.arguments),
+    },
+    children: plan.children.map(planOperator),
+  };
+}
+
+/**
+ * Keyset cursor after the last element of a full page; elements are ordered by
+ * elementId, which is also their ID
+ */
+function keysetCursor(
+  query: Query,
+  elements: readonly { id: string }[],
+  limit: number
+): string | null {
+  const last = elements[elements.length - 1];
+  return last && elements.length >= limit
+    ? encodeCursor(query.type, { kind: "keyset", after: last.id })
+    : null;
+}
+
 /** Create Neo4j connector */
 export function createNeo4jConnector(
   config: Neo4jConnectorConfig
@@ -0,0 +1,599 @@
+import {
+  QueryBuilder,
+  QueryCancelledError,
+  ValidationError,
+  normalizeQuery,
+} from "@queryscape/core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Neo4jConnector } from "./index";
+
+/** Cypher statement received by the stubbed driver */
+interface RunCall {
+  readonly cypher: string;
+  readonly params: Record<string, unknown>;
+}
+
+type Row = Record<string, unknown>;
+
+/** Statements run through the mocked driver and the rows they return */
+const driverStub = vi.hoisted(() => ({
+  calls: [] as RunCall[],
+  handler: (_call: RunCall): Row[] => [],
+  /** Leave statements running until their session is closed */
+  hang: false,
+  closedSessions: 0,
+  /** Plan returned in the summary of EXPLAIN statements */
+  plan: {
+    operatorType: "ProduceResults",
+    identifiers: ["n"],
+    arguments: { EstimatedRows: 1 },
+    children: [
+      {
+        operatorType: "NodeByElementIdSeek",
+        identifiers: ["n"],
+        arguments: {},
+        children: [],
+      },
+    ],
+  },
+}));
+
+vi.mock("neo4j-driver", () => ({
+  default: {
+    auth: {
+      basic: (username: string, password: string) => ({ username, password }),
+    },
+    int: (value: number) => ({ toNumber: () => value }),
+    driver: () => ({
+      verifyConnectivity: async () => undefined,
+      close: async () => undefined,
+      session: () => ({
+        close: async () => {
+          driverStub.closedSessions++;
+        },
+        run: async (cypher: string, params: Record<string, unknown> = {}) => {
+          const call = { cypher, params };
+          driverStub.calls.push(call);
+          if (driverStub.hang) await new Promise(() => {});
+          return {
+            records: driverStub.handler(call).map((row) => ({
+              keys: Object.keys(row),
+              get: (key: string) => row[key],
+            })),
+            summary: {
+              plan: cypher.startsWith("EXPLAIN") ? driverStub.plan : false,
+            },
+          };
+        },
+      }),
+    }),
+  },
+}));
+
+const node = (id: string): Row => ({
+  elementId: id,
+  labels: ["Person"],
+  properties: { name: id },
+});
+
+const rel = (source: string, target: string): Row => ({
+  elementId: `${source}-${target}`,
+  type: "KNOWS",
+  properties: {},
+  startNodeElementId: source,
+  endNodeElementId: target,
+});
+
+/** a - b - c - d chain */
+const CHAIN: readonly [string, string][] = [
+  ["a", "b"],
+  ["b", "c"],
+  ["c", "d"],
+];
+
+/** Answer hop queries from CHAIN for the node IDs in the params */
+const hops = (call: RunCall): Row[] => {
+  const ids = (call.params["frontier"] as string[] | undefined) ?? [
+    call.params["nodeId"] as string,
+  ];
+  return CHAIN.flatMap(([s, t]) => [
+    ...(ids.includes(s) ? [{ n: node(s), r: rel(s, t), m: node(t) }] : []),
+    ...(ids.includes(t) ? [{ n: node(t), r: rel(s, t), m: node(s) }] : []),
+  ]);
+};
+
+const intParam = (call: RunCall | undefined, key: string): number =>
+  (call?.params[key] as { toNumber(): number }).toNumber();
+
+describe("Neo4jConnector", () => {
+  let connector: Neo4jConnector;
+
+  beforeEach(async () => {
+    driverStub.calls.length = 0;
+    driverStub.handler = () => [];
+    driverStub.hang = false;
+    driverStub.closedSessions = 0;
+    connector = new Neo4jConnector({
+      uri: "neo4j://localhost:7687",
+      username: "neo4j",
+      password: "secret",
+    });
+    await connector.connect();
+  });
+
+  describe("pagination", () => {
+    it("should resume findNodes after the last elementId of a full page", async () => {
+      driverStub.handler = () => [{ n: node("a") }, { n: node("b") }];
+
+      const first = await connector.executeQuery({
+        type: "findNodes",
+        pagination: { limit: 2 },
+      });
+      driverStub.handler = () => [{ n: node("c") }];
+      const second = await connector.executeQuery({
+        type: "findNodes",
+        pagination: { limit: 2, cursor: first.metadata.cursor! },
+      });
+
+      const resumed = driverStub.calls[1];
+      expect(resumed?.cypher).toContain("elementId(n) > $after");
+      expect(resumed?.cypher).toContain("ORDER BY elementId(n)");
+      expect(resumed?.params["after"]).toBe("b");
+      expect(second.data.nodes.map((n) => n.id)).toEqual(["c"]);
+      expect(second.metadata.cursor).toBeNull();
+    });
+
+    it("should reject a cursor issued for another query type", async () => {
+      driverStub.handler = () => [{ n: node("a") }];
+      const search = await connector.executeQuery({
+        type: "search",
+        text: "a",
+        pagination: { limit: 1 },
+      });
+
+      await expect(
+        connector.executeQuery({
+          type: "findNodes",
+          pagination: { limit: 1, cursor: search.metadata.cursor! },
+        })
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should close the running session when the signal aborts", async () => {
+      driverStub.hang = true;
+      const controller = new AbortController();
+
+      const pending = connector.executeQuery(
+        { type: "getNode", nodeId: "a" },
+        { signal: controller.signal }
+      );
+      await vi.waitFor(() => expect(driverStub.calls).toHaveLength(1));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+      expect(driverStub.closedSessions).toBeGreaterThan(0);
+    });
+
+    it("should not run Cypher for an already aborted signal", async () => {
+      await expect(
+        connector.executeQuery(
+          { type: "getNode", nodeId: "a" },
+          { signal: AbortSignal.abort() }
+        )
+      ).rejects.toBeInstanceOf(QueryCancelledError);
+      expect(driverStub.calls).toHaveLength(0);
+    });
+  });
+
+  describe("explain", () => {
+    it("should record statements and plan them with EXPLAIN", async () => {
+      const explanation = await connector.explain({
+        type: "getNeighbors",
+        nodeId: "a",
+        direction: "both",
+      });
+
+      const [statement] = explanation.statements;
+      expect(statement?.language).toBe("cypher");
+      expect(statement?.text).toMatch(/^MATCH/);
+      expect(statement?.parameters).toMatchObject({ nodeId: "a", limit: 100 });
+      expect(statement?.plan).toEqual({
+        operator: "ProduceResults",
+        details: { identifiers: ["n"], EstimatedRows: 1 },
+        children: [
+          {
+            operator: "NodeByElementIdSeek",
+            details: { identifiers: ["n"] },
+            children: [],
+          },
+        ],
+      });
+      expect(explanation.limits.limit).toBe(100);
+      expect(driverStub.calls.map((c) => c.cypher.split(" ")[0])).toEqual([
+        "EXPLAIN",
+      ]);
+    });
+
+    it("should redact sensitive parameters", async () => {
+      const explanation = await connector.explain(
+        {
+          type: "raw",
+          query: "MATCH (n {token: $apiToken}) RETURN n",
+          parameters: { apiToken: "s3cret", name: "a" },
+        },
+        { includePlan: false }
+      );
+
+      expect(explanation.statements[0]?.parameters).toEqual({
+        apiToken: "[REDACTED]",
+        name: "a",
+      });
+      expect(driverStub.calls).toHaveLength(0);
+    });
+
+    it("should redact filter values on sensitive properties", async () => {
+      const explanation = await connector.explain(
+        {
+          type: "findNodes",
+          propertyFilters: [
+            { key: "password", op: "eq", value: "hunter2" },
+            { key: "name", op: "eq", value: "a" },
+          ],
+          filter: { op: "in", key: "apiToken", values: ["t1", "t2"] },
+        },
+        { includePlan: false }
+      );
+
+      const parameters = explanation.statements[0]?.parameters;
+      expect(parameters).toMatchObject({
+        prop0: "[REDACTED]",
+        prop1: "a",
+        filter0: "[REDACTED]",
+      });
+      expect(JSON.stringify(parameters)).not.toMatch(/hunter2|t1/);
+    });
+  });
+
+  describe("findEdges", () => {
+    it("should match relationships by type and endpoints", async () => {
+      driverStub.handler = () => [
+        { s: node("a"), r: rel("a", "b"), t: node("b") },
+      ];
+
+      const result = await connector.executeQuery({
+        type: "findEdges",
+        edgeTypes: ["KNOWS"],
+        sourceId: "a",
+      });
+
+      const call = driverStub.calls[0];
+      expect(call?.cypher).toContain("MATCH (s)-[r]->(t)");
+      expect(call?.cypher).toContain("type(r) IN $edgeTypes");
+      expect(call?.params).toMatchObject({
+        edgeTypes: ["KNOWS"],
+        sourceId: "a",
+      });
+      expect(result.data.edges.map((e) => e.id)).toEqual(["a-b"]);
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("getNeighbors", () => {
+    it("should escape relationship types", async () => {
+      await connector.executeQuery({
+        type: "getNeighbors",
+        nodeId: "a",
+        direction: "outgoing",
+        edgeTypes: ["KNOWS", "X]->(m) DETACH DELETE m //"],
+      });
+
+      expect(driverStub.calls[0]?.cypher).toContain(
+        "-[r:`KNOWS`|`X]->(m) DETACH DELETE m //`]->"
+      );
+    });
+  });
+
+  describe("search", () => {
+    it("should match any of the escaped labels", async () => {
+      await connector.executeQuery({
+        type: "search",
+        text: "a",
+        labels: ["Person", "Bad`Label"],
+      });
+
+      const cypher = driverStub.calls[0]?.cypher;
+      expect(cypher).toContain("MATCH (n)\n");
+      expect(cypher).toContain("AND (n:`Person` OR n:`Bad``Label`)");
+    });
+  });
+
+  describe("expandNode", () => {
+    it("should restrict relationship types and neighbor labels", async () => {
+      await connector.executeQuery(
+        normalizeQuery(
+          QueryBuilder.neighborhood("a")
+            .filterEdgeTypes(["KNOWS", "WORKS`AT"])
+            .filterNeighborLabels(["Person"])
+            .build()
+        )
+      );
+
+      const call = driverStub.calls[0];
+      expect(call?.cypher).toContain("-[r:`KNOWS`|`WORKS``AT`*1..1]-");
+      expect(call?.cypher).toContain(
+        "all(x IN nodes(path)[1..] WHERE x:`Person`)"
+      );
+    });
+
+    it("should bind the limit as an integer", async () => {
+      await connector.executeQuery({
+        type: "expandNode",
+        nodeId: "a",
+        direction: "both",
+        pagination: { limit: 25 },
+      });
+
+      expect(intParam(driverStub.calls[0], "limit")).toBe(25);
+    });
+  });
+
+  describe("findPath", () => {
+    it("should restrict the shortest path to the filtered types", async () => {
+      driverStub.handler = () => [
+        { nodes: [node("a"), node("b")], rels: [rel("a", "b")] },
+      ];
+
+      const result = await connector.executeQuery(
+        normalizeQuery(
+          QueryBuilder.path("a", "c").filterEdgeTypes(["KNOWS"]).build()
+        )
+      );
+
+      const call = driverStub.calls[0];
+      expect(call?.cypher).toContain(
+        "shortestPath((source)-[:`KNOWS`*1..10]-(target))"
+      );
+      expect(intParam(call, "limit")).toBe(1);
+      expect(result.data.edges.map((e) => e.id)).toEqual(["a-b"]);
+    });
+
+    it("should merge every matching path without shortestOnly", async () => {
+      driverStub.handler = () => [
+        { nodes: [node("a"), node("c")], rels: [rel("a", "c")] },
+        {
+          nodes: [node("a"), node("b"), node("c")],
+          rels: [rel("a", "b"), rel("b", "c")],
+        },
+      ];
+
+      const result = await connector.executeQuery(
+        normalizeQuery(QueryBuilder.path("a", "c").allPaths().build())
+      );
+
+      const call = driverStub.calls[0];
+      expect(call?.cypher).not.toContain("shortestPath");
+      expect(call?.cypher).toContain("MATCH path = (source)-[*1..10]-(target)");
+      expect(intParam(call, "limit")).toBe(10);
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["a", "c", "b"]);
+      expect(result.data.edges.map((e) => e.id)).toEqual(["a-c", "a-b", "b-c"]);
+    });
+  });
+
+  describe("pattern", () => {
+    it("should compile required and optional edges to one statement", async () => {
+      driverStub.handler = () => [
+        { n0: node("a"), n1: node("b"), r0: rel("a", "b"), r1: null },
+      ];
+
+      const result = await connector.executeQuery({
+        type: "pattern",
+        nodes: [
+          { variable: "p", labels: ["Person"] },
+          {
+            variable: "q",
+            propertyFilters: [{ key: "age", op: "gt", value: 30 }],
+          },
+        ],
+        edges: [
+          { source: "p", target: "q", types: ["KNOWS", "LIKES"] },
+          { source: "q", target: "p", optional: true },
+        ],
+        pagination: { limit: 1 },
+      });
+
+      const call = driverStub.calls[0];
+      expect(call?.cypher).toBe(
+        "MATCH (n0)-[r0:`KNOWS`|`LIKES`]->(n1) WHERE n0:`Person` AND n1.`age` > $n1p0" +
+          " OPTIONAL MATCH (n1)-[r1]->(n0)" +
+          " RETURN n0, n1, r0, r1" +
+          " ORDER BY elementId(n0), elementId(n1), elementId(r0), elementId(r1)" +
+          " SKIP $skip LIMIT $limit"
+      );
+      expect(call?.params["n1p0"]).toBe(30);
+      expect(intParam(call, "skip")).toBe(0);
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+      expect(result.data.edges.map((e) => e.id)).toEqual(["a-b"]);
+      expect(result.metadata.cursor).not.toBeNull();
+    });
+
+    it("should bind filters on optional nodes in their OPTIONAL MATCH", async () => {
+      await connector.executeQuery({
+        type: "pattern",
+        nodes: [
+          { variable: "p", nodeId: "a" },
+          { variable: "m", filter: { op: "exists", key: "email" } },
+        ],
+        edges: [
+          { source: "m", target: "p", types: ["MANAGES"], optional: true },
+        ],
+      });
+
+      const cypher = driverStub.calls[0]?.cypher;
+      expect(cypher).toContain(
+        "MATCH (n0) WHERE (elementId(n0) = $n0Id OR n0.id = $n0Id)"
+      );
+      expect(cypher).toContain(
+        "OPTIONAL MATCH (n1)-[r0:`MANAGES`]->(n0) WHERE n1.`email` IS NOT NULL"
+      );
+    });
+  });
+
+  describe("getSchema", () => {
+    it("should aggregate counts in Cypher and sample properties", async () => {
+      const count = (value: number): { toNumber(): number } => ({
+        toNumber: () => value,
+      });
+      driverStub.handler = (call) => {
+        if (call.cypher.startsWith("MATCH (n) RETURN count(n)")) {
+          return [{ count: count(3) }];
+        }
+        if (call.cypher.startsWith("MATCH ()-[r]->() RETURN count(r)")) {
+          return [{ count: count(2) }];
+        }
+        if (call.cypher.includes("AS label")) {
+          return [{ label: "Person", count: count(3) }];
+        }
+        if (call.cypher.includes("AS type")) {
+          return [{ type: "KNOWS", count: count(2) }];
+        }
+        if (call.cypher.includes("AS sourceLabel")) {
+          return [
+            {
+              sourceLabel: "Person",
+              edgeType: "KNOWS",
+              targetLabel: "Person",
+              count: count(2),
+            },
+          ];
+        }
+        if (call.cypher.includes("RETURN n LIMIT")) {
+          return ["a", "b"].map((id, i) => ({
+            n: { ...node(id), properties: { name: id, age: count(30 + i) } },
+          }));
+        }
+        return [{ r: rel("a", "b") }];
+      };
+
+      const schema = await connector.getSchema({ sampleSize: 50 });
+
+      expect(schema).toMatchObject({
+        nodeCount: 3,
+        edgeCount: 2,
+        labels: [{ label: "Person", count: 3 }],
+        edgeTypes: [{ type: "KNOWS", count: 2 }],
+        connectivity: [
+          {
+            sourceLabel: "Person",
+            edgeType: "KNOWS",
+            targetLabel: "Person",
+            count: 2,
+          },
+        ],
+      });
+      expect(schema.properties.find((p) => p.key === "age")).toMatchObject({
+        owner: "Person",
+        types: ["number"],
+        count: 2,
+        distinctCount: 2,
+        sampleSize: 2,
+      });
+      const sampleCall = driverStub.calls.find((c) =>
+        c.cypher.includes("RETURN n LIMIT")
+      );
+      expect(intParam(sampleCall, "limit")).toBe(50);
+    });
+
+    it("should skip the property sample when not requested", async () => {
+      await connector.getSchema({ includeProperties: false });
+
+      expect(driverStub.calls.map((c) => c.cypher)).not.toContainEqual(
+        expect.stringContaining("LIMIT $limit")
+      );
+    });
+  });
+
+  describe("sample", () => {
+    it("should shuffle a bounded window and return induced edges", async () => {
+      driverStub.handler = (call) =>
+        call.cypher.includes("count(n)")
+          ? [{ total: { toNumber: () => 1000 } }]
+          : [
+              { n: node("a"), r: rel("a", "b"), m: node("b") },
+              { n: node("b"), r: null, m: null },
+            ];
+
+      const result = await connector.executeQuery({
+        type: "sample",
+        strategy: "random",
+        count: 5,
+      });
+
+      const sample = driverStub.calls[1];
+      expect(sample?.cypher).toContain("ORDER BY rand() LIMIT $count");
+      expect(intParam(sample, "count")).toBe(5);
+      expect(intParam(sample, "window")).toBe(50);
+      expect(intParam(sample, "skip")).toBeLessThanOrEqual(950);
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+      expect(result.data.edges.map((e) => e.id)).toEqual(["a-b"]);
+    });
+
+    it("should walk random edges from the start node", async () => {
+      driverStub.handler = (call) => hops(call).slice(-1);
+
+      const result = await connector.executeQuery({
+        type: "sample",
+        strategy: "randomWalk",
+        count: 3,
+        startNodeId: "a",
+      });
+
+      expect(driverStub.calls.map((c) => c.params["nodeId"])).toEqual([
+        "a",
+        "b",
+      ]);
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["a", "b", "c"]);
+      expect(result.data.edges).toHaveLength(2);
+    });
+
+    it("should expand a BFS frontier up to count nodes", async () => {
+      driverStub.handler = hops;
+
+      const result = await connector.executeQuery({
+        type: "sample",
+        strategy: "frontier",
+        count: 3,
+        startNodeId: "b",
+      });
+
+      expect(driverStub.calls[0]?.params["frontier"]).toEqual(["b"]);
+      expect(intParam(driverStub.calls[0], "limit")).toBe(30);
+      expect(result.data.nodes.map((n) => n.id).sort()).toEqual([
+        "a",
+        "b",
+        "c",
+      ]);
+      expect(driverStub.calls).toHaveLength(1);
+    });
+
+    it("should pick a random start node when none is given", async () => {
+      driverStub.handler = (call) =>
+        call.cypher.includes("count(n)")
+          ? [{ total: 4 }]
+          : call.cypher.includes("SKIP $skip LIMIT 1")
+            ? [{ n: node("c") }]
+            : hops(call);
+
+      const result = await connector.executeQuery({
+        type: "sample",
+        strategy: "frontier",
+        count: 10,
+      });
+
+      expect(driverStub.calls[2]?.params["frontier"]).toEqual(["c"]);
+      expect(result.data.nodes).toHaveLength(4);
+    });
+  });
+});
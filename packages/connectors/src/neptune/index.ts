@@ -1,40 +1,102 @@
 /**
  * Amazon Neptune connector (Gremlin)
- * Skeleton implementation
  */
 
-import type { Query, QueryResult } from "@queryscape/core";
-import { QueryNotSupportedError } from "@queryscape/core";
+import type {
+  ExecuteOptions,
+  ExplainOptions,
+  Query,
+  QueryExplanation,
+  QueryResult,
+} from "@queryscape/core";
+import {
+  AuthError,
+  ConnectionError,
+  QueryError,
+  cancellationError,
+  isQueryScapeError,
+  querySignal,
+} from "@queryscape/core";
 
+import {
+  createExplainRecorder,
+  explainedStatement,
+  queryExplanation,
+} from "../explain.js";
+import {
+  GRAPHSON_V3_MIME_TYPE,
+  GremlinClient,
+  createBytecodeRequest,
+  gremlinLimit,
+  mapGremlinResults,
+  mapTraversalExplanation,
+  nextGremlinCursor,
+  toGremlinScript,
+  translateToGremlin,
+  type GremlinTranslationOptions,
+} from "../gremlin/index.js";
 import {
   BaseConnector,
   type ConnectorCapabilities,
   type BaseConnectorConfig,
 } from "../interface.js";
 
+import {
+  createRefreshingCredentialsProvider,
+  fromEnvironment,
+  fromStaticCredentials,
+  signRequest,
+  type AwsCredentialsProvider,
+} from "./sigv4.js";
+
+export * from "./sigv4.js";
+
+/** SigV4 service name for Neptune IAM database authentication */
+const NEPTUNE_SERVICE = "neptune-db";
+
+/** Neptune supports path().by() projections of elements */
+const TRANSLATION_OPTIONS: GremlinTranslationOptions = {
+  projectElements: true,
+};
+
 /** Neptune connector configuration */
 export interface NeptuneConnectorConfig extends BaseConnectorConfig {
   /** Neptune endpoint */
   endpoint: string;
   /** Port (default 8182) */
   port?: number;
-  /** Use SSL */
+  /** Use SSL (default true) */
   ssl?: boolean;
-  /** IAM authentication */
+  /**
+   * IAM authentication (SigV4). Credentials are resolved from the provider,
+   * then static keys, then the AWS_* environment variables.
+   */
   iamAuth?: {
     region: string;
     accessKeyId?: string;
     secretAccessKey?: string;
+    sessionToken?: string;
+    /** Credentials source, refreshed before temporary credentials expire */
+    credentialsProvider?: AwsCredentialsProvider;
   };
+  /** Per-request timeout in ms (default 30000) */
+  requestTimeoutMs?: number;
 }
 
-/** Neptune connector implementation (skeleton) */
+/** Neptune connector implementation */
 export class NeptuneConnector extends BaseConnector {
   protected readonly neptuneConfig: NeptuneConnectorConfig;
+  private client: GremlinClient | null = null;
+  private readonly credentialsProvider: AwsCredentialsProvider | null;
 
   constructor(config: NeptuneConnectorConfig) {
     super(config);
     this.neptuneConfig = config;
+    this.credentialsProvider = config.iamAuth
+      ? createRefreshingCredentialsProvider(
+          resolveCredentialsProvider(config.iamAuth)
+        )
+      : null;
   }
 
   /** Get Neptune configuration */
@@ -49,36 +111,225 @@ export class NeptuneConnector extends BaseConnector {
         "getNode",
         "getNeighbors",
         "findNodes",
+        "findEdges",
         "findPath",
         "expandNode",
+        "pattern",
       ],
       supportsFullTextSearch: false,
       supportsPagination: true,
       supportsRawQueries: true,
+      supportsSchema: false,
+      supportsExplain: true,
       maxPageSize: 1000,
     };
   }
 
+  /** Gremlin WebSocket URL for the configured endpoint */
+  getGremlinUrl(): string {
+    const { endpoint, port, ssl } = this.neptuneConfig;
+    const protocol = ssl === false ? "ws" : "wss";
+    return `${protocol}://${endpoint}:${port ?? 8182}/gremlin`;
+  }
+
+  /** HTTP(S) base URL for the configured endpoint */
+  getHttpUrl(): string {
+    const { endpoint, port, ssl } = this.neptuneConfig;
+    const protocol = ssl === false ? "http" : "https";
+    return `${protocol}://${endpoint}:${port ?? 8182}`;
+  }
+
+  /**
+   * Build request headers, signed with SigV4 when IAM auth is enabled.
+   * WebSocket URLs are signed as the equivalent HTTP(S) GET.
+   */
+  async getSignedHeaders(
+    method: string,
+    url: string,
+    headers: Record<string, string> = {},
+    body?: string
+  ): Promise<Record<string, string>> {
+    if (!this.credentialsProvider || !this.neptuneConfig.iamAuth) {
+      return headers;
+    }
+
+    const credentials = await this.credentialsProvider();
+    return signRequest(
+      { method, url: url.replace(/^ws/, "http"), headers, body },
+      {
+        region: this.neptuneConfig.iamAuth.region,
+        service: NEPTUNE_SERVICE,
+        credentials,
+      }
+    );
+  }
+
+  /** Fetch engine status from the HTTP status endpoint */
+  async getStatus(): Promise<Record<string, unknown>> {
+    const url = `${this.getHttpUrl()}/status`;
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        headers: await this.getSignedHeaders("GET", url),
+      });
+    } catch (error) {
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
+      throw new ConnectionError(
+        `Failed to reach Neptune status endpoint: ${error instanceof Error ? error.message : String(error)}`,
+        this.neptuneConfig.endpoint,
+        this.neptuneConfig.port ?? 8182
+      );
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthError(
+        `Neptune rejected request signature (${response.status})`
+      );
+    }
+    if (!response.ok) {
+      throw new ConnectionError(
+        `Neptune status request failed (${response.status})`,
+        this.neptuneConfig.endpoint,
+        this.neptuneConfig.port ?? 8182
+      );
+    }
+
+    return (await response.json()) as Record<string, unknown>;
+  }
+
   async connect(): Promise<void> {
-    // TODO: Implement Gremlin connection
-    // Use gremlin package for WebSocket connection
+    const url = this.getGremlinUrl();
+    const client = new GremlinClient({
+      url,
+      mimeType: GRAPHSON_V3_MIME_TYPE,
+      requestTimeoutMs: this.neptuneConfig.requestTimeoutMs,
+      // Re-signed on every (re)connect so credentials and dates stay current
+      headers: () => this.getSignedHeaders("GET", url),
+    });
+
+    await client.open();
+    this.client = client;
     this.connected = true;
   }
 
   async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+      this.client = null;
+    }
     this.connected = false;
   }
 
-  async executeQuery(query: Query): Promise<QueryResult> {
+  async executeQuery(
+    query: Query,
+    execution: ExecuteOptions = {}
+  ): Promise<QueryResult> {
     this.ensureConnected();
     this.checkQuerySupported(query.type);
 
-    // TODO: Implement query translation to Gremlin
-    throw new QueryNotSupportedError(
-      "Neptune connector not yet implemented",
-      query.type
-    );
+    const startTime = Date.now();
+    const signal = querySignal(query, execution.signal);
+
+    try {
+      // Neptune closes idle and expired IAM connections; reopen transparently
+      if (!this.client!.isOpen()) {
+        await this.client!.open();
+      }
+
+      const traversal = translateToGremlin(query, TRANSLATION_OPTIONS);
+      const response = await this.client!.submit(
+        createBytecodeRequest(traversal),
+        signal
+      );
+      return {
+        data: mapGremlinResults(response.data),
+        metadata: {
+          executionTimeMs: Date.now() - startTime,
+          totalAvailable: null,
+          truncated:
+            response.data.length >= gremlinLimit(query, TRANSLATION_OPTIONS),
+          cursor: nextGremlinCursor(
+            query,
+            response.data.length,
+            TRANSLATION_OPTIONS
+          ),
+        },
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw cancellationError(signal, query);
+      }
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
+      throw new QueryError(
+        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        query.type
+      );
+    }
+  }
+
+  /**
+   * Explain a query: the traversal as a parameterized script, with the
+   * TraversalExplanation of its explain() step as the plan. The bytecode
+   * request sent by executeQuery is equivalent to the script.
+   */
+  async explain(
+    query: Query,
+    options: ExplainOptions = {}
+  ): Promise<QueryExplanation> {
+    this.ensureConnected();
+    this.checkQuerySupported(query.type);
+
+    const recorder = createExplainRecorder(options);
+    try {
+      const traversal = translateToGremlin(query, TRANSLATION_OPTIONS);
+      const { script, bindings, propertyKeys } = toGremlinScript(traversal);
+
+      let plan = null;
+      if (recorder.includePlan) {
+        if (!this.client!.isOpen()) {
+          await this.client!.open();
+        }
+        const response = await this.client!.submit(
+          createBytecodeRequest(traversal.step("explain"))
+        );
+        plan = mapTraversalExplanation(response.data[0]);
+      }
+
+      recorder.statements.push(
+        explainedStatement("gremlin", script, bindings, plan, propertyKeys)
+      );
+      return queryExplanation(this.getCapabilities(), query, recorder);
+    } catch (error) {
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
+      throw new QueryError(
+        `Query explanation failed: ${error instanceof Error ? error.message : String(error)}`,
+        query.type
+      );
+    }
+  }
+}
+
+function resolveCredentialsProvider(
+  iamAuth: NonNullable<NeptuneConnectorConfig["iamAuth"]>
+): AwsCredentialsProvider {
+  if (iamAuth.credentialsProvider) {
+    return iamAuth.credentialsProvider;
+  }
+  if (iamAuth.accessKeyId && iamAuth.secretAccessKey) {
+    return fromStaticCredentials({
+      accessKeyId: iamAuth.accessKeyId,
+      secretAccessKey: iamAuth.secretAccessKey,
+      sessionToken: iamAuth.sessionToken,
+    });
   }
+  return fromEnvironment();
 }
 
 /** Create Neptune connector */
@@ -0,0 +1,537 @@
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import {
+  ConnectionError,
+  QueryError,
+  QueryNotSupportedError,
+} from "@queryscape/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  graphson,
+  startFakeGremlinServer,
+  type FakeGremlinServer,
+} from "../gremlin/fake-gremlin-server";
+
+import { NeptuneConnector, type AwsCredentialsProvider } from "./index";
+
+const vertex = (id: string, label: string, props: unknown[] = []): unknown =>
+  graphson.map([graphson.t("id"), id, graphson.t("label"), label, ...props]);
+
+const edge = (id: string, label: string, outV: string, inV: string): unknown =>
+  graphson.map([
+    graphson.t("id"),
+    id,
+    graphson.t("label"),
+    label,
+    graphson.direction("OUT"),
+    graphson.map([graphson.t("id"), outV]),
+    graphson.direction("IN"),
+    graphson.map([graphson.t("id"), inV]),
+    "since",
+    graphson.int64(2020),
+  ]);
+
+/** Extract [step, ...args] arrays from the bytecode a request carried */
+const stepsOf = (args: Record<string, unknown>): unknown[][] =>
+  (args["gremlin"] as { "@value": { step: unknown[][] } })["@value"].step;
+
+describe("NeptuneConnector", () => {
+  let server: FakeGremlinServer;
+  let connector: NeptuneConnector;
+
+  beforeEach(async () => {
+    server = await startFakeGremlinServer();
+    connector = new NeptuneConnector({
+      endpoint: server.host,
+      port: server.port,
+      ssl: false,
+    });
+    await connector.connect();
+  });
+
+  afterEach(async () => {
+    await connector.disconnect();
+    await server.close();
+  });
+
+  describe("connection", () => {
+    it("should build the Gremlin URL from endpoint, port and ssl", () => {
+      const secure = new NeptuneConnector({ endpoint: "db.example.com" });
+      expect(secure.getGremlinUrl()).toBe("wss://db.example.com:8182/gremlin");
+      expect(connector.getGremlinUrl()).toBe(server.url);
+    });
+
+    it("should open and close the WebSocket", async () => {
+      expect(connector.isConnected()).toBe(true);
+      await connector.disconnect();
+      expect(connector.isConnected()).toBe(false);
+    });
+
+    it("should share one reconnect between concurrent queries", async () => {
+      server.dropConnections();
+      await vi.waitFor(() => expect(connector["client"]!.isOpen()).toBe(false));
+      await Promise.all([
+        connector.executeQuery({ type: "getNode", nodeId: "v1" }),
+        connector.executeQuery({ type: "getNode", nodeId: "v2" }),
+      ]);
+
+      expect(server.connections).toBe(2);
+    });
+
+    it("should raise ConnectionError when the server is unreachable", async () => {
+      const unreachable = new NeptuneConnector({
+        endpoint: "127.0.0.1",
+        port: 1,
+        ssl: false,
+      });
+      await expect(unreachable.connect()).rejects.toBeInstanceOf(
+        ConnectionError
+      );
+    });
+  });
+
+  describe("getNode", () => {
+    it("should send parameterized bytecode over GraphSON 3", async () => {
+      server.setHandler(() => ({ status: 204 }));
+
+      await connector.executeQuery({ type: "getNode", nodeId: "v1' or 1=1" });
+
+      const request = server.requests[0]!;
+      expect(request.mimeType).toBe("application/vnd.gremlin-v3.0+json");
+      expect(request.op).toBe("bytecode");
+      expect(request.processor).toBe("traversal");
+      expect(stepsOf(request.args)).toEqual([
+        ["V", "v1' or 1=1"],
+        ["valueMap", true],
+      ]);
+    });
+
+    it("should map T.id, T.label and multi-valued properties", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: graphson.list([
+          vertex("v1", "Person::Employee", [
+            "name",
+            graphson.list(["Alice"]),
+            "email",
+            graphson.list(["a@example.com", "alice@example.com"]),
+            "age",
+            graphson.list([graphson.int64(42)]),
+          ]),
+        ]),
+      }));
+
+      const result = await connector.executeQuery({
+        type: "getNode",
+        nodeId: "v1",
+      });
+
+      expect(result.data.nodes).toEqual([
+        {
+          id: "v1",
+          labels: ["Person", "Employee"],
+          properties: {
+            name: "Alice",
+            email: ["a@example.com", "alice@example.com"],
+            age: 42,
+          },
+        },
+      ]);
+    });
+  });
+
+  describe("traversals", () => {
+    it("should translate getNeighbors with direction, edge types and limit", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: graphson.list([
+          graphson.path([
+            vertex("v1", "Person"),
+            edge("e1", "KNOWS", "v1", "v2"),
+            vertex("v2", "Person"),
+          ]),
+        ]),
+      }));
+
+      const result = await connector.executeQuery({
+        type: "getNeighbors",
+        nodeId: "v1",
+        direction: "outgoing",
+        edgeTypes: ["KNOWS"],
+        pagination: { limit: 5 },
+      });
+
+      const steps = stepsOf(server.requests[0]!.args);
+      expect(steps.slice(0, 5)).toEqual([
+        ["V", "v1"],
+        ["outE", "KNOWS"],
+        ["inV"],
+        ["limit", { "@type": "g:Int32", "@value": 5 }],
+        ["path"],
+      ]);
+      expect(steps.filter((s) => s[0] === "by")).toHaveLength(2);
+
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["v1", "v2"]);
+      expect(result.data.edges).toEqual([
+        {
+          id: "e1",
+          source: "v1",
+          target: "v2",
+          type: "KNOWS",
+          properties: { since: 2020 },
+        },
+      ]);
+    });
+
+    it("should compile findNodes filters to typed predicates", async () => {
+      server.setHandler(() => ({ status: 204 }));
+
+      await connector.executeQuery({
+        type: "findNodes",
+        labelFilter: { labels: ["Person"], mode: "any" },
+        propertyFilters: [
+          { key: "age", op: "gt", value: 21 },
+          { key: "name", op: "startsWith", value: "Al" },
+        ],
+        pagination: { limit: 10 },
+      });
+
+      expect(stepsOf(server.requests[0]!.args)).toEqual([
+        ["V"],
+        ["hasLabel", "Person"],
+        [
+          "has",
+          "age",
+          {
+            "@type": "g:P",
+            "@value": {
+              predicate: "gt",
+              value: { "@type": "g:Int32", "@value": 21 },
+            },
+          },
+        ],
+        [
+          "has",
+          "name",
+          {
+            "@type": "g:TextP",
+            "@value": { predicate: "startingWith", value: "Al" },
+          },
+        ],
+        ["limit", { "@type": "g:Int32", "@value": 10 }],
+        ["valueMap", true],
+      ]);
+    });
+
+    it("should translate findEdges from the source vertex", async () => {
+      await connector.executeQuery({
+        type: "findEdges",
+        edgeTypes: ["KNOWS"],
+        sourceId: "v1",
+        targetId: "v2",
+        pagination: { limit: 5 },
+      });
+
+      const steps = stepsOf(server.requests[0]!.args);
+      expect(steps.slice(0, 2)).toEqual([
+        ["V", "v1"],
+        ["outE", "KNOWS"],
+      ]);
+      expect(steps[2]?.[0]).toBe("where");
+      expect(steps.slice(3)).toEqual([
+        ["limit", { "@type": "g:Int32", "@value": 5 }],
+        ["elementMap"],
+      ]);
+    });
+
+    it("should walk pattern edges with step labels", async () => {
+      await connector.executeQuery({
+        type: "pattern",
+        nodes: [
+          { variable: "a", labels: ["Person"] },
+          { variable: "c", nodeId: "acme" },
+          { variable: "b", labels: ["Person"] },
+        ],
+        edges: [
+          { source: "a", target: "c", types: ["WORKS_AT"] },
+          { source: "b", target: "c", types: ["WORKS_AT"] },
+        ],
+        pagination: { limit: 5 },
+      });
+
+      const steps = stepsOf(server.requests[0]!.args);
+      expect(steps.map(([name]) => name)).toEqual([
+        "V",
+        "as",
+        "inE",
+        "as",
+        "outV",
+        "hasLabel",
+        "as",
+        "select",
+        "inE",
+        "where",
+        "as",
+        "outV",
+        "hasLabel",
+        "as",
+        "limit",
+        "path",
+        "by",
+      ]);
+      expect(steps[0]).toEqual(["V", "acme"]);
+    });
+
+    it("should mark results truncated when the limit is reached", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: graphson.list([vertex("v1", "Person"), vertex("v2", "Person")]),
+      }));
+
+      const result = await connector.executeQuery({
+        type: "findNodes",
+        pagination: { limit: 2 },
+      });
+
+      expect(result.data.nodes).toHaveLength(2);
+      expect(result.metadata.truncated).toBe(true);
+    });
+
+    it("should mark results truncated at the default limit", async () => {
+      const vertices = Array.from({ length: 100 }, (_, i) =>
+        vertex(`v${i}`, "Person")
+      );
+      server.setHandler(() => ({ status: 200, data: graphson.list(vertices) }));
+
+      const result = await connector.executeQuery({ type: "findNodes" });
+
+      expect(result.data.nodes).toHaveLength(100);
+      expect(result.metadata.truncated).toBe(true);
+    });
+
+    it("should resume from the cursor of a full page with range()", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: graphson.list([vertex("v1", "Person"), vertex("v2", "Person")]),
+      }));
+
+      const first = await connector.executeQuery({
+        type: "findNodes",
+        pagination: { limit: 2 },
+      });
+      await connector.executeQuery({
+        type: "findNodes",
+        pagination: { limit: 2, cursor: first.metadata.cursor! },
+      });
+
+      expect(stepsOf(server.requests[1]!.args)).toEqual([
+        ["V"],
+        [
+          "range",
+          { "@type": "g:Int32", "@value": 2 },
+          { "@type": "g:Int32", "@value": 4 },
+        ],
+        ["valueMap", true],
+      ]);
+    });
+
+    it("should combine partial content responses", async () => {
+      server.setHandler(() => [
+        { status: 206, data: graphson.list([vertex("v1", "Person")]) },
+        { status: 200, data: graphson.list([vertex("v2", "Person")]) },
+      ]);
+
+      const result = await connector.executeQuery({ type: "findNodes" });
+
+      expect(result.data.nodes.map((n) => n.id)).toEqual(["v1", "v2"]);
+    });
+  });
+
+  describe("explain", () => {
+    it("should return the script with its plan from the explain() step", async () => {
+      server.setHandler(() => ({
+        status: 200,
+        data: graphson.list([
+          {
+            "@type": "g:TraversalExplanation",
+            "@value": {
+              original: ["GraphStep(vertex,[v1])"],
+              intermediate: [
+                {
+                  strategy: "IdentityRemovalStrategy",
+                  category: "OptimizationStrategy",
+                  traversal: ["GraphStep(vertex,[v1])"],
+                },
+              ],
+              final: ["NeptuneGraphQueryStep(Vertex)"],
+            },
+          },
+        ]),
+      }));
+
+      const explanation = await connector.explain({
+        type: "getNode",
+        nodeId: "v1",
+      });
+
+      const [statement] = explanation.statements;
+      expect(statement?.language).toBe("gremlin");
+      expect(statement?.text).toMatch(/^g\.V\(p0\)/);
+      expect(statement?.parameters).toEqual({ p0: "v1" });
+      expect(statement?.plan).toMatchObject({
+        operator: "Traversal",
+        details: { final: ["NeptuneGraphQueryStep(Vertex)"] },
+        children: [{ operator: "IdentityRemovalStrategy" }],
+      });
+      expect(stepsOf(server.requests[0]!.args).at(-1)).toEqual(["explain"]);
+    });
+
+    it("should not contact the server without a plan", async () => {
+      const explanation = await connector.explain(
+        { type: "findNodes", labelFilter: { labels: ["Person"], mode: "any" } },
+        { includePlan: false }
+      );
+
+      expect(explanation.statements[0]?.plan).toBeNull();
+      expect(explanation.limits).toEqual({
+        limit: 100,
+        timeoutMs: null,
+        maxPageSize: expect.any(Number),
+      });
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it("should redact values bound for sensitive properties", async () => {
+      const explanation = await connector.explain(
+        {
+          type: "findNodes",
+          propertyFilters: [
+            { key: "password", op: "eq", value: "hunter2" },
+            { key: "name", op: "eq", value: "a" },
+          ],
+        },
+        { includePlan: false }
+      );
+
+      const [statement] = explanation.statements;
+      expect(statement?.text).toContain("has(p0, P.eq(p1)).has(p2, P.eq(p3))");
+      expect(statement?.parameters).toEqual({
+        p0: "password",
+        p1: "[REDACTED]",
+        p2: "name",
+        p3: "a",
+      });
+    });
+  });
+
+  describe("IAM authentication", () => {
+    const iamConnector = (
+      credentialsProvider: AwsCredentialsProvider
+    ): NeptuneConnector =>
+      new NeptuneConnector({
+        endpoint: server.host,
+        port: server.port,
+        ssl: false,
+        iamAuth: { region: "us-east-1", credentialsProvider },
+      });
+
+    it("should sign the WebSocket upgrade request", async () => {
+      const iam = iamConnector(async () => ({
+        accessKeyId: "AKID",
+        secretAccessKey: "secret",
+        sessionToken: "token",
+      }));
+      await iam.connect();
+      await iam.executeQuery({ type: "getNode", nodeId: "v1" });
+      await iam.disconnect();
+
+      const headers = server.requests[0]!.headers;
+      expect(headers["authorization"]).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=AKID\/\d{8}\/us-east-1\/neptune-db\/aws4_request, SignedHeaders=host;x-amz-date;x-amz-security-token, Signature=[0-9a-f]{64}$/
+      );
+      expect(headers["x-amz-security-token"]).toBe("token");
+      expect(headers["x-amz-date"]).toMatch(/^\d{8}T\d{6}Z$/);
+    });
+
+    it("should re-sign with refreshed credentials on reconnect", async () => {
+      let generation = 0;
+      const iam = iamConnector(async () => {
+        generation++;
+        return {
+          accessKeyId: `AKID${generation}`,
+          secretAccessKey: "secret",
+          // Already inside the refresh window, so every resolve refreshes
+          expiration: new Date(Date.now()),
+        };
+      });
+      await iam.connect();
+      await iam.executeQuery({ type: "getNode", nodeId: "v1" });
+
+      // Server drops the connection (e.g. expired IAM session)
+      server.dropConnections();
+      await vi.waitFor(() => expect(iam["client"]!.isOpen()).toBe(false));
+      await iam.executeQuery({ type: "getNode", nodeId: "v1" });
+      await iam.disconnect();
+
+      expect(server.requests[0]!.headers["authorization"]).toContain(
+        "Credential=AKID1/"
+      );
+      expect(server.requests[1]!.headers["authorization"]).toContain(
+        "Credential=AKID2/"
+      );
+    });
+
+    it("should sign HTTP status requests", async () => {
+      const seen: IncomingHttpHeaders[] = [];
+      const http = createServer((req, res) => {
+        seen.push(req.headers);
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ status: "healthy" }));
+      });
+      await new Promise<void>((resolve) =>
+        http.listen(0, "127.0.0.1", resolve)
+      );
+      const { port } = http.address() as AddressInfo;
+
+      const iam = new NeptuneConnector({
+        endpoint: "127.0.0.1",
+        port,
+        ssl: false,
+        iamAuth: {
+          region: "us-east-1",
+          accessKeyId: "AKID",
+          secretAccessKey: "secret",
+        },
+      });
+
+      try {
+        await expect(iam.getStatus()).resolves.toEqual({ status: "healthy" });
+      } finally {
+        await new Promise((resolve) => http.close(resolve));
+      }
+
+      expect(seen[0]!["host"]).toBe(`127.0.0.1:${port}`);
+      expect(seen[0]!["authorization"]).toContain(
+        "SignedHeaders=host;x-amz-date"
+      );
+    });
+  });
+
+  describe("errors", () => {
+    it("should surface server errors as QueryError", async () => {
+      server.setHandler(() => ({ status: 597, message: "boom" }));
+
+      await expect(
+        connector.executeQuery({ type: "getNode", nodeId: "v1" })
+      ).rejects.toBeInstanceOf(QueryError);
+    });
+
+    it("should reject query types it does not support", async () => {
+      await expect(
+        connector.executeQuery({ type: "search", text: "alice" })
+      ).rejects.toBeInstanceOf(QueryNotSupportedError);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { AuthError } from "@queryscape/core";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  createRefreshingCredentialsProvider,
+  fromEnvironment,
+  signRequest,
+  type AwsCredentials,
+} from "./sigv4";
+
+/** Credentials and scope from the AWS SigV4 test suite */
+const credentials: AwsCredentials = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+};
+const options = {
+  region: "us-east-1",
+  service: "service",
+  credentials,
+  date: new Date("2015-08-30T12:36:00Z"),
+};
+const scope = "AKIDEXAMPLE/20150830/us-east-1/service/aws4_request";
+
+const sign = (
+  method: string,
+  path: string,
+  headers: Record<string, string> = {},
+  body?: string
+): Promise<Record<string, string>> =>
+  signRequest(
+    {
+      method,
+      url: `https://example.amazonaws.com${path}`,
+      headers: { "X-Amz-Date": "20150830T123600Z", ...headers },
+      body,
+    },
+    options
+  );
+
+describe("signRequest (AWS SigV4 test suite)", () => {
+  it("get-vanilla", async () => {
+    expect((await sign("GET", "/"))["authorization"]).toBe(
+      `AWS4-HMAC-SHA256 Credential=${scope}, SignedHeaders=host;x-amz-date, ` +
+        "Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31"
+    );
+  });
+
+  it("get-vanilla-query-order-key-case", async () => {
+    expect(
+      (await sign("GET", "/?Param2=value2&Param1=value1"))["authorization"]
+    ).toContain(
+      "Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500"
+    );
+  });
+
+  it("get-relative", async () => {
+    expect((await sign("GET", "/example/.."))["authorization"]).toContain(
+      "Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31"
+    );
+  });
+
+  it("post-vanilla", async () => {
+    expect((await sign("POST", "/"))["authorization"]).toContain(
+      "Signature=5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b"
+    );
+  });
+
+  it("post-x-www-form-urlencoded", async () => {
+    const headers = await sign(
+      "POST",
+      "/",
+      { "Content-Type": "application/x-www-form-urlencoded" },
+      "Param1=value1"
+    );
+    expect(headers["authorization"]).toBe(
+      `AWS4-HMAC-SHA256 Credential=${scope}, ` +
+        "SignedHeaders=content-type;host;x-amz-date, " +
+        "Signature=ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a"
+    );
+  });
+
+  it("should add host, date and a signed security token", async () => {
+    const headers = await signRequest(
+      { method: "GET", url: "https://db.example.com:8182/gremlin" },
+      { ...options, credentials: { ...credentials, sessionToken: "token" } }
+    );
+
+    expect(headers["host"]).toBe("db.example.com:8182");
+    expect(headers["x-amz-date"]).toBe("20150830T123600Z");
+    expect(headers["x-amz-security-token"]).toBe("token");
+    expect(headers["authorization"]).toContain(
+      "SignedHeaders=host;x-amz-date;x-amz-security-token"
+    );
+  });
+});
+
+describe("credentials providers", () => {
+  it("should read credentials from the environment", async () => {
+    const provider = fromEnvironment({
+      AWS_ACCESS_KEY_ID: "id",
+      AWS_SECRET_ACCESS_KEY: "secret",
+      AWS_SESSION_TOKEN: "token",
+    });
+
+    await expect(provider()).resolves.toEqual({
+      accessKeyId: "id",
+      secretAccessKey: "secret",
+      sessionToken: "token",
+    });
+    await expect(fromEnvironment({})()).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it("should find no credentials where there is no process", async () => {
+    vi.stubGlobal("process", undefined);
+    let provider;
+    try {
+      provider = fromEnvironment();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    await expect(provider()).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it("should cache credentials until they are about to expire", async () => {
+    let expiration = new Date(Date.now() + 60 * 60 * 1000);
+    const source = vi.fn(async () => ({ ...credentials, expiration }));
+    const provider = createRefreshingCredentialsProvider(source, 1000);
+
+    await provider();
+    await provider();
+    expect(source).toHaveBeenCalledTimes(1);
+
+    expiration = new Date(Date.now() + 500);
+    const refreshed = createRefreshingCredentialsProvider(source, 1000);
+    await refreshed();
+    await refreshed();
+    expect(source).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * AWS Signature Version 4 request signing and credential providers
+ * Used for Neptune IAM database authentication. Hashing goes through Web
+ * Crypto, so signing works in browsers as well as Node.js.
+ */
+
+import { AuthError } from "@queryscape/core";
+
+/** AWS credentials */
+export interface AwsCredentials {
+  readonly accessKeyId: string;
+  readonly secretAccessKey: string;
+  readonly sessionToken?: string;
+  /** When temporary credentials expire */
+  readonly expiration?: Date;
+}
+
+/** Pluggable credentials source (compatible with AWS SDK v3 providers) */
+export type AwsCredentialsProvider = () => Promise<AwsCredentials>;
+
+/** Request to be signed */
+export interface SignableRequest {
+  readonly method: string;
+  readonly url: string;
+  readonly headers?: Record<string, string>;
+  readonly body?: string;
+}
+
+/** Signing parameters */
+export interface SigV4Options {
+  readonly region: string;
+  readonly service: string;
+  readonly credentials: AwsCredentials;
+  /** Signing time (defaults to now) */
+  readonly date?: Date;
+}
+
+const ALGORITHM = "AWS4-HMAC-SHA256";
+
+/** Refresh temporary credentials this long before they expire */
+const DEFAULT_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Sign a request, returning the full header set to send
+ * (the input headers plus host, x-amz-date, optional security token and authorization)
+ */
+export async function signRequest(
+  request: SignableRequest,
+  options: SigV4Options
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const { amzDate, dateStamp } = formatAmzDate(options.date ?? new Date());
+  const { credentials } = options;
+
+  const headers: Record<string, string> = { ...request.headers };
+  if (!hasHeader(headers, "host")) {
+    headers["host"] = url.host;
+  }
+  if (!hasHeader(headers, "x-amz-date")) {
+    headers["x-amz-date"] = amzDate;
+  }
+  if (credentials.sessionToken && !hasHeader(headers, "x-amz-security-token")) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const canonicalHeaders = Object.entries(headers)
+    .map(([name, value]) => [
+      name.toLowerCase(),
+      value.trim().replace(/\s+/g, " "),
+    ])
+    .sort(([a], [b]) => (a! < b! ? -1 : a! > b! ? 1 : 0));
+  const signedHeaders = canonicalHeaders.map(([name]) => name).join(";");
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(url.pathname),
+    canonicalQuery(url.searchParams),
+    canonicalHeaders.map(([name, value]) => `${name}:${value}\n`).join(""),
+    signedHeaders,
+    await sha256Hex(request.body ?? ""),
+  ].join("\n");
+
+  const scope = `${dateStamp}/${options.region}/${options.service}/aws4_request`;
+  const stringToSign = [
+    ALGORITHM,
+    amzDate,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  let signingKey = encode(`AWS4${credentials.secretAccessKey}`);
+  for (const part of [
+    dateStamp,
+    options.region,
+    options.service,
+    "aws4_request",
+  ]) {
+    signingKey = await hmac(signingKey, part);
+  }
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  headers["authorization"] =
+    `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+  return headers;
+}
+
+/** Credentials provider returning fixed credentials */
+export function fromStaticCredentials(
+  credentials: AwsCredentials
+): AwsCredentialsProvider {
+  return async () => credentials;
+}
+
+/**
+ * Credentials provider reading the standard AWS environment variables.
+ * Browsers have no `process`, so without `env` no credentials are found.
+ */
+export function fromEnvironment(
+  env: Record<string, string | undefined> = globalThis.process?.env ?? {}
+): AwsCredentialsProvider {
+  return async () => {
+    const accessKeyId = env["AWS_ACCESS_KEY_ID"];
+    const secretAccessKey = env["AWS_SECRET_ACCESS_KEY"];
+    if (!accessKeyId || !secretAccessKey) {
+      throw new AuthError(
+        "No AWS credentials found: set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY or pass a credentials provider"
+      );
+    }
+    return {
+      accessKeyId,
+      secretAccessKey,
+      sessionToken: env["AWS_SESSION_TOKEN"],
+    };
+  };
+}
+
+/**
+ * Cache credentials from a provider, refreshing them shortly before they expire.
+ * Credentials without an expiration are cached indefinitely.
+ */
+export function createRefreshingCredentialsProvider(
+  provider: AwsCredentialsProvider,
+  refreshWindowMs = DEFAULT_REFRESH_WINDOW_MS
+): AwsCredentialsProvider {
+  let cached: AwsCredentials | null = null;
+  let inFlight: Promise<AwsCredentials> | null = null;
+
+  const isFresh = (credentials: AwsCredentials): boolean =>
+    !credentials.expiration ||
+    credentials.expiration.getTime() - refreshWindowMs > Date.now();
+
+  return async () => {
+    if (cached && isFresh(cached)) {
+      return cached;
+    }
+    if (!inFlight) {
+      inFlight = provider()
+        .then((credentials) => {
+          cached = credentials;
+          return credentials;
+        })
+        .finally(() => {
+          inFlight = null;
+        });
+    }
+    return inFlight;
+  };
+}
+
+function formatAmzDate(date: Date): { amzDate: string; dateStamp: string } {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  return { amzDate, dateStamp: amzDate.substring(0, 8) };
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return Object.keys(headers).some((key) => key.toLowerCase() === name);
+}
+
+/** RFC 3986 encoding as required by SigV4 */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/** Normalize dot segments and encode each path segment */
+function canonicalPath(pathname: string): string {
+  const segments: string[] = [];
+  for (const segment of pathname.split("/").slice(1)) {
+    if (segment === "..") {
+      segments.pop();
+    } else if (segment !== "." && segment !== "") {
+      segments.push(encodeRfc3986(decodeURIComponent(segment)));
+    }
+  }
+  const trailingSlash = pathname.endsWith("/") && segments.length > 0;
+  return `/${segments.join("/")}${trailingSlash ? "/" : ""}`;
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return Array.from(params.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([ak, av], [bk, bv]) =>
+      ak === bk ? (av! < bv! ? -1 : 1) : ak! < bk! ? -1 : 1
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+}
+
+function encode(value: string): ArrayBuffer {
+  return new TextEncoder().encode(value).buffer;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-256",
+    encode(value)
+  );
+  return toHex(digest);
+}
+
+async function hmac(key: ArrayBuffer, value: string): Promise<ArrayBuffer> {
+  const cryptoKey = await globalThis.crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return globalThis.crypto.subtle.sign("HMAC", cryptoKey, encode(value));
+}
@@ -0,0 +1,66 @@
+import { ValidationError, type Query } from "@queryscape/core";
+import { describe, expect, it } from "vitest";
+
+import { MockConnector, generateMockData } from "./mock/index";
+import { decodeCursor, encodeCursor, pageOffset } from "./pagination";
+
+describe("page cursors", () => {
+  it("should round-trip positions", () => {
+    const cursor = encodeCursor("findNodes", {
+      kind: "keyset",
+      after: "4:ä:7",
+    });
+    expect(decodeCursor(cursor, "findNodes")).toEqual({
+      kind: "keyset",
+      after: "4:ä:7",
+    });
+  });
+
+  it("should reject malformed cursors and other query types", () => {
+    const cursor = encodeCursor("search", { kind: "offset", offset: 10 });
+    expect(() => decodeCursor(cursor, "findNodes")).toThrow(ValidationError);
+    expect(() => decodeCursor("not a cursor", "search")).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      decodeCursor(btoa(JSON.stringify({ t: "search", p: {} })), "search")
+    ).toThrow(ValidationError);
+  });
+
+  it("should prefer the cursor offset over pagination.offset", () => {
+    const query: Query = {
+      type: "findNodes",
+      pagination: {
+        limit: 5,
+        offset: 1,
+        cursor: encodeCursor("findNodes", { kind: "offset", offset: 5 }),
+      },
+    };
+    expect(pageOffset(query)).toBe(5);
+  });
+});
+
+describe("MockConnector pagination", () => {
+  it("should page through every match exactly once", async () => {
+    const connector = new MockConnector({
+      data: generateMockData({ nodeCount: 25, seed: 7 }),
+    });
+    await connector.connect();
+
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const result = await connector.executeQuery({
+        type: "findNodes",
+        pagination: { limit: 10, cursor },
+      });
+      ids.push(...result.data.nodes.map((n) => n.id));
+      cursor = result.metadata.cursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(ids).toEqual(connector.getAllData().nodes.map((n) => n.id));
+  });
+});
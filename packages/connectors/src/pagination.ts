@@ -0,0 +1,99 @@
+/**
+ * Opaque page cursors
+ * A cursor records where the next page of a query starts and the query type
+ * it was issued for. Its encoding is not part of the public API.
+ */
+
+import type { Query, QueryType } from "@queryscape/core";
+import { ValidationError } from "@queryscape/core";
+
+/** Where the next page starts */
+export type CursorPosition =
+  /** Skip this many results */
+  | { readonly kind: "offset"; readonly offset: number }
+  /** Resume after this sort key (e.g. a Neo4j elementId) */
+  | { readonly kind: "keyset"; readonly after: string };
+
+interface CursorPayload {
+  readonly t: QueryType;
+  readonly p: CursorPosition;
+}
+
+/** Encode a cursor for a query type */
+export function encodeCursor(
+  queryType: QueryType,
+  position: CursorPosition
+): string {
+  const payload: CursorPayload = { t: queryType, p: position };
+  return btoa(encodeURIComponent(JSON.stringify(payload)));
+}
+
+/** Decode a cursor, rejecting malformed cursors and other query types */
+export function decodeCursor(
+  cursor: string,
+  queryType: QueryType
+): CursorPosition {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(decodeURIComponent(atob(cursor))) as CursorPayload;
+  } catch {
+    throw new ValidationError("Invalid pagination cursor", "cursor");
+  }
+
+  if (payload?.t !== queryType) {
+    throw new ValidationError(
+      `Pagination cursor was not issued for a ${queryType} query`,
+      "cursor"
+    );
+  }
+
+  const position = payload.p;
+  const valid =
+    (position?.kind === "offset" &&
+      Number.isInteger(position.offset) &&
+      position.offset >= 0) ||
+    (position?.kind === "keyset" && typeof position.after === "string");
+  if (!valid) {
+    throw new ValidationError("Invalid pagination cursor", "cursor");
+  }
+  return position;
+}
+
+/** Offset of the requested page: from an offset cursor, else pagination.offset */
+export function pageOffset(query: Query): number {
+  const cursor = query.pagination?.cursor;
+  if (!cursor) return query.pagination?.offset ?? 0;
+
+  const position = decodeCursor(cursor, query.type);
+  if (position.kind !== "offset") {
+    throw new ValidationError("Invalid pagination cursor", "cursor");
+  }
+  return position.offset;
+}
+
+/** Sort key to resume after: from a keyset cursor */
+export function pageAfter(query: Query): string | undefined {
+  const cursor = query.pagination?.cursor;
+  if (!cursor) return undefined;
+
+  const position = decodeCursor(cursor, query.type);
+  if (position.kind !== "keyset") {
+    throw new ValidationError("Invalid pagination cursor", "cursor");
+  }
+  return position.after;
+}
+
+/**
+ * Cursor for the page after `returned` results starting at `offset`.
+ * A full page is assumed to have more results behind it.
+ */
+export function nextOffsetCursor(
+  query: Query,
+  offset: number,
+  returned: number,
+  limit: number
+): string | null {
+  return returned >= limit
+    ? encodeCursor(query.type, { kind: "offset", offset: offset + returned })
+    : null;
+}
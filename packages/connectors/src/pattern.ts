@@ -0,0 +1,81 @@
+/**
+ * Traversal plans for pattern queries
+ * Connectors that walk a pattern edge by edge (the mock connector, Gremlin)
+ * start at one required node and bind the rest through the edges.
+ */
+
+import type { PatternEdge, PatternNode, PatternQuery } from "@queryscape/core";
+import { requiredPatternVariables, validatePattern } from "@queryscape/core";
+
+/** One edge of a plan, walked from an already bound variable */
+export interface PatternStep {
+  readonly edge: PatternEdge;
+  /** Index of the edge in the query */
+  readonly index: number;
+  /** Bound variable the step starts from */
+  readonly from: string;
+  /** Variable at the other end */
+  readonly to: string;
+  /** Whether the step follows the edge from source to target */
+  readonly outgoing: boolean;
+  /** Whether `to` is bound by this step (otherwise it closes a cycle) */
+  readonly binds: boolean;
+}
+
+/** Order in which a pattern is matched */
+export interface PatternPlan {
+  readonly start: PatternNode;
+  /** Required edges, each touching a variable bound before it */
+  readonly steps: readonly PatternStep[];
+  /** Optional edges, each starting from a required variable */
+  readonly optionalSteps: readonly PatternStep[];
+  readonly nodes: ReadonlyMap<string, PatternNode>;
+}
+
+/**
+ * Validate a pattern and plan its matching, starting from a node bound to an
+ * ID when there is one
+ */
+export function planPattern(query: PatternQuery): PatternPlan {
+  validatePattern(query);
+
+  const nodes = new Map(query.nodes.map((n) => [n.variable, n]));
+  const required = requiredPatternVariables(query);
+  const requiredNodes = query.nodes.filter((n) => required.has(n.variable));
+  const start =
+    requiredNodes.find((n) => n.nodeId !== undefined) ?? requiredNodes[0]!;
+
+  const bound = new Set([start.variable]);
+  const pending = (query.edges ?? [])
+    .map((edge, index) => ({ edge, index }))
+    .filter(({ edge }) => !edge.optional);
+  const steps: PatternStep[] = [];
+
+  // validatePattern guarantees the required edges are connected
+  while (pending.length > 0) {
+    const next = pending.findIndex(
+      ({ edge }) => bound.has(edge.source) || bound.has(edge.target)
+    );
+    const { edge, index } = pending.splice(next, 1)[0]!;
+    const step = orient(edge, index, bound);
+    bound.add(step.to);
+    steps.push(step);
+  }
+
+  const optionalSteps = (query.edges ?? []).flatMap((edge, index) =>
+    edge.optional ? [orient(edge, index, required)] : []
+  );
+
+  return { start, steps, optionalSteps, nodes };
+}
+
+function orient(
+  edge: PatternEdge,
+  index: number,
+  bound: ReadonlySet<string>
+): PatternStep {
+  const outgoing = bound.has(edge.source);
+  const from = outgoing ? edge.source : edge.target;
+  const to = outgoing ? edge.target : edge.source;
+  return { edge, index, from, to, outgoing, binds: !bound.has(to) };
+}
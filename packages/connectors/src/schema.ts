@@ -0,0 +1,204 @@
+/**
+ * Schema statistics
+ * Helpers for connectors that compute schema statistics from graph elements
+ * in memory: the mock connector for its whole graph, Neo4j for the property
+ * statistics of a sample.
+ */
+
+import type {
+  EdgeTypeCount,
+  GraphData,
+  GraphEdge,
+  GraphNode,
+  GraphSchema,
+  LabelConnectivity,
+  LabelCount,
+  Properties,
+  PropertyStats,
+  PropertyType,
+  PropertyValue,
+  SchemaOptions,
+} from "@queryscape/core";
+import { ValidationError } from "@queryscape/core";
+
+/** Reject a sampleSize that is not a positive integer */
+export function validateSchemaOptions(options: SchemaOptions): void {
+  const { sampleSize } = options;
+  if (
+    sampleSize !== undefined &&
+    (!Number.isInteger(sampleSize) || sampleSize < 1)
+  ) {
+    throw new ValidationError(
+      "sampleSize must be a positive integer",
+      "sampleSize"
+    );
+  }
+}
+
+/** Schema statistics of an in-memory graph */
+export function computeGraphSchema(
+  data: GraphData,
+  options: SchemaOptions = {}
+): GraphSchema {
+  const nodesById = new Map(data.nodes.map((n) => [n.id, n]));
+  const labels = new Map<string, number>();
+  const edgeTypes = new Map<string, number>();
+  const connectivity = new Map<string, LabelConnectivity>();
+
+  for (const node of data.nodes) {
+    for (const label of node.labels) {
+      labels.set(label, (labels.get(label) ?? 0) + 1);
+    }
+  }
+
+  for (const edge of data.edges) {
+    edgeTypes.set(edge.type, (edgeTypes.get(edge.type) ?? 0) + 1);
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    for (const sourceLabel of source?.labels ?? []) {
+      for (const targetLabel of target?.labels ?? []) {
+        const key = JSON.stringify([sourceLabel, edge.type, targetLabel]);
+        const count = (connectivity.get(key)?.count ?? 0) + 1;
+        connectivity.set(key, {
+          sourceLabel,
+          edgeType: edge.type,
+          targetLabel,
+          count,
+        });
+      }
+    }
+  }
+
+  const sampleSize = options.sampleSize ?? Infinity;
+  return {
+    nodeCount: data.nodes.length,
+    edgeCount: data.edges.length,
+    labels: sortByCount(
+      Array.from(labels, ([label, count]): LabelCount => ({ label, count })),
+      (l) => [l.label]
+    ),
+    edgeTypes: sortByCount(
+      Array.from(
+        edgeTypes,
+        ([type, count]): EdgeTypeCount => ({ type, count })
+      ),
+      (t) => [t.type]
+    ),
+    connectivity: sortByCount(Array.from(connectivity.values()), (c) => [
+      c.sourceLabel,
+      c.edgeType,
+      c.targetLabel,
+    ]),
+    properties:
+      options.includeProperties === false
+        ? []
+        : propertyStats(
+            data.nodes.slice(0, sampleSize),
+            data.edges.slice(0, sampleSize)
+          ),
+  };
+}
+
+/**
+ * Property statistics of sampled elements, grouped by node label and edge
+ * type and sorted by element, owner and key. A node with several labels
+ * counts towards each of them.
+ */
+export function propertyStats(
+  nodes: readonly GraphNode[],
+  edges: readonly GraphEdge[]
+): PropertyStats[] {
+  const groups = new Map<string, PropertyGroup>();
+  const add = (
+    element: "node" | "edge",
+    owner: string,
+    properties: Properties
+  ): void => {
+    const groupKey = JSON.stringify([element, owner]);
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { element, owner, size: 0, keys: new Map() };
+      groups.set(groupKey, group);
+    }
+    group.size++;
+    for (const [key, value] of Object.entries(properties)) {
+      let stats = group.keys.get(key);
+      if (!stats) {
+        stats = { count: 0, types: new Set(), values: new Set() };
+        group.keys.set(key, stats);
+      }
+      stats.count++;
+      stats.types.add(propertyType(value));
+      stats.values.add(JSON.stringify(value));
+    }
+  };
+
+  for (const node of nodes) {
+    for (const label of node.labels) add("node", label, node.properties);
+  }
+  for (const edge of edges) add("edge", edge.type, edge.properties);
+
+  return Array.from(groups.values())
+    .flatMap((group) =>
+      Array.from(
+        group.keys,
+        ([key, stats]): PropertyStats => ({
+          element: group.element,
+          owner: group.owner,
+          key,
+          types: Array.from(stats.types).sort(),
+          count: stats.count,
+          distinctCount: stats.values.size,
+          sampleSize: group.size,
+        })
+      )
+    )
+    .sort(
+      (a, b) =>
+        // Nodes first
+        b.element.localeCompare(a.element) ||
+        a.owner.localeCompare(b.owner) ||
+        a.key.localeCompare(b.key)
+    );
+}
+
+interface PropertyGroup {
+  readonly element: "node" | "edge";
+  readonly owner: string;
+  size: number;
+  readonly keys: Map<
+    string,
+    { count: number; types: Set<PropertyType>; values: Set<string> }
+  >;
+}
+
+function propertyType(value: PropertyValue): PropertyType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "list";
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      return "map";
+  }
+}
+
+/** Sort by count, highest first, then by name */
+function sortByCount<T extends { readonly count: number }>(
+  items: T[],
+  names: (item: T) => string[]
+): T[] {
+  return items.sort((a, b) => {
+    if (a.count !== b.count) return b.count - a.count;
+    const [x, y] = [names(a), names(b)];
+    for (let i = 0; i < x.length; i++) {
+      const order = (x[i] ?? "").localeCompare(y[i] ?? "");
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
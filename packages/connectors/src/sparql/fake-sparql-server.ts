@@ -0,0 +1,101 @@
+/**
+ * In-process fake SPARQL endpoint for connector tests
+ * Records form-encoded queries and replies with canned SPARQL JSON results.
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { RdfTerm, SparqlBinding, SparqlResults } from "./sparql.js";
+
+/** Request received by the fake endpoint */
+export interface FakeSparqlRequest {
+  readonly method: string;
+  readonly path: string;
+  readonly headers: IncomingHttpHeaders;
+  readonly query: string;
+  readonly update: string;
+}
+
+/** Reply: SPARQL results, or an HTTP error status */
+export type FakeSparqlReply = SparqlResults | { status: number; body?: string };
+
+/** Produces a reply for a request */
+export type FakeSparqlHandler = (request: FakeSparqlRequest) => FakeSparqlReply;
+
+/** Running fake endpoint */
+export interface FakeSparqlServer {
+  readonly url: string;
+  readonly requests: FakeSparqlRequest[];
+  setHandler(handler: FakeSparqlHandler): void;
+  close(): Promise<void>;
+}
+
+/** Start a fake SPARQL endpoint on a random local port */
+export async function startFakeSparqlServer(
+  handler: FakeSparqlHandler = () => solutions([])
+): Promise<FakeSparqlServer> {
+  const requests: FakeSparqlRequest[] = [];
+  let currentHandler = handler;
+
+  const server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+      const request: FakeSparqlRequest = {
+        method: req.method ?? "GET",
+        path: req.url ?? "/",
+        headers: req.headers,
+        query: body.get("query") ?? "",
+        update: body.get("update") ?? "",
+      };
+      requests.push(request);
+
+      const reply = currentHandler(request);
+      if ("status" in reply) {
+        res.statusCode = reply.status;
+        res.end(reply.body ?? "");
+        return;
+      }
+      res.setHeader("content-type", "application/sparql-results+json");
+      res.end(JSON.stringify(reply));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setHandler(next: FakeSparqlHandler): void {
+      currentHandler = next;
+    },
+    close(): Promise<void> {
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+/** Build a SELECT result document */
+export function solutions(bindings: SparqlBinding[]): SparqlResults {
+  const vars = Array.from(new Set(bindings.flatMap((b) => Object.keys(b))));
+  return { head: { vars }, results: { bindings } };
+}
+
+/** SPARQL JSON term helpers for fixtures */
+export const term = {
+  iri: (value: string): RdfTerm => ({ type: "uri", value }),
+  bnode: (value: string): RdfTerm => ({ type: "bnode", value }),
+  literal: (value: string, datatype?: string): RdfTerm => ({
+    type: "literal",
+    value,
+    ...(datatype ? { datatype } : {}),
+  }),
+  langLiteral: (value: string, lang: string): RdfTerm => ({
+    type: "literal",
+    value,
+    "xml:lang": lang,
+  }),
+};
@@ -0,0 +1,83 @@
+/**
+ * Generic SPARQL 1.1 connector
+ * Works against any endpoint implementing the SPARQL 1.1 protocol
+ * (Fuseki, GraphDB, Virtuoso, ...) using only portable query features.
+ */
+
+import { type ConnectorCapabilities } from "../interface.js";
+
+import { RdfConnector, type RdfConnectorConfig } from "./rdf-connector.js";
+import { SparqlClient } from "./sparql.js";
+
+export * from "./mapping.js";
+export * from "./rdf-connector.js";
+export { WELL_KNOWN_PREFIXES, type PrefixMap } from "./sparql.js";
+
+/** SPARQL connector configuration */
+export interface SparqlConnectorConfig extends RdfConnectorConfig {
+  /** Query endpoint URL */
+  queryEndpoint: string;
+  /** Update endpoint URL (required for executeUpdate) */
+  updateEndpoint?: string;
+  /** Basic auth credentials */
+  auth?: { username: string; password: string };
+}
+
+/** Generic SPARQL 1.1 connector implementation */
+export class SparqlConnector extends RdfConnector {
+  protected readonly sparqlConfig: SparqlConnectorConfig;
+
+  constructor(config: SparqlConnectorConfig) {
+    super(config);
+    this.sparqlConfig = config;
+  }
+
+  /** Get SPARQL configuration */
+  getConfig(): SparqlConnectorConfig {
+    return this.sparqlConfig;
+  }
+
+  getCapabilities(): ConnectorCapabilities {
+    return {
+      connectorType: "sparql",
+      supportedQueryTypes: [
+        "getNode",
+        "getNeighbors",
+        "expandNode",
+        "findNodes",
+        "sample",
+        "search",
+        "pattern",
+      ],
+      // search scans literals with CONTAINS rather than using a text index
+      supportsFullTextSearch: false,
+      supportsPagination: true,
+      supportsRawQueries: false,
+      supportsSchema: false,
+      supportsExplain: true,
+      maxPageSize: 1000,
+    };
+  }
+
+  /** Send a SPARQL Update request to the update endpoint */
+  async executeUpdate(update: string): Promise<void> {
+    this.ensureConnected();
+    await this.client!.update(update);
+  }
+
+  protected createClient(): SparqlClient {
+    return new SparqlClient({
+      queryEndpoint: this.sparqlConfig.queryEndpoint,
+      updateEndpoint: this.sparqlConfig.updateEndpoint,
+      auth: this.sparqlConfig.auth,
+      requestTimeoutMs: this.sparqlConfig.requestTimeoutMs,
+    });
+  }
+}
+
+/** Create SPARQL connector */
+export function createSparqlConnector(
+  config: SparqlConnectorConfig
+): SparqlConnector {
+  return new SparqlConnector(config);
+}
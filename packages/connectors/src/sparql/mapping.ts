@@ -0,0 +1,172 @@
+/**
+ * RDF-to-property-graph mapping profiles
+ * A profile decides how IRIs are named, which predicates produce labels,
+ * how display names are picked, how blank nodes are represented and how
+ * typed literals are converted.
+ */
+
+import type { PropertyValue } from "@queryscape/core";
+
+import {
+  RDF_TYPE,
+  compactIri,
+  expandCurie,
+  literalValue,
+  localName,
+  type PrefixMap,
+  type RdfTerm,
+} from "./sparql.js";
+
+/** Converts a typed literal's lexical form to a property value */
+export type LiteralConverter = (
+  lexical: string,
+  term: RdfTerm
+) => PropertyValue;
+
+/** Display name selection from label-like literals */
+export interface DisplayNameMapping {
+  /** Predicates in priority order (e.g. skos:prefLabel, rdfs:label) */
+  readonly predicates: readonly string[];
+  /**
+   * Preferred language tags in order; `en` also matches `en-GB`.
+   * Untagged literals come next, then any other language.
+   */
+  readonly languages?: readonly string[];
+  /** Property receiving the display name (default "name") */
+  readonly property?: string;
+}
+
+/** Mapping profile accepted by every RDF connector */
+export interface RdfMappingProfile {
+  /**
+   * How predicate and class IRIs become edge types, labels and property keys:
+   * `localName` (default) or `curie` (prefix-compressed, local name when no
+   * prefix matches)
+   */
+  readonly naming?: "localName" | "curie";
+  /** Predicates whose objects become labels (default rdf:type) */
+  readonly labelPredicates?: readonly string[];
+  /** Derive a display name property from label literals (default off) */
+  readonly displayName?: DisplayNameMapping;
+  /**
+   * `node` (default) keeps blank nodes as nodes; `inline` nests their
+   * properties into the referencing node (one level, fetched with the node)
+   */
+  readonly blankNodes?: "node" | "inline";
+  /**
+   * Converters keyed by datatype IRI or CURIE, overriding the defaults
+   * (numeric XSD types become numbers, xsd:boolean becomes a boolean,
+   * everything else stays a string)
+   */
+  readonly literals?: Readonly<Record<string, LiteralConverter>>;
+}
+
+/** Profile with IRIs expanded and defaults applied */
+export interface ResolvedRdfMappingProfile {
+  readonly naming: "localName" | "curie";
+  readonly labelPredicates: readonly string[];
+  readonly displayName: Required<DisplayNameMapping> | null;
+  readonly blankNodes: "node" | "inline";
+  readonly literals: ReadonlyMap<string, LiteralConverter>;
+  readonly prefixes: PrefixMap;
+}
+
+/** Converters for common literal choices */
+export const literalConverters = {
+  /** Keep the lexical form (e.g. xsd:decimal without float rounding) */
+  string: (lexical: string): PropertyValue => lexical,
+  /** Parse as a number, keeping the lexical form if it is not numeric */
+  number: (lexical: string): PropertyValue => {
+    const value = Number(lexical);
+    return Number.isNaN(value) ? lexical : value;
+  },
+  /** Parse a date or dateTime to epoch milliseconds */
+  epochMillis: (lexical: string): PropertyValue => {
+    const value = Date.parse(lexical);
+    return Number.isNaN(value) ? lexical : value;
+  },
+} satisfies Record<string, LiteralConverter>;
+
+/** Expand CURIEs in a profile and apply defaults */
+export function resolveMappingProfile(
+  profile: RdfMappingProfile = {},
+  prefixes: PrefixMap = {}
+): ResolvedRdfMappingProfile {
+  const expand = (name: string): string => expandCurie(name, prefixes);
+  const { displayName } = profile;
+
+  return {
+    naming: profile.naming ?? "localName",
+    labelPredicates: (profile.labelPredicates ?? [RDF_TYPE]).map(expand),
+    displayName: displayName
+      ? {
+          predicates: displayName.predicates.map(expand),
+          languages: displayName.languages ?? [],
+          property: displayName.property ?? "name",
+        }
+      : null,
+    blankNodes: profile.blankNodes ?? "node",
+    literals: new Map(
+      Object.entries(profile.literals ?? {}).map(([datatype, convert]) => [
+        expand(datatype),
+        convert,
+      ])
+    ),
+    prefixes,
+  };
+}
+
+/** Name for a predicate or class IRI under the profile */
+export function iriName(
+  iri: string,
+  profile: ResolvedRdfMappingProfile
+): string {
+  return (
+    (profile.naming === "curie"
+      ? compactIri(iri, profile.prefixes)
+      : undefined) ?? localName(iri)
+  );
+}
+
+/** Convert a literal under the profile */
+export function literalToProperty(
+  term: RdfTerm,
+  profile: ResolvedRdfMappingProfile
+): PropertyValue {
+  const convert = term.datatype
+    ? profile.literals.get(term.datatype)
+    : undefined;
+  return convert ? convert(term.value, term) : literalValue(term);
+}
+
+/**
+ * Pick the display name among (predicate, literal) candidates: predicate
+ * priority first, then language preference
+ */
+export function pickDisplayName(
+  candidates: readonly { predicate: string; literal: RdfTerm }[],
+  mapping: Required<DisplayNameMapping>
+): string | undefined {
+  for (const predicate of mapping.predicates) {
+    const literals = candidates
+      .filter((c) => c.predicate === predicate)
+      .map((c) => c.literal);
+    if (literals.length === 0) continue;
+
+    const rank = (term: RdfTerm): number => {
+      const lang = term["xml:lang"]?.toLowerCase();
+      if (!lang) return mapping.languages.length;
+      const index = mapping.languages.findIndex((preferred) => {
+        const p = preferred.toLowerCase();
+        return lang === p || lang.startsWith(`${p}-`);
+      });
+      return index === -1 ? mapping.languages.length + 1 : index;
+    };
+
+    // Stable: equally ranked literals keep result order
+    return literals.reduce((best, next) =>
+      rank(next) < rank(best) ? next : best
+    ).value;
+  }
+  return undefined;
+}
@@ -0,0 +1,481 @@
+/**
+ * Compile QueryScape queries to portable SPARQL 1.1
+ * Labels, edge types and property keys are matched against IRIs: absolute
+ * IRIs and known CURIEs match exactly, plain names match the IRI's local name.
+ */
+
+import type {
+  Direction,
+  LabelFilter,
+  PatternNode,
+  PatternQuery,
+  PropertyFilter,
+} from "@queryscape/core";
+import {
+  QueryNotSupportedError,
+  requiredPatternVariables,
+  validatePattern,
+} from "@queryscape/core";
+
+import {
+  RDF_TYPE,
+  expandCurie,
+  isAbsoluteIri,
+  sparqlIri,
+  sparqlLiteral,
+  sparqlNode,
+  sparqlString,
+  type PrefixMap,
+} from "./sparql.js";
+
+/** Dataset, naming and paging options shared by all queries */
+export interface SparqlQueryOptions {
+  /** Restrict queries to a named graph */
+  readonly namedGraph?: string;
+  /** Prefixes used to expand CURIEs in IDs, labels, edge types and keys */
+  readonly prefixes?: PrefixMap;
+  /** Predicates whose objects are labels (default rdf:type) */
+  readonly labelPredicates?: readonly string[];
+  /** Fetch blank node objects' triples along with node descriptions */
+  readonly inlineBlankNodes?: boolean;
+  readonly limit?: number;
+  readonly offset?: number;
+}
+
+/** Options for edge hops */
+export interface NeighborsQueryOptions extends SparqlQueryOptions {
+  /** Only follow edges to nodes with one of these labels */
+  readonly neighborLabels?: readonly string[];
+  /** Return edges in random order (for sampling) */
+  readonly random?: boolean;
+}
+
+/**
+ * Literal and label triples describing the given nodes. With
+ * `inlineBlankNodes`, blank node objects are included and their own triples
+ * are bound to ?bp ?bo in the same solution (labels stay consistent).
+ */
+export function buildDescribeQuery(
+  nodeIds: readonly string[],
+  options: SparqlQueryOptions = {}
+): string {
+  const inline = options.inlineBlankNodes === true;
+  return [
+    inline ? "SELECT ?s ?p ?o ?bp ?bo" : "SELECT ?s ?p ?o",
+    ...fromClause(options),
+    "WHERE {",
+    `  VALUES ?s { ${nodeList(nodeIds, options)} }`,
+    "  ?s ?p ?o .",
+    `  FILTER(isLiteral(?o) || ${inline ? "isBlank(?o) || " : ""}${isLabelPredicate("?p", options)})`,
+    ...(inline ? ["  OPTIONAL { ?o ?bp ?bo FILTER(isBlank(?o)) }"] : []),
+    "}",
+  ].join("\n");
+}
+
+/** Edge triples (?s ?p ?o) touching any of the nodes in the given direction */
+export function buildNeighborsQuery(
+  nodeIds: readonly string[],
+  direction: Direction,
+  edgeTypes: readonly string[] | undefined,
+  options: NeighborsQueryOptions = {}
+): string {
+  const nodes = nodeList(nodeIds, options);
+  const edgeFilter = edgeFilterClause("?p", edgeTypes, options);
+  const outgoing = [
+    `    VALUES ?s { ${nodes} }`,
+    "    ?s ?p ?o .",
+    `    FILTER(!isLiteral(?o) && ${notLabelPredicate("?p", options)}${edgeFilter})`,
+    ...labelPatterns(
+      "?o",
+      neighborLabelFilter(options.neighborLabels),
+      options,
+      "    "
+    ),
+  ];
+  const incoming = [
+    `    VALUES ?o { ${nodes} }`,
+    "    ?s ?p ?o .",
+    `    FILTER(${notLabelPredicate("?p", options)}${edgeFilter})`,
+    ...labelPatterns(
+      "?s",
+      neighborLabelFilter(options.neighborLabels),
+      options,
+      "    "
+    ),
+  ];
+
+  const branches =
+    direction === "outgoing"
+      ? [outgoing]
+      : direction === "incoming"
+        ? [incoming]
+        : [outgoing, incoming];
+
+  return [
+    "SELECT DISTINCT ?s ?p ?o",
+    ...fromClause(options),
+    "WHERE {",
+    branches.map((b) => ["  {", ...b, "  }"].join("\n")).join("\n  UNION\n"),
+    "}",
+    ...(options.random ? ["ORDER BY RAND()"] : []),
+    ...pagingClause(options),
+  ].join("\n");
+}
+
+/** Edge triples between nodes of the given set */
+export function buildInducedEdgesQuery(
+  nodeIds: readonly string[],
+  options: SparqlQueryOptions = {}
+): string {
+  const nodes = nodeList(nodeIds, options);
+  return [
+    "SELECT ?s ?p ?o",
+    ...fromClause(options),
+    "WHERE {",
+    `  VALUES ?s { ${nodes} }`,
+    `  VALUES ?o { ${nodes} }`,
+    "  ?s ?p ?o .",
+    `  FILTER(${notLabelPredicate("?p", options)})`,
+    "}",
+  ].join("\n");
+}
+
+/** Subjects (?s) matching label and property filters, optionally among nodeIds */
+export function buildFindNodesQuery(
+  labelFilter: LabelFilter | undefined,
+  propertyFilters: readonly PropertyFilter[] | undefined,
+  options: SparqlQueryOptions = {},
+  nodeIds?: readonly string[]
+): string {
+  const values = nodeIds
+    ? [`  VALUES ?s { ${nodeList(nodeIds, options)} }`]
+    : [];
+  const patterns = [
+    ...labelPatterns("?s", labelFilter, options),
+    ...(propertyFilters ?? []).flatMap((filter, i) => [
+      `  ?s ?fp${i} ?fv${i} .`,
+      `  FILTER(${matchName(`?fp${i}`, filter.key, options)})`,
+      `  FILTER(${comparison(`?fv${i}`, filter)})`,
+    ]),
+  ];
+
+  return [
+    "SELECT DISTINCT ?s",
+    ...fromClause(options),
+    "WHERE {",
+    ...values,
+    ...(patterns.length > 0 ? patterns : anySubjectPattern()),
+    "}",
+    "ORDER BY ?s",
+    ...pagingClause(options),
+  ].join("\n");
+}
+
+/**
+ * Solutions of a pattern: node variable i is bound to ?n<i> and the predicate
+ * of edge j to ?r<j>. Required edges are distinct triples within a solution;
+ * each optional edge is an OPTIONAL group.
+ */
+export function buildPatternQuery(
+  query: PatternQuery,
+  options: SparqlQueryOptions = {}
+): string {
+  validatePattern(query);
+  if (query.nodes.some((n) => n.filter)) {
+    throw new QueryNotSupportedError(
+      "Filter expressions cannot be translated to SPARQL",
+      "filter"
+    );
+  }
+  if ((query.edges ?? []).some((e) => e.filter || e.propertyFilters?.length)) {
+    throw new QueryNotSupportedError(
+      "RDF edges have no properties to filter on",
+      "filter"
+    );
+  }
+
+  const names = new Map(query.nodes.map((n, i) => [n.variable, `?n${i}`]));
+  const edges = (query.edges ?? []).map((edge, i) => ({
+    edge,
+    subject: names.get(edge.source)!,
+    predicate: `?r${i}`,
+    object: names.get(edge.target)!,
+  }));
+  const required = requiredPatternVariables(query);
+  // Required nodes no required edge binds need a triple of their own
+  const unbound = new Set(
+    [...required].filter(
+      (v) =>
+        !edges.some(
+          ({ edge }) =>
+            !edge.optional && (edge.source === v || edge.target === v)
+        )
+    )
+  );
+
+  const edgePatterns = (
+    { subject, predicate, object, edge }: (typeof edges)[number],
+    indent: string
+  ): string[] => [
+    `${indent}${subject} ${predicate} ${object} .`,
+    `${indent}FILTER(!isLiteral(${object}) && ${notLabelPredicate(predicate, options)}${edgeFilterClause(predicate, edge.types, options)})`,
+  ];
+  const nodePatterns = (node: PatternNode, indent: string): string[] => {
+    const v = names.get(node.variable)!;
+    return [
+      ...(node.nodeId !== undefined
+        ? [`${indent}VALUES ${v} { ${nodeList([node.nodeId], options)} }`]
+        : []),
+      ...(node.labels ?? []).flatMap((label, i) => [
+        `${indent}${v} ${labelPath(options)} ${v}Type${i} .`,
+        `${indent}FILTER(${matchName(`${v}Type${i}`, label, options)})`,
+      ]),
+      ...(node.propertyFilters ?? []).flatMap((filter, i) => [
+        `${indent}${v} ${v}P${i} ${v}V${i} .`,
+        `${indent}FILTER(${matchName(`${v}P${i}`, filter.key, options)})`,
+        `${indent}FILTER(${comparison(`${v}V${i}`, filter)})`,
+      ]),
+      ...(unbound.has(node.variable)
+        ? [`${indent}${v} ${v}P ${v}O .`, `${indent}FILTER(!isBlank(${v}))`]
+        : []),
+    ];
+  };
+
+  const requiredEdges = edges.filter(({ edge }) => !edge.optional);
+  // A triple is identified by its subject, predicate and object
+  const distinct = requiredEdges.flatMap((a, i) =>
+    requiredEdges
+      .slice(i + 1)
+      .map(
+        (b) =>
+          `  FILTER(!(sameTerm(${a.subject}, ${b.subject}) && sameTerm(${a.predicate}, ${b.predicate}) && sameTerm(${a.object}, ${b.object})))`
+      )
+  );
+  const optional = edges
+    .filter(({ edge }) => edge.optional)
+    .flatMap((e) => [
+      "  OPTIONAL {",
+      ...edgePatterns(e, "    "),
+      ...query.nodes
+        .filter(
+          (n) =>
+            !required.has(n.variable) &&
+            (n.variable === e.edge.source || n.variable === e.edge.target)
+        )
+        .flatMap((n) => nodePatterns(n, "    ")),
+      "  }",
+    ]);
+
+  const variables = [...names.values(), ...edges.map((e) => e.predicate)];
+  return [
+    `SELECT DISTINCT ${variables.join(" ")}`,
+    ...fromClause(options),
+    "WHERE {",
+    ...requiredEdges.flatMap((e) => edgePatterns(e, "  ")),
+    ...query.nodes
+      .filter((n) => required.has(n.variable))
+      .flatMap((n) => nodePatterns(n, "  ")),
+    ...distinct,
+    ...optional,
+    "}",
+    `ORDER BY ${variables.join(" ")}`,
+    ...pagingClause(options),
+  ].join("\n");
+}
+
+/** Random subjects (?s) */
+export function buildRandomNodesQuery(
+  options: SparqlQueryOptions = {}
+): string {
+  return [
+    "SELECT DISTINCT ?s",
+    ...fromClause(options),
+    "WHERE {",
+    ...anySubjectPattern(),
+    "}",
+    "ORDER BY RAND()",
+    ...pagingClause(options),
+  ].join("\n");
+}
+
+/**
+ * Subjects (?s) with a literal containing the text (case-insensitive).
+ * Portable fallback for endpoints without a full-text index; scans literals.
+ */
+export function buildContainsSearchQuery(
+  text: string,
+  fields: readonly string[] | undefined,
+  labels: readonly string[] | undefined,
+  options: SparqlQueryOptions = {}
+): string {
+  return [
+    "SELECT DISTINCT ?s",
+    ...fromClause(options),
+    "WHERE {",
+    "  ?s ?p ?o .",
+    `  FILTER(isLiteral(?o) && CONTAINS(LCASE(STR(?o)), LCASE(${sparqlString(text)})))`,
+    ...fieldFilter("?p", fields, options),
+    ...labelPatterns("?s", neighborLabelFilter(labels), options),
+    "}",
+    "ORDER BY ?s",
+    ...pagingClause(options),
+  ].join("\n");
+}
+
+/** FROM clause for the configured named graph */
+export function fromClause(options: SparqlQueryOptions): string[] {
+  return options.namedGraph ? [`FROM ${sparqlIri(options.namedGraph)}`] : [];
+}
+
+/** LIMIT/OFFSET clauses */
+export function pagingClause(options: SparqlQueryOptions): string[] {
+  const clauses: string[] = [];
+  if (options.limit !== undefined) {
+    clauses.push(`LIMIT ${Math.max(0, Math.floor(options.limit))}`);
+  }
+  if (options.offset) {
+    clauses.push(`OFFSET ${Math.max(0, Math.floor(options.offset))}`);
+  }
+  return clauses;
+}
+
+/** Patterns restricting a node variable by label */
+export function labelPatterns(
+  variable: string,
+  labelFilter: LabelFilter | undefined,
+  options: SparqlQueryOptions,
+  indent = "  "
+): string[] {
+  if (!labelFilter?.labels.length) return [];
+
+  if (labelFilter.mode === "all") {
+    return labelFilter.labels.flatMap((label, i) => [
+      `${indent}${variable} ${labelPath(options)} ?type${i} .`,
+      `${indent}FILTER(${matchName(`?type${i}`, label, options)})`,
+    ]);
+  }
+
+  return [
+    `${indent}${variable} ${labelPath(options)} ?type .`,
+    `${indent}FILTER(${labelFilter.labels.map((l) => matchName(`?type`, l, options)).join(" || ")})`,
+  ];
+}
+
+/** Filter expression: the predicate variable is a label predicate */
+export function isLabelPredicate(
+  variable: string,
+  options: SparqlQueryOptions
+): string {
+  const iris = labelPredicateIris(options);
+  return iris.length === 1
+    ? `${variable} = ${iris[0]}`
+    : `${variable} IN (${iris.join(", ")})`;
+}
+
+/** Filter expression: the predicate variable is not a label predicate */
+export function notLabelPredicate(
+  variable: string,
+  options: SparqlQueryOptions
+): string {
+  const iris = labelPredicateIris(options);
+  return iris.length === 1
+    ? `${variable} != ${iris[0]}`
+    : `${variable} NOT IN (${iris.join(", ")})`;
+}
+
+/** Filter restricting a predicate variable to the given property keys */
+export function fieldFilter(
+  variable: string,
+  fields: readonly string[] | undefined,
+  options: SparqlQueryOptions
+): string[] {
+  return fields?.length
+    ? [
+        `  FILTER(${fields.map((f) => matchName(variable, f, options)).join(" || ")})`,
+      ]
+    : [];
+}
+
+/** `&& (...)` suffix restricting a predicate variable to edge types */
+export function edgeFilterClause(
+  variable: string,
+  edgeTypes: readonly string[] | undefined,
+  options: SparqlQueryOptions
+): string {
+  if (!edgeTypes?.length) return "";
+  return ` && (${edgeTypes.map((t) => matchName(variable, t, options)).join(" || ")})`;
+}
+
+/** Match an IRI variable against an IRI, CURIE or local name */
+export function matchName(
+  variable: string,
+  name: string,
+  options: SparqlQueryOptions
+): string {
+  const expanded = expandCurie(name, options.prefixes);
+  if (isAbsoluteIri(expanded)) {
+    return `${variable} = ${sparqlIri(expanded)}`;
+  }
+  return (
+    `(STRENDS(STR(${variable}), ${sparqlString(`#${name}`)}) || ` +
+    `STRENDS(STR(${variable}), ${sparqlString(`/${name}`)}))`
+  );
+}
+
+function nodeList(
+  nodeIds: readonly string[],
+  options: SparqlQueryOptions
+): string {
+  return nodeIds.map((id) => sparqlNode(id, options.prefixes)).join(" ");
+}
+
+function labelPredicateIris(options: SparqlQueryOptions): string[] {
+  const predicates = options.labelPredicates?.length
+    ? options.labelPredicates
+    : [RDF_TYPE];
+  return predicates.map((p) => sparqlIri(expandCurie(p, options.prefixes)));
+}
+
+/** Property path matching any label predicate */
+function labelPath(options: SparqlQueryOptions): string {
+  const iris = labelPredicateIris(options);
+  return iris.length === 1 ? iris[0]! : `(${iris.join("|")})`;
+}
+
+function anySubjectPattern(): string[] {
+  return ["  ?s ?p ?o .", "  FILTER(!isBlank(?s))"];
+}
+
+function neighborLabelFilter(
+  labels: readonly string[] | undefined
+): LabelFilter | undefined {
+  return labels?.length ? { labels, mode: "any" } : undefined;
+}
+
+/** Compile a property filter against a bound literal */
+function comparison(variable: string, filter: PropertyFilter): string {
+  const { value } = filter;
+  const lhs = typeof value === "string" ? `STR(${variable})` : variable;
+  const rhs = sparqlLiteral(value);
+
+  switch (filter.op) {
+    case "eq":
+      return `${lhs} = ${rhs}`;
+    case "neq":
+      return `${lhs} != ${rhs}`;
+    case "gt":
+      return `${variable} > ${rhs}`;
+    case "gte":
+      return `${variable} >= ${rhs}`;
+    case "lt":
+      return `${variable} < ${rhs}`;
+    case "lte":
+      return `${variable} <= ${rhs}`;
+    case "contains":
+      return `CONTAINS(STR(${variable}), ${sparqlString(String(value))})`;
+    case "startsWith":
+      return `STRSTARTS(STR(${variable}), ${sparqlString(String(value))})`;
+    case "endsWith":
+      return `STRENDS(STR(${variable}), ${sparqlString(String(value))})`;
+  }
+}
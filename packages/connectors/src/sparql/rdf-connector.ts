@@ -0,0 +1,817 @@
+/**
+ * Base class for RDF connectors
+ * Maps RDF to the property graph model: IRIs become nodes, literals become
+ * node properties, rdf:type becomes labels and other triples become edges.
+ */
+
+import type {
+  Direction,
+  ExecuteOptions,
+  ExplainOptions,
+  GraphData,
+  GraphEdge,
+  GraphNode,
+  NodeId,
+  PropertyValue,
+  Query,
+  QueryExplanation,
+  QueryResult,
+  QueryType,
+} from "@queryscape/core";
+import {
+  QueryError,
+  QueryNotSupportedError,
+  cancellationError,
+  isQueryScapeError,
+  querySignal,
+} from "@queryscape/core";
+
+import {
+  createExplainRecorder,
+  explainedStatement,
+  queryExplanation,
+  type ExplainRecorder,
+} from "../explain.js";
+import { BaseConnector, type BaseConnectorConfig } from "../interface.js";
+import { nextOffsetCursor, pageOffset } from "../pagination.js";
+
+import {
+  iriName,
+  literalToProperty,
+  pickDisplayName,
+  resolveMappingProfile,
+  type RdfMappingProfile,
+  type ResolvedRdfMappingProfile,
+} from "./mapping.js";
+import {
+  buildContainsSearchQuery,
+  buildDescribeQuery,
+  buildFindNodesQuery,
+  buildInducedEdgesQuery,
+  buildNeighborsQuery,
+  buildPatternQuery,
+  buildRandomNodesQuery,
+  type SparqlQueryOptions,
+} from "./queries.js";
+import {
+  WELL_KNOWN_PREFIXES,
+  bindingsToTriples,
+  expandCurie,
+  isLiteralTerm,
+  termNodeId,
+  type PrefixMap,
+  type RdfTerm,
+  type RdfTriple,
+  type SparqlBinding,
+  type SparqlClient,
+} from "./sparql.js";
+
+/** Configuration shared by RDF connectors */
+export interface RdfConnectorConfig extends BaseConnectorConfig {
+  /** Named graph (optional) */
+  namedGraph?: string;
+  /** Prefixes for CURIEs in node IDs, labels, edge types and property keys */
+  prefixes?: PrefixMap;
+  /** Per-request timeout in ms (default 30000) */
+  requestTimeoutMs?: number;
+  /** RDF-to-property-graph mapping profile */
+  mapping?: RdfMappingProfile;
+}
+
+/** Graph data and the number of limited solutions it was built from */
+export interface RdfQueryOutput {
+  readonly data: GraphData;
+  readonly rows: number;
+}
+
+/** Cancels SELECT requests, or records them instead when explaining */
+export interface RdfRunContext {
+  readonly signal?: AbortSignal;
+  readonly explain?: ExplainRecorder;
+}
+
+/** Limit used when a query has no pagination */
+const DEFAULT_LIMIT = 100;
+
+/** Query types whose `rows` count the paged solutions (offset cursors) */
+const PAGED_QUERY_TYPES: readonly QueryType[] = [
+  "getNeighbors",
+  "findNodes",
+  "search",
+  "pattern",
+];
+
+/** Bounds for a client-side traversal */
+interface TraversalBounds {
+  readonly depth: number;
+  readonly edgeLimit: number;
+  readonly nodeLimit?: number;
+  readonly edgeTypes?: readonly string[];
+  readonly nodeLabels?: readonly string[];
+}
+
+/**
+ * RDF connector over a SPARQL 1.1 endpoint
+ * Subclasses provide the client and may override runQuery() to use
+ * store-specific extensions.
+ */
+export abstract class RdfConnector extends BaseConnector {
+  protected readonly rdfConfig: RdfConnectorConfig;
+  /** Well-known prefixes merged with the configured ones */
+  protected readonly prefixes: PrefixMap;
+  protected readonly mapping: ResolvedRdfMappingProfile;
+  protected client: SparqlClient | null = null;
+
+  constructor(config: RdfConnectorConfig) {
+    super(config);
+    this.rdfConfig = config;
+    this.prefixes = { ...WELL_KNOWN_PREFIXES, ...config.prefixes };
+    this.mapping = resolveMappingProfile(config.mapping, this.prefixes);
+  }
+
+  /** Create the client for the configured endpoint */
+  protected abstract createClient(): SparqlClient;
+
+  async connect(): Promise<void> {
+    const client = this.createClient();
+
+    // Verify the endpoint and credentials
+    await client.query("ASK {}");
+    this.client = client;
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.client = null;
+    this.connected = false;
+  }
+
+  async executeQuery(
+    query: Query,
+    execution: ExecuteOptions = {}
+  ): Promise<QueryResult> {
+    this.ensureConnected();
+    this.checkQuerySupported(query.type);
+
+    const startTime = Date.now();
+    const signal = querySignal(query, execution.signal);
+    const limit = query.pagination?.limit ?? DEFAULT_LIMIT;
+    const offset = pageOffset(query);
+    const options: SparqlQueryOptions = {
+      ...this.datasetOptions(),
+      limit,
+      offset,
+    };
+
+    try {
+      const { data, rows } = await this.runQuery(query, options, { signal });
+
+      return {
+        data,
+        metadata: {
+          executionTimeMs: Date.now() - startTime,
+          totalAvailable: null,
+          truncated: rows >= limit,
+          cursor: PAGED_QUERY_TYPES.includes(query.type)
+            ? nextOffsetCursor(query, offset, rows, limit)
+            : null,
+        },
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw cancellationError(signal, query);
+      }
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
+      throw new QueryError(
+        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        query.type
+      );
+    }
+  }
+
+  /**
+   * Record the SELECT queries for a query without sending them. SPARQL has
+   * no standard explain, so there is no plan; queries that depend on earlier
+   * results (describing the matched nodes, later traversal levels) are
+   * recorded as if those results were empty.
+   */
+  async explain(
+    query: Query,
+    options: ExplainOptions = {}
+  ): Promise<QueryExplanation> {
+    this.ensureConnected();
+    this.checkQuerySupported(query.type);
+
+    const recorder = createExplainRecorder(options);
+    try {
+      await this.runQuery(
+        query,
+        {
+          ...this.datasetOptions(),
+          limit: query.pagination?.limit ?? DEFAULT_LIMIT,
+          offset: pageOffset(query),
+        },
+        { explain: recorder }
+      );
+    } catch (error) {
+      if (isQueryScapeError(error)) {
+        throw error;
+      }
+      throw new QueryError(
+        `Query explanation failed: ${error instanceof Error ? error.message : String(error)}`,
+        query.type
+      );
+    }
+    return queryExplanation(
+      this.getCapabilities(),
+      query,
+      recorder,
+      DEFAULT_LIMIT
+    );
+  }
+
+  /** Compile and run a query with portable SPARQL 1.1 */
+  protected async runQuery(
+    query: Query,
+    options: SparqlQueryOptions,
+    context: RdfRunContext = {}
+  ): Promise<RdfQueryOutput> {
+    switch (query.type) {
+      case "getNode":
+        return {
+          data: await this.describe([query.nodeId], [], context),
+          rows: 0,
+        };
+
+      case "getNeighbors": {
+        const bindings = await this.select(
+          buildNeighborsQuery(
+            [query.nodeId],
+            query.direction,
+            query.edgeTypes,
+            options
+          ),
+          context
+        );
+        return {
+          data: await this.describe(
+            [query.nodeId],
+            bindingsToTriples(bindings),
+            context
+          ),
+          rows: bindings.length,
+        };
+      }
+
+      case "expandNode": {
+        const edgeLimit = options.limit ?? DEFAULT_LIMIT;
+        const edges = await this.traverse(
+          query.nodeId,
+          query.direction,
+          {
+            depth: query.depth ?? 1,
+            edgeLimit,
+            edgeTypes: query.edgeTypes,
+            nodeLabels: query.nodeLabels,
+          },
+          context
+        );
+        return {
+          data: await this.describe([query.nodeId], edges, context),
+          rows: edges.length,
+        };
+      }
+
+      case "findNodes": {
+        if (query.filter) {
+          throw new QueryNotSupportedError(
+            "Filter expressions cannot be translated to SPARQL",
+            "filter"
+          );
+        }
+        const bindings = await this.select(
+          buildFindNodesQuery(
+            query.labelFilter,
+            query.propertyFilters,
+            options,
+            query.nodeIds
+          ),
+          context
+        );
+        return {
+          data: await this.describe(subjectIds(bindings), [], context),
+          rows: bindings.length,
+        };
+      }
+
+      case "pattern": {
+        const bindings = await this.select(
+          buildPatternQuery(query, options),
+          context
+        );
+        const variable = (name: string): string =>
+          `n${query.nodes.findIndex((n) => n.variable === name)}`;
+        const triples = (query.edges ?? []).flatMap((edge, i) =>
+          bindingsToTriples(bindings, [
+            variable(edge.source),
+            `r${i}`,
+            variable(edge.target),
+          ])
+        );
+        const nodeIds = bindings.flatMap((b) =>
+          query.nodes.flatMap((_, i) => {
+            const term = b[`n${i}`];
+            return term ? [termNodeId(term)] : [];
+          })
+        );
+        return {
+          data: await this.describe(nodeIds, triples, context),
+          rows: bindings.length,
+        };
+      }
+
+      case "sample":
+        return {
+          data: await this.sample(
+            query.strategy,
+            query.count,
+            query.startNodeId,
+            context
+          ),
+          rows: 0,
+        };
+
+      case "search": {
+        const bindings = await this.select(
+          buildContainsSearchQuery(
+            query.text,
+            query.fields,
+            query.labels,
+            options
+          ),
+          context
+        );
+        return {
+          data: await this.describe(subjectIds(bindings), [], context),
+          rows: bindings.length,
+        };
+      }
+
+      default:
+        throw new QueryNotSupportedError(
+          `Query type '${query.type}' cannot be translated to SPARQL`,
+          query.type
+        );
+    }
+  }
+
+  /** Run a SELECT query and return its solutions; explain records it */
+  protected async select(
+    sparql: string,
+    context: RdfRunContext = {}
+  ): Promise<readonly SparqlBinding[]> {
+    if (context.explain) {
+      context.explain.statements.push(explainedStatement("sparql", sparql));
+      return [];
+    }
+    const results = await this.client!.query(sparql, context.signal);
+    return results.results?.bindings ?? [];
+  }
+
+  /**
+   * Fetch literal and label triples for the given nodes and the endpoints of
+   * the given edge triples, then map everything to graph data
+   */
+  protected async describe(
+    nodeIds: readonly NodeId[],
+    allEdgeTriples: readonly RdfTriple[],
+    context: RdfRunContext = {}
+  ): Promise<GraphData> {
+    const inline = this.mapping.blankNodes === "inline";
+    // Inlined blank nodes are properties of the node describing them
+    const edgeTriples = inline
+      ? allEdgeTriples.filter(
+          (t) => t.subject.type !== "bnode" && t.object.type !== "bnode"
+        )
+      : allEdgeTriples;
+    const endpoints = edgeTriples.flatMap((t) => [
+      termNodeId(t.subject),
+      termNodeId(t.object),
+    ]);
+    // Blank node labels are not stable across queries, so they cannot be described
+    const ids = Array.from(
+      new Set([...nodeIds.map((id) => this.expandId(id)), ...endpoints])
+    ).filter((id) => !id.startsWith("_:"));
+
+    const bindings =
+      ids.length > 0
+        ? await this.select(
+            buildDescribeQuery(ids, {
+              ...this.datasetOptions(),
+              inlineBlankNodes: inline,
+            }),
+            context
+          )
+        : [];
+    const described = uniqueTriples([
+      ...bindingsToTriples(bindings),
+      ...(inline ? bindingsToTriples(bindings, ["o", "bp", "bo"]) : []),
+    ]);
+
+    const data = this.mapTriplesToGraph([...described, ...edgeTriples]);
+
+    // Edge endpoints without literals or types still need nodes
+    const known = new Set(data.nodes.map((n) => n.id));
+    const missing = Array.from(new Set(endpoints))
+      .filter((id) => !known.has(id))
+      .map((id) => ({ id, labels: [], properties: {} }));
+
+    return { nodes: [...data.nodes, ...missing], edges: data.edges };
+  }
+
+  /**
+   * Fold triples into nodes and edges, inlining blank nodes and picking
+   * display names as the mapping profile requires
+   */
+  protected mapTriplesToGraph(triples: readonly RdfTriple[]): GraphData {
+    const nodes = new Map<NodeId, GraphNode>();
+    const edges = new Map<string, GraphEdge>();
+    const displayNames = new Map<
+      NodeId,
+      { predicate: string; literal: RdfTerm }[]
+    >();
+    const { displayName } = this.mapping;
+
+    const inline = this.mapping.blankNodes === "inline";
+    const blankTriples = new Map<NodeId, RdfTriple[]>();
+    if (inline) {
+      for (const triple of triples) {
+        if (triple.subject.type !== "bnode") continue;
+        const id = termNodeId(triple.subject);
+        blankTriples.set(id, [...(blankTriples.get(id) ?? []), triple]);
+      }
+    }
+
+    for (const triple of triples) {
+      if (inline && triple.subject.type === "bnode") continue;
+
+      const { node, edge } =
+        inline && triple.object.type === "bnode"
+          ? {
+              node: this.inlineBlankNode(triple, blankTriples),
+              edge: undefined,
+            }
+          : this.mapTripleToGraph(
+              triple.subject,
+              triple.predicate,
+              triple.object
+            );
+      if (node) {
+        nodes.set(node.id, mergeNode(nodes.get(node.id), node));
+      }
+      if (edge) {
+        edges.set(edge.id, edge);
+      }
+
+      if (
+        displayName &&
+        isLiteralTerm(triple.object) &&
+        displayName.predicates.includes(triple.predicate.value)
+      ) {
+        const id = termNodeId(triple.subject);
+        displayNames.set(id, [
+          ...(displayNames.get(id) ?? []),
+          { predicate: triple.predicate.value, literal: triple.object },
+        ]);
+      }
+    }
+
+    if (displayName) {
+      for (const [id, candidates] of displayNames) {
+        const name = pickDisplayName(candidates, displayName);
+        const node = nodes.get(id);
+        if (name !== undefined && node) {
+          nodes.set(id, {
+            ...node,
+            properties: { ...node.properties, [displayName.property]: name },
+          });
+        }
+      }
+    }
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values()),
+    };
+  }
+
+  /**
+   * Map RDF triple to property graph elements
+   * Subject -> Node, Predicate -> Edge type or property key,
+   * Object -> Node (with an edge), property value, or label (label
+   * predicates such as rdf:type)
+   */
+  protected mapTripleToGraph(
+    subject: RdfTerm,
+    predicate: RdfTerm,
+    object: RdfTerm
+  ): { node?: GraphNode; edge?: GraphEdge } {
+    const subjectId = termNodeId(subject);
+
+    if (this.mapping.labelPredicates.includes(predicate.value)) {
+      return {
+        node: {
+          id: subjectId,
+          labels: [
+            isLiteralTerm(object) ? object.value : this.mapIri(object.value),
+          ],
+          properties: {},
+        },
+      };
+    }
+
+    if (isLiteralTerm(object)) {
+      return {
+        node: {
+          id: subjectId,
+          labels: [],
+          properties: {
+            [this.mapIri(predicate.value)]: literalToProperty(
+              object,
+              this.mapping
+            ),
+          },
+        },
+      };
+    }
+
+    const objectId = termNodeId(object);
+    return {
+      edge: {
+        id: `${subjectId}_${predicate.value}_${objectId}`,
+        source: subjectId,
+        target: objectId,
+        type: this.mapIri(predicate.value),
+        properties: {},
+      },
+    };
+  }
+
+  /** Edge type, label or property key for an IRI (local name or CURIE) */
+  protected mapIri(iri: string): string {
+    return iriName(iri, this.mapping);
+  }
+
+  /**
+   * Nest a blank node object's triples into its subject as a property value.
+   * Cycles between blank nodes stop at the repeated label.
+   */
+  private inlineBlankNode(
+    triple: RdfTriple,
+    blankTriples: ReadonlyMap<NodeId, readonly RdfTriple[]>
+  ): GraphNode {
+    const nest = (id: NodeId, seen: ReadonlySet<NodeId>): PropertyValue => {
+      const value: Record<string, PropertyValue> = {};
+      for (const { predicate, object } of blankTriples.get(id) ?? []) {
+        const objectId = termNodeId(object);
+        const key = this.mapIri(predicate.value);
+        value[key] = appendValue(
+          value[key],
+          isLiteralTerm(object)
+            ? literalToProperty(object, this.mapping)
+            : object.type === "bnode" && !seen.has(objectId)
+              ? nest(objectId, new Set([...seen, objectId]))
+              : this.mapping.labelPredicates.includes(predicate.value)
+                ? this.mapIri(object.value)
+                : objectId
+        );
+      }
+      return value;
+    };
+
+    const objectId = termNodeId(triple.object);
+    return {
+      id: termNodeId(triple.subject),
+      labels: [],
+      properties: {
+        [this.mapIri(triple.predicate.value)]: nest(
+          objectId,
+          new Set([objectId])
+        ),
+      },
+    };
+  }
+
+  /** Named graph, prefixes and label predicates without paging */
+  protected datasetOptions(): SparqlQueryOptions {
+    return {
+      namedGraph: this.rdfConfig.namedGraph,
+      prefixes: this.prefixes,
+      labelPredicates: this.mapping.labelPredicates,
+    };
+  }
+
+  /** Expand a CURIE node ID to the IRI the endpoint returns */
+  protected expandId(nodeId: NodeId): NodeId {
+    return expandCurie(nodeId, this.prefixes);
+  }
+
+  /**
+   * Breadth-first traversal issuing one neighbors query per level.
+   * Blank nodes are kept as leaves since their labels are not stable.
+   */
+  private async traverse(
+    startId: NodeId,
+    direction: Direction,
+    bounds: TraversalBounds,
+    context: RdfRunContext = {}
+  ): Promise<RdfTriple[]> {
+    const start = this.expandId(startId);
+    const visited = new Set<NodeId>([start]);
+    const edges: RdfTriple[] = [];
+    let frontier = start.startsWith("_:") ? [] : [start];
+
+    for (
+      let level = 0;
+      level < bounds.depth &&
+      frontier.length > 0 &&
+      edges.length < bounds.edgeLimit;
+      level++
+    ) {
+      const triples = bindingsToTriples(
+        await this.select(
+          buildNeighborsQuery(frontier, direction, bounds.edgeTypes, {
+            ...this.datasetOptions(),
+            neighborLabels: bounds.nodeLabels,
+            limit: bounds.edgeLimit - edges.length,
+          }),
+          context
+        )
+      );
+
+      const next: NodeId[] = [];
+      for (const triple of triples) {
+        const unseen = Array.from(
+          new Set([termNodeId(triple.subject), termNodeId(triple.object)])
+        ).filter((id) => !visited.has(id));
+        if (
+          bounds.nodeLimit !== undefined &&
+          visited.size + unseen.length > bounds.nodeLimit
+        ) {
+          continue;
+        }
+        edges.push(triple);
+        for (const id of unseen) {
+          visited.add(id);
+          if (!id.startsWith("_:")) next.push(id);
+        }
+      }
+      frontier = next;
+    }
+
+    return edges;
+  }
+
+  /** Sample a subgraph with the given strategy */
+  private async sample(
+    strategy: "random" | "randomWalk" | "frontier",
+    count: number,
+    startNodeId?: NodeId,
+    context: RdfRunContext = {}
+  ): Promise<GraphData> {
+    if (strategy === "random") {
+      const ids = subjectIds(
+        await this.select(
+          buildRandomNodesQuery({ ...this.datasetOptions(), limit: count }),
+          context
+        )
+      );
+      const edges =
+        ids.length > 0
+          ? bindingsToTriples(
+              await this.select(
+                buildInducedEdgesQuery(ids, this.datasetOptions()),
+                context
+              )
+            )
+          : [];
+      return this.describe(ids, edges, context);
+    }
+
+    const start = startNodeId ?? (await this.randomNodeId(context));
+    if (start === undefined) return { nodes: [], edges: [] };
+
+    const edges =
+      strategy === "randomWalk"
+        ? await this.randomWalk(start, count, context)
+        : await this.traverse(
+            start,
+            "both",
+            {
+              depth: count,
+              edgeLimit: count * 10,
+              nodeLimit: count,
+            },
+            context
+          );
+    return this.describe([start], edges, context);
+  }
+
+  /** Follow random incident edges until `count` nodes are visited */
+  private async randomWalk(
+    startId: NodeId,
+    count: number,
+    context: RdfRunContext = {}
+  ): Promise<RdfTriple[]> {
+    const visited = new Set<NodeId>();
+    const edges: RdfTriple[] = [];
+    let current = this.expandId(startId);
+
+    for (let i = 0; i < count * 10; i++) {
+      visited.add(current);
+      if (visited.size >= count || current.startsWith("_:")) break;
+
+      const [edge] = bindingsToTriples(
+        await this.select(
+          buildNeighborsQuery([current], "both", undefined, {
+            ...this.datasetOptions(),
+            random: true,
+            limit: 1,
+          }),
+          context
+        )
+      );
+      if (!edge) break;
+
+      edges.push(edge);
+      const source = termNodeId(edge.subject);
+      current = source === current ? termNodeId(edge.object) : source;
+    }
+
+    return edges;
+  }
+
+  private async randomNodeId(
+    context: RdfRunContext = {}
+  ): Promise<NodeId | undefined> {
+    const [id] = subjectIds(
+      await this.select(
+        buildRandomNodesQuery({ ...this.datasetOptions(), limit: 1 }),
+        context
+      )
+    );
+    return id;
+  }
+}
+
+/** Merge a partial node into an accumulated one; repeated keys become arrays */
+function mergeNode(
+  existing: GraphNode | undefined,
+  next: GraphNode
+): GraphNode {
+  if (!existing) return next;
+
+  const properties: Record<string, PropertyValue> = { ...existing.properties };
+  for (const [key, value] of Object.entries(next.properties)) {
+    properties[key] = appendValue(properties[key], value);
+  }
+
+  return {
+    id: existing.id,
+    labels: Array.from(new Set([...existing.labels, ...next.labels])),
+    properties,
+  };
+}
+
+/** Add a value to a property; repeated values become arrays */
+function appendValue(
+  current: PropertyValue | undefined,
+  value: PropertyValue
+): PropertyValue {
+  return current === undefined
+    ? value
+    : Array.isArray(current)
+      ? [...current, value]
+      : [current, value];
+}
+
+/** Drop repeated triples (solutions repeat ?s ?p ?o per blank node triple) */
+function uniqueTriples(triples: readonly RdfTriple[]): RdfTriple[] {
+  const key = (t: RdfTerm): string =>
+    [t.type, t.value, t.datatype ?? "", t["xml:lang"] ?? ""].join("\u0000");
+  const seen = new Map<string, RdfTriple>();
+  for (const triple of triples) {
+    seen.set(
+      [triple.subject, triple.predicate, triple.object].map(key).join("\u0001"),
+      triple
+    );
+  }
+  return Array.from(seen.values());
+}
+
+/** Node IDs bound to ?s */
+export function subjectIds(bindings: readonly SparqlBinding[]): NodeId[] {
+  return bindings.flatMap((b) => (b["s"] ? [termNodeId(b["s"])] : []));
+}
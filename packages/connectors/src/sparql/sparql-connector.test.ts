@@ -0,0 +1,433 @@
+import {
+  ConfigError,
+  QueryCancelledError,
+  QueryNotSupportedError,
+  ValidationError,
+} from "@queryscape/core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  solutions,
+  startFakeSparqlServer,
+  term,
+  type FakeSparqlHandler,
+  type FakeSparqlServer,
+} from "./fake-sparql-server";
+import { RDF_TYPE, WELL_KNOWN_PREFIXES } from "./sparql";
+
+import {
+  SparqlConnector,
+  createSparqlConnector,
+  literalConverters,
+  type RdfMappingProfile,
+} from "./index";
+
+const EX = "http://example.org/";
+const {
+  rdfs: RDFS,
+  skos: SKOS,
+  xsd: XSD,
+} = WELL_KNOWN_PREFIXES as Record<string, string>;
+
+/** alice -knows-> bob -knows-> carol */
+const EDGES = [
+  ["alice", "bob"],
+  ["bob", "carol"],
+].map(([s, o]) => ({
+  s: term.iri(`${EX}${s}`),
+  p: term.iri(`${EX}knows`),
+  o: term.iri(`${EX}${o}`),
+}));
+
+/** IRIs listed in a query's VALUES clause for the variable */
+const valuesOf = (query: string, variable: string): string[] =>
+  Array.from(
+    new RegExp(`VALUES \\?${variable} \\{([^}]*)\\}`)
+      .exec(query)?.[1]
+      ?.matchAll(/<([^>]+)>/g) ?? [],
+    (m) => m[1]!
+  );
+
+/**
+ * Answer describe queries with a type triple and edge hops from EDGES.
+ * Random hops list later edges first so walks move away from alice.
+ */
+const graphHandler: FakeSparqlHandler = ({ query }) => {
+  if (query.includes("FILTER(isLiteral(?o) ||")) {
+    return solutions(
+      valuesOf(query, "s").map((s) => ({
+        s: term.iri(s),
+        p: term.iri(RDF_TYPE),
+        o: term.iri(`${EX}Person`),
+      }))
+    );
+  }
+  const sources = valuesOf(query, "s");
+  const targets = valuesOf(query, "o");
+  const edges = EDGES.filter((e) =>
+    query.includes("UNION")
+      ? sources.includes(e.s.value) || targets.includes(e.o.value)
+      : (sources.length === 0 || sources.includes(e.s.value)) &&
+        (targets.length === 0 || targets.includes(e.o.value))
+  );
+  return solutions(query.includes("RAND()") ? edges.reverse() : edges);
+};
+
+describe("SparqlConnector", () => {
+  let server: FakeSparqlServer;
+  let connector: SparqlConnector;
+
+  beforeEach(async () => {
+    server = await startFakeSparqlServer(() => ({ head: {}, boolean: true }));
+    connector = createSparqlConnector({
+      queryEndpoint: `${server.url}/ds/query`,
+      updateEndpoint: `${server.url}/ds/update`,
+      auth: { username: "admin", password: "secret" },
+      prefixes: { ex: EX },
+    });
+    await connector.connect();
+    server.setHandler(graphHandler);
+  });
+
+  afterEach(async () => {
+    await connector.disconnect();
+    await server.close();
+  });
+
+  it("should POST queries to the query endpoint", () => {
+    const request = server.requests[0]!;
+    expect(request.path).toBe("/ds/query");
+    expect(request.query).toBe("ASK {}");
+    expect(request.headers["authorization"]).toBe(
+      `Basic ${Buffer.from("admin:secret").toString("base64")}`
+    );
+  });
+
+  it("should expand CURIEs in node IDs and labels", async () => {
+    const node = await connector.executeQuery({
+      type: "getNode",
+      nodeId: "ex:alice",
+    });
+    expect(server.requests[1]!.query).toContain(`VALUES ?s { <${EX}alice> }`);
+    expect(node.data.nodes).toEqual([
+      { id: `${EX}alice`, labels: ["Person"], properties: {} },
+    ]);
+
+    await connector.executeQuery({
+      type: "findNodes",
+      labelFilter: { labels: ["ex:Person"], mode: "any" },
+    });
+    expect(server.requests[2]!.query).toContain(`?type = <${EX}Person>`);
+  });
+
+  it("should reject blank node IDs without sending a query", async () => {
+    await expect(
+      connector.executeQuery({
+        type: "getNeighbors",
+        nodeId: "_:x } ?s ?p ?o } } #",
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("should expand nodes one level per query", async () => {
+    const result = await connector.executeQuery({
+      type: "expandNode",
+      nodeId: `${EX}alice`,
+      direction: "outgoing",
+      depth: 2,
+    });
+
+    const [, first, second] = server.requests;
+    expect(valuesOf(first!.query, "s")).toEqual([`${EX}alice`]);
+    expect(valuesOf(second!.query, "s")).toEqual([`${EX}bob`]);
+    expect(result.data.nodes.map((n) => n.id).sort()).toEqual([
+      `${EX}alice`,
+      `${EX}bob`,
+      `${EX}carol`,
+    ]);
+    expect(result.data.edges).toHaveLength(2);
+  });
+
+  it("should sample random nodes with their induced edges", async () => {
+    server.setHandler((request) =>
+      request.query.includes("ORDER BY RAND()")
+        ? solutions([
+            { s: term.iri(`${EX}alice`) },
+            { s: term.iri(`${EX}bob`) },
+          ])
+        : graphHandler(request)
+    );
+
+    const result = await connector.executeQuery({
+      type: "sample",
+      strategy: "random",
+      count: 2,
+    });
+
+    expect(server.requests[1]!.query).toContain("ORDER BY RAND()\nLIMIT 2");
+    expect(valuesOf(server.requests[2]!.query, "o")).toEqual([
+      `${EX}alice`,
+      `${EX}bob`,
+    ]);
+    expect(result.data.edges.map((e) => e.target)).toEqual([`${EX}bob`]);
+  });
+
+  it("should sample by walking random incident edges", async () => {
+    const result = await connector.executeQuery({
+      type: "sample",
+      strategy: "randomWalk",
+      count: 3,
+      startNodeId: "ex:alice",
+    });
+
+    const walks = server.requests.filter((r) =>
+      r.query.includes("ORDER BY RAND()\nLIMIT 1")
+    );
+    expect(walks).toHaveLength(2);
+    expect(result.data.nodes).toHaveLength(3);
+  });
+
+  it("should search literals with CONTAINS", async () => {
+    await connector.executeQuery({
+      type: "search",
+      text: "Ali",
+      fields: ["name"],
+    });
+
+    const query = server.requests[1]!.query;
+    expect(query).toContain('CONTAINS(LCASE(STR(?o)), LCASE("Ali"))');
+    expect(query).toContain('STRENDS(STR(?p), "#name")');
+    expect(connector.getCapabilities().supportsFullTextSearch).toBe(false);
+  });
+
+  it("should match patterns as SELECT solutions", async () => {
+    server.setHandler((request) =>
+      request.query.startsWith("SELECT DISTINCT ?n0")
+        ? solutions([
+            {
+              n0: EDGES[0]!.s,
+              n1: EDGES[0]!.o,
+              n2: EDGES[1]!.o,
+              r0: EDGES[0]!.p,
+              r1: EDGES[1]!.p,
+            },
+          ])
+        : graphHandler(request)
+    );
+
+    const result = await connector.executeQuery({
+      type: "pattern",
+      nodes: [
+        { variable: "a", nodeId: "ex:alice" },
+        { variable: "b" },
+        { variable: "c", labels: ["Person"] },
+      ],
+      edges: [
+        { source: "a", target: "b", types: ["ex:knows"] },
+        { source: "b", target: "c", types: ["ex:knows"] },
+      ],
+    });
+
+    const query = server.requests[1]!.query;
+    expect(query).toContain("  ?n0 ?r0 ?n1 .");
+    expect(valuesOf(query, "n0")).toEqual([`${EX}alice`]);
+    expect(query).toContain(`?n2 <${RDF_TYPE}> ?n2Type0 .`);
+    expect(query).toContain(
+      "FILTER(!(sameTerm(?n0, ?n1) && sameTerm(?r0, ?r1) && sameTerm(?n1, ?n2)))"
+    );
+    expect(result.data.edges).toHaveLength(2);
+    expect(result.data.nodes.map((n) => n.id).sort()).toEqual([
+      `${EX}alice`,
+      `${EX}bob`,
+      `${EX}carol`,
+    ]);
+  });
+
+  it("should reject queries that need store extensions", async () => {
+    await expect(
+      connector.executeQuery({
+        type: "findPath",
+        sourceId: `${EX}alice`,
+        targetId: `${EX}carol`,
+      })
+    ).rejects.toBeInstanceOf(QueryNotSupportedError);
+  });
+
+  it("should not offer schema statistics", async () => {
+    expect(connector.getCapabilities().supportsSchema).toBe(false);
+    await expect(connector.getSchema()).rejects.toBeInstanceOf(
+      QueryNotSupportedError
+    );
+  });
+
+  it("should not send requests for a cancelled query", async () => {
+    await expect(
+      connector.executeQuery(
+        { type: "getNode", nodeId: `${EX}alice` },
+        { signal: AbortSignal.abort() }
+      )
+    ).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("should explain queries without sending them", async () => {
+    const explanation = await connector.explain({
+      type: "getNeighbors",
+      nodeId: `${EX}alice`,
+      direction: "out",
+    });
+
+    expect(explanation.statements.map((s) => s.language)).toEqual([
+      "sparql",
+      "sparql",
+    ]);
+    expect(explanation.statements[0]?.text).toContain(`<${EX}alice>`);
+    expect(explanation.statements[0]?.plan).toBeNull();
+    expect(server.requests).toHaveLength(1);
+  });
+
+  describe("executeUpdate", () => {
+    it("should POST updates to the update endpoint", async () => {
+      server.setHandler(() => ({ status: 204 }));
+      await connector.executeUpdate(`INSERT DATA { <${EX}a> <${EX}b> "c" }`);
+
+      const request = server.requests[1]!;
+      expect(request.path).toBe("/ds/update");
+      expect(request.update).toContain("INSERT DATA");
+    });
+
+    it("should require an update endpoint", async () => {
+      const readOnly = new SparqlConnector({
+        queryEndpoint: `${server.url}/ds/query`,
+      });
+      server.setHandler(() => ({ head: {}, boolean: true }));
+      await readOnly.connect();
+
+      await expect(readOnly.executeUpdate("CLEAR ALL")).rejects.toBeInstanceOf(
+        ConfigError
+      );
+    });
+  });
+
+  describe("mapping profiles", () => {
+    const connectWith = async (
+      mapping: RdfMappingProfile
+    ): Promise<SparqlConnector> => {
+      server.setHandler(() => ({ head: {}, boolean: true }));
+      const profiled = createSparqlConnector({
+        queryEndpoint: server.url,
+        prefixes: { ex: EX },
+        mapping,
+      });
+      await profiled.connect();
+      return profiled;
+    };
+
+    it("should name, label and convert literals per the profile", async () => {
+      const profiled = await connectWith({
+        naming: "curie",
+        labelPredicates: ["rdf:type", "skos:inScheme"],
+        displayName: {
+          predicates: ["skos:prefLabel", "rdfs:label"],
+          languages: ["en"],
+        },
+        literals: {
+          "xsd:dateTime": literalConverters.epochMillis,
+          "xsd:decimal": literalConverters.string,
+        },
+      });
+      const alice = term.iri(`${EX}alice`);
+      server.setHandler(() =>
+        solutions(
+          [
+            [term.iri(RDF_TYPE), term.iri(`${EX}Person`)],
+            [term.iri(`${SKOS}inScheme`), term.iri(`${EX}Staff`)],
+            [term.iri(`${RDFS}label`), term.langLiteral("Alicia", "de")],
+            [term.iri(`${RDFS}label`), term.langLiteral("Alice", "en-GB")],
+            [
+              term.iri(`${EX}born`),
+              term.literal("1990-01-02T00:00:00Z", `${XSD}dateTime`),
+            ],
+            [term.iri(`${EX}salary`), term.literal("1234.50", `${XSD}decimal`)],
+          ].map(([p, o]) => ({ s: alice, p, o }))
+        )
+      );
+
+      const result = await profiled.executeQuery({
+        type: "getNode",
+        nodeId: "ex:alice",
+      });
+      await profiled.executeQuery({
+        type: "findNodes",
+        labelFilter: { labels: ["ex:Staff"], mode: "any" },
+      });
+
+      expect(server.requests[2]!.query).toContain(
+        `?p IN (<${RDF_TYPE}>, <${SKOS}inScheme>)`
+      );
+      expect(server.requests[3]!.query).toContain(
+        `?s (<${RDF_TYPE}>|<${SKOS}inScheme>) ?type .`
+      );
+      expect(result.data.nodes).toEqual([
+        {
+          id: `${EX}alice`,
+          labels: ["ex:Person", "ex:Staff"],
+          properties: {
+            "rdfs:label": ["Alicia", "Alice"],
+            "ex:born": Date.UTC(1990, 0, 2),
+            "ex:salary": "1234.50",
+            name: "Alice",
+          },
+        },
+      ]);
+    });
+
+    it("should inline blank nodes as nested properties", async () => {
+      const profiled = await connectWith({ blankNodes: "inline" });
+      const alice = term.iri(`${EX}alice`);
+      server.setHandler(({ query }) =>
+        query.includes("OPTIONAL")
+          ? solutions([
+              { s: alice, p: term.iri(`${EX}name`), o: term.literal("Alice") },
+              {
+                s: alice,
+                p: term.iri(`${EX}address`),
+                o: term.bnode("a1"),
+                bp: term.iri(`${EX}city`),
+                bo: term.literal("Oslo"),
+              },
+              {
+                s: alice,
+                p: term.iri(`${EX}address`),
+                o: term.bnode("a1"),
+                bp: term.iri(`${EX}zip`),
+                bo: term.literal("0150"),
+              },
+            ])
+          : solutions([
+              { s: alice, p: term.iri(`${EX}address`), o: term.bnode("a1") },
+            ])
+      );
+
+      const result = await profiled.executeQuery({
+        type: "getNeighbors",
+        nodeId: `${EX}alice`,
+        direction: "outgoing",
+      });
+
+      expect(server.requests[3]!.query).toContain("SELECT ?s ?p ?o ?bp ?bo");
+      expect(result.data.edges).toEqual([]);
+      expect(result.data.nodes).toEqual([
+        {
+          id: `${EX}alice`,
+          labels: [],
+          properties: {
+            name: "Alice",
+            address: { city: "Oslo", zip: "0150" },
+          },
+        },
+      ]);
+    });
+  });
+});
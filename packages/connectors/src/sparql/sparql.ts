@@ -0,0 +1,302 @@
+/**
+ * SPARQL 1.1 protocol client and term serialization
+ */
+
+import type { PropertyValue } from "@queryscape/core";
+import {
+  AuthError,
+  ConfigError,
+  ConnectionError,
+  QueryCancelledError,
+  QueryError,
+  ValidationError,
+} from "@queryscape/core";
+
+import { toBase64 } from "../encoding.js";
+
+/** SPARQL JSON results mime type */
+export const SPARQL_RESULTS_JSON = "application/sparql-results+json";
+
+/** rdf:type predicate */
+export const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+
+/** RDF term as it appears in SPARQL JSON results */
+export interface RdfTerm {
+  readonly type: "uri" | "literal" | "typed-literal" | "bnode";
+  readonly value: string;
+  readonly datatype?: string;
+  readonly "xml:lang"?: string;
+}
+
+/** One solution: variable name -> bound term */
+export type SparqlBinding = Readonly<Record<string, RdfTerm | undefined>>;
+
+/** Parsed `application/sparql-results+json` document */
+export interface SparqlResults {
+  readonly head: { readonly vars?: readonly string[] };
+  readonly results?: { readonly bindings: readonly SparqlBinding[] };
+  readonly boolean?: boolean;
+}
+
+/** Namespace prefixes (prefix -> namespace IRI) */
+export type PrefixMap = Readonly<Record<string, string>>;
+
+/** Prefixes available to every RDF connector; configured prefixes win */
+export const WELL_KNOWN_PREFIXES: PrefixMap = {
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+  xsd: XSD,
+  owl: "http://www.w3.org/2002/07/owl#",
+  skos: "http://www.w3.org/2004/02/skos/core#",
+};
+
+/** SPARQL HTTP client configuration */
+export interface SparqlClientConfig {
+  /** Query endpoint URL */
+  queryEndpoint: string;
+  /** Update endpoint URL */
+  updateEndpoint?: string;
+  /** Basic auth credentials */
+  auth?: { username: string; password: string };
+  /** Per-request timeout in ms (default 30000) */
+  requestTimeoutMs?: number;
+}
+
+/** Minimal SPARQL 1.1 protocol client (form-encoded POST) */
+export class SparqlClient {
+  constructor(private readonly config: SparqlClientConfig) {}
+
+  /** Run a SELECT or ASK query; aborting `signal` cancels the request */
+  async query(sparql: string, signal?: AbortSignal): Promise<SparqlResults> {
+    const response = await this.post(
+      this.config.queryEndpoint,
+      { query: sparql },
+      signal
+    );
+    return (await response.json()) as SparqlResults;
+  }
+
+  /** Run a SPARQL Update request */
+  async update(sparql: string): Promise<void> {
+    if (!this.config.updateEndpoint) {
+      throw new ConfigError(
+        "SPARQL update endpoint is not configured",
+        "updateEndpoint"
+      );
+    }
+    await this.post(this.config.updateEndpoint, { update: sparql });
+  }
+
+  private async post(
+    endpoint: string,
+    form: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      accept: SPARQL_RESULTS_JSON,
+      "content-type": "application/x-www-form-urlencoded",
+    };
+    const { auth } = this.config;
+    if (auth) {
+      headers["authorization"] = `Basic ${toBase64(
+        new TextEncoder().encode(`${auth.username}:${auth.password}`)
+      )}`;
+    }
+
+    const timeout = AbortSignal.timeout(this.config.requestTimeoutMs ?? 30000);
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: new URLSearchParams(form).toString(),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new QueryCancelledError(
+          "SPARQL request was cancelled",
+          undefined,
+          {
+            cause: error,
+          }
+        );
+      }
+      throw new ConnectionError(
+        `Failed to reach SPARQL endpoint: ${error instanceof Error ? error.message : String(error)}`,
+        endpoint
+      );
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthError(
+        `SPARQL endpoint rejected credentials (${response.status})`
+      );
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new QueryError(
+        `SPARQL request failed (${response.status}): ${detail.slice(0, 500)}`
+      );
+    }
+
+    return response;
+  }
+}
+
+/** Characters that may not appear inside an IRIREF */
+const INVALID_IRI_CHARS = /[\s<>"{}|^`\\]/;
+
+/** Serialize an IRI, rejecting values that could break out of `<...>` */
+export function sparqlIri(iri: string): string {
+  if (iri.length === 0 || INVALID_IRI_CHARS.test(iri)) {
+    throw new ValidationError(`Invalid IRI: ${JSON.stringify(iri)}`, "iri");
+  }
+  return `<${iri}>`;
+}
+
+/** Serialize a string literal */
+export function sparqlString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+  return `"${escaped}"`;
+}
+
+/** Serialize a property value as a SPARQL literal */
+export function sparqlLiteral(value: PropertyValue): string {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return Number.isInteger(value)
+      ? String(value)
+      : `"${value}"^^<${XSD}double>`;
+  }
+  if (typeof value === "boolean") {
+    return String(value);
+  }
+  return sparqlString(typeof value === "string" ? value : String(value));
+}
+
+/** Check if a name is an absolute IRI rather than a local name or CURIE */
+export function isAbsoluteIri(name: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(name) || name.startsWith("urn:");
+}
+
+/** Expand a CURIE (prefix:local) using known prefixes; other names are unchanged */
+export function expandCurie(name: string, prefixes: PrefixMap = {}): string {
+  const colon = name.indexOf(":");
+  if (colon <= 0 || isAbsoluteIri(name)) return name;
+  const namespace = prefixes[name.slice(0, colon)];
+  return namespace === undefined ? name : namespace + name.slice(colon + 1);
+}
+
+/** Compact an IRI to a CURIE using the longest matching namespace */
+export function compactIri(
+  iri: string,
+  prefixes: PrefixMap = {}
+): string | undefined {
+  let best: [string, string] | undefined;
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    if (
+      iri.length > namespace.length &&
+      iri.startsWith(namespace) &&
+      namespace.length > (best?.[1].length ?? 0)
+    ) {
+      best = [prefix, namespace];
+    }
+  }
+  return best && `${best[0]}:${iri.slice(best[1].length)}`;
+}
+
+/**
+ * Serialize a node ID (IRI or CURIE). Blank node labels are rejected: they
+ * only name a node within one query, so they cannot be looked up by ID.
+ */
+export function sparqlNode(id: string, prefixes?: PrefixMap): string {
+  if (id.startsWith("_:")) {
+    throw new ValidationError(
+      `Blank node ${JSON.stringify(id)} cannot be queried by ID`,
+      "nodeId"
+    );
+  }
+  return sparqlIri(expandCurie(id, prefixes));
+}
+
+/** Last segment of an IRI (after '#' or '/') */
+export function localName(iri: string): string {
+  const hashIndex = iri.lastIndexOf("#");
+  if (hashIndex !== -1) return iri.substring(hashIndex + 1);
+
+  const slashIndex = iri.lastIndexOf("/");
+  if (slashIndex !== -1) return iri.substring(slashIndex + 1);
+
+  return iri;
+}
+
+/** Convert a literal term to a property value using its datatype */
+export function literalValue(term: RdfTerm): PropertyValue {
+  switch (
+    term.datatype?.startsWith(XSD) ? term.datatype.slice(XSD.length) : ""
+  ) {
+    case "integer":
+    case "int":
+    case "long":
+    case "short":
+    case "byte":
+    case "decimal":
+    case "double":
+    case "float":
+    case "nonNegativeInteger":
+    case "positiveInteger":
+    case "negativeInteger":
+    case "nonPositiveInteger":
+    case "unsignedInt":
+    case "unsignedLong": {
+      const value = Number(term.value);
+      return Number.isNaN(value) ? term.value : value;
+    }
+    case "boolean":
+      return term.value === "true" || term.value === "1";
+    default:
+      return term.value;
+  }
+}
+
+/** Node ID for a URI or blank node term */
+export function termNodeId(term: RdfTerm): string {
+  return term.type === "bnode" ? `_:${term.value}` : term.value;
+}
+
+/** Check if a term is a literal */
+export function isLiteralTerm(term: RdfTerm): boolean {
+  return term.type === "literal" || term.type === "typed-literal";
+}
+
+/** RDF triple */
+export interface RdfTriple {
+  readonly subject: RdfTerm;
+  readonly predicate: RdfTerm;
+  readonly object: RdfTerm;
+}
+
+/** Read triples from solutions binding subject, predicate and object variables */
+export function bindingsToTriples(
+  bindings: readonly SparqlBinding[],
+  variables: readonly [string, string, string] = ["s", "p", "o"]
+): RdfTriple[] {
+  const [s, p, o] = variables;
+  const triples: RdfTriple[] = [];
+  for (const binding of bindings) {
+    const subject = binding[s];
+    const predicate = binding[p];
+    const object = binding[o];
+    if (subject && predicate && object) {
+      triples.push({ subject, predicate, object });
+    }
+  }
+  return triples;
+}
@@ -1,19 +1,30 @@
 /**
  * Stardog SPARQL connector
- * Skeleton implementation - maps RDF to property graph model
+ * Uses the portable RDF mapping plus Stardog's full-text search and PATHS
+ * extensions.
  */
 
-import type { Query, QueryResult, GraphNode, GraphEdge } from "@queryscape/core";
-import { QueryNotSupportedError } from "@queryscape/core";
+import type { Query } from "@queryscape/core";
 
+import { type ConnectorCapabilities } from "../interface.js";
+import { type SparqlQueryOptions } from "../sparql/queries.js";
 import {
-  BaseConnector,
-  type ConnectorCapabilities,
-  type BaseConnectorConfig,
-} from "../interface.js";
+  RdfConnector,
+  subjectIds,
+  type RdfConnectorConfig,
+  type RdfQueryOutput,
+  type RdfRunContext,
+} from "../sparql/rdf-connector.js";
+import {
+  SparqlClient,
+  bindingsToTriples,
+  type SparqlBinding,
+} from "../sparql/sparql.js";
+
+import { buildPathQuery, buildTextSearchQuery } from "./queries.js";
 
 /** Stardog connector configuration */
-export interface StardogConnectorConfig extends BaseConnectorConfig {
+export interface StardogConnectorConfig extends RdfConnectorConfig {
   /** Stardog endpoint */
   endpoint: string;
   /** Database name */
@@ -22,12 +33,13 @@ export interface StardogConnectorConfig extends BaseConnectorConfig {
   username: string;
   /** Password */
   password: string;
-  /** Named graph (optional) */
-  namedGraph?: string;
 }
 
-/** Stardog SPARQL connector implementation (skeleton) */
-export class StardogConnector extends BaseConnector {
+/** Default maximum path length for findPath */
+const DEFAULT_MAX_PATH_LENGTH = 10;
+
+/** Stardog SPARQL connector implementation */
+export class StardogConnector extends RdfConnector {
   protected readonly stardogConfig: StardogConnectorConfig;
 
   constructor(config: StardogConnectorConfig) {
@@ -46,78 +58,81 @@ export class StardogConnector extends BaseConnector {
       supportedQueryTypes: [
         "getNode",
         "getNeighbors",
+        "expandNode",
         "findNodes",
         "findPath",
         "search",
+        "sample",
+        "pattern",
       ],
       supportsFullTextSearch: true,
       supportsPagination: true,
       supportsRawQueries: true,
+      supportsSchema: false,
+      supportsExplain: true,
       maxPageSize: 1000,
     };
   }
 
-  async connect(): Promise<void> {
-    // TODO: Implement SPARQL endpoint connection
-    this.connected = true;
-  }
-
-  async disconnect(): Promise<void> {
-    this.connected = false;
+  /** SPARQL query endpoint for the configured database */
+  getQueryUrl(): string {
+    const { endpoint, database } = this.stardogConfig;
+    return `${endpoint.replace(/\/+$/, "")}/${encodeURIComponent(database)}/query`;
   }
 
-  async executeQuery(query: Query): Promise<QueryResult> {
-    this.ensureConnected();
-    this.checkQuerySupported(query.type);
-
-    throw new QueryNotSupportedError(
-      "Stardog SPARQL connector not yet implemented",
-      query.type
-    );
+  protected createClient(): SparqlClient {
+    return new SparqlClient({
+      queryEndpoint: this.getQueryUrl(),
+      auth: {
+        username: this.stardogConfig.username,
+        password: this.stardogConfig.password,
+      },
+      requestTimeoutMs: this.stardogConfig.requestTimeoutMs,
+    });
   }
 
-  /**
-   * Map RDF triple to property graph edge
-   * Subject -> Node, Predicate -> Edge type, Object -> Node or Property
-   */
-  protected mapTripleToGraph(
-    subject: string,
-    predicate: string,
-    object: string,
-    isLiteral: boolean
-  ): { node?: GraphNode; edge?: GraphEdge } {
-    // RDF mapping strategy:
-    // - URI subjects become nodes with URI as ID
-    // - Literal objects become properties on the subject node
-    // - URI objects become separate nodes with edges
-
-    if (isLiteral) {
-      // Object is a literal - this becomes a property
-      return {};
+  protected async runQuery(
+    query: Query,
+    options: SparqlQueryOptions,
+    context: RdfRunContext = {}
+  ): Promise<RdfQueryOutput> {
+    switch (query.type) {
+      case "findPath": {
+        const bindings = await this.select(
+          buildPathQuery(
+            query.sourceId,
+            query.targetId,
+            query.maxLength ?? DEFAULT_MAX_PATH_LENGTH,
+            query.edgeTypes,
+            options
+          ),
+          context
+        );
+        const edges = bindingsToTriples(firstPath(bindings), ["x", "p", "y"]);
+        return { data: await this.describe([], edges, context), rows: 0 };
+      }
+
+      case "search": {
+        const bindings = await this.select(
+          buildTextSearchQuery(query.text, query.fields, query.labels, options),
+          context
+        );
+        return {
+          data: await this.describe(subjectIds(bindings), [], context),
+          rows: bindings.length,
+        };
+      }
+
+      default:
+        return super.runQuery(query, options, context);
     }
-
-    // Object is a URI - create edge
-    return {
-      edge: {
-        id: `${subject}_${predicate}_${object}`,
-        source: subject,
-        target: object,
-        type: this.extractLocalName(predicate),
-        properties: {},
-      },
-    };
   }
+}
 
-  /** Extract local name from URI */
-  protected extractLocalName(uri: string): string {
-    const hashIndex = uri.lastIndexOf("#");
-    if (hashIndex !== -1) return uri.substring(hashIndex + 1);
-
-    const slashIndex = uri.lastIndexOf("/");
-    if (slashIndex !== -1) return uri.substring(slashIndex + 1);
-
-    return uri;
-  }
+/** Rows up to the first empty row, which separates PATHS results */
+function firstPath(bindings: readonly SparqlBinding[]): SparqlBinding[] {
+  const end = bindings.findIndex((b) => Object.keys(b).length === 0);
+  return bindings.slice(0, end === -1 ? bindings.length : end);
 }
 
 /** Create Stardog connector */
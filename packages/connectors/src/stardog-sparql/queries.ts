@@ -0,0 +1,68 @@
+/**
+ * Stardog-specific SPARQL: full-text search and PATHS queries
+ */
+
+import {
+  edgeFilterClause,
+  fieldFilter,
+  fromClause,
+  labelPatterns,
+  notLabelPredicate,
+  pagingClause,
+  type SparqlQueryOptions,
+} from "../sparql/queries.js";
+import {
+  sparqlIri,
+  sparqlNode,
+  sparqlString,
+} from "../sparql/sparql.js";
+
+const TEXT_MATCH = "<tag:stardog:api:property:textMatch>";
+
+/** Subjects (?s) with a literal matching Stardog's full-text index */
+export function buildTextSearchQuery(
+  text: string,
+  fields: readonly string[] | undefined,
+  labels: readonly string[] | undefined,
+  options: SparqlQueryOptions = {}
+): string {
+  return [
+    "SELECT DISTINCT ?s",
+    ...fromClause(options),
+    "WHERE {",
+    `  ?o ${TEXT_MATCH} ${sparqlString(text)} .`,
+    "  ?s ?p ?o .",
+    ...fieldFilter("?p", fields, options),
+    ...labelPatterns(
+      "?s",
+      labels?.length ? { labels, mode: "any" } : undefined,
+      options
+    ),
+    "}",
+    ...pagingClause(options),
+  ].join("\n");
+}
+
+/**
+ * Shortest directed path using Stardog's PATHS extension.
+ * Rows bind ?x ?p ?y per edge; paths are separated by empty rows.
+ */
+export function buildPathQuery(
+  sourceId: string,
+  targetId: string,
+  maxLength: number,
+  edgeTypes: readonly string[] | undefined,
+  options: SparqlQueryOptions = {}
+): string {
+  const edge = options.namedGraph
+    ? `GRAPH ${sparqlIri(options.namedGraph)} { ?x ?p ?y }`
+    : "?x ?p ?y";
+
+  return [
+    "PATHS SHORTEST",
+    `START ?x = ${sparqlNode(sourceId, options.prefixes)}`,
+    `END ?y = ${sparqlNode(targetId, options.prefixes)}`,
+    `VIA { ${edge} FILTER(!isLiteral(?y) && ${notLabelPredicate("?p", options)}${edgeFilterClause("?p", edgeTypes, options)}) }`,
+    `MAX LENGTH ${Math.max(1, Math.floor(maxLength))}`,
+  ].join("\n");
+}
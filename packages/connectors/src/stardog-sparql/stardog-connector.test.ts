@@ -0,0 +1,316 @@
+import { AuthError, ValidationError } from "@queryscape/core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  solutions,
+  startFakeSparqlServer,
+  term,
+  type FakeSparqlHandler,
+  type FakeSparqlServer,
+} from "../sparql/fake-sparql-server";
+import { RDF_TYPE } from "../sparql/sparql";
+
+import { StardogConnector } from "./index";
+
+const EX = "http://example.org/";
+const XSD_INTEGER = "http://www.w3.org/2001/XMLSchema#integer";
+
+/** Literal and type triples returned for describe queries */
+const DESCRIPTIONS = [
+  {
+    s: term.iri(`${EX}alice`),
+    p: term.iri(RDF_TYPE),
+    o: term.iri(`${EX}Person`),
+  },
+  {
+    s: term.iri(`${EX}alice`),
+    p: term.iri(`${EX}name`),
+    o: term.literal("Alice"),
+  },
+  {
+    s: term.iri(`${EX}alice`),
+    p: term.iri(`${EX}age`),
+    o: term.literal("42", XSD_INTEGER),
+  },
+  {
+    s: term.iri(`${EX}alice`),
+    p: term.iri(`${EX}nick`),
+    o: term.literal("Al"),
+  },
+  {
+    s: term.iri(`${EX}alice`),
+    p: term.iri(`${EX}nick`),
+    o: term.literal("Ali"),
+  },
+  {
+    s: term.iri(`${EX}bob`),
+    p: term.iri(RDF_TYPE),
+    o: term.iri(`${EX}Person`),
+  },
+  { s: term.iri(`${EX}bob`), p: term.iri(`${EX}name`), o: term.literal("Bob") },
+];
+
+const isDescribe = (query: string): boolean =>
+  query.includes("FILTER(isLiteral(?o) ||");
+
+/** Subject IRIs listed in a describe query's VALUES clause */
+const describedIds = (query: string): string[] =>
+  Array.from(
+    /VALUES \?s \{([^}]*)\}/.exec(query)?.[1]?.matchAll(/<([^>]+)>/g) ?? [],
+    (m) => m[1]!
+  );
+
+/** Answer describe queries from DESCRIPTIONS and everything else via `other` */
+const withDescriptions =
+  (other: FakeSparqlHandler): FakeSparqlHandler =>
+  (request) =>
+    isDescribe(request.query)
+      ? solutions(
+          DESCRIPTIONS.filter((d) =>
+            describedIds(request.query).includes(d.s.value)
+          )
+        )
+      : other(request);
+
+describe("StardogConnector", () => {
+  let server: FakeSparqlServer;
+  let connector: StardogConnector;
+
+  beforeEach(async () => {
+    server = await startFakeSparqlServer(() => ({ head: {}, boolean: true }));
+    connector = new StardogConnector({
+      endpoint: `${server.url}/`,
+      database: "social",
+      username: "admin",
+      password: "secret",
+    });
+    await connector.connect();
+  });
+
+  afterEach(async () => {
+    await connector.disconnect();
+    await server.close();
+  });
+
+  describe("connection", () => {
+    it("should POST queries to the database endpoint with basic auth", () => {
+      const request = server.requests[0]!;
+      expect(request.method).toBe("POST");
+      expect(request.path).toBe("/social/query");
+      expect(request.headers["accept"]).toBe("application/sparql-results+json");
+      expect(request.headers["authorization"]).toBe(
+        `Basic ${Buffer.from("admin:secret").toString("base64")}`
+      );
+      expect(request.query).toBe("ASK {}");
+    });
+
+    it("should raise AuthError when credentials are rejected", async () => {
+      server.setHandler(() => ({ status: 401 }));
+      const rejected = new StardogConnector({
+        endpoint: server.url,
+        database: "social",
+        username: "admin",
+        password: "wrong",
+      });
+
+      await expect(rejected.connect()).rejects.toBeInstanceOf(AuthError);
+    });
+  });
+
+  describe("getNode", () => {
+    it("should fold literals into properties and rdf:type into labels", async () => {
+      server.setHandler(withDescriptions(() => solutions([])));
+
+      const result = await connector.executeQuery({
+        type: "getNode",
+        nodeId: `${EX}alice`,
+      });
+
+      expect(server.requests[1]!.query).toContain(`VALUES ?s { <${EX}alice> }`);
+      expect(result.data.nodes).toEqual([
+        {
+          id: `${EX}alice`,
+          labels: ["Person"],
+          properties: { name: "Alice", age: 42, nick: ["Al", "Ali"] },
+        },
+      ]);
+      expect(result.data.edges).toEqual([]);
+    });
+
+    it("should reject node IDs that are not valid IRIs", async () => {
+      await expect(
+        connector.executeQuery({ type: "getNode", nodeId: "x> } DROP ALL {" })
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe("getNeighbors", () => {
+    it("should return edges and describe their endpoints", async () => {
+      server.setHandler(
+        withDescriptions(() =>
+          solutions([
+            {
+              s: term.iri(`${EX}alice`),
+              p: term.iri(`${EX}knows`),
+              o: term.iri(`${EX}bob`),
+            },
+            {
+              s: term.iri(`${EX}alice`),
+              p: term.iri(`${EX}knows`),
+              o: term.bnode("b0"),
+            },
+          ])
+        )
+      );
+
+      const result = await connector.executeQuery({
+        type: "getNeighbors",
+        nodeId: `${EX}alice`,
+        direction: "outgoing",
+        edgeTypes: ["knows"],
+        pagination: { limit: 2 },
+      });
+
+      const neighbors = server.requests[1]!.query;
+      expect(neighbors).toContain(`VALUES ?s { <${EX}alice> }`);
+      expect(neighbors).toContain('STRENDS(STR(?p), "#knows")');
+      expect(neighbors).not.toContain("UNION");
+      expect(neighbors).toContain("LIMIT 2");
+      expect(server.requests[2]!.query).toContain(
+        `VALUES ?s { <${EX}alice> <${EX}bob> }`
+      );
+
+      expect(result.data.nodes.map((n) => n.id).sort()).toEqual([
+        "_:b0",
+        `${EX}alice`,
+        `${EX}bob`,
+      ]);
+      expect(result.data.edges).toContainEqual({
+        id: `${EX}alice_${EX}knows_${EX}bob`,
+        source: `${EX}alice`,
+        target: `${EX}bob`,
+        type: "knows",
+        properties: {},
+      });
+      expect(result.metadata.truncated).toBe(true);
+    });
+
+    it("should union both directions", async () => {
+      await connector.executeQuery({
+        type: "getNeighbors",
+        nodeId: `${EX}alice`,
+        direction: "both",
+      });
+
+      expect(server.requests[1]!.query).toContain("UNION");
+    });
+  });
+
+  describe("findNodes", () => {
+    it("should compile label and property filters", async () => {
+      server.setHandler(
+        withDescriptions(() => solutions([{ s: term.iri(`${EX}alice`) }]))
+      );
+
+      const result = await connector.executeQuery({
+        type: "findNodes",
+        labelFilter: { labels: ["Person", `${EX}Employee`], mode: "any" },
+        propertyFilters: [
+          { key: "age", op: "gte", value: 18 },
+          { key: "name", op: "startsWith", value: 'A"' },
+        ],
+        pagination: { limit: 10, offset: 20 },
+      });
+
+      const query = server.requests[1]!.query;
+      expect(query).toContain(`?type = <${EX}Employee>`);
+      expect(query).toContain("FILTER(?fv0 >= 18)");
+      expect(query).toContain('FILTER(STRSTARTS(STR(?fv1), "A\\""))');
+      expect(query).toContain("LIMIT 10\nOFFSET 20");
+      expect(result.data.nodes.map((n) => n.id)).toEqual([`${EX}alice`]);
+    });
+  });
+
+  describe("findPath", () => {
+    it("should use Stardog PATHS and keep the first path", async () => {
+      server.setHandler(
+        withDescriptions(() =>
+          solutions([
+            {
+              x: term.iri(`${EX}alice`),
+              p: term.iri(`${EX}knows`),
+              y: term.iri(`${EX}bob`),
+            },
+            {},
+            {
+              x: term.iri(`${EX}alice`),
+              p: term.iri(`${EX}likes`),
+              y: term.iri(`${EX}bob`),
+            },
+          ])
+        )
+      );
+
+      const result = await connector.executeQuery({
+        type: "findPath",
+        sourceId: `${EX}alice`,
+        targetId: `${EX}bob`,
+        maxLength: 4,
+      });
+
+      const query = server.requests[1]!.query;
+      expect(query).toMatch(/^PATHS SHORTEST/);
+      expect(query).toContain(`START ?x = <${EX}alice>`);
+      expect(query).toContain(`END ?y = <${EX}bob>`);
+      expect(query).toContain("MAX LENGTH 4");
+      expect(result.data.edges.map((e) => e.type)).toEqual(["knows"]);
+      expect(result.data.nodes).toHaveLength(2);
+    });
+  });
+
+  describe("search", () => {
+    it("should use the full-text index", async () => {
+      server.setHandler(
+        withDescriptions(() => solutions([{ s: term.iri(`${EX}bob`) }]))
+      );
+
+      const result = await connector.executeQuery({
+        type: "search",
+        text: "bob",
+        fields: ["name"],
+      });
+
+      expect(server.requests[1]!.query).toContain(
+        '?o <tag:stardog:api:property:textMatch> "bob"'
+      );
+      expect(result.data.nodes.map((n) => n.properties["name"])).toEqual([
+        "Bob",
+      ]);
+    });
+  });
+
+  describe("named graphs", () => {
+    it("should scope queries to the configured graph", async () => {
+      const scoped = new StardogConnector({
+        endpoint: server.url,
+        database: "social",
+        username: "admin",
+        password: "secret",
+        namedGraph: `${EX}graph`,
+      });
+      await scoped.connect();
+      server.setHandler(() => solutions([]));
+
+      await scoped.executeQuery({ type: "findNodes" });
+      await scoped.executeQuery({
+        type: "findPath",
+        sourceId: `${EX}alice`,
+        targetId: `${EX}bob`,
+      });
+
+      const [, , findNodes, findPath] = server.requests;
+      expect(findNodes!.query).toContain(`FROM <${EX}graph>`);
+      expect(findPath!.query).toContain(`GRAPH <${EX}graph> { ?x ?p ?y }`);
+    });
+  });
+});
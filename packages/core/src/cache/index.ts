@@ -138,6 +138,31 @@ export class LRUCache<T> {
     return total === 0 ? 0 : this.stats.hits / total;
   }
 
+  /** Unexpired entries, least recently used first */
+  entries(): Array<{ key: string; value: T; timestamp: number }> {
+    const now = Date.now();
+    return [...this.cache.entries()]
+      .filter(([, entry]) => now - entry.timestamp <= this.config.ttlMs)
+      .map(([key, entry]) => ({
+        key,
+        value: entry.value,
+        timestamp: entry.timestamp,
+      }));
+  }
+
+  /** Restore entries returned by entries(), skipping expired ones */
+  restore(
+    entries: ReadonlyArray<{ key: string; value: T; timestamp: number }>
+  ): void {
+    const now = Date.now();
+    for (const { key, value, timestamp } of entries) {
+      if (now - timestamp > this.config.ttlMs) continue;
+      this.set(key, value);
+      const entry = this.cache.get(key);
+      if (entry) entry.timestamp = timestamp;
+    }
+  }
+
   /** Prune expired entries */
   prune(): number {
     const now = Date.now();
@@ -78,6 +78,33 @@ export class QueryError extends QueryScapeError {
   }
 }
 
+/** Query cancelled through its AbortSignal */
+export class QueryCancelledError extends QueryScapeError {
+  public readonly code: string = "QUERY_CANCELLED";
+
+  constructor(
+    message: string,
+    public readonly queryType?: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/** Query cancelled because it ran longer than its timeoutMs */
+export class QueryTimeoutError extends QueryCancelledError {
+  public override readonly code: string = "QUERY_TIMEOUT";
+
+  constructor(
+    message: string,
+    queryType: string | undefined,
+    public readonly timeoutMs: number,
+    options?: ErrorOptions
+  ) {
+    super(message, queryType, options);
+  }
+}
+
 /** Query not supported by connector */
 export class QueryNotSupportedError extends QueryScapeError {
   public readonly code = "QUERY_NOT_SUPPORTED";
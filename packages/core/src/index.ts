@@ -5,6 +5,8 @@ export * from "./logger/index.js";
 export * from "./limits/index.js";
 export * from "./cache/index.js";
 export * from "./patch/index.js";
+export * from "./store/index.js";
 export * from "./query/index.js";
 export * from "./session/index.js";
+export * from "./persistence/index.js";
 export * from "./accelerator/index.js";
@@ -1,16 +1,27 @@
 /**
  * Limit enforcement for session and queries
+ * Hard caps on session size, fetch size, query depth and path length, a
+ * per-query time budget and a per-source query rate budget. Limits reached
+ * are reported through telemetry and enforced with LimitExceededError;
+ * limits approached are reported through telemetry as warnings.
  */
 
+import type { QueryTimeoutError } from "../errors/index.js";
 import { LimitExceededError } from "../errors/index.js";
 import type { Logger } from "../logger/index.js";
 import { noopLogger } from "../logger/index.js";
-import type { SessionConfig, TelemetryHook } from "../types/index.js";
+import type { Query } from "../query/index.js";
+import type { NodeId, SessionConfig, TelemetryHook } from "../types/index.js";
 import { NOOP_TELEMETRY_HOOK } from "../types/index.js";
 
+/** Window of the query rate budget */
+const RATE_WINDOW_MS = 60_000;
+
 /** Limit check result */
 export interface LimitCheckResult {
   readonly allowed: boolean;
+  /** Allowed, but at or past the warning threshold */
+  readonly warning: boolean;
   readonly currentValue: number;
   readonly maxValue: number;
   readonly limitType: string;
@@ -21,6 +32,10 @@ export interface LimitCheckResult {
 export class LimitsEnforcer {
   private nodeCount = 0;
   private edgeCount = 0;
+  /** Start times of each source's queries in the rate window, oldest first */
+  private readonly queryTimes = new Map<string, number[]>();
+  /** Limits reported as approached, so each is warned about once */
+  private readonly warned = new Set<string>();
 
   constructor(
     private readonly config: SessionConfig,
@@ -43,111 +58,160 @@ export class LimitsEnforcer {
     return this.nodeCount + this.edgeCount;
   }
 
-  /** Update counts */
+  /** Update counts, warning when they approach their limits */
   updateCounts(nodes: number, edges: number): void {
     this.nodeCount = nodes;
     this.edgeCount = edges;
     this.telemetry.onSessionChange?.(nodes, edges);
+    this.warn("maxNodes", "maxNodes", nodes, this.config.maxNodes);
+    this.warn("maxEdges", "maxEdges", edges, this.config.maxEdges);
   }
 
   /** Check if adding nodes would exceed limit */
   checkNodeLimit(additionalNodes: number): LimitCheckResult {
     const newCount = this.nodeCount + additionalNodes;
-    const allowed = newCount <= this.config.maxNodes;
-
-    if (!allowed) {
-      this.telemetry.onLimitReached?.(
-        "maxNodes",
-        newCount,
-        this.config.maxNodes
-      );
-    }
-
-    const result: LimitCheckResult = {
-      allowed,
-      currentValue: this.nodeCount,
-      maxValue: this.config.maxNodes,
-      limitType: "maxNodes",
-    };
-    if (!allowed) {
-      return {
-        ...result,
-        message: `Adding ${additionalNodes} nodes would exceed limit of ${this.config.maxNodes} (current: ${this.nodeCount})`,
-      };
-    }
-    return result;
+    return this.check(
+      "maxNodes",
+      this.nodeCount,
+      newCount,
+      this.config.maxNodes,
+      `Adding ${additionalNodes} nodes would exceed limit of ${this.config.maxNodes} (current: ${this.nodeCount})`
+    );
   }
 
   /** Check if adding edges would exceed limit */
   checkEdgeLimit(additionalEdges: number): LimitCheckResult {
     const newCount = this.edgeCount + additionalEdges;
-    const allowed = newCount <= this.config.maxEdges;
-
-    if (!allowed) {
-      this.telemetry.onLimitReached?.(
-        "maxEdges",
-        newCount,
-        this.config.maxEdges
-      );
-    }
-
-    const result: LimitCheckResult = {
-      allowed,
-      currentValue: this.edgeCount,
-      maxValue: this.config.maxEdges,
-      limitType: "maxEdges",
-    };
-    if (!allowed) {
-      return {
-        ...result,
-        message: `Adding ${additionalEdges} edges would exceed limit of ${this.config.maxEdges} (current: ${this.edgeCount})`,
-      };
-    }
-    return result;
+    return this.check(
+      "maxEdges",
+      this.edgeCount,
+      newCount,
+      this.config.maxEdges,
+      `Adding ${additionalEdges} edges would exceed limit of ${this.config.maxEdges} (current: ${this.edgeCount})`
+    );
   }
 
   /** Check fetch size limit */
   checkFetchLimit(elementCount: number): LimitCheckResult {
-    const allowed = elementCount <= this.config.maxElementsPerFetch;
+    return this.check(
+      "maxElementsPerFetch",
+      elementCount,
+      elementCount,
+      this.config.maxElementsPerFetch,
+      `Fetch would return ${elementCount} elements, exceeding limit of ${this.config.maxElementsPerFetch}`
+    );
+  }
 
-    if (!allowed) {
-      this.telemetry.onLimitReached?.(
-        "maxElementsPerFetch",
-        elementCount,
-        this.config.maxElementsPerFetch
-      );
+  /**
+   * Check a query's depth or path length against maxNeighborhoodDepth or
+   * maxPathLength. Null for queries without either.
+   */
+  checkQueryLimits(query: Query): LimitCheckResult | null {
+    const max = this.config.maxNeighborhoodDepth;
+    switch (query.type) {
+      case "expandNode":
+      case "getNeighbors": {
+        const depth =
+          query.type === "expandNode" ? query.depth : query.maxDepth;
+        if (depth === undefined) return null;
+        return this.check(
+          "maxNeighborhoodDepth",
+          depth,
+          depth,
+          max,
+          `Depth ${depth} of '${query.type}' exceeds limit of ${max}`
+        );
+      }
+      case "findPath": {
+        if (query.maxLength === undefined) return null;
+        return this.check(
+          "maxPathLength",
+          query.maxLength,
+          query.maxLength,
+          this.config.maxPathLength,
+          `Path length ${query.maxLength} exceeds limit of ${this.config.maxPathLength}`
+        );
+      }
+      default:
+        return null;
     }
+  }
 
-    const result: LimitCheckResult = {
-      allowed,
-      currentValue: elementCount,
-      maxValue: this.config.maxElementsPerFetch,
-      limitType: "maxElementsPerFetch",
+  /**
+   * Check a query's run time against the time budget, warning when it
+   * approaches the budget
+   */
+  checkQueryTime(durationMs: number): LimitCheckResult {
+    const limitType = "queryTimeBudgetMs";
+    const budget = this.config.queryTimeBudgetMs;
+    if (budget <= 0) return unlimited(limitType, durationMs);
+
+    const result = {
+      allowed: durationMs < budget,
+      warning: false,
+      currentValue: durationMs,
+      maxValue: budget,
+      limitType,
     };
-    if (!allowed) {
+    if (!result.allowed) {
+      this.telemetry.onLimitReached?.(limitType, durationMs, budget);
       return {
         ...result,
-        message: `Fetch would return ${elementCount} elements, exceeding limit of ${this.config.maxElementsPerFetch}`,
+        message: `Query ran for ${durationMs} ms, reaching its time budget of ${budget} ms`,
       };
     }
-    return result;
+    this.warn(limitType, limitType, durationMs, budget);
+    return { ...result, warning: this.isNear(durationMs, budget) };
   }
 
-  /** Enforce node limit - throws if exceeded */
-  enforceNodeLimit(additionalNodes: number): void {
+  /** Check if a source may run another query within its rate budget */
+  checkQueryRate(source: string): LimitCheckResult {
+    const max = this.config.maxQueriesPerMinute;
+    const count = this.recentQueries(source).length;
+    if (max <= 0) return unlimited("maxQueriesPerMinute", count);
+
+    return this.check(
+      "maxQueriesPerMinute",
+      count,
+      count + 1,
+      max,
+      `Source '${source}' has run ${count} queries in the last minute, the limit of ${max}`
+    );
+  }
+
+  /**
+   * Enforce node limit - throws if exceeded. With `evict`, room is made
+   * first: it is asked to remove the nodes over the limit and returns those
+   * it removed, or none if it cannot remove enough.
+   */
+  enforceNodeLimit(
+    additionalNodes: number,
+    evict?: (count: number) => readonly NodeId[]
+  ): void {
+    const requested = this.nodeCount + additionalNodes;
+    const excess = requested - this.config.maxNodes;
+    if (excess > 0 && evict) {
+      const evicted = evict(excess);
+      if (evicted.length > 0) {
+        this.logger.info("Nodes evicted at node limit", {
+          additional: additionalNodes,
+          evicted: evicted.length,
+          max: this.config.maxNodes,
+        });
+        this.telemetry.onLimitReached?.(
+          "maxNodes",
+          requested,
+          this.config.maxNodes,
+          evicted
+        );
+      }
+    }
+
     const result = this.checkNodeLimit(additionalNodes);
     if (!result.allowed) {
-      this.logger.warn("Node limit exceeded", {
+      this.exceeded(result, "Node limit exceeded", {
         additional: additionalNodes,
-        current: result.currentValue,
-        max: result.maxValue,
       });
-      throw new LimitExceededError(
-        result.message ?? "Node limit exceeded",
-        result.limitType,
-        result.currentValue,
-        result.maxValue
-      );
     }
   }
 
@@ -155,17 +219,9 @@ export class LimitsEnforcer {
   enforceEdgeLimit(additionalEdges: number): void {
     const result = this.checkEdgeLimit(additionalEdges);
     if (!result.allowed) {
-      this.logger.warn("Edge limit exceeded", {
+      this.exceeded(result, "Edge limit exceeded", {
         additional: additionalEdges,
-        current: result.currentValue,
-        max: result.maxValue,
       });
-      throw new LimitExceededError(
-        result.message ?? "Edge limit exceeded",
-        result.limitType,
-        result.currentValue,
-        result.maxValue
-      );
     }
   }
 
@@ -173,19 +229,84 @@ export class LimitsEnforcer {
   enforceFetchLimit(elementCount: number): void {
     const result = this.checkFetchLimit(elementCount);
     if (!result.allowed) {
-      this.logger.warn("Fetch limit exceeded", {
-        count: elementCount,
-        max: result.maxValue,
-      });
-      throw new LimitExceededError(
-        result.message ?? "Fetch limit exceeded",
-        result.limitType,
-        result.currentValue,
-        result.maxValue
+      this.exceeded(result, "Fetch limit exceeded", { count: elementCount });
+    }
+  }
+
+  /** Enforce depth and path length limits - throws if exceeded */
+  enforceQueryLimits(query: Query): void {
+    const result = this.checkQueryLimits(query);
+    if (result && !result.allowed) {
+      this.exceeded(result, "Query limit exceeded", { queryType: query.type });
+    }
+  }
+
+  /**
+   * Enforce the rate budget of every source a query goes to, then count the
+   * query against each - throws, counting nothing, if any is exceeded
+   */
+  enforceQueryRate(sources: readonly string[]): void {
+    for (const source of sources) {
+      const result = this.checkQueryRate(source);
+      if (!result.allowed) {
+        this.exceeded(result, "Query rate limit exceeded", { source });
+      }
+    }
+
+    if (this.config.maxQueriesPerMinute <= 0) return;
+    const now = Date.now();
+    for (const source of sources) {
+      const times = this.recentQueries(source);
+      times.push(now);
+      this.queryTimes.set(source, times);
+      this.warn(
+        `maxQueriesPerMinute:${source}`,
+        "maxQueriesPerMinute",
+        times.length,
+        this.config.maxQueriesPerMinute
       );
     }
   }
 
+  /**
+   * Enforce the time budget on a query that timed out - throws, with the
+   * timeout as the cause, if the budget cut it off rather than a shorter
+   * timeout of its own
+   */
+  enforceQueryTime(durationMs: number, timeout: QueryTimeoutError): void {
+    const budget = this.config.queryTimeBudgetMs;
+    if (budget <= 0 || timeout.timeoutMs < budget) return;
+
+    const limitType = "queryTimeBudgetMs";
+    this.telemetry.onLimitReached?.(limitType, durationMs, budget);
+    this.exceeded(
+      {
+        allowed: false,
+        warning: false,
+        currentValue: durationMs,
+        maxValue: budget,
+        limitType,
+        message: `Query '${timeout.queryType}' reached its time budget of ${budget} ms`,
+      },
+      "Query time budget exceeded",
+      { queryType: timeout.queryType },
+      { cause: timeout }
+    );
+  }
+
+  /**
+   * A query with the time budget as its timeout, unless it has a shorter
+   * one of its own
+   */
+  withTimeBudget<T extends Query>(query: T): T {
+    const budget = this.config.queryTimeBudgetMs;
+    if (budget <= 0) return query;
+    if (query.timeoutMs !== undefined && query.timeoutMs <= budget) {
+      return query;
+    }
+    return { ...query, timeoutMs: budget };
+  }
+
   /** Calculate safe fetch limit */
   getSafeFetchLimit(): number {
     const remainingNodes = this.config.maxNodes - this.nodeCount;
@@ -199,6 +320,105 @@ export class LimitsEnforcer {
   reset(): void {
     this.nodeCount = 0;
     this.edgeCount = 0;
+    this.warned.delete("maxNodes");
+    this.warned.delete("maxEdges");
     this.telemetry.onSessionChange?.(0, 0);
   }
+
+  /**
+   * Result of comparing `newValue` with `maxValue`. Exceeding it is
+   * reported through telemetry.
+   */
+  private check(
+    limitType: string,
+    currentValue: number,
+    newValue: number,
+    maxValue: number,
+    message: string
+  ): LimitCheckResult {
+    const allowed = newValue <= maxValue;
+    if (!allowed) {
+      this.telemetry.onLimitReached?.(limitType, newValue, maxValue);
+      return {
+        allowed,
+        warning: false,
+        currentValue,
+        maxValue,
+        limitType,
+        message,
+      };
+    }
+    return {
+      allowed,
+      warning: this.isNear(newValue, maxValue),
+      currentValue,
+      maxValue,
+      limitType,
+    };
+  }
+
+  private isNear(value: number, max: number): boolean {
+    return (
+      this.config.warnOnLimitApproach &&
+      value >= max * this.config.limitWarnThreshold
+    );
+  }
+
+  /**
+   * Report a value at the warning threshold of its limit, once until it
+   * drops below the threshold again
+   */
+  private warn(
+    key: string,
+    limitType: string,
+    value: number,
+    max: number
+  ): void {
+    if (!this.isNear(value, max)) {
+      this.warned.delete(key);
+      return;
+    }
+    if (this.warned.has(key)) return;
+
+    this.warned.add(key);
+    this.logger.warn("Limit approached", { limitType, current: value, max });
+    this.telemetry.onLimitWarning?.(limitType, value, max);
+  }
+
+  private exceeded(
+    result: LimitCheckResult,
+    description: string,
+    details: Record<string, unknown>,
+    options?: ErrorOptions
+  ): never {
+    this.logger.warn(description, {
+      ...details,
+      current: result.currentValue,
+      max: result.maxValue,
+    });
+    throw new LimitExceededError(
+      result.message ?? description,
+      result.limitType,
+      result.currentValue,
+      result.maxValue,
+      options
+    );
+  }
+
+  /** A source's query start times within the rate window */
+  private recentQueries(source: string): number[] {
+    const since = Date.now() - RATE_WINDOW_MS;
+    return (this.queryTimes.get(source) ?? []).filter((t) => t > since);
+  }
+}
+
+/** Result for a limit that is switched off */
+function unlimited(limitType: string, value: number): LimitCheckResult {
+  return {
+    allowed: true,
+    warning: false,
+    currentValue: value,
+    maxValue: Infinity,
+    limitType,
+  };
 }
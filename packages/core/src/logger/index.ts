@@ -84,25 +84,30 @@ export function createConsoleLogger(minLevel: LogLevel = "info"): Logger {
   return new ConsoleLogger(minLevel);
 }
 
+const SENSITIVE_KEYS = [
+  "password",
+  "token",
+  "secret",
+  "key",
+  "auth",
+  "credential",
+  "bearer",
+];
+
+/** Whether a field name looks like it holds a secret */
+export function isSensitiveKey(key: string): boolean {
+  const lowerKey = key.toLowerCase();
+  return SENSITIVE_KEYS.some((sensitive) => lowerKey.includes(sensitive));
+}
+
 /** Redact sensitive fields from context */
 export function redactSensitive(
   context: Record<string, unknown>
 ): Record<string, unknown> {
-  const sensitiveKeys = [
-    "password",
-    "token",
-    "secret",
-    "key",
-    "auth",
-    "credential",
-    "bearer",
-  ];
-
   const redacted = { ...context };
 
   for (const key of Object.keys(redacted)) {
-    const lowerKey = key.toLowerCase();
-    if (sensitiveKeys.some((sensitive) => lowerKey.includes(sensitive))) {
+    if (isSensitiveKey(key)) {
       redacted[key] = "[REDACTED]";
     }
   }
@@ -44,6 +44,19 @@ function generatePatchId(): string {
   return `patch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/** Create a patch from node and edge operations */
+export function createPatch(
+  nodePatch: readonly NodePatch[],
+  edgePatch: readonly EdgePatch[]
+): GraphPatch {
+  return {
+    id: generatePatchId(),
+    timestamp: Date.now(),
+    nodePatch,
+    edgePatch,
+  };
+}
+
 /** Calculate diff between two graph states */
 export function calculatePatch(
   oldState: GraphData,
@@ -296,18 +309,22 @@ function consolidateEdgePatches(patches: EdgePatch[]): EdgePatch[] {
 }
 
 /** Check if two nodes are equal */
-function nodesEqual(a: GraphNode, b: GraphNode): boolean {
+export function nodesEqual(a: GraphNode, b: GraphNode): boolean {
   if (a.id !== b.id) return false;
   if (a.labels.length !== b.labels.length) return false;
   if (!a.labels.every((l, i) => l === b.labels[i])) return false;
+  if (JSON.stringify(a.metadata) !== JSON.stringify(b.metadata)) return false;
+  if (JSON.stringify(a.view) !== JSON.stringify(b.view)) return false;
   return JSON.stringify(a.properties) === JSON.stringify(b.properties);
 }
 
 /** Check if two edges are equal */
-function edgesEqual(a: GraphEdge, b: GraphEdge): boolean {
+export function edgesEqual(a: GraphEdge, b: GraphEdge): boolean {
   if (a.id !== b.id) return false;
   if (a.source !== b.source) return false;
   if (a.target !== b.target) return false;
   if (a.type !== b.type) return false;
+  if (JSON.stringify(a.metadata) !== JSON.stringify(b.metadata)) return false;
+  if (JSON.stringify(a.view) !== JSON.stringify(b.view)) return false;
   return JSON.stringify(a.properties) === JSON.stringify(b.properties);
 }
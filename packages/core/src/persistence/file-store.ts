@@ -0,0 +1,60 @@
+/**
+ * Filesystem snapshot store (Node.js)
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { SnapshotStore } from "./stores.js";
+import { checkKey } from "./stores.js";
+
+const EXTENSION = ".qsnap";
+
+/** Keeps each snapshot in a file of a directory, created on first save */
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private readonly directory: string) {}
+
+  async save(key: string, bytes: Uint8Array): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename, so a reader never sees half a snapshot
+    const file = this.file(checkKey(key));
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, bytes);
+    await fs.rename(temporary, file);
+  }
+
+  async load(key: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await fs.readFile(this.file(key)));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.file(key), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+    return files
+      .filter((file) => file.endsWith(EXTENSION))
+      .map((file) => decodeURIComponent(file.slice(0, -EXTENSION.length)));
+  }
+
+  /** Keys are URI-encoded, so any key is a safe file name */
+  private file(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}${EXTENSION}`);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && "code" in error && error.code === "ENOENT";
+}
@@ -0,0 +1,61 @@
+/**
+ * Session persistence
+ * Save sessions as versioned snapshots to pluggable stores, and resume them.
+ *
+ * Note: FileSnapshotStore (./file-store.js) uses Node.js-specific modules
+ * and should be imported directly in Node.js environments:
+ *   import { FileSnapshotStore } from "@queryscape/core/persistence/file-store"
+ */
+
+import type { RestoreOptions } from "../session/index.js";
+import { GraphSession } from "../session/index.js";
+
+import type { EncodeOptions } from "./snapshot.js";
+import { decodeSnapshot, encodeSnapshot } from "./snapshot.js";
+import type { SnapshotStore } from "./stores.js";
+
+export {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  decodeSnapshot,
+  encodeSnapshot,
+  migrateSnapshot,
+  validateSnapshot,
+} from "./snapshot.js";
+export type {
+  EncodeOptions,
+  SessionSnapshot,
+  SnapshotCacheEntry,
+  SnapshotSource,
+} from "./snapshot.js";
+export { IndexedDbSnapshotStore, MemorySnapshotStore } from "./stores.js";
+export type {
+  IdbDatabaseLike,
+  IdbObjectStoreLike,
+  IdbRequestLike,
+  SnapshotStore,
+} from "./stores.js";
+
+/** Save a session's snapshot under a key */
+export async function saveSession(
+  store: SnapshotStore,
+  key: string,
+  session: GraphSession,
+  options?: EncodeOptions
+): Promise<void> {
+  await store.save(key, await encodeSnapshot(session.toSnapshot(), options));
+}
+
+/**
+ * Resume the session saved under a key. Resolves to null when there is no
+ * snapshot under the key.
+ */
+export async function loadSession(
+  store: SnapshotStore,
+  key: string,
+  options?: RestoreOptions
+): Promise<GraphSession | null> {
+  const bytes = await store.load(key);
+  if (!bytes) return null;
+  return GraphSession.fromSnapshot(await decodeSnapshot(bytes), options);
+}
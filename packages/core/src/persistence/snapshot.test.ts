@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../errors/index.js";
+import type { Query } from "../query/index.js";
+import type { Connector } from "../session/index.js";
+import { GraphSession } from "../session/index.js";
+import type { QueryResult } from "../types/index.js";
+
+import {
+  SNAPSHOT_VERSION,
+  decodeSnapshot,
+  encodeSnapshot,
+  migrateSnapshot,
+} from "./snapshot.js";
+
+const RESULT: QueryResult = {
+  data: {
+    nodes: [
+      { id: "a", labels: ["Person"], properties: { name: "Ada" } },
+      { id: "b", labels: ["Person"], properties: { name: "Alan" } },
+    ],
+    edges: [
+      { id: "e1", source: "a", target: "b", type: "KNOWS", properties: {} },
+    ],
+  },
+  metadata: {
+    executionTimeMs: 0,
+    totalAvailable: 2,
+    truncated: false,
+    cursor: null,
+  },
+};
+
+/** Answers every query with RESULT */
+class StaticConnector implements Connector {
+  readonly queries: Query[] = [];
+
+  getId(): string {
+    return "static";
+  }
+
+  getCapabilities(): ReturnType<Connector["getCapabilities"]> {
+    return {
+      connectorType: "static",
+      supportedQueryTypes: ["findNodes"],
+      supportsFullTextSearch: false,
+      supportsPagination: false,
+      supportsRawQueries: false,
+      supportsSchema: false,
+      supportsExplain: false,
+      maxPageSize: 10,
+    };
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  async executeQuery(query: Query): Promise<QueryResult> {
+    this.queries.push(query);
+    return RESULT;
+  }
+}
+
+const QUERY: Query = {
+  type: "findNodes",
+  labelFilter: { labels: ["Person"], mode: "any" },
+};
+
+async function exploredSession(): Promise<GraphSession> {
+  const session = new GraphSession({ config: { maxNodes: 500 } });
+  await session.connect(new StaticConnector());
+  await session.executeQuery(QUERY);
+  session.removeNodes(["b"]);
+  session.undo();
+  return session;
+}
+
+describe("session snapshots", () => {
+  it("should round-trip through gzip and reattach sources", async () => {
+    const session = await exploredSession();
+    const bytes = await encodeSnapshot(session.toSnapshot(), {
+      compress: true,
+    });
+    expect([bytes[0], bytes[1]]).toEqual([0x1f, 0x8b]);
+
+    const connector = new StaticConnector();
+    const restored = await GraphSession.fromSnapshot(
+      await decodeSnapshot(bytes),
+      { connectors: (source) => (source.name === "static" ? connector : null) }
+    );
+
+    expect(restored.getData()).toEqual(session.getData());
+    expect(restored.getState().undoStack).toHaveLength(1);
+    expect(restored.toSnapshot().config.maxNodes).toBe(500);
+    expect(restored.getSources()).toEqual(["static"]);
+
+    // The cached result answers without reaching the connector
+    await restored.executeQuery(QUERY);
+    expect(connector.queries).toHaveLength(0);
+  });
+
+  it("should migrate unversioned snapshots from earlier toJSON", () => {
+    const legacy = JSON.stringify({
+      data: RESULT.data,
+      patchHistory: [],
+      timestamp: "2024-01-01T00:00:00.000Z",
+    });
+
+    const session = GraphSession.fromJSON(legacy);
+
+    expect(session.getState().nodeCount).toBe(2);
+    expect(session.toSnapshot().version).toBe(SNAPSHOT_VERSION);
+  });
+
+  it("should migrate earlier toJSON's patch history into the history tree", async () => {
+    const session = await exploredSession();
+    const [patch] = session.getPatchHistory();
+    const legacy = JSON.stringify({
+      data: session.getData(),
+      patchHistory: [patch],
+      timestamp: "2024-01-01T00:00:00.000Z",
+    });
+
+    const restored = GraphSession.fromJSON(legacy);
+
+    expect(restored.getPatchHistory()).toEqual([patch]);
+    expect(restored.undo()).not.toBeNull();
+    expect(restored.getState().nodeCount).toBe(0);
+  });
+
+  it("should keep edges whose endpoints are not in the graph", () => {
+    const session = new GraphSession();
+    session.addNodes([{ id: "a", labels: ["Person"], properties: {} }]);
+    session.addEdges([
+      { id: "e1", source: "a", target: "zz", type: "KNOWS", properties: {} },
+    ]);
+
+    const restored = GraphSession.fromJSON(session.toJSON());
+
+    expect(restored.getData()).toEqual(session.getData());
+  });
+
+  it("should name the first invalid field", () => {
+    const snapshot = {
+      data: {
+        nodes: [{ id: "a", labels: ["Person"], properties: {} }],
+        edges: [
+          { id: "e1", source: "a", target: 7, type: "KNOWS", properties: {} },
+        ],
+      },
+    };
+
+    expect(() => migrateSnapshot(snapshot)).toThrow(
+      new ValidationError(
+        "Invalid snapshot: data.edges[0].target must be a string",
+        "data.edges[0].target"
+      )
+    );
+    expect(() => migrateSnapshot({ version: 99 })).toThrow(ValidationError);
+    expect(() => GraphSession.fromJSON("{")).toThrow(ValidationError);
+  });
+
+  it("should reject corrupt gzip data", async () => {
+    await expect(
+      decodeSnapshot(new Uint8Array([0x1f, 0x8b, 1, 2, 3]))
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
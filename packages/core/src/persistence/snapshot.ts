@@ -0,0 +1,391 @@
+/**
+ * Session snapshots
+ * Versioned, validated format for saving a GraphSession: graph data, history
+ * tree with bookmarks, configuration, sources and cached results. Older
+ * versions are migrated on load.
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { SerializedHistory } from "../session/history.js";
+import { ROOT_REVISION_ID } from "../session/history.js";
+import type { GraphData, SessionConfig } from "../types/index.js";
+import { DEFAULT_SESSION_CONFIG } from "../types/index.js";
+
+/** Format marker of session snapshots */
+export const SNAPSHOT_FORMAT = "queryscape.session";
+
+/** Snapshot version written by this release */
+export const SNAPSHOT_VERSION = 2;
+
+/** Connector a session had attached; connectors themselves are not saved */
+export interface SnapshotSource {
+  readonly name: string;
+  readonly connectorId: string;
+  readonly connectorType: string;
+  /** Session node IDs that differ from the source's, as [session, source] */
+  readonly nodeIds: ReadonlyArray<readonly [string, string]>;
+  /** Session edge IDs that differ from the source's, as [session, source] */
+  readonly edgeIds: ReadonlyArray<readonly [string, string]>;
+}
+
+/** Cached query result */
+export interface SnapshotCacheEntry {
+  readonly key: string;
+  readonly data: GraphData;
+  /** When the result was cached, in milliseconds since the epoch */
+  readonly timestamp: number;
+}
+
+/** Saved session */
+export interface SessionSnapshot {
+  readonly format: typeof SNAPSHOT_FORMAT;
+  readonly version: typeof SNAPSHOT_VERSION;
+  readonly createdAt: string;
+  readonly config: SessionConfig;
+  readonly data: GraphData;
+  readonly history: SerializedHistory;
+  readonly sources: readonly SnapshotSource[];
+  readonly cache: readonly SnapshotCacheEntry[];
+}
+
+/** Snapshot encoding options */
+export interface EncodeOptions {
+  /** Gzip the JSON (default false) */
+  readonly compress?: boolean;
+}
+
+type SnapshotObject = Record<string, unknown>;
+
+/**
+ * Migrations by the version they upgrade from. Version 1 is the unversioned
+ * `{ data, patchHistory, timestamp }` written by earlier toJSON(); its linear
+ * patch history becomes one line of the history tree.
+ */
+const MIGRATIONS: Record<number, (snapshot: SnapshotObject) => SnapshotObject> =
+  {
+    1: (snapshot) => {
+      const applied = Array.isArray(snapshot["patchHistory"])
+        ? snapshot["patchHistory"]
+        : [];
+      const revisions: SnapshotObject[] = [
+        { id: ROOT_REVISION_ID, parentId: null, patch: null, createdAt: 0 },
+      ];
+      applied.forEach((patch: unknown, i) => {
+        revisions.push({
+          id: isObject(patch) ? patch["id"] : undefined,
+          parentId: revisions[i]?.["id"],
+          patch,
+          createdAt: isObject(patch) ? patch["timestamp"] : undefined,
+        });
+      });
+
+      return {
+        format: SNAPSHOT_FORMAT,
+        version: 2,
+        createdAt: snapshot["timestamp"] ?? new Date(0).toISOString(),
+        config: DEFAULT_SESSION_CONFIG,
+        data: snapshot["data"],
+        history: {
+          revisions,
+          currentId: revisions[revisions.length - 1]?.["id"],
+          bookmarks: [],
+        },
+        sources: [],
+        cache: [],
+      };
+    },
+  };
+
+/**
+ * Migrate a parsed snapshot of any supported version to the current one and
+ * validate it. Throws ValidationError naming the first invalid field.
+ */
+export function migrateSnapshot(value: unknown): SessionSnapshot {
+  if (!isObject(value)) {
+    throw new ValidationError("Snapshot must be an object", "snapshot");
+  }
+
+  let snapshot = value;
+  let version = snapshot["version"] ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    throw new ValidationError("Snapshot version must be an integer", "version");
+  }
+  if (version > SNAPSHOT_VERSION) {
+    throw new ValidationError(
+      `Snapshot version ${version} is newer than the supported version ${SNAPSHOT_VERSION}`,
+      "version"
+    );
+  }
+
+  while (version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ValidationError(
+        `Snapshot version ${version} is not supported`,
+        "version"
+      );
+    }
+    snapshot = migrate(snapshot);
+    version++;
+  }
+
+  return validateSnapshot(snapshot);
+}
+
+/** Validate a current-version snapshot */
+export function validateSnapshot(value: unknown): SessionSnapshot {
+  const snapshot = object(value, "snapshot");
+  if (snapshot["format"] !== SNAPSHOT_FORMAT) {
+    invalid("format", `"${SNAPSHOT_FORMAT}"`);
+  }
+  if (snapshot["version"] !== SNAPSHOT_VERSION) {
+    invalid("version", String(SNAPSHOT_VERSION));
+  }
+  string(snapshot["createdAt"], "createdAt");
+
+  const config = object(snapshot["config"], "config");
+  for (const [key, fallback] of Object.entries(DEFAULT_SESSION_CONFIG)) {
+    if (typeof config[key] !== typeof fallback) {
+      invalid(`config.${key}`, `a ${typeof fallback}`);
+    }
+  }
+
+  validateGraphData(snapshot["data"], "data");
+  validateHistory(snapshot["history"], "history");
+
+  array(snapshot["sources"], "sources").forEach((value, i) => {
+    const path = `sources[${i}]`;
+    const source = object(value, path);
+    for (const key of ["name", "connectorId", "connectorType"]) {
+      string(source[key], `${path}.${key}`);
+    }
+    for (const key of ["nodeIds", "edgeIds"]) {
+      array(source[key], `${path}.${key}`).forEach((pair, j) => {
+        const ids = array(pair, `${path}.${key}[${j}]`);
+        if (ids.length !== 2 || !ids.every((id) => typeof id === "string")) {
+          invalid(`${path}.${key}[${j}]`, "a pair of IDs");
+        }
+      });
+    }
+  });
+
+  array(snapshot["cache"], "cache").forEach((value, i) => {
+    const entry = object(value, `cache[${i}]`);
+    string(entry["key"], `cache[${i}].key`);
+    number(entry["timestamp"], `cache[${i}].timestamp`);
+    validateGraphData(entry["data"], `cache[${i}].data`);
+  });
+
+  return snapshot as unknown as SessionSnapshot;
+}
+
+/** Encode a snapshot as UTF-8 JSON, gzipped if asked */
+export async function encodeSnapshot(
+  snapshot: SessionSnapshot,
+  options: EncodeOptions = {}
+): Promise<Uint8Array> {
+  const json = new TextEncoder().encode(JSON.stringify(snapshot));
+  return options.compress
+    ? transformBytes(json, new CompressionStream("gzip"))
+    : json;
+}
+
+/** Decode, migrate and validate a snapshot, gzipped or not */
+export async function decodeSnapshot(
+  bytes: Uint8Array
+): Promise<SessionSnapshot> {
+  // Gzip streams start with the bytes 1f 8b
+  const json =
+    bytes[0] === 0x1f && bytes[1] === 0x8b
+      ? await transformBytes(bytes, new DecompressionStream("gzip"))
+      : bytes;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(json));
+  } catch (error) {
+    throw new ValidationError("Snapshot is not valid JSON", "snapshot", {
+      cause: error,
+    });
+  }
+  return migrateSnapshot(parsed);
+}
+
+async function transformBytes(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const writer = transform.writable.getWriter();
+  // Write errors, such as corrupt gzip data, also fail the reader. The copy
+  // is backed by an ArrayBuffer, as streams do not take shared memory.
+  writer
+    .write(new Uint8Array(bytes))
+    .then(() => writer.close())
+    .catch(() => {});
+
+  const chunks: Uint8Array[] = [];
+  const reader = transform.readable.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch (error) {
+    throw new ValidationError("Snapshot is not valid gzip data", "snapshot", {
+      cause: error,
+    });
+  }
+
+  const result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function validateGraphData(value: unknown, path: string): void {
+  const data = object(value, path);
+  array(data["nodes"], `${path}.nodes`).forEach((node, i) => {
+    validateNode(node, `${path}.nodes[${i}]`);
+  });
+  // Sessions keep edges whose endpoints have not been fetched
+  array(data["edges"], `${path}.edges`).forEach((edge, i) => {
+    validateEdge(edge, `${path}.edges[${i}]`);
+  });
+}
+
+function validateHistory(value: unknown, path: string): void {
+  const history = object(value, path);
+  const revisionIds = new Set<string>();
+
+  array(history["revisions"], `${path}.revisions`).forEach((value, i) => {
+    const at = `${path}.revisions[${i}]`;
+    const revision = object(value, at);
+    const id = revision["id"];
+    string(id, `${at}.id`);
+    number(revision["createdAt"], `${at}.createdAt`);
+
+    const parentId = revision["parentId"];
+    if (parentId === null) {
+      if (id !== ROOT_REVISION_ID) {
+        invalid(`${at}.parentId`, "the ID of an earlier revision");
+      }
+    } else {
+      if (typeof parentId !== "string" || !revisionIds.has(parentId)) {
+        invalid(`${at}.parentId`, "the ID of an earlier revision");
+      }
+      validatePatch(revision["patch"], `${at}.patch`);
+    }
+    revisionIds.add(id);
+  });
+
+  const currentId = history["currentId"];
+  if (currentId !== ROOT_REVISION_ID && !revisionIds.has(String(currentId))) {
+    invalid(`${path}.currentId`, "the ID of a revision");
+  }
+
+  array(history["bookmarks"], `${path}.bookmarks`).forEach((value, i) => {
+    const at = `${path}.bookmarks[${i}]`;
+    const bookmark = object(value, at);
+    string(bookmark["id"], `${at}.id`);
+    string(bookmark["name"], `${at}.name`);
+    number(bookmark["createdAt"], `${at}.createdAt`);
+    const revisionId = bookmark["revisionId"];
+    if (
+      revisionId !== ROOT_REVISION_ID &&
+      !revisionIds.has(String(revisionId))
+    ) {
+      invalid(`${at}.revisionId`, "the ID of a revision");
+    }
+  });
+}
+
+function validatePatch(value: unknown, path: string): void {
+  const patch = object(value, path);
+  string(patch["id"], `${path}.id`);
+  number(patch["timestamp"], `${path}.timestamp`);
+
+  array(patch["nodePatch"], `${path}.nodePatch`).forEach((value, i) => {
+    const entry = object(value, `${path}.nodePatch[${i}]`);
+    operation(entry["operation"], `${path}.nodePatch[${i}].operation`);
+    validateNode(entry["node"], `${path}.nodePatch[${i}].node`);
+  });
+  array(patch["edgePatch"], `${path}.edgePatch`).forEach((value, i) => {
+    const entry = object(value, `${path}.edgePatch[${i}]`);
+    operation(entry["operation"], `${path}.edgePatch[${i}].operation`);
+    validateEdge(entry["edge"], `${path}.edgePatch[${i}].edge`);
+  });
+}
+
+function validateNode(value: unknown, path: string): void {
+  const node = object(value, path);
+  string(node["id"], `${path}.id`);
+  array(node["labels"], `${path}.labels`).forEach((label, i) =>
+    string(label, `${path}.labels[${i}]`)
+  );
+  object(node["properties"], `${path}.properties`);
+  validateView(node["view"], `${path}.view`);
+}
+
+function validateEdge(value: unknown, path: string): void {
+  const edge = object(value, path);
+  for (const key of ["id", "source", "target", "type"]) {
+    string(edge[key], `${path}.${key}`);
+  }
+  object(edge["properties"], `${path}.properties`);
+  validateView(edge["view"], `${path}.view`);
+}
+
+/** Optional element view state */
+function validateView(value: unknown, path: string): void {
+  if (value === undefined) return;
+  const view = object(value, path);
+  for (const key of ["pinned", "hidden", "collapsed"]) {
+    if (view[key] !== undefined && typeof view[key] !== "boolean") {
+      invalid(`${path}.${key}`, "a boolean");
+    }
+  }
+  if (view["collapsedBy"] !== undefined) {
+    array(view["collapsedBy"], `${path}.collapsedBy`).forEach((id, i) =>
+      string(id, `${path}.collapsedBy[${i}]`)
+    );
+  }
+}
+
+function isObject(value: unknown): value is SnapshotObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function object(value: unknown, path: string): SnapshotObject {
+  if (!isObject(value)) invalid(path, "an object");
+  return value;
+}
+
+function array(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) invalid(path, "an array");
+  return value;
+}
+
+function string(value: unknown, path: string): asserts value is string {
+  if (typeof value !== "string") invalid(path, "a string");
+}
+
+function number(value: unknown, path: string): asserts value is number {
+  if (typeof value !== "number") invalid(path, "a number");
+}
+
+function operation(value: unknown, path: string): void {
+  if (value !== "add" && value !== "remove" && value !== "update") {
+    invalid(path, `"add", "remove" or "update"`);
+  }
+}
+
+function invalid(path: string, expected: string): never {
+  throw new ValidationError(
+    `Invalid snapshot: ${path} must be ${expected}`,
+    path
+  );
+}
@@ -0,0 +1,99 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { GraphSession } from "../session/index.js";
+
+import { FileSnapshotStore } from "./file-store.js";
+import type {
+  IdbDatabaseLike,
+  IdbObjectStoreLike,
+  IdbRequestLike,
+  SnapshotStore,
+} from "./stores.js";
+import { IndexedDbSnapshotStore, MemorySnapshotStore } from "./stores.js";
+
+import { loadSession, saveSession } from "./index.js";
+
+/** In-memory stand-in for a browser IDBDatabase */
+function fakeIndexedDb(): IdbDatabaseLike {
+  const records = new Map<string, unknown>();
+  const request = <T>(result: T): IdbRequestLike<T> => {
+    const pending: IdbRequestLike<T> = {
+      result,
+      error: null,
+      onsuccess: null,
+      onerror: null,
+    };
+    setTimeout(() => pending.onsuccess?.(undefined as never), 0);
+    return pending;
+  };
+  const store: IdbObjectStoreLike = {
+    put: (value, key) => {
+      records.set(key, value);
+      return request(key);
+    },
+    get: (key) => request(records.get(key)),
+    delete: (key) => request(records.delete(key)),
+    getAllKeys: () => request([...records.keys()]),
+  };
+  return { transaction: () => ({ objectStore: () => store }) };
+}
+
+const BYTES = new TextEncoder().encode("snapshot");
+
+describe.each([
+  ["memory", (): SnapshotStore => new MemorySnapshotStore()],
+  [
+    "IndexedDB",
+    (): SnapshotStore => new IndexedDbSnapshotStore(fakeIndexedDb()),
+  ],
+])("%s snapshot store", (_name, createStore) => {
+  it("should save, list, load and delete snapshots", async () => {
+    const store = createStore();
+
+    await store.save("team/graph", BYTES);
+
+    expect(await store.list()).toEqual(["team/graph"]);
+    expect(await store.load("team/graph")).toEqual(BYTES);
+    await store.delete("team/graph");
+    expect(await store.load("team/graph")).toBeNull();
+  });
+});
+
+describe("FileSnapshotStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "queryscape-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should keep snapshots as files named after their keys", async () => {
+    const store = new FileSnapshotStore(join(directory, "snapshots"));
+
+    expect(await store.list()).toEqual([]);
+    await store.save("team/graph", BYTES);
+
+    expect(await store.list()).toEqual(["team/graph"]);
+    expect(await store.load("team/graph")).toEqual(BYTES);
+    expect(await store.load("missing")).toBeNull();
+  });
+
+  it("should save and resume a session", async () => {
+    const store = new FileSnapshotStore(directory);
+    const session = new GraphSession();
+    session.addNodes([{ id: "a", labels: ["Person"], properties: {} }]);
+
+    await saveSession(store, "exploration", session, { compress: true });
+    const resumed = await loadSession(store, "exploration");
+
+    expect(resumed?.getData()).toEqual(session.getData());
+    expect(await loadSession(store, "other")).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Snapshot stores
+ * Where encoded session snapshots are kept, by key.
+ */
+
+import { ValidationError } from "../errors/index.js";
+
+/** Storage for encoded snapshots */
+export interface SnapshotStore {
+  save(key: string, bytes: Uint8Array): Promise<void>;
+  /** Resolves to null when there is no snapshot under the key */
+  load(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+  /** Keys of the stored snapshots */
+  list(): Promise<string[]>;
+}
+
+/** Keeps snapshots in memory, for tests and short-lived sharing */
+export class MemorySnapshotStore implements SnapshotStore {
+  private readonly snapshots = new Map<string, Uint8Array>();
+
+  async save(key: string, bytes: Uint8Array): Promise<void> {
+    this.snapshots.set(checkKey(key), bytes.slice());
+  }
+
+  async load(key: string): Promise<Uint8Array | null> {
+    return this.snapshots.get(key)?.slice() ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.snapshots.delete(key);
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.snapshots.keys()];
+  }
+}
+
+/**
+ * Request of an IndexedDB object store. Handlers receive the DOM event,
+ * which the store does not use.
+ */
+export interface IdbRequestLike<T> {
+  readonly result: T;
+  readonly error: unknown;
+  onsuccess: ((event: never) => unknown) | null;
+  onerror: ((event: never) => unknown) | null;
+}
+
+/** The IDBObjectStore methods the store uses */
+export interface IdbObjectStoreLike {
+  put(value: unknown, key: string): IdbRequestLike<unknown>;
+  get(key: string): IdbRequestLike<unknown>;
+  delete(key: string): IdbRequestLike<unknown>;
+  getAllKeys(): IdbRequestLike<unknown[]>;
+}
+
+/** The IDBDatabase methods the store uses, so a browser IDBDatabase fits */
+export interface IdbDatabaseLike {
+  transaction(
+    storeNames: string,
+    mode: "readonly" | "readwrite"
+  ): { objectStore(name: string): IdbObjectStoreLike };
+}
+
+/**
+ * Keeps snapshots in an IndexedDB object store, keyed out of line. The
+ * object store must exist; create it in the database's upgrade handler.
+ */
+export class IndexedDbSnapshotStore implements SnapshotStore {
+  constructor(
+    private readonly database: IdbDatabaseLike,
+    private readonly storeName = "snapshots"
+  ) {}
+
+  async save(key: string, bytes: Uint8Array): Promise<void> {
+    await this.request("readwrite", (store) => store.put(bytes, checkKey(key)));
+  }
+
+  async load(key: string): Promise<Uint8Array | null> {
+    const value = await this.request("readonly", (store) => store.get(key));
+    if (value instanceof Uint8Array) return value;
+    if (value instanceof ArrayBuffer) return new Uint8Array(value);
+    return null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request("readwrite", (store) => store.delete(key));
+  }
+
+  async list(): Promise<string[]> {
+    const keys = await this.request("readonly", (store) => store.getAllKeys());
+    return keys.filter((key): key is string => typeof key === "string");
+  }
+
+  private request<T>(
+    mode: "readonly" | "readwrite",
+    send: (store: IdbObjectStoreLike) => IdbRequestLike<T>
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const store = this.database
+        .transaction(this.storeName, mode)
+        .objectStore(this.storeName);
+      const request = send(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/** Reject keys that cannot name a snapshot */
+export function checkKey(key: string): string {
+  if (key.length === 0) {
+    throw new ValidationError("Snapshot key must not be empty", "key");
+  }
+  return key;
+}
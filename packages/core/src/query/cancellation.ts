@@ -0,0 +1,83 @@
+/**
+ * Query cancellation
+ * A query is cancelled by the AbortSignal passed to executeQuery, or when it
+ * runs longer than its timeoutMs.
+ */
+
+import { QueryCancelledError, QueryTimeoutError } from "../errors/index.js";
+
+import type { BaseQuery } from "./index.js";
+
+/** Signal aborted by `signal` or once the query's timeoutMs has elapsed */
+export function querySignal(
+  query: BaseQuery,
+  signal?: AbortSignal
+): AbortSignal | undefined {
+  if (query.timeoutMs === undefined || query.timeoutMs <= 0) return signal;
+  const timeout = AbortSignal.timeout(query.timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/** Error for a query whose signal was aborted */
+export function cancellationError(
+  signal: AbortSignal,
+  query: BaseQuery
+): QueryCancelledError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof QueryCancelledError) return reason;
+  if (
+    reason instanceof Error &&
+    reason.name === "TimeoutError" &&
+    query.timeoutMs !== undefined
+  ) {
+    return new QueryTimeoutError(
+      `Query '${query.type}' timed out after ${query.timeoutMs} ms`,
+      query.type,
+      query.timeoutMs,
+      { cause: reason }
+    );
+  }
+  return new QueryCancelledError(
+    `Query '${query.type}' was cancelled`,
+    query.type,
+    {
+      cause: reason,
+    }
+  );
+}
+
+/** Throw the cancellation error if the signal is aborted */
+export function throwIfCancelled(
+  signal: AbortSignal | undefined,
+  query: BaseQuery
+): void {
+  if (signal?.aborted) throw cancellationError(signal, query);
+}
+
+/**
+ * Settle with `promise`, or reject with the cancellation error as soon as the
+ * signal aborts. The promise itself keeps running.
+ */
+export function raceCancellation<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  query: BaseQuery
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(cancellationError(signal, query));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(cancellationError(signal, query));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../errors/index.js";
+
+import { fromFluentQuery, isFluentQuery, normalizeQuery } from "./convert.js";
+import { QueryBuilder } from "./query-builder.js";
+
+import type { Query } from "./index.js";
+
+describe("fromFluentQuery", () => {
+  it("should convert node queries to findNodes", () => {
+    const query = QueryBuilder.nodes()
+      .byIds(["n1", "n2"])
+      .withLabels(["Person", "Employee"])
+      .withProperties({ name: "Alice", active: true })
+      .limit(20)
+      .offset(40)
+      .timeout(500)
+      .build();
+
+    expect(fromFluentQuery(query)).toEqual({
+      type: "findNodes",
+      nodeIds: ["n1", "n2"],
+      labelFilter: { labels: ["Person", "Employee"], mode: "any" },
+      propertyFilters: [
+        { key: "name", op: "eq", value: "Alice" },
+        { key: "active", op: "eq", value: true },
+      ],
+      pagination: { limit: 20, offset: 40 },
+      timeoutMs: 500,
+    });
+  });
+
+  it("should convert edge queries to findEdges", () => {
+    const query = QueryBuilder.edges()
+      .byIds(["e1"])
+      .ofTypes(["KNOWS"])
+      .fromNode("a")
+      .toNode("b")
+      .build();
+
+    expect(fromFluentQuery(query)).toMatchObject({
+      type: "findEdges",
+      edgeIds: ["e1"],
+      edgeTypes: ["KNOWS"],
+      sourceId: "a",
+      targetId: "b",
+      pagination: { limit: 100, offset: 0 },
+    });
+  });
+
+  it("should convert neighborhood queries to expandNode", () => {
+    const query = QueryBuilder.neighborhood("a")
+      .direction("outgoing")
+      .depth(2)
+      .filterEdgeTypes(["KNOWS"])
+      .filterNeighborLabels(["Person"])
+      .build();
+
+    expect(fromFluentQuery(query)).toMatchObject({
+      type: "expandNode",
+      nodeId: "a",
+      direction: "outgoing",
+      depth: 2,
+      edgeTypes: ["KNOWS"],
+      nodeLabels: ["Person"],
+    });
+  });
+
+  it("should convert path queries to findPath", () => {
+    const query = QueryBuilder.path("a", "b")
+      .maxLength(4)
+      .allPaths()
+      .filterEdgeTypes(["KNOWS"])
+      .build();
+
+    expect(fromFluentQuery(query)).toMatchObject({
+      type: "findPath",
+      sourceId: "a",
+      targetId: "b",
+      maxLength: 4,
+      shortestOnly: false,
+      edgeTypes: ["KNOWS"],
+      pagination: { limit: 10, offset: 0 },
+    });
+  });
+
+  it("should convert search queries", () => {
+    const query = QueryBuilder.search("alice")
+      .inFields(["name"])
+      .withLabels(["Person"])
+      .caseSensitive()
+      .build();
+
+    expect(fromFluentQuery(query)).toMatchObject({
+      type: "search",
+      text: "alice",
+      fields: ["name"],
+      labels: ["Person"],
+      caseSensitive: true,
+    });
+  });
+
+  it("should match null properties and any of an array's values", () => {
+    const query = QueryBuilder.nodes()
+      .withProperties({ name: "Alice", manager: null, tags: ["a", "b"] })
+      .build();
+
+    expect(fromFluentQuery(query)).toMatchObject({
+      propertyFilters: [{ key: "name", op: "eq", value: "Alice" }],
+      filter: {
+        op: "and",
+        filters: [
+          { op: "isNull", key: "manager" },
+          { op: "in", key: "tags", values: ["a", "b"] },
+        ],
+      },
+    });
+    expect(
+      fromFluentQuery(QueryBuilder.nodes().withProperties({ x: null }).build())
+    ).toMatchObject({
+      propertyFilters: [],
+      filter: { op: "isNull", key: "x" },
+    });
+  });
+
+  it("should reject property values that are not filterable", () => {
+    const query = QueryBuilder.nodes()
+      .withProperties({ address: { city: "Paris" } })
+      .build();
+
+    expect(() => fromFluentQuery(query)).toThrow(ValidationError);
+  });
+});
+
+describe("normalizeQuery", () => {
+  it("should leave canonical queries untouched", () => {
+    const query: Query = {
+      type: "search",
+      text: "alice",
+      pagination: { limit: 5 },
+    };
+
+    expect(isFluentQuery(query)).toBe(false);
+    expect(normalizeQuery(query)).toBe(query);
+  });
+
+  it("should tell fluent search queries apart by limit and offset", () => {
+    const query = QueryBuilder.search("alice").limit(5).build();
+
+    expect(isFluentQuery(query)).toBe(true);
+    expect(normalizeQuery(query)).toMatchObject({
+      type: "search",
+      pagination: { limit: 5, offset: 0 },
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Conversion of fluent QueryBuilder queries to the canonical query AST
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { PaginationOptions, PropertyValue } from "../types/index.js";
+
+import type { FilterExpression, FilterValue } from "./filter.js";
+import type { Query as FluentQuery, QueryBase } from "./query-model.js";
+
+import type { PropertyFilter, Query } from "./index.js";
+
+/** Limit used when a fluent query has an offset but no limit */
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Whether a query uses the fluent model. Fluent search queries share the
+ * `search` type and are told apart by their top-level limit/offset.
+ */
+export function isFluentQuery(
+  query: Query | FluentQuery
+): query is FluentQuery {
+  switch (query.type) {
+    case "node":
+    case "edge":
+    case "neighborhood":
+    case "path":
+      return true;
+    case "search":
+      return "limit" in query || "offset" in query;
+    default:
+      return false;
+  }
+}
+
+/** Convert a fluent query to the canonical AST, keeping every field */
+export function fromFluentQuery(query: FluentQuery): Query {
+  const common = {
+    pagination: pagination(query),
+    timeoutMs: query.timeoutMs,
+  };
+
+  switch (query.type) {
+    case "node": {
+      const matches = Object.entries(query.properties ?? {}).map(
+        ([key, value]) => propertyMatch(key, value)
+      );
+      const expressions = matches.filter((m) => !isPropertyFilter(m));
+      const [only] = expressions;
+      return {
+        type: "findNodes",
+        nodeIds: query.ids,
+        labelFilter: query.labels
+          ? { labels: query.labels, mode: "any" }
+          : undefined,
+        propertyFilters: query.properties
+          ? matches.filter(isPropertyFilter)
+          : undefined,
+        filter:
+          expressions.length > 1 ? { op: "and", filters: expressions } : only,
+        ...common,
+      };
+    }
+    case "edge":
+      return {
+        type: "findEdges",
+        edgeIds: query.ids,
+        edgeTypes: query.types,
+        sourceId: query.sourceId,
+        targetId: query.targetId,
+        ...common,
+      };
+    case "neighborhood":
+      return {
+        type: "expandNode",
+        nodeId: query.nodeId,
+        direction: query.direction,
+        depth: query.depth,
+        edgeTypes: query.edgeTypes,
+        nodeLabels: query.neighborLabels,
+        ...common,
+      };
+    case "path":
+      return {
+        type: "findPath",
+        sourceId: query.sourceId,
+        targetId: query.targetId,
+        maxLength: query.maxLength,
+        edgeTypes: query.edgeTypes,
+        shortestOnly: query.shortestOnly,
+        ...common,
+      };
+    case "search":
+      return {
+        type: "search",
+        text: query.text,
+        fields: query.fields,
+        labels: query.labels,
+        caseSensitive: query.caseSensitive,
+        ...common,
+      };
+  }
+}
+
+/** Canonical form of a query in either model */
+export function normalizeQuery(query: Query | FluentQuery): Query {
+  return isFluentQuery(query) ? fromFluentQuery(query) : query;
+}
+
+function pagination(query: QueryBase): PaginationOptions | undefined {
+  if (query.limit === undefined && query.offset === undefined) {
+    return undefined;
+  }
+  return { limit: query.limit ?? DEFAULT_LIMIT, offset: query.offset };
+}
+
+/**
+ * Filter for a fluent property match: equality for a scalar, `isNull` for
+ * null and `in` for an array of scalars, matching any of them
+ */
+function propertyMatch(key: string, value: PropertyValue): FilterExpression {
+  if (value === null) return { op: "isNull", key };
+  if (isFilterValue(value)) return { key, op: "eq", value };
+  if (Array.isArray(value) && value.every(isFilterValue)) {
+    return { op: "in", key, values: value };
+  }
+  throw new ValidationError(
+    `Property '${key}' must be a string, number, boolean, null or an array of those to filter on`,
+    "properties"
+  );
+}
+
+function isFilterValue(value: PropertyValue): value is FilterValue {
+  return (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+function isPropertyFilter(match: FilterExpression): match is PropertyFilter {
+  return "value" in match;
+}
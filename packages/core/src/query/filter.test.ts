@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../errors/index.js";
+
+import {
+  MAX_FILTER_DEPTH,
+  validateFilter,
+  type FilterExpression,
+} from "./filter.js";
+
+import { createQueryBuilder, validateQuery } from "./index.js";
+
+describe("validateFilter", () => {
+  it("should accept nested expressions", () => {
+    expect(() =>
+      validateFilter({
+        op: "and",
+        filters: [
+          { op: "hasLabel", label: "Person" },
+          {
+            op: "or",
+            filters: [
+              { op: "in", key: "tier", values: [1, 2] },
+              { op: "not", filter: { op: "isNull", key: "email" } },
+              { op: "matches", key: "name", pattern: "^A.*" },
+              { op: "between", key: "age", min: 18, max: 65 },
+              { op: "eq", key: "active", value: true },
+            ],
+          },
+        ],
+      })
+    ).not.toThrow();
+  });
+
+  it("should report the path of an invalid node", () => {
+    try {
+      validateFilter({
+        op: "and",
+        filters: [
+          { op: "exists", key: "name" },
+          { op: "not", filter: { op: "matches", key: "name", pattern: "[" } },
+        ],
+      });
+      expect.fail("expected a ValidationError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).field).toBe("filter.filters[1].filter");
+    }
+  });
+
+  it.each<[string, unknown]>([
+    ["empty groups", { op: "or", filters: [] }],
+    ["missing keys", { op: "exists", key: "" }],
+    ["non-scalar list values", { op: "in", key: "k", values: [[1]] }],
+    ["mixed range types", { op: "between", key: "k", min: 1, max: "2" }],
+    ["inverted ranges", { op: "between", key: "k", min: 5, max: 1 }],
+    ["unknown operators", { op: "like", key: "k", value: "x" }],
+    ["non-scalar values", { op: "eq", key: "k", value: { a: 1 } }],
+  ])("should reject %s", (_name, filter) => {
+    expect(() => validateFilter(filter as FilterExpression)).toThrow(
+      ValidationError
+    );
+  });
+
+  it("should limit nesting depth", () => {
+    let filter: FilterExpression = { op: "exists", key: "k" };
+    for (let i = 0; i < MAX_FILTER_DEPTH; i++) {
+      filter = { op: "not", filter };
+    }
+
+    expect(() => validateFilter(filter)).toThrow(ValidationError);
+  });
+});
+
+describe("filter expressions in queries", () => {
+  it("should be validated by validateQuery", () => {
+    expect(() =>
+      validateQuery({
+        type: "findEdges",
+        filter: { op: "and", filters: [] },
+      })
+    ).toThrow(ValidationError);
+  });
+
+  it("should be accepted by the legacy builder", () => {
+    const query = createQueryBuilder().findNodes({
+      labels: ["Person"],
+      filter: { op: "exists", key: "email" },
+    });
+
+    expect(query.filter).toEqual({ op: "exists", key: "email" });
+  });
+});
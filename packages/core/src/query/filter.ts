@@ -0,0 +1,210 @@
+/**
+ * Boolean filter expressions over node and edge properties
+ * Leaves test one property (or a label); `and`, `or` and `not` combine them.
+ * A predicate on a missing or null property is unknown rather than false,
+ * so `not` of it does not match either (as in Cypher).
+ */
+
+import { ValidationError } from "../errors/index.js";
+
+import type { PropertyFilter } from "./index.js";
+
+/** Scalar value a filter can compare against */
+export type FilterValue = string | number | boolean;
+
+/** Every child must match */
+export interface AndFilter {
+  readonly op: "and";
+  readonly filters: readonly FilterExpression[];
+}
+
+/** At least one child must match */
+export interface OrFilter {
+  readonly op: "or";
+  readonly filters: readonly FilterExpression[];
+}
+
+/** The child must not match */
+export interface NotFilter {
+  readonly op: "not";
+  readonly filter: FilterExpression;
+}
+
+/** Property is (or is not) one of the listed values */
+export interface InFilter {
+  readonly op: "in" | "notIn";
+  readonly key: string;
+  readonly values: readonly FilterValue[];
+}
+
+/** Property is present and non-null (`exists`) or missing or null (`isNull`) */
+export interface NullFilter {
+  readonly op: "exists" | "isNull";
+  readonly key: string;
+}
+
+/**
+ * String property fully matches a regular expression. Keep patterns to the
+ * syntax JavaScript and Java share, since connectors evaluate them natively.
+ */
+export interface MatchesFilter {
+  readonly op: "matches";
+  readonly key: string;
+  readonly pattern: string;
+  readonly caseInsensitive?: boolean;
+}
+
+/** Property lies within an inclusive range of numbers or strings */
+export interface BetweenFilter {
+  readonly op: "between";
+  readonly key: string;
+  readonly min: number | string;
+  readonly max: number | string;
+}
+
+/** Node has the label; for edges, the edge has this type */
+export interface HasLabelFilter {
+  readonly op: "hasLabel";
+  readonly label: string;
+}
+
+/** Filter expression tree */
+export type FilterExpression =
+  | AndFilter
+  | OrFilter
+  | NotFilter
+  | PropertyFilter
+  | InFilter
+  | NullFilter
+  | MatchesFilter
+  | BetweenFilter
+  | HasLabelFilter;
+
+/** Deepest nesting accepted by validateFilter */
+export const MAX_FILTER_DEPTH = 32;
+
+const COMPARISON_OPS = new Set([
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "contains",
+  "startsWith",
+  "endsWith",
+]);
+
+/** Validate a filter expression, reporting the path of the first problem */
+export function validateFilter(
+  filter: FilterExpression,
+  field = "filter"
+): void {
+  validateNode(filter, field, 1);
+}
+
+function validateNode(
+  filter: FilterExpression,
+  path: string,
+  depth: number
+): void {
+  if (!filter || typeof filter !== "object") {
+    throw new ValidationError("Filter must be an object", path);
+  }
+  if (depth > MAX_FILTER_DEPTH) {
+    throw new ValidationError(
+      `Filter is nested deeper than ${MAX_FILTER_DEPTH} levels`,
+      path
+    );
+  }
+
+  switch (filter.op) {
+    case "and":
+    case "or":
+      if (!Array.isArray(filter.filters) || filter.filters.length === 0) {
+        throw new ValidationError(
+          `'${filter.op}' requires at least one filter`,
+          path
+        );
+      }
+      filter.filters.forEach((child, idx) =>
+        validateNode(child, `${path}.filters[${idx}]`, depth + 1)
+      );
+      return;
+    case "not":
+      validateNode(filter.filter, `${path}.filter`, depth + 1);
+      return;
+    case "hasLabel":
+      if (!filter.label || typeof filter.label !== "string") {
+        throw new ValidationError("hasLabel requires a label", path);
+      }
+      return;
+  }
+
+  if (!filter.key || typeof filter.key !== "string") {
+    throw new ValidationError(`'${filter.op}' requires a property key`, path);
+  }
+
+  switch (filter.op) {
+    case "in":
+    case "notIn":
+      if (!Array.isArray(filter.values) || !filter.values.every(isScalar)) {
+        throw new ValidationError(
+          `'${filter.op}' requires a list of strings, numbers or booleans`,
+          path
+        );
+      }
+      return;
+    case "exists":
+    case "isNull":
+      return;
+    case "matches":
+      if (typeof filter.pattern !== "string") {
+        throw new ValidationError("'matches' requires a pattern", path);
+      }
+      try {
+        new RegExp(filter.pattern);
+      } catch {
+        throw new ValidationError(
+          `Invalid regular expression: ${filter.pattern}`,
+          path
+        );
+      }
+      return;
+    case "between":
+      if (
+        !["number", "string"].includes(typeof filter.min) ||
+        typeof filter.min !== typeof filter.max
+      ) {
+        throw new ValidationError(
+          "'between' requires min and max of the same type (number or string)",
+          path
+        );
+      }
+      if (filter.min > filter.max) {
+        throw new ValidationError("'between' requires min <= max", path);
+      }
+      return;
+    default:
+      if (!COMPARISON_OPS.has(filter.op)) {
+        throw new ValidationError(
+          `Unknown filter operator '${String(filter.op)}'`,
+          path
+        );
+      }
+      if (!isScalar(filter.value)) {
+        throw new ValidationError(
+          `'${filter.op}' requires a string, number or boolean value`,
+          path
+        );
+      }
+  }
+}
+
+function isScalar(value: unknown): value is FilterValue {
+  return (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
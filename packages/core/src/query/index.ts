@@ -1,9 +1,16 @@
 /**
- * Query model types and safe query builder
+ * Canonical query AST and safe query builder
+ * Connectors and sessions execute these queries; fluent QueryBuilder output
+ * is converted with fromFluentQuery (see convert.ts).
  */
 
 import { QueryError, ValidationError } from "../errors/index.js";
-import type { NodeId, PaginationOptions } from "../types/index.js";
+import type { EdgeId, NodeId, PaginationOptions } from "../types/index.js";
+
+import type { FilterExpression } from "./filter.js";
+import { validateFilter } from "./filter.js";
+import type { PatternQuery } from "./pattern.js";
+import { validatePattern } from "./pattern.js";
 
 // Re-export the fluent QueryBuilder from query-builder.ts
 export { QueryBuilder } from "./query-builder.js";
@@ -19,16 +26,44 @@ export type {
   Query as FluentQuery,
 } from "./query-model.js";
 
+export {
+  cancellationError,
+  querySignal,
+  raceCancellation,
+  throwIfCancelled,
+} from "./cancellation.js";
+
+export { fromFluentQuery, isFluentQuery, normalizeQuery } from "./convert.js";
+
+export { MAX_FILTER_DEPTH, validateFilter } from "./filter.js";
+export type {
+  AndFilter,
+  BetweenFilter,
+  FilterExpression,
+  FilterValue,
+  HasLabelFilter,
+  InFilter,
+  MatchesFilter,
+  NotFilter,
+  NullFilter,
+  OrFilter,
+} from "./filter.js";
+
+export { requiredPatternVariables, validatePattern } from "./pattern.js";
+export type { PatternEdge, PatternNode, PatternQuery } from "./pattern.js";
+
 /** Supported query types */
 export type QueryType =
   | "getNode"
   | "getEdge"
   | "getNeighbors"
   | "findNodes"
+  | "findEdges"
   | "findPath"
   | "expandNode"
   | "search"
   | "sample"
+  | "pattern"
   | "raw";
 
 /** Direction for traversal */
@@ -54,6 +89,8 @@ export interface LabelFilter {
 export interface BaseQuery {
   readonly type: QueryType;
   readonly pagination?: PaginationOptions;
+  /** Timeout in milliseconds; the query is cancelled when it runs longer */
+  readonly timeoutMs?: number;
 }
 
 /** Get single node by ID */
@@ -74,8 +111,23 @@ export interface GetNeighborsQuery extends BaseQuery {
 /** Find nodes by criteria */
 export interface FindNodesQuery extends BaseQuery {
   readonly type: "findNodes";
+  /** Restrict to these node IDs */
+  readonly nodeIds?: readonly NodeId[];
   readonly labelFilter?: LabelFilter;
   readonly propertyFilters?: readonly PropertyFilter[];
+  /** Filter expression, combined with the filters above by AND */
+  readonly filter?: FilterExpression;
+}
+
+/** Find edges by ID, type or endpoint */
+export interface FindEdgesQuery extends BaseQuery {
+  readonly type: "findEdges";
+  readonly edgeIds?: readonly EdgeId[];
+  readonly edgeTypes?: readonly string[];
+  readonly sourceId?: NodeId;
+  readonly targetId?: NodeId;
+  /** Filter expression on edge properties; `hasLabel` tests the edge type */
+  readonly filter?: FilterExpression;
 }
 
 /** Find path between nodes */
@@ -85,6 +137,8 @@ export interface FindPathQuery extends BaseQuery {
   readonly targetId: NodeId;
   readonly maxLength?: number;
   readonly edgeTypes?: readonly string[];
+  /** Shortest path only (default true) */
+  readonly shortestOnly?: boolean;
 }
 
 /** Expand from a node */
@@ -103,6 +157,8 @@ export interface LegacySearchQuery extends BaseQuery {
   readonly text: string;
   readonly fields?: readonly string[];
   readonly labels?: readonly string[];
+  /** Match case exactly (default depends on the connector) */
+  readonly caseSensitive?: boolean;
 }
 
 /** Sample nodes */
@@ -120,19 +176,21 @@ export interface RawQuery extends BaseQuery {
   readonly parameters?: Record<string, unknown>;
 }
 
-/** Union of all legacy query types */
-export type LegacyQuery =
+/** Canonical query AST executed by sessions and connectors */
+export type Query =
   | GetNodeQuery
   | GetNeighborsQuery
   | FindNodesQuery
+  | FindEdgesQuery
   | FindPathQuery
   | ExpandNodeQuery
   | LegacySearchQuery
   | SampleQuery
+  | PatternQuery
   | RawQuery;
 
-// For backward compatibility, also export as Query
-export { type LegacyQuery as Query };
+/** @deprecated Use Query */
+export type LegacyQuery = Query;
 
 /** Legacy query builder for safe query construction */
 export class LegacyQueryBuilder {
@@ -180,13 +238,18 @@ export class LegacyQueryBuilder {
     labels?: string[];
     labelMode?: "any" | "all";
     filters?: PropertyFilter[];
+    filter?: FilterExpression;
   }): FindNodesQuery {
+    if (options?.filter) {
+      validateFilter(options.filter);
+    }
     return {
       type: "findNodes",
       labelFilter: options?.labels
         ? { labels: options.labels, mode: options.labelMode ?? "any" }
         : undefined,
       propertyFilters: options?.filters,
+      filter: options?.filter,
       pagination: this.pagination,
     };
   }
@@ -326,6 +389,12 @@ export function validateQuery(query: LegacyQuery): void {
         throw new ValidationError("getNeighbors requires nodeId", "nodeId");
       }
       break;
+    case "findNodes":
+    case "findEdges":
+      if (query.filter !== undefined) {
+        validateFilter(query.filter);
+      }
+      break;
     case "findPath":
       if (!query.sourceId || !query.targetId) {
         throw new ValidationError("findPath requires sourceId and targetId");
@@ -346,6 +415,9 @@ export function validateQuery(query: LegacyQuery): void {
         throw new ValidationError("sample requires positive count", "count");
       }
       break;
+    case "pattern":
+      validatePattern(query);
+      break;
     case "raw":
       if (!query.query) {
         throw new ValidationError("raw query requires query string", "query");
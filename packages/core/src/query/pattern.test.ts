@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../errors/index.js";
+
+import {
+  requiredPatternVariables,
+  validatePattern,
+  type PatternQuery,
+} from "./pattern.js";
+
+import { validateQuery } from "./index.js";
+
+/** (a:Person)-[:WORKS_AT]->(c:Company)<-[:WORKS_AT]-(b:Person) */
+const COWORKERS: PatternQuery = {
+  type: "pattern",
+  nodes: [
+    { variable: "a", labels: ["Person"] },
+    { variable: "c", labels: ["Company"] },
+    { variable: "b", labels: ["Person"] },
+  ],
+  edges: [
+    { source: "a", target: "c", types: ["WORKS_AT"] },
+    { source: "b", target: "c", types: ["WORKS_AT"] },
+  ],
+};
+
+const pattern = (
+  nodes: string[],
+  edges: PatternQuery["edges"]
+): PatternQuery => ({
+  type: "pattern",
+  nodes: nodes.map((variable) => ({ variable })),
+  edges,
+});
+
+describe("validatePattern", () => {
+  it("should accept connected patterns with optional edges", () => {
+    expect(() =>
+      validatePattern({
+        ...COWORKERS,
+        nodes: [...COWORKERS.nodes, { variable: "m" }],
+        edges: [
+          ...COWORKERS.edges!,
+          { source: "a", target: "m", types: ["MANAGES"], optional: true },
+        ],
+      })
+    ).not.toThrow();
+    expect(() => validateQuery(COWORKERS)).not.toThrow();
+  });
+
+  it("should accept a single node", () => {
+    expect(() => validatePattern(pattern(["a"], undefined))).not.toThrow();
+  });
+
+  it.each<[string, PatternQuery]>([
+    ["no nodes", pattern([], [])],
+    ["invalid variable names", pattern(["a b"], [])],
+    ["duplicate variables", pattern(["a", "a"], [])],
+    ["undeclared variables", pattern(["a"], [{ source: "a", target: "x" }])],
+    ["disconnected nodes", pattern(["a", "b"], [])],
+    [
+      "optional edges between optional nodes",
+      pattern(
+        ["a", "b", "c"],
+        [
+          { source: "a", target: "b", optional: true },
+          { source: "b", target: "c", optional: true },
+        ]
+      ),
+    ],
+    [
+      "edges away from the first node",
+      pattern(["a", "b", "c"], [{ source: "b", target: "c" }]),
+    ],
+    [
+      "invalid filters",
+      {
+        type: "pattern",
+        nodes: [{ variable: "a", filter: { op: "or", filters: [] } }],
+      },
+    ],
+  ])("should reject %s", (_name, query) => {
+    expect(() => validatePattern(query)).toThrow(ValidationError);
+  });
+});
+
+describe("requiredPatternVariables", () => {
+  it("should leave out nodes only reached through optional edges", () => {
+    const query = pattern(
+      ["a", "b", "x"],
+      [
+        { source: "a", target: "b" },
+        { source: "x", target: "a", optional: true },
+      ]
+    );
+
+    expect(requiredPatternVariables(query)).toEqual(new Set(["a", "b"]));
+  });
+
+  it("should anchor patterns of optional edges at the first node", () => {
+    const query = pattern(
+      ["a", "b"],
+      [{ source: "b", target: "a", optional: true }]
+    );
+
+    expect(() => validatePattern(query)).not.toThrow();
+    expect(requiredPatternVariables(query)).toEqual(new Set(["a"]));
+  });
+});
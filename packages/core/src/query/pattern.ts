@@ -0,0 +1,152 @@
+/**
+ * Graph pattern queries
+ * A pattern names node variables and the edges between them, e.g.
+ * (a:Person)-[:WORKS_AT]->(c:Company)<-[:WORKS_AT]-(b:Person). Optional
+ * edges match like Cypher's OPTIONAL MATCH.
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { NodeId } from "../types/index.js";
+
+import { validateFilter, type FilterExpression } from "./filter.js";
+
+import type { BaseQuery, PropertyFilter } from "./index.js";
+
+/** Node variable with its constraints */
+export interface PatternNode {
+  /** Variable name, referenced by edges */
+  readonly variable: string;
+  /** Bind the variable to this node */
+  readonly nodeId?: NodeId;
+  /** Labels the node must all have */
+  readonly labels?: readonly string[];
+  readonly propertyFilters?: readonly PropertyFilter[];
+  readonly filter?: FilterExpression;
+}
+
+/** Directed edge between two node variables */
+export interface PatternEdge {
+  readonly source: string;
+  readonly target: string;
+  /** Edge types, any of which matches (default any type) */
+  readonly types?: readonly string[];
+  readonly propertyFilters?: readonly PropertyFilter[];
+  readonly filter?: FilterExpression;
+  /** Keep matches without this edge (default false) */
+  readonly optional?: boolean;
+}
+
+/**
+ * Match a pattern; the result holds every node and edge of the matches.
+ * Within the required edges an edge matches at most once per match.
+ * Pagination counts matches.
+ */
+export interface PatternQuery extends BaseQuery {
+  readonly type: "pattern";
+  readonly nodes: readonly PatternNode[];
+  readonly edges?: readonly PatternEdge[];
+}
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Variables bound in every match: the first node, which anchors the pattern,
+ * and the nodes it reaches through required edges
+ */
+export function requiredPatternVariables(query: PatternQuery): Set<string> {
+  const first = query.nodes[0];
+  const required = new Set<string>(first ? [first.variable] : []);
+  const edges = (query.edges ?? []).filter((e) => !e.optional);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const edge of edges) {
+      if (required.has(edge.source) !== required.has(edge.target)) {
+        required.add(edge.source);
+        required.add(edge.target);
+        grew = true;
+      }
+    }
+  }
+  return required;
+}
+
+/**
+ * Validate a pattern: unique variable names, edges between declared
+ * variables, every node connected to the first, and optional edges that hang
+ * off a required node
+ */
+export function validatePattern(query: PatternQuery): void {
+  if (!Array.isArray(query.nodes) || query.nodes.length === 0) {
+    throw new ValidationError("pattern requires at least one node", "nodes");
+  }
+
+  const variables = new Set<string>();
+  query.nodes.forEach((node, idx) => {
+    const field = `nodes[${idx}]`;
+    if (
+      typeof node.variable !== "string" ||
+      !VARIABLE_NAME.test(node.variable)
+    ) {
+      throw new ValidationError(
+        `Invalid pattern variable ${JSON.stringify(node.variable)}`,
+        field
+      );
+    }
+    if (variables.has(node.variable)) {
+      throw new ValidationError(
+        `Duplicate pattern variable '${node.variable}'`,
+        field
+      );
+    }
+    variables.add(node.variable);
+    if (node.filter !== undefined) {
+      validateFilter(node.filter, `${field}.filter`);
+    }
+  });
+
+  const edges = query.edges ?? [];
+  edges.forEach((edge, idx) => {
+    for (const end of [edge.source, edge.target]) {
+      if (!variables.has(end)) {
+        throw new ValidationError(
+          `Pattern edge references undeclared variable '${end}'`,
+          `edges[${idx}]`
+        );
+      }
+    }
+    if (edge.filter !== undefined) {
+      validateFilter(edge.filter, `edges[${idx}].filter`);
+    }
+  });
+
+  const required = requiredPatternVariables(query);
+  edges.forEach((edge, idx) => {
+    const dangling = [edge.source, edge.target].filter((v) => !required.has(v));
+    if (dangling.length === 0) return;
+    if (!edge.optional) {
+      throw new ValidationError(
+        "Pattern nodes must be connected to the first node by required edges",
+        `edges[${idx}]`
+      );
+    }
+    const shared = dangling.some((v) =>
+      edges.some((e) => e !== edge && (e.source === v || e.target === v))
+    );
+    if (dangling.length === 2 || shared) {
+      throw new ValidationError(
+        "An optional edge must connect a required node to a node no other edge uses",
+        `edges[${idx}]`
+      );
+    }
+  });
+
+  const touched = new Set(edges.flatMap((e) => [e.source, e.target]));
+  query.nodes.forEach((node, idx) => {
+    if (!required.has(node.variable) && !touched.has(node.variable)) {
+      throw new ValidationError(
+        `Pattern node '${node.variable}' is not connected to the pattern`,
+        `nodes[${idx}]`
+      );
+    }
+  });
+}
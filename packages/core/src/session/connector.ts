@@ -4,7 +4,14 @@
  */
 
 import type { Query, QueryType } from "../query/index.js";
-import type { QueryResult } from "../types/index.js";
+import type {
+  ExecuteOptions,
+  ExplainOptions,
+  GraphSchema,
+  QueryExplanation,
+  QueryResult,
+  SchemaOptions,
+} from "../types/index.js";
 
 /** Connector capabilities */
 export interface ConnectorCapabilities {
@@ -13,6 +20,8 @@ export interface ConnectorCapabilities {
   readonly supportsFullTextSearch: boolean;
   readonly supportsPagination: boolean;
   readonly supportsRawQueries: boolean;
+  readonly supportsSchema: boolean;
+  readonly supportsExplain: boolean;
   readonly maxPageSize: number;
 }
 
@@ -33,6 +42,12 @@ export interface Connector {
   /** Check if connected */
   isConnected(): boolean;
 
-  /** Execute a query */
-  executeQuery(query: Query): Promise<QueryResult>;
+  /** Execute a query, cancelled by options.signal or its timeoutMs */
+  executeQuery(query: Query, options?: ExecuteOptions): Promise<QueryResult>;
+
+  /** Get schema statistics, when supportsSchema is set */
+  getSchema?(options?: SchemaOptions): Promise<GraphSchema>;
+
+  /** Explain a query without running it, when supportsExplain is set */
+  explain?(query: Query, options?: ExplainOptions): Promise<QueryExplanation>;
 }
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../errors/index.js";
+import type { GraphData } from "../types/index.js";
+
+import {
+  DuplicateIndex,
+  findDuplicates,
+  mergeDuplicates,
+  mergeNodeGroup,
+  normalizeKeyValue,
+} from "./entity-resolution.js";
+
+const DATA: GraphData = {
+  nodes: [
+    {
+      id: "a",
+      labels: ["Person"],
+      properties: { email: "Ada@Example.org", name: "Ada" },
+    },
+    {
+      id: "b",
+      labels: ["Person", "Author"],
+      properties: { email: " ada@example.org", name: "Ada Lovelace" },
+    },
+    { id: "c", labels: ["Person"], properties: { name: "Charles" } },
+    { id: "d", labels: ["Company"], properties: { email: "ada@example.org" } },
+  ],
+  edges: [
+    { id: "e1", source: "b", target: "c", type: "KNOWS", properties: {} },
+    { id: "e2", source: "a", target: "c", type: "KNOWS", properties: {} },
+    { id: "e3", source: "a", target: "b", type: "SAME_AS", properties: {} },
+    { id: "e4", source: "c", target: "b", type: "WROTE", properties: {} },
+  ],
+};
+
+describe("mergeNodeGroup", () => {
+  it("should rewire edges to the survivor and merge parallel ones", () => {
+    const merged = mergeNodeGroup(DATA, ["a", "b"]);
+
+    expect(merged.nodes.map((n) => n.id)).toEqual(["a", "c", "d"]);
+    expect(merged.nodes[0]).toEqual({
+      id: "a",
+      labels: ["Person", "Author"],
+      properties: { email: "Ada@Example.org", name: "Ada" },
+    });
+    // e1 duplicates e2 once rewired; e3 would become a self-loop
+    expect(merged.edges).toEqual([
+      { id: "e2", source: "a", target: "c", type: "KNOWS", properties: {} },
+      { id: "e4", source: "c", target: "a", type: "WROTE", properties: {} },
+    ]);
+  });
+
+  it("should resolve conflicting properties by the policy", () => {
+    const collect = mergeNodeGroup(DATA, ["a", "b"], {
+      survivor: "b",
+      onConflict: "collect",
+    });
+    expect(collect.nodes.find((n) => n.id === "b")?.properties).toEqual({
+      email: [" ada@example.org", "Ada@Example.org"],
+      name: ["Ada Lovelace", "Ada"],
+    });
+
+    const custom = mergeNodeGroup(DATA, ["a", "b"], {
+      onConflict: (key, values) => (key === "name" ? values.join(" / ") : 0),
+    });
+    expect(custom.nodes[0]?.properties["name"]).toBe("Ada / Ada Lovelace");
+  });
+
+  it("should reject unknown nodes and survivors outside the group", () => {
+    expect(() => mergeNodeGroup(DATA, ["a", "x"])).toThrow(ValidationError);
+    expect(() => mergeNodeGroup(DATA, ["a"])).toThrow(ValidationError);
+    expect(() => mergeNodeGroup(DATA, ["a", "b"], { survivor: "c" })).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe("findDuplicates", () => {
+  it("should group nodes with equal normalized key properties", () => {
+    expect(
+      findDuplicates(DATA, [{ label: "Person", keys: ["email"] }])
+    ).toEqual([["a", "b"]]);
+    expect(
+      findDuplicates(DATA, [{ keys: ["email"], normalize: false }])
+    ).toEqual([]);
+  });
+
+  it("should join groups matched by different rules", () => {
+    const groups = findDuplicates(DATA, [
+      { label: "Person", keys: ["email"] },
+      { keys: ["email"] },
+    ]);
+
+    expect(groups).toEqual([["a", "b", "d"]]);
+    expect(mergeDuplicates(DATA, [{ keys: ["email"] }]).nodes).toHaveLength(2);
+  });
+
+  it("should normalize case, accents and whitespace", () => {
+    expect(normalizeKeyValue("  Zoë\tMÜLLER ")).toBe("zoe muller");
+  });
+});
+
+describe("DuplicateIndex", () => {
+  it("should group incoming nodes with their indexed duplicates", () => {
+    const [a, b, c, d] = DATA.nodes;
+    const index = new DuplicateIndex([
+      { label: "Person", keys: ["email"] },
+      { keys: ["email"] },
+    ]);
+    index.set(d!);
+    index.set(c!);
+
+    expect(index.groupsOf([b!, a!])).toEqual([["d", "b", "a"]]);
+    expect(index.groupsOf([c!])).toEqual([]);
+
+    index.delete("d");
+    expect(index.groupsOf([b!])).toEqual([]);
+  });
+
+  it("should match indexed nodes by their incoming keys", () => {
+    const [a, b] = DATA.nodes;
+    const index = new DuplicateIndex([{ keys: ["email"] }]);
+    index.set(a!);
+    index.set({ ...b!, properties: {} });
+
+    expect(index.groupsOf([b!])).toEqual([["a", "b"]]);
+    expect(index.groupsOf([{ ...a!, properties: {} }])).toEqual([]);
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Entity resolution
+ * Merges nodes that stand for the same entity into one surviving node, and
+ * finds such duplicates by rules on key properties.
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type {
+  GraphData,
+  GraphEdge,
+  GraphNode,
+  NodeId,
+  Properties,
+  PropertyValue,
+} from "../types/index.js";
+
+import { elementSources } from "./federation.js";
+
+/**
+ * What to keep when merged nodes hold different values for a property:
+ * - `keepSurvivor`: the surviving node's value, else the first merged node's
+ * - `keepLast`: the last merged node's value
+ * - `collect`: an array of the distinct values
+ */
+export type PropertyConflictPolicy = "keepSurvivor" | "keepLast" | "collect";
+
+/** Resolves the conflicting values of a property, survivor's value first */
+export type PropertyConflictResolver = (
+  key: string,
+  values: readonly PropertyValue[]
+) => PropertyValue;
+
+/** How nodes are merged */
+export interface MergeStrategy {
+  /** Node that remains (default the first ID) */
+  readonly survivor?: NodeId;
+  /** Conflicting property values (default "keepSurvivor") */
+  readonly onConflict?: PropertyConflictPolicy | PropertyConflictResolver;
+}
+
+/** Nodes whose key properties are all equal are duplicates */
+export interface DuplicateRule {
+  /** Only compare nodes with this label (default every node) */
+  readonly label?: string;
+  /** Properties that together identify an entity */
+  readonly keys: readonly string[];
+  /**
+   * Compare strings trimmed, with whitespace collapsed, ignoring case and
+   * accents (default true)
+   */
+  readonly normalize?: boolean;
+}
+
+/** Duplicate detection and merging for a session */
+export interface EntityResolutionOptions {
+  readonly rules: readonly DuplicateRule[];
+  /** Merge the duplicates of the nodes each query returns (default false) */
+  readonly auto?: boolean;
+  /** Conflicting property values of merged duplicates */
+  readonly onConflict?: MergeStrategy["onConflict"];
+}
+
+/**
+ * Merge nodes into the survivor. Edges of the other nodes are rewired to the
+ * survivor; edges that only connected the merged nodes are dropped, and a
+ * rewired edge that duplicates one of the survivor's (same type and
+ * endpoints) is merged into it.
+ */
+export function mergeNodeGroup(
+  data: GraphData,
+  ids: readonly NodeId[],
+  strategy: MergeStrategy = {}
+): GraphData {
+  const unique = [...new Set(ids)];
+  if (unique.length < 2) {
+    throw new ValidationError("At least two nodes are needed to merge", "ids");
+  }
+
+  const survivorId = strategy.survivor ?? unique[0];
+  if (survivorId === undefined || !unique.includes(survivorId)) {
+    throw new ValidationError(
+      "The survivor must be one of the merged nodes",
+      "survivor"
+    );
+  }
+
+  const nodeMap = new Map(data.nodes.map((n) => [n.id, n]));
+  const merged = [survivorId, ...unique.filter((id) => id !== survivorId)].map(
+    (id) => {
+      const node = nodeMap.get(id);
+      if (!node) {
+        throw new ValidationError(`Node '${id}' is not in the graph`, "ids");
+      }
+      return node;
+    }
+  );
+
+  const survivor = mergedNode(merged, strategy);
+  const removed = new Set(unique.filter((id) => id !== survivorId));
+
+  return {
+    nodes: data.nodes
+      .filter((n) => !removed.has(n.id))
+      .map((n) => (n.id === survivorId ? survivor : n)),
+    edges: rewireEdges(data.edges, survivorId, removed, strategy),
+  };
+}
+
+/**
+ * Groups of duplicate nodes by the rules, in graph order. Nodes matched by
+ * different rules through a shared node are one group.
+ */
+export function findDuplicates(
+  data: GraphData,
+  rules: readonly DuplicateRule[]
+): NodeId[][] {
+  const parent = new Map<NodeId, NodeId>();
+  const root = (id: NodeId): NodeId => {
+    let current = id;
+    for (;;) {
+      const next = parent.get(current);
+      if (next === undefined || next === current) return current;
+      current = next;
+    }
+  };
+
+  rules.forEach((rule, index) => {
+    const firstByKey = new Map<string, NodeId>();
+    for (const node of data.nodes) {
+      const key = duplicateKey(node, rule, index);
+      if (key === null) continue;
+
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, node.id);
+      } else if (root(first) !== root(node.id)) {
+        parent.set(root(node.id), root(first));
+      }
+    }
+  });
+
+  const groups = new Map<NodeId, NodeId[]>();
+  for (const node of data.nodes) {
+    const group = groups.get(root(node.id)) ?? [];
+    group.push(node.id);
+    groups.set(root(node.id), group);
+  }
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Merge every group of duplicates found by the rules into its first node
+ */
+export function mergeDuplicates(
+  data: GraphData,
+  rules: readonly DuplicateRule[],
+  onConflict?: MergeStrategy["onConflict"]
+): GraphData {
+  return findDuplicates(data, rules).reduce(
+    (merged, group) => mergeNodeGroup(merged, group, { onConflict }),
+    data
+  );
+}
+
+/**
+ * Nodes by their keys under duplicate rules, kept in step with a graph's
+ * changes, so the duplicates of a few nodes are found without comparing
+ * every node in the graph
+ */
+export class DuplicateIndex {
+  private readonly nodesByKey = new Map<string, Set<NodeId>>();
+  private readonly keysByNode = new Map<NodeId, readonly string[]>();
+  /** When each node was first indexed; earlier nodes survive merges */
+  private readonly order = new Map<NodeId, number>();
+  private clock = 0;
+
+  constructor(private readonly rules: readonly DuplicateRule[]) {}
+
+  /** Index a node, or reindex it under its current keys */
+  set(node: GraphNode): void {
+    this.unindex(node.id);
+    if (!this.order.has(node.id)) this.order.set(node.id, ++this.clock);
+
+    const keys = this.keysOf(node);
+    this.keysByNode.set(node.id, keys);
+    for (const key of keys) {
+      const ids = this.nodesByKey.get(key) ?? new Set<NodeId>();
+      ids.add(node.id);
+      this.nodesByKey.set(key, ids);
+    }
+  }
+
+  delete(nodeId: NodeId): void {
+    this.unindex(nodeId);
+    this.order.delete(nodeId);
+  }
+
+  clear(): void {
+    this.nodesByKey.clear();
+    this.keysByNode.clear();
+    this.order.clear();
+  }
+
+  /**
+   * Groups of duplicates that include any of `nodes`, which may be new or
+   * changed since they were indexed. Each group lists indexed nodes first,
+   * in the order they were indexed, then new ones in the order given.
+   */
+  groupsOf(nodes: readonly GraphNode[]): NodeId[][] {
+    const incoming = new Map(nodes.map((n) => [n.id, n]));
+    const keysOf = (id: NodeId): readonly string[] => {
+      const node = incoming.get(id);
+      return node ? this.keysOf(node) : (this.keysByNode.get(id) ?? []);
+    };
+    const incomingByKey = new Map<string, NodeId[]>();
+    for (const id of incoming.keys()) {
+      for (const key of keysOf(id)) {
+        incomingByKey.set(key, [...(incomingByKey.get(key) ?? []), id]);
+      }
+    }
+    const position = new Map([...incoming.keys()].map((id, i) => [id, i]));
+    const rank = (id: NodeId): number =>
+      this.order.get(id) ?? this.clock + 1 + (position.get(id) ?? 0);
+
+    const grouped = new Set<NodeId>();
+    const groups: NodeId[][] = [];
+    for (const id of incoming.keys()) {
+      if (grouped.has(id)) continue;
+      grouped.add(id);
+
+      const group = [id];
+      for (let i = 0; i < group.length; i++) {
+        for (const key of keysOf(group[i]!)) {
+          // Index entries of incoming nodes may be out of date
+          const indexed = [...(this.nodesByKey.get(key) ?? [])].filter(
+            (other) => !incoming.has(other)
+          );
+          for (const other of [...indexed, ...(incomingByKey.get(key) ?? [])]) {
+            if (!grouped.has(other)) {
+              grouped.add(other);
+              group.push(other);
+            }
+          }
+        }
+      }
+
+      if (group.length > 1) {
+        groups.push(group.sort((a, b) => rank(a) - rank(b)));
+      }
+    }
+    return groups;
+  }
+
+  private keysOf(node: GraphNode): string[] {
+    return this.rules.flatMap((rule, index) => {
+      const key = duplicateKey(node, rule, index);
+      return key === null ? [] : [key];
+    });
+  }
+
+  private unindex(nodeId: NodeId): void {
+    for (const key of this.keysByNode.get(nodeId) ?? []) {
+      const ids = this.nodesByKey.get(key);
+      ids?.delete(nodeId);
+      if (ids?.size === 0) this.nodesByKey.delete(key);
+    }
+    this.keysByNode.delete(nodeId);
+  }
+}
+
+/** Normalized form of a string key value */
+export function normalizeKeyValue(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+/** Key of a node under a rule, null when the rule does not apply */
+function duplicateKey(
+  node: GraphNode,
+  rule: DuplicateRule,
+  index: number
+): string | null {
+  if (rule.keys.length === 0) return null;
+  if (rule.label !== undefined && !node.labels.includes(rule.label)) {
+    return null;
+  }
+
+  const values: PropertyValue[] = [];
+  for (const key of rule.keys) {
+    const value = node.properties[key];
+    if (value === undefined || value === null || value === "") return null;
+    values.push(
+      typeof value === "string" && rule.normalize !== false
+        ? normalizeKeyValue(value)
+        : value
+    );
+  }
+  return JSON.stringify([index, values]);
+}
+
+/** Survivor (first node) with the labels and properties of every node */
+function mergedNode(
+  nodes: readonly GraphNode[],
+  strategy: MergeStrategy
+): GraphNode {
+  const [survivor] = nodes;
+  if (!survivor) throw new ValidationError("No nodes to merge", "ids");
+
+  const sources = [...new Set(nodes.flatMap(elementSources))];
+  return {
+    ...survivor,
+    labels: [...new Set(nodes.flatMap((n) => n.labels))],
+    properties: mergeProperties(
+      nodes.map((n) => n.properties),
+      strategy
+    ),
+    ...(sources.length > 0 && { metadata: { ...survivor.metadata, sources } }),
+  };
+}
+
+/** Properties of several elements, first element's first */
+function mergeProperties(
+  all: readonly Properties[],
+  strategy: MergeStrategy
+): Properties {
+  const keys = [...new Set(all.flatMap((p) => Object.keys(p)))];
+  const merged: Properties = {};
+
+  for (const key of keys) {
+    const values = all.flatMap((p) => (key in p ? [p[key] ?? null] : []));
+    const distinct = distinctValues(values);
+    const [first] = distinct;
+    if (first === undefined) continue;
+    merged[key] =
+      distinct.length === 1 ? first : resolveConflict(key, values, strategy);
+  }
+  return merged;
+}
+
+function resolveConflict(
+  key: string,
+  values: readonly PropertyValue[],
+  strategy: MergeStrategy
+): PropertyValue {
+  const policy = strategy.onConflict ?? "keepSurvivor";
+  if (typeof policy === "function") return policy(key, values);
+
+  switch (policy) {
+    case "keepSurvivor":
+      return values[0] ?? null;
+    case "keepLast":
+      return values[values.length - 1] ?? null;
+    case "collect":
+      return distinctValues(
+        values.flatMap((v) => (Array.isArray(v) ? v : [v]))
+      );
+  }
+}
+
+function distinctValues(values: readonly PropertyValue[]): PropertyValue[] {
+  const seen = new Map<string, PropertyValue>();
+  for (const value of values) {
+    const key = JSON.stringify(value);
+    if (!seen.has(key)) seen.set(key, value);
+  }
+  return [...seen.values()];
+}
+
+/** Edges with the removed nodes replaced by the survivor */
+function rewireEdges(
+  edges: readonly GraphEdge[],
+  survivorId: NodeId,
+  removed: ReadonlySet<NodeId>,
+  strategy: MergeStrategy
+): GraphEdge[] {
+  const endpoint = (id: NodeId): NodeId => (removed.has(id) ? survivorId : id);
+  const parallelKey = (edge: GraphEdge): string =>
+    JSON.stringify([edge.type, edge.source, edge.target]);
+
+  // The survivor's own edges, which rewired duplicates are merged into
+  const kept = new Map<string, GraphEdge>();
+  for (const edge of edges) {
+    if (
+      !removed.has(edge.source) &&
+      !removed.has(edge.target) &&
+      (edge.source === survivorId || edge.target === survivorId)
+    ) {
+      kept.set(parallelKey(edge), edge);
+    }
+  }
+
+  const result = new Map<string, GraphEdge>();
+  for (const edge of edges) {
+    if (!removed.has(edge.source) && !removed.has(edge.target)) {
+      // Keep a parallel edge that rewired edges were already merged into
+      result.set(edge.id, result.get(edge.id) ?? edge);
+      continue;
+    }
+
+    const rewired = {
+      ...edge,
+      source: endpoint(edge.source),
+      target: endpoint(edge.target),
+    };
+    // Edges between merged nodes would become self-loops
+    if (rewired.source === rewired.target && edge.source !== edge.target) {
+      continue;
+    }
+
+    const key = parallelKey(rewired);
+    const parallel = kept.get(key);
+    if (!parallel) {
+      kept.set(key, rewired);
+      result.set(rewired.id, rewired);
+      continue;
+    }
+
+    const combined = {
+      ...parallel,
+      properties: mergeProperties(
+        [parallel.properties, rewired.properties],
+        strategy
+      ),
+    };
+    kept.set(key, combined);
+    result.set(parallel.id, combined);
+  }
+  return [...result.values()];
+}
@@ -0,0 +1,110 @@
+/**
+ * Session events
+ * Typed subscriptions, so renderers and other views can follow a session's
+ * changes patch by patch instead of redrawing its data.
+ */
+
+import type { Logger } from "../logger/index.js";
+import { noopLogger } from "../logger/index.js";
+import type { GraphPatch } from "../patch/index.js";
+import type { Query } from "../query/index.js";
+import type { NodeId, QueryResult } from "../types/index.js";
+
+/** A query was issued */
+export interface QueryStartEvent {
+  readonly queryId: string;
+  readonly query: Query;
+}
+
+/** A query finished, from the cache, the connectors or with an error */
+export interface QueryEndEvent {
+  readonly queryId: string;
+  readonly query: Query;
+  readonly durationMs: number;
+  /** Null when the query failed */
+  readonly result: QueryResult | null;
+  readonly error: Error | null;
+  readonly cached: boolean;
+}
+
+/** A session limit was reached or approached */
+export interface LimitEvent {
+  readonly limitType: string;
+  readonly currentValue: number;
+  readonly maxValue: number;
+  /** Nodes evicted to stay within the limit, under an eviction policy */
+  readonly evicted?: readonly NodeId[];
+}
+
+/** A source was attached or detached */
+export interface SourceEvent {
+  readonly source: string;
+  readonly connectorType: string;
+}
+
+/** Session events and their payloads */
+export interface SessionEventMap {
+  /** A change to the session's data, from a query, edit, undo or redo */
+  patch: GraphPatch;
+  "query:start": QueryStartEvent;
+  "query:end": QueryEndEvent;
+  limit: LimitEvent;
+  /** A value reached the warning threshold of its limit */
+  "limit:warning": LimitEvent;
+  connect: SourceEvent;
+  disconnect: SourceEvent;
+}
+
+export type SessionEventType = keyof SessionEventMap;
+
+export type SessionEventHandler<K extends SessionEventType> = (
+  event: SessionEventMap[K]
+) => void;
+
+/** Handlers by event type. A failing handler is logged, not rethrown. */
+export class SessionEvents {
+  private readonly handlers = new Map<
+    SessionEventType,
+    Set<(event: never) => void>
+  >();
+
+  constructor(private readonly logger: Logger = noopLogger) {}
+
+  /** Subscribe to an event; returns a function that unsubscribes */
+  on<K extends SessionEventType>(
+    type: K,
+    handler: SessionEventHandler<K>
+  ): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => this.off(type, handler);
+  }
+
+  off<K extends SessionEventType>(
+    type: K,
+    handler: SessionEventHandler<K>
+  ): void {
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  emit<K extends SessionEventType>(type: K, event: SessionEventMap[K]): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    // Handlers added or removed by a handler apply from the next event
+    for (const handler of [...handlers]) {
+      try {
+        (handler as SessionEventHandler<K>)(event);
+      } catch (error) {
+        this.logger.error("Session event handler failed", {
+          event: type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Eviction at the node limit
+ * Chooses the nodes to remove so that a result that would exceed the
+ * session's node limit can be merged, instead of failing its query.
+ */
+
+import type { GraphStore } from "../store/index.js";
+import type { NodeId } from "../types/index.js";
+
+/**
+ * Which nodes are evicted first:
+ * - `leastRecentlyTouched`: those least recently added, changed, returned by
+ *   a query or touched with `touchNodes`
+ * - `lowestDegree`: those with the fewest edges, leaves first
+ * - `farthestFromFocus`: those farthest from the focus nodes, unconnected
+ *   ones first
+ *
+ * Ties are broken by least recent touch. Pinned nodes are never evicted.
+ */
+export type EvictionPolicy =
+  | "leastRecentlyTouched"
+  | "lowestDegree"
+  | "farthestFromFocus";
+
+/** Eviction for a session */
+export interface EvictionOptions {
+  readonly policy: EvictionPolicy;
+}
+
+/** What the policies rank nodes by */
+export interface EvictionContext {
+  /** When each node was last touched; higher is more recent */
+  readonly touched: ReadonlyMap<NodeId, number>;
+  /** Nodes that farthestFromFocus measures from */
+  readonly focus: readonly NodeId[];
+  /** Nodes that must stay, such as those of the result being admitted */
+  readonly keep: ReadonlySet<NodeId>;
+}
+
+/**
+ * Up to `count` nodes to evict, first to go first. Fewer are returned when
+ * fewer nodes can be evicted.
+ */
+export function selectEvictions(
+  store: GraphStore,
+  count: number,
+  policy: EvictionPolicy,
+  context: EvictionContext
+): NodeId[] {
+  if (count <= 0) return [];
+
+  const candidates = store
+    .getData()
+    .nodes.filter((n) => !n.view?.pinned && !context.keep.has(n.id))
+    .map((n) => n.id);
+  const touched = (id: NodeId): number => context.touched.get(id) ?? 0;
+
+  let rank: (id: NodeId) => number;
+  switch (policy) {
+    case "leastRecentlyTouched":
+      rank = () => 0;
+      break;
+    case "lowestDegree":
+      rank = (id) => store.getEdgesForNode(id).length;
+      break;
+    case "farthestFromFocus": {
+      const distances = distancesFrom(store, context.focus);
+      rank = (id) => -(distances.get(id) ?? Infinity);
+      break;
+    }
+  }
+
+  return candidates
+    .sort((a, b) => rank(a) - rank(b) || touched(a) - touched(b))
+    .slice(0, count);
+}
+
+/** Hops from the nearest of `sources` to every node connected to them */
+function distancesFrom(
+  store: GraphStore,
+  sources: readonly NodeId[]
+): Map<NodeId, number> {
+  const distances = new Map<NodeId, number>();
+  let frontier = sources.filter((id) => store.hasNode(id));
+  for (const id of frontier) distances.set(id, 0);
+
+  for (let distance = 1; frontier.length > 0; distance++) {
+    const next: NodeId[] = [];
+    for (const id of frontier) {
+      for (const edge of store.getEdgesForNode(id)) {
+        const neighbor = edge.source === id ? edge.target : edge.source;
+        if (!distances.has(neighbor) && store.hasNode(neighbor)) {
+          distances.set(neighbor, distance);
+          next.push(neighbor);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return distances;
+}
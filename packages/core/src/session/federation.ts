@@ -0,0 +1,257 @@
+/**
+ * Federation
+ * Helpers for sessions that query several named connectors (sources): mapping
+ * source IDs to session IDs, tagging elements with their source, and
+ * combining the results of a query fanned out to several sources.
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { Query } from "../query/index.js";
+import type {
+  EdgeId,
+  GraphData,
+  GraphEdge,
+  GraphNode,
+  NodeId,
+  QueryResult,
+} from "../types/index.js";
+
+/**
+ * Maps the ID of a node or edge in a source to its ID in the session.
+ * Elements from different sources mapped to the same ID are merged into one.
+ */
+export type IdResolver = (
+  id: string,
+  source: string,
+  kind: "node" | "edge"
+) => string;
+
+/** Keeps source IDs as session IDs */
+export const identityIdResolver: IdResolver = (id) => id;
+
+/** Session IDs that differ from the source's own IDs, per source */
+export interface SourceIdMap {
+  readonly nodes: Map<NodeId, NodeId>;
+  readonly edges: Map<EdgeId, EdgeId>;
+}
+
+/** Result of one source for a fanned-out query */
+export interface SourceResult {
+  readonly source: string;
+  readonly result: QueryResult;
+}
+
+/**
+ * Map source data to session IDs and tag every element with its source.
+ * Session IDs that differ from the source's IDs are recorded in `ids`.
+ */
+export function tagSourceData(
+  data: GraphData,
+  source: string,
+  resolveId: IdResolver,
+  ids: SourceIdMap
+): GraphData {
+  const nodeId = (id: NodeId): NodeId => {
+    const mapped = resolveId(id, source, "node");
+    if (mapped !== id) ids.nodes.set(mapped, id);
+    return mapped;
+  };
+  const edgeId = (id: EdgeId): EdgeId => {
+    const mapped = resolveId(id, source, "edge");
+    if (mapped !== id) ids.edges.set(mapped, id);
+    return mapped;
+  };
+  const metadata = { source, sources: [source] };
+
+  return {
+    nodes: data.nodes.map((node) => ({
+      ...node,
+      id: nodeId(node.id),
+      metadata: { ...node.metadata, ...metadata },
+    })),
+    edges: data.edges.map((edge) => ({
+      ...edge,
+      id: edgeId(edge.id),
+      source: nodeId(edge.source),
+      target: nodeId(edge.target),
+      metadata: { ...edge.metadata, ...metadata },
+    })),
+  };
+}
+
+/** Sources an element was merged from */
+export function elementSources(element: GraphNode | GraphEdge): string[] {
+  const sources = element.metadata?.["sources"];
+  if (Array.isArray(sources)) {
+    return sources.filter((s): s is string => typeof s === "string");
+  }
+  const source = element.metadata?.source;
+  return source === undefined ? [] : [source];
+}
+
+/**
+ * Combine a node with the node of the same ID from other sources: labels and
+ * sources are united and incoming properties win. A node refetched from all
+ * of its sources replaces the existing one.
+ */
+export function combineNode(
+  existing: GraphNode,
+  incoming: GraphNode
+): GraphNode {
+  const sources = combinedSources(existing, incoming);
+  if (!sources) return incoming;
+
+  return {
+    ...existing,
+    ...incoming,
+    labels: [...new Set([...existing.labels, ...incoming.labels])],
+    properties: { ...existing.properties, ...incoming.properties },
+    metadata: { ...existing.metadata, ...incoming.metadata, ...sources },
+  };
+}
+
+/** Combine an edge with the edge of the same ID from other sources */
+export function combineEdge(
+  existing: GraphEdge,
+  incoming: GraphEdge
+): GraphEdge {
+  const sources = combinedSources(existing, incoming);
+  if (!sources) return incoming;
+
+  return {
+    ...existing,
+    ...incoming,
+    properties: { ...existing.properties, ...incoming.properties },
+    metadata: { ...existing.metadata, ...incoming.metadata, ...sources },
+  };
+}
+
+/**
+ * Combine the results of a query fanned out to several sources. The cursor
+ * holds the cursor of each source that has more pages.
+ */
+export function combineResults(results: readonly SourceResult[]): QueryResult {
+  const nodes = new Map<NodeId, GraphNode>();
+  const edges = new Map<EdgeId, GraphEdge>();
+  const cursors: Record<string, string> = {};
+
+  for (const { source, result } of results) {
+    for (const node of result.data.nodes) {
+      const existing = nodes.get(node.id);
+      nodes.set(node.id, existing ? combineNode(existing, node) : node);
+    }
+    for (const edge of result.data.edges) {
+      const existing = edges.get(edge.id);
+      edges.set(edge.id, existing ? combineEdge(existing, edge) : edge);
+    }
+    if (result.metadata.cursor !== null) {
+      cursors[source] = result.metadata.cursor;
+    }
+  }
+
+  const totals = results.map((r) => r.result.metadata.totalAvailable);
+  return {
+    data: { nodes: [...nodes.values()], edges: [...edges.values()] },
+    metadata: {
+      executionTimeMs: Math.max(
+        0,
+        ...results.map((r) => r.result.metadata.executionTimeMs)
+      ),
+      totalAvailable: totals.every((t) => t !== null)
+        ? totals.reduce((sum, t) => sum + t, 0)
+        : null,
+      truncated: results.some((r) => r.result.metadata.truncated),
+      cursor: Object.keys(cursors).length > 0 ? JSON.stringify(cursors) : null,
+    },
+  };
+}
+
+/** Cursor of each source in a cursor returned by combineResults */
+export function sourceCursors(cursor: string): Map<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cursor);
+  } catch {
+    parsed = null;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ValidationError("Invalid cursor for a federated query", "cursor");
+  }
+
+  const cursors = new Map<string, string>();
+  for (const [source, value] of Object.entries(parsed)) {
+    if (typeof value !== "string") {
+      throw new ValidationError(
+        "Invalid cursor for a federated query",
+        "cursor"
+      );
+    }
+    cursors.set(source, value);
+  }
+  return cursors;
+}
+
+/** Query with session IDs replaced by a source's own IDs */
+export function toSourceQuery(query: Query, ids: SourceIdMap): Query {
+  if (ids.nodes.size === 0 && ids.edges.size === 0) return query;
+
+  const node = (id: NodeId): NodeId => ids.nodes.get(id) ?? id;
+  const edge = (id: EdgeId): EdgeId => ids.edges.get(id) ?? id;
+
+  switch (query.type) {
+    case "getNode":
+    case "getNeighbors":
+    case "expandNode":
+      return { ...query, nodeId: node(query.nodeId) };
+    case "findNodes":
+      return query.nodeIds
+        ? { ...query, nodeIds: query.nodeIds.map(node) }
+        : query;
+    case "findEdges":
+      return {
+        ...query,
+        ...(query.edgeIds && { edgeIds: query.edgeIds.map(edge) }),
+        ...(query.sourceId !== undefined && {
+          sourceId: node(query.sourceId),
+        }),
+        ...(query.targetId !== undefined && {
+          targetId: node(query.targetId),
+        }),
+      };
+    case "findPath":
+      return {
+        ...query,
+        sourceId: node(query.sourceId),
+        targetId: node(query.targetId),
+      };
+    case "sample":
+      return query.startNodeId === undefined
+        ? query
+        : { ...query, startNodeId: node(query.startNodeId) };
+    case "pattern":
+      return {
+        ...query,
+        nodes: query.nodes.map((n) =>
+          n.nodeId === undefined ? n : { ...n, nodeId: node(n.nodeId) }
+        ),
+      };
+    default:
+      return query;
+  }
+}
+
+/** Source metadata of two combined elements, null when incoming replaces */
+function combinedSources(
+  existing: GraphNode | GraphEdge,
+  incoming: GraphNode | GraphEdge
+): { source?: string; sources: string[] } | null {
+  const incomingSources = elementSources(incoming);
+  const existingSources = elementSources(existing);
+  if (existingSources.every((s) => incomingSources.includes(s))) return null;
+
+  const source = existing.metadata?.source;
+  return {
+    ...(source !== undefined && { source }),
+    sources: [...new Set([...existingSources, ...incomingSources])],
+  };
+}
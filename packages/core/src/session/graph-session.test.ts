@@ -0,0 +1,1071 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  LimitExceededError,
+  QueryCancelledError,
+  QueryNotSupportedError,
+  QueryTimeoutError,
+  ValidationError,
+} from "../errors/index.js";
+import type { GraphPatch } from "../patch/index.js";
+import { applyPatch, getPatchSummary } from "../patch/index.js";
+import { QueryBuilder, type Query } from "../query/index.js";
+import { GraphStore } from "../store/index.js";
+import type {
+  ExecuteOptions,
+  GraphData,
+  GraphNode,
+  GraphSchema,
+  QueryExplanation,
+  QueryResult,
+} from "../types/index.js";
+
+import type { Connector } from "./connector.js";
+
+import {
+  GraphSession,
+  collapsedMembers,
+  isNodeVisible,
+  selectEvictions,
+} from "./index.js";
+
+const NODES: GraphNode[] = Array.from({ length: 25 }, (_, i) => ({
+  id: `n${i}`,
+  labels: ["Person"],
+  properties: {},
+}));
+
+/** Serves findNodes in pages, using the next offset as the cursor */
+class PagedConnector implements Connector {
+  readonly queries: Query[] = [];
+
+  getId(): string {
+    return "paged";
+  }
+
+  getCapabilities(): ReturnType<Connector["getCapabilities"]> {
+    return {
+      connectorType: "paged",
+      supportedQueryTypes: ["findNodes"],
+      supportsFullTextSearch: false,
+      supportsPagination: true,
+      supportsRawQueries: false,
+      supportsSchema: false,
+      supportsExplain: false,
+      maxPageSize: 10,
+    };
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  async executeQuery(query: Query): Promise<QueryResult> {
+    this.queries.push(query);
+    const offset = Number(query.pagination?.cursor ?? 0);
+    const limit = query.pagination?.limit ?? 10;
+    const nodes = NODES.slice(offset, offset + limit);
+    const next = offset + nodes.length;
+
+    return {
+      data: { nodes, edges: [] },
+      metadata: {
+        executionTimeMs: 0,
+        totalAvailable: NODES.length,
+        truncated: next < NODES.length,
+        cursor: next < NODES.length ? String(next) : null,
+      },
+    };
+  }
+}
+
+/** Answers every query with the same data */
+class FixedConnector extends PagedConnector {
+  constructor(private readonly data: GraphData) {
+    super();
+  }
+
+  async executeQuery(query: Query): Promise<QueryResult> {
+    this.queries.push(query);
+    return {
+      data: this.data,
+      metadata: {
+        executionTimeMs: 0,
+        totalAvailable: this.data.nodes.length,
+        truncated: false,
+        cursor: null,
+      },
+    };
+  }
+}
+
+describe("GraphSession pagination", () => {
+  let connector: PagedConnector;
+
+  beforeEach(() => {
+    connector = new PagedConnector();
+  });
+
+  it("should fetch the next page of the same query and merge it", async () => {
+    const session = new GraphSession();
+    await session.connect(connector);
+
+    const first = await session.executeQuery({
+      type: "findNodes",
+      labelFilter: { labels: ["Person"], mode: "any" },
+      pagination: { limit: 10 },
+    });
+    const second = await session.fetchNextPage(first);
+
+    expect(connector.queries[1]).toEqual({
+      type: "findNodes",
+      labelFilter: { labels: ["Person"], mode: "any" },
+      pagination: { limit: 10, cursor: "10" },
+    });
+    expect(second?.data.nodes[0]?.id).toBe("n10");
+    expect(session.getState().nodeCount).toBe(20);
+  });
+
+  it("should iterate pages until the connector has no more", async () => {
+    const session = new GraphSession();
+    await session.connect(connector);
+
+    const sizes: number[] = [];
+    for await (const page of session.pages({
+      type: "findNodes",
+      pagination: { limit: 10 },
+    })) {
+      sizes.push(page.data.nodes.length);
+    }
+
+    expect(sizes).toEqual([10, 10, 5]);
+    expect(session.getState().nodeCount).toBe(25);
+  });
+
+  it("should stop cleanly at the node limit", async () => {
+    const session = new GraphSession({ config: { maxNodes: 15 } });
+    await session.connect(connector);
+
+    const pages: QueryResult[] = [];
+    for await (const page of session.pages({
+      type: "findNodes",
+      pagination: { limit: 10 },
+    })) {
+      pages.push(page);
+    }
+
+    // The second page shrinks to the remaining budget, then pagination stops
+    expect(pages.map((p) => p.data.nodes.length)).toEqual([10, 5]);
+    expect(session.getState().nodeCount).toBe(15);
+  });
+
+  it("should execute fluent queries in canonical form", async () => {
+    const session = new GraphSession();
+    await session.connect(connector);
+
+    const first = await session.executeQuery(
+      QueryBuilder.nodes().withLabels(["Person"]).limit(10).build()
+    );
+    await session.fetchNextPage(first);
+
+    expect(connector.queries).toEqual([
+      {
+        type: "findNodes",
+        labelFilter: { labels: ["Person"], mode: "any" },
+        pagination: { limit: 10, offset: 0 },
+      },
+      {
+        type: "findNodes",
+        labelFilter: { labels: ["Person"], mode: "any" },
+        pagination: { limit: 10, cursor: "10" },
+      },
+    ]);
+  });
+
+  it("should reject results from another session", async () => {
+    const session = new GraphSession();
+    await session.connect(connector);
+    const result = await connector.executeQuery({ type: "findNodes" });
+
+    await expect(session.fetchNextPage(result)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+});
+
+describe("GraphSession schema", () => {
+  const SCHEMA: GraphSchema = {
+    nodeCount: 25,
+    edgeCount: 0,
+    labels: [{ label: "Person", count: 25 }],
+    edgeTypes: [],
+    connectivity: [],
+    properties: [],
+  };
+
+  /** Answers getSchema without touching session state */
+  class SchemaConnector extends PagedConnector {
+    getCapabilities(): ReturnType<Connector["getCapabilities"]> {
+      return { ...super.getCapabilities(), supportsSchema: true };
+    }
+
+    async getSchema(): Promise<GraphSchema> {
+      return SCHEMA;
+    }
+  }
+
+  it("should return the connector's schema without merging data", async () => {
+    const session = new GraphSession();
+    await session.connect(new SchemaConnector());
+
+    expect(await session.getSchema()).toEqual(SCHEMA);
+    expect(session.getState().nodeCount).toBe(0);
+  });
+
+  it("should reject connectors without schema support", async () => {
+    const session = new GraphSession();
+    await session.connect(new PagedConnector());
+
+    await expect(session.getSchema()).rejects.toBeInstanceOf(
+      QueryNotSupportedError
+    );
+  });
+});
+
+describe("GraphSession explain", () => {
+  /** Explains findNodes as a single statement */
+  class ExplainConnector extends PagedConnector {
+    getCapabilities(): ReturnType<Connector["getCapabilities"]> {
+      return { ...super.getCapabilities(), supportsExplain: true };
+    }
+
+    async explain(query: Query): Promise<QueryExplanation> {
+      return {
+        connectorType: "paged",
+        queryType: query.type,
+        statements: [
+          {
+            language: "cypher",
+            text: "MATCH (n:Person) RETURN n LIMIT $limit",
+            parameters: { limit: query.pagination?.limit ?? 10 },
+            plan: null,
+          },
+        ],
+        limits: { limit: 10, timeoutMs: null, maxPageSize: 10 },
+      };
+    }
+  }
+
+  it("should explain fluent queries without running them", async () => {
+    const connector = new ExplainConnector();
+    const session = new GraphSession();
+    await session.connect(connector);
+
+    const explanation = await session.explain(
+      QueryBuilder.nodes().withLabels(["Person"]).limit(5).build()
+    );
+
+    expect(explanation.statements[0]?.parameters).toEqual({ limit: 5 });
+    expect(connector.queries).toHaveLength(0);
+    expect(session.getState().nodeCount).toBe(0);
+  });
+
+  it("should reject connectors without explain support", async () => {
+    const session = new GraphSession();
+    await session.connect(new PagedConnector());
+
+    await expect(
+      session.explain({ type: "getNode", nodeId: "n1" })
+    ).rejects.toBeInstanceOf(QueryNotSupportedError);
+  });
+});
+
+describe("GraphSession cancellation", () => {
+  const QUERY: Query = {
+    type: "findNodes",
+    labelFilter: { labels: ["Person"], mode: "any" },
+    pagination: { limit: 10 },
+  };
+
+  /** Never answers and ignores the signal it is given */
+  class HangingConnector extends PagedConnector {
+    signal: AbortSignal | undefined;
+
+    async executeQuery(
+      query: Query,
+      options?: ExecuteOptions
+    ): Promise<QueryResult> {
+      this.queries.push(query);
+      this.signal = options?.signal;
+      return new Promise<QueryResult>(() => {});
+    }
+  }
+
+  it("should reject an aborted query and leave state untouched", async () => {
+    const connector = new HangingConnector();
+    const session = new GraphSession();
+    await session.connect(connector);
+    const controller = new AbortController();
+
+    const pending = session.executeQuery(QUERY, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(connector.signal?.aborted).toBe(true);
+    expect(session.getState().nodeCount).toBe(0);
+  });
+
+  it("should not reach the connector with an already aborted signal", async () => {
+    const connector = new PagedConnector();
+    const session = new GraphSession();
+    await session.connect(connector);
+
+    await expect(
+      session.executeQuery(QUERY, { signal: AbortSignal.abort() })
+    ).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(connector.queries).toHaveLength(0);
+  });
+
+  it("should reject with QueryTimeoutError after timeoutMs", async () => {
+    const session = new GraphSession();
+    await session.connect(new HangingConnector());
+
+    const error: unknown = await session
+      .executeQuery({ ...QUERY, timeoutMs: 5 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(QueryTimeoutError);
+    expect(error).toMatchObject({ code: "QUERY_TIMEOUT", timeoutMs: 5 });
+  });
+
+  it("should fail queries that reach the session's time budget", async () => {
+    const limits: string[] = [];
+    const session = new GraphSession({
+      config: { queryTimeBudgetMs: 5 },
+      telemetry: { onLimitReached: (limitType) => limits.push(limitType) },
+    });
+    await session.connect(new HangingConnector());
+
+    const error: unknown = await session
+      .executeQuery({ ...QUERY, timeoutMs: 60_000 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(LimitExceededError);
+    expect(error).toMatchObject({
+      limitType: "queryTimeBudgetMs",
+      maxValue: 5,
+      cause: { code: "QUERY_TIMEOUT", timeoutMs: 5 },
+    });
+    expect(limits).toEqual(["queryTimeBudgetMs"]);
+  });
+
+  it("should keep QueryTimeoutError for a timeout within the budget", async () => {
+    const session = new GraphSession({ config: { queryTimeBudgetMs: 60_000 } });
+    await session.connect(new HangingConnector());
+
+    await expect(
+      session.executeQuery({ ...QUERY, timeoutMs: 5 })
+    ).rejects.toBeInstanceOf(QueryTimeoutError);
+  });
+});
+
+describe("GraphSession scheduling", () => {
+  /** Answers getNode with one node once the test releases the query */
+  class ManualConnector extends PagedConnector {
+    private readonly pending = new Map<string, () => void>();
+
+    async executeQuery(query: Query): Promise<QueryResult> {
+      this.queries.push(query);
+      const id = query.type === "getNode" ? query.nodeId : "";
+      await new Promise<void>((resolve) => this.pending.set(id, resolve));
+      return {
+        data: {
+          nodes: [{ id, labels: ["Person"], properties: {} }],
+          edges: [],
+        },
+        metadata: {
+          executionTimeMs: 0,
+          totalAvailable: 1,
+          truncated: false,
+          cursor: null,
+        },
+      };
+    }
+
+    release(id: string): void {
+      this.pending.get(id)?.();
+    }
+  }
+
+  let connector: ManualConnector;
+  let session: GraphSession;
+
+  beforeEach(async () => {
+    connector = new ManualConnector();
+    session = new GraphSession();
+    await session.connect(connector);
+  });
+
+  it("should merge results in the order queries were issued", async () => {
+    const first = session.executeQuery({ type: "getNode", nodeId: "a" });
+    const second = session.executeQuery({ type: "getNode", nodeId: "b" });
+    await Promise.resolve();
+
+    connector.release("b");
+    connector.release("a");
+    await Promise.all([first, second]);
+
+    const added = session
+      .getPatchHistory()
+      .map((patch) => patch.nodePatch.map((p) => p.node.id));
+    expect(added).toEqual([["a"], ["b"]]);
+  });
+
+  it("should send identical in-flight queries to the connector once", async () => {
+    const query: Query = { type: "getNode", nodeId: "a" };
+    const first = session.executeQuery(query);
+    const second = session.executeQuery(query, { priority: "background" });
+    await Promise.resolve();
+
+    connector.release("a");
+
+    expect(await first).toBe(await second);
+    expect(connector.queries).toHaveLength(1);
+    expect(session.getPatchHistory()).toHaveLength(1);
+  });
+});
+
+describe("GraphSession federation", () => {
+  const QUERY: Query = {
+    type: "findNodes",
+    labelFilter: { labels: ["Person"], mode: "any" },
+  };
+
+  /** Neo4j element IDs and ontology IRIs both end in the person number */
+  const resolveId = (id: string, _source: string, kind: string): string =>
+    kind === "node" ? `person:${id.split(/[:/]/).pop() ?? id}` : id;
+
+  let graph: FixedConnector;
+  let ontology: FixedConnector;
+  let session: GraphSession;
+
+  beforeEach(async () => {
+    graph = new FixedConnector({
+      nodes: [
+        { id: "4:db:42", labels: ["Person"], properties: { name: "Ada" } },
+        { id: "4:db:7", labels: ["Person"], properties: { name: "Alan" } },
+      ],
+      edges: [
+        {
+          id: "5:db:1",
+          source: "4:db:42",
+          target: "4:db:7",
+          type: "KNOWS",
+          properties: {},
+        },
+      ],
+    });
+    ontology = new FixedConnector({
+      nodes: [
+        {
+          id: "http://example.org/person/42",
+          labels: ["foaf:Person"],
+          properties: { born: 1815 },
+        },
+      ],
+      edges: [],
+    });
+    session = new GraphSession({ resolveId });
+    await session.attach("neo4j", graph);
+    await session.attach("stardog", ontology);
+  });
+
+  it("should merge the same entity from several sources once", async () => {
+    await session.executeQuery(QUERY);
+
+    expect(session.getSources()).toEqual(["neo4j", "stardog"]);
+    expect(session.getState().nodeCount).toBe(2);
+    expect(session.getNode("person:42")).toMatchObject({
+      labels: ["Person", "foaf:Person"],
+      properties: { name: "Ada", born: 1815 },
+      metadata: { source: "neo4j", sources: ["neo4j", "stardog"] },
+    });
+    expect(session.getEdgesForNode("person:7")).toMatchObject([
+      { source: "person:42", metadata: { source: "neo4j" } },
+    ]);
+  });
+
+  it("should route a query to one source with its own IDs", async () => {
+    await session.executeQuery(QUERY);
+
+    await session.executeQuery(
+      { type: "getNode", nodeId: "person:42" },
+      { source: "stardog" }
+    );
+
+    expect(ontology.queries[1]).toEqual({
+      type: "getNode",
+      nodeId: "http://example.org/person/42",
+    });
+    expect(graph.queries).toHaveLength(1);
+  });
+
+  it("should page through every source with a combined cursor", async () => {
+    const paged = new GraphSession({
+      resolveId: (id, source) => `${source}/${id}`,
+    });
+    await paged.attach("a", new PagedConnector());
+    await paged.attach("b", new PagedConnector());
+
+    const sizes: number[] = [];
+    for await (const page of paged.pages({
+      ...QUERY,
+      pagination: { limit: 10 },
+    })) {
+      sizes.push(page.data.nodes.length);
+    }
+
+    expect(sizes).toEqual([20, 20, 10]);
+    expect(paged.getState().nodeCount).toBe(50);
+  });
+
+  it("should reject unknown, duplicate and ambiguous sources", async () => {
+    await expect(
+      session.executeQuery(QUERY, { source: "rdf" })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(session.attach("neo4j", graph)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(session.getSchema()).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe("GraphSession entity resolution", () => {
+  const DUPLICATES: GraphData = {
+    nodes: [
+      { id: "u1", labels: ["User"], properties: { email: "ada@example.org" } },
+      { id: "u2", labels: ["User"], properties: { email: "ADA@example.org" } },
+      { id: "u3", labels: ["User"], properties: { email: "alan@example.org" } },
+    ],
+    edges: [
+      { id: "e1", source: "u2", target: "u3", type: "KNOWS", properties: {} },
+    ],
+  };
+  const QUERY: Query = {
+    type: "findNodes",
+    labelFilter: { labels: ["User"], mode: "any" },
+  };
+
+  it("should merge nodes as one undoable patch", async () => {
+    const session = new GraphSession();
+    await session.connect(new FixedConnector(DUPLICATES));
+    await session.executeQuery(QUERY);
+
+    session.mergeNodes(["u1", "u2"]);
+    expect(session.getState().nodeCount).toBe(2);
+    expect(session.getEdgesForNode("u1")).toMatchObject([{ target: "u3" }]);
+
+    session.undo();
+    expect(session.getState().nodeCount).toBe(3);
+    expect(session.getEdgesForNode("u2")).toHaveLength(1);
+  });
+
+  it("should merge duplicates found by the rules after each query", async () => {
+    const session = new GraphSession({
+      entityResolution: { rules: [{ keys: ["email"] }], auto: true },
+    });
+    await session.connect(new FixedConnector(DUPLICATES));
+
+    await session.executeQuery(QUERY);
+
+    expect(session.getData().nodes.map((n) => n.id)).toEqual(["u1", "u3"]);
+    expect(session.getPatchHistory()).toHaveLength(1);
+    expect(session.findDuplicates()).toEqual([]);
+  });
+
+  it("should only resolve the nodes a query returns", async () => {
+    const session = new GraphSession({
+      entityResolution: { rules: [{ keys: ["email"] }], auto: true },
+    });
+    const [u1, u2, u3] = DUPLICATES.nodes;
+    await session.connect(
+      new FixedConnector({ nodes: [{ ...u3!, id: "u4" }], edges: [] })
+    );
+    session.addNodes([u1!, u2!, u3!]);
+
+    await session.executeQuery(QUERY);
+
+    expect(session.getData().nodes.map((n) => n.id)).toEqual([
+      "u1",
+      "u2",
+      "u3",
+    ]);
+  });
+});
+
+describe("GraphSession history", () => {
+  const node = (id: string): GraphNode => ({
+    id,
+    labels: ["Company"],
+    properties: {},
+  });
+
+  it("should check out bookmarks across branches", () => {
+    const session = new GraphSession();
+    session.addNodes([node("acme")]);
+    const start = session.bookmark("before expanding suppliers");
+    session.addNodes([node("supplier")]);
+    const suppliers = session.bookmark("suppliers");
+
+    session.checkout(start.id);
+    session.addNodes([node("customer")]);
+
+    expect(session.getBranches()).toHaveLength(2);
+    const patch = session.checkout(suppliers.id);
+    expect(session.getData().nodes.map((n) => n.id)).toEqual([
+      "acme",
+      "supplier",
+    ]);
+    expect(getPatchSummary(patch)).toMatchObject({
+      nodesAdded: 1,
+      nodesRemoved: 1,
+    });
+
+    session.undo();
+    expect(session.getData().nodes.map((n) => n.id)).toEqual(["acme"]);
+  });
+
+  it("should diff two bookmarks without changing state", () => {
+    const session = new GraphSession();
+    const empty = session.bookmark("empty");
+    session.addNodes([node("acme"), node("globex")]);
+    const both = session.bookmark("both");
+    session.removeNodes(["globex"]);
+
+    const diff = session.diffBookmarks(empty.id, both.id);
+
+    expect(diff.nodePatch.map((p) => [p.operation, p.node.id])).toEqual([
+      ["add", "acme"],
+      ["add", "globex"],
+    ]);
+    expect(session.getState().nodeCount).toBe(1);
+    expect(() => session.checkout("missing")).toThrow(ValidationError);
+  });
+});
+
+describe("GraphSession lookups", () => {
+  it("should keep label, type and adjacency lookups in step with changes", () => {
+    const session = new GraphSession();
+    session.addNodes([
+      { id: "acme", labels: ["Company"], properties: {} },
+      { id: "ada", labels: ["Person"], properties: {} },
+    ]);
+    session.addEdges([
+      {
+        id: "w1",
+        source: "ada",
+        target: "acme",
+        type: "WORKS_AT",
+        properties: {},
+      },
+    ]);
+
+    const patch = session.removeNodes(["acme"]);
+    expect(getPatchSummary(patch)).toMatchObject({
+      nodesRemoved: 1,
+      edgesRemoved: 1,
+    });
+    expect(session.getNodesByLabel("Company")).toEqual([]);
+    expect(session.getEdgesForNode("ada")).toEqual([]);
+
+    session.undo();
+    expect(session.getNodesByLabel("Company")).toMatchObject([{ id: "acme" }]);
+    expect(session.getEdgesByType("WORKS_AT")).toMatchObject([{ id: "w1" }]);
+    expect(session.getEdge("w1")?.source).toBe("ada");
+  });
+});
+
+describe("GraphSession events", () => {
+  const DATA: GraphData = {
+    nodes: [
+      { id: "ada", labels: ["Person"], properties: {} },
+      { id: "acme", labels: ["Company"], properties: {} },
+    ],
+    edges: [
+      {
+        id: "w1",
+        source: "ada",
+        target: "acme",
+        type: "WORKS_AT",
+        properties: {},
+      },
+    ],
+  };
+  const QUERY: Query = {
+    type: "findNodes",
+    labelFilter: { labels: ["Person"], mode: "any" },
+  };
+
+  it("should emit patches that keep a view in sync", async () => {
+    const session = new GraphSession();
+    const events: string[] = [];
+    let view: GraphData = { nodes: [], edges: [] };
+    const unsubscribe = session.on("patch", (patch) => {
+      view = applyPatch(view, patch);
+    });
+    session.on("connect", ({ source }) => events.push(`connect ${source}`));
+    session.on("query:start", ({ query }) =>
+      events.push(`start ${query.type}`)
+    );
+    session.on("query:end", ({ cached }) => events.push(`end ${cached}`));
+
+    await session.connect(new FixedConnector(DATA));
+    await session.executeQuery(QUERY);
+    await session.executeQuery(QUERY);
+    expect(events).toEqual([
+      "connect paged",
+      "start findNodes",
+      "end false",
+      "start findNodes",
+      "end true",
+    ]);
+    const loaded = session.getData();
+    expect(view).toEqual(loaded);
+
+    session.removeNodes(["acme"]);
+    expect(view).toEqual(session.getData());
+    session.undo();
+    session.redo();
+    session.undo();
+    expect(view).toEqual(loaded);
+
+    unsubscribe();
+    session.clear();
+    expect(view).toEqual(loaded);
+  });
+
+  it("should report limits and survive failing handlers", async () => {
+    const session = new GraphSession({ config: { maxNodes: 1 } });
+    const limits: string[] = [];
+    const ends: unknown[] = [];
+    session.on("patch", () => {
+      throw new Error("view failed");
+    });
+    session.on("limit", ({ limitType }) => limits.push(limitType));
+    session.on("query:end", ({ error }) => ends.push(error));
+    await session.connect(new FixedConnector(DATA));
+
+    session.addNodes([{ id: "n1", labels: [], properties: {} }]);
+    await expect(session.executeQuery(QUERY)).rejects.toBeInstanceOf(
+      LimitExceededError
+    );
+
+    expect(session.getState().nodeCount).toBe(1);
+    expect(limits).toEqual(["maxNodes"]);
+    expect(ends).toEqual([expect.any(LimitExceededError)]);
+  });
+});
+
+describe("GraphSession view state", () => {
+  const HUB: GraphData = {
+    nodes: ["hub", "a", "b", "c"].map((id) => ({
+      id,
+      labels: ["Person"],
+      properties: {},
+    })),
+    edges: ["a", "b", "c"].map((id) => ({
+      id: `e-${id}`,
+      source: "hub",
+      target: id,
+      type: "KNOWS",
+      properties: {},
+    })),
+  };
+  const QUERY: Query = {
+    type: "findNodes",
+    labelFilter: { labels: ["Person"], mode: "any" },
+  };
+
+  async function hubSession(): Promise<GraphSession> {
+    const session = new GraphSession();
+    await session.connect(new FixedConnector(HUB));
+    await session.executeQuery(QUERY);
+    return session;
+  }
+
+  it("should keep pinned nodes when pruning, undoably", async () => {
+    const session = await hubSession();
+    session.pinNodes(["hub", "a"]);
+
+    const patch = session.prune();
+
+    expect(getPatchSummary(patch)).toMatchObject({
+      nodesRemoved: 2,
+      edgesRemoved: 2,
+    });
+    expect(session.getData().nodes.map((n) => n.id)).toEqual(["hub", "a"]);
+    expect(session.getState().view.pinned).toEqual(["hub", "a"]);
+
+    session.undo();
+    session.undo();
+    expect(session.getState().view.pinned).toEqual([]);
+    expect(session.getState().nodeCount).toBe(4);
+  });
+
+  it("should collapse a hub's neighbors except pinned ones", async () => {
+    const session = await hubSession();
+    session.pinNodes(["c"]);
+
+    session.collapseNeighbors("hub");
+
+    expect(session.getState().view.collapsed).toEqual(["hub"]);
+    expect(collapsedMembers(session.getData(), "hub").map((n) => n.id)).toEqual(
+      ["a", "b"]
+    );
+    expect(session.getData().nodes.filter(isNodeVisible)).toHaveLength(2);
+
+    // Removing the hub releases its members
+    session.removeNodes(["hub"]);
+    expect(session.getData().nodes.every(isNodeVisible)).toBe(true);
+    session.undo();
+    session.uncollapseNeighbors("hub");
+    expect(session.getNode("a")?.view).toBeUndefined();
+    expect(() => session.collapseNeighbors("x")).toThrow(ValidationError);
+  });
+
+  it("should keep view state through refetches and snapshots", async () => {
+    const session = await hubSession();
+    session.hideNodes(["a"]);
+    session.hideEdges(["e-b"]);
+
+    await session.executeQuery({ ...QUERY, pagination: { limit: 10 } });
+    const restored = GraphSession.fromJSON(session.toJSON());
+
+    expect(restored.getNode("a")?.view).toEqual({ hidden: true });
+    expect(restored.getState().view.hidden).toEqual(["a"]);
+    expect(restored.showEdges(["e-b"]).edgePatch).toHaveLength(1);
+    expect(restored.getEdge("e-b")?.view).toBeUndefined();
+    expect(() =>
+      GraphSession.fromJSON(
+        JSON.stringify({
+          data: {
+            nodes: [{ ...HUB.nodes[0], view: { hidden: "yes" } }],
+            edges: [],
+          },
+        })
+      )
+    ).toThrow(ValidationError);
+  });
+});
+
+describe("GraphSession eviction", () => {
+  const node = (id: string): GraphNode => ({ id, labels: [], properties: {} });
+  const RESULT: GraphData = { nodes: [node("r1"), node("r2")], edges: [] };
+  const QUERY: Query = {
+    type: "findNodes",
+    labelFilter: { labels: ["Person"], mode: "any" },
+  };
+
+  it("should evict least recently touched unpinned nodes to admit a result", async () => {
+    const reports: unknown[][] = [];
+    const session = new GraphSession({
+      config: { maxNodes: 4 },
+      eviction: { policy: "leastRecentlyTouched" },
+      telemetry: { onLimitReached: (...args) => reports.push(args) },
+    });
+    const patches: string[] = [];
+    session.on("patch", (patch) => {
+      const { nodesAdded, nodesRemoved } = getPatchSummary(patch);
+      patches.push(`+${nodesAdded} -${nodesRemoved}`);
+    });
+    await session.connect(new FixedConnector(RESULT));
+    session.addNodes(["a", "b", "c", "d"].map(node));
+    session.touchNodes(["a"]);
+    session.pinNodes(["b"]);
+
+    await session.executeQuery(QUERY);
+
+    expect(session.getData().nodes.map((n) => n.id)).toEqual([
+      "a",
+      "b",
+      "r1",
+      "r2",
+    ]);
+    expect(reports).toEqual([["maxNodes", 6, 4, ["c", "d"]]]);
+    expect(patches).toEqual(["+4 -0", "+0 -0", "+0 -2", "+2 -0"]);
+
+    session.undo();
+    session.undo();
+    expect(session.getState().nodeCount).toBe(4);
+  });
+
+  it("should fail rather than evict too few nodes", async () => {
+    const session = new GraphSession({
+      config: { maxNodes: 2 },
+      eviction: { policy: "lowestDegree" },
+    });
+    await session.connect(new FixedConnector(RESULT));
+    session.addNodes(["a", "b"].map(node));
+    session.pinNodes(["a"]);
+
+    await expect(session.executeQuery(QUERY)).rejects.toBeInstanceOf(
+      LimitExceededError
+    );
+    expect(session.getState().nodeCount).toBe(2);
+  });
+
+  it("should not evict for a result that exceeds another limit", async () => {
+    const session = new GraphSession({
+      config: { maxNodes: 3, maxEdges: 1 },
+      eviction: { policy: "leastRecentlyTouched" },
+    });
+    const edge = (id: string): GraphData["edges"][0] => ({
+      id,
+      source: "r1",
+      target: "r2",
+      type: "KNOWS",
+      properties: {},
+    });
+    await session.connect(
+      new FixedConnector({ ...RESULT, edges: [edge("e1"), edge("e2")] })
+    );
+    session.addNodes(["n1", "n2"].map(node));
+
+    await expect(session.executeQuery(QUERY)).rejects.toMatchObject({
+      limitType: "maxEdges",
+    });
+    expect(session.getData().nodes.map((n) => n.id)).toEqual(["n1", "n2"]);
+  });
+
+  it("should rank nodes by degree or distance from the focus", () => {
+    const edge = (source: string, target: string): GraphData["edges"][0] => ({
+      id: `${source}-${target}`,
+      source,
+      target,
+      type: "KNOWS",
+      properties: {},
+    });
+    const store = new GraphStore({
+      nodes: ["hub", "a", "b", "x", "z"].map(node),
+      edges: [edge("hub", "a"), edge("hub", "b"), edge("x", "hub")],
+    });
+    const context = {
+      touched: new Map([["a", 2]]),
+      focus: ["a"],
+      keep: new Set<string>(),
+    };
+
+    expect(selectEvictions(store, 3, "lowestDegree", context)).toEqual([
+      "z",
+      "b",
+      "x",
+    ]);
+    expect(selectEvictions(store, 3, "farthestFromFocus", context)).toEqual([
+      "z",
+      "b",
+      "x",
+    ]);
+    expect(
+      selectEvictions(store, 5, "farthestFromFocus", {
+        ...context,
+        keep: new Set(["z"]),
+      })
+    ).toEqual(["b", "x", "hub", "a"]);
+  });
+});
+
+describe("GraphSession limits", () => {
+  const DATA: GraphData = {
+    nodes: [{ id: "a", labels: ["Person"], properties: {} }],
+    edges: [],
+  };
+  const page = (limit: number): Query => ({
+    type: "findNodes",
+    labelFilter: { labels: ["Person"], mode: "any" },
+    pagination: { limit },
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should warn once as the session approaches its limits", () => {
+    const warnings: string[] = [];
+    const session = new GraphSession({
+      config: { maxNodes: 10 },
+      telemetry: {
+        onLimitWarning: (limitType, current, max) =>
+          warnings.push(`${limitType} ${current}/${max}`),
+      },
+    });
+    const events: number[] = [];
+    session.on("limit:warning", ({ currentValue }) =>
+      events.push(currentValue)
+    );
+    const add = (ids: string[]): GraphPatch =>
+      session.addNodes(ids.map((id) => ({ id, labels: [], properties: {} })));
+
+    add(["n1", "n2", "n3", "n4", "n5", "n6", "n7"]);
+    expect(session.checkLimits().nodeCheck.warning).toBe(false);
+    add(["n8"]);
+    add(["n9"]);
+    expect(session.checkLimits().nodeCheck.warning).toBe(true);
+    session.removeNodes(["n9", "n8"]);
+    add(["n8"]);
+
+    expect(warnings).toEqual(["maxNodes 8/10", "maxNodes 8/10"]);
+    expect(events).toEqual([8, 8]);
+  });
+
+  it("should reject queries deeper or longer than the caps", async () => {
+    const session = new GraphSession({ config: { maxPathLength: 4 } });
+    const connector = new FixedConnector(DATA);
+    await session.connect(connector);
+
+    const deep = session.executeQuery({
+      type: "expandNode",
+      nodeId: "a",
+      direction: "both",
+      depth: 4,
+    });
+    await expect(deep).rejects.toMatchObject({
+      code: "LIMIT_EXCEEDED",
+      limitType: "maxNeighborhoodDepth",
+      currentValue: 4,
+      maxValue: 3,
+    });
+    await expect(
+      session.executeQuery({
+        type: "findPath",
+        sourceId: "a",
+        targetId: "b",
+        maxLength: 5,
+      })
+    ).rejects.toBeInstanceOf(LimitExceededError);
+    expect(connector.queries).toHaveLength(0);
+  });
+
+  it("should budget each source's queries per minute", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const session = new GraphSession({ config: { maxQueriesPerMinute: 2 } });
+    await session.connect(new FixedConnector(DATA));
+
+    await session.executeQuery(page(1));
+    await session.executeQuery(page(2));
+    // Cached results do not reach the source
+    await session.executeQuery(page(1));
+    await expect(session.executeQuery(page(3))).rejects.toMatchObject({
+      limitType: "maxQueriesPerMinute",
+      currentValue: 2,
+    });
+
+    vi.advanceTimersByTime(60_000);
+    await expect(session.executeQuery(page(3))).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../errors/index.js";
+import type { GraphPatch } from "../patch/index.js";
+import { calculatePatch } from "../patch/index.js";
+import type { GraphData } from "../types/index.js";
+
+import { HistoryTree, ROOT_REVISION_ID, followPath } from "./history.js";
+
+const EMPTY: GraphData = { nodes: [], edges: [] };
+
+/** Patch adding one node to the data */
+function addNode(data: GraphData, id: string): [GraphPatch, GraphData] {
+  const next = {
+    ...data,
+    nodes: [...data.nodes, { id, labels: [], properties: {} }],
+  };
+  return [calculatePatch(data, next), next];
+}
+
+describe("HistoryTree", () => {
+  it("should start a branch instead of discarding undone changes", () => {
+    const history = new HistoryTree();
+    const [a, afterA] = addNode(EMPTY, "a");
+    const [b] = addNode(afterA, "b");
+    const [c] = addNode(afterA, "c");
+
+    history.commit(a);
+    history.commit(b);
+    history.undo();
+    history.commit(c);
+
+    expect(history.getBranches()).toMatchObject([
+      { headId: b.id, revisionIds: [a.id, b.id], current: false },
+      { headId: c.id, revisionIds: [a.id, c.id], current: true },
+    ]);
+    expect(history.getPatchHistory()).toEqual([a, c]);
+    expect(history.getRedoStack()).toEqual([]);
+  });
+
+  it("should find the patches between revisions on different branches", () => {
+    const history = new HistoryTree();
+    const [a, afterA] = addNode(EMPTY, "a");
+    const [b, afterB] = addNode(afterA, "b");
+    const [c, afterC] = addNode(afterA, "c");
+    history.commit(a);
+    history.commit(b);
+    history.undo();
+    history.commit(c);
+
+    const path = history.path(c.id, b.id);
+
+    expect(path).toEqual({ up: [c], down: [b] });
+    expect(followPath(afterC, path)).toEqual(afterB);
+  });
+
+  it("should redo along the branch that was left after moving", () => {
+    const history = new HistoryTree();
+    const [a, afterA] = addNode(EMPTY, "a");
+    const [b] = addNode(afterA, "b");
+    history.commit(a);
+    history.commit(b);
+
+    history.moveTo(ROOT_REVISION_ID);
+
+    expect(history.getRedoStack()).toEqual([b, a]);
+    expect(history.redo()).toBe(a);
+  });
+
+  it("should restore a serialized tree with its bookmarks", () => {
+    const history = new HistoryTree();
+    const [a, afterA] = addNode(EMPTY, "a");
+    const [b] = addNode(afterA, "b");
+    history.commit(a);
+    const bookmark = history.addBookmark("before b");
+    history.commit(b);
+    history.undo();
+
+    const restored = HistoryTree.restore(
+      JSON.parse(JSON.stringify(history.serialize())) as ReturnType<
+        HistoryTree["serialize"]
+      >
+    );
+
+    expect(restored.getCurrent().id).toBe(a.id);
+    expect(restored.getBookmark(bookmark.id).name).toBe("before b");
+    expect(restored.getRedoStack()).toEqual([b]);
+  });
+
+  it("should reject unknown bookmarks and empty names", () => {
+    const history = new HistoryTree();
+
+    expect(() => history.getBookmark("missing")).toThrow(ValidationError);
+    expect(() => history.addBookmark(" ")).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Exploration history
+ * A tree of GraphPatches: every change is a revision whose parent is the
+ * revision it was made on, so changing an earlier state starts a branch
+ * instead of discarding the redo line. Named bookmarks mark revisions to
+ * return to.
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { GraphPatch } from "../patch/index.js";
+import { applyPatch, calculatePatch, invertPatch } from "../patch/index.js";
+import type { GraphData } from "../types/index.js";
+
+/** ID of the revision before any change */
+export const ROOT_REVISION_ID = "root";
+
+/** Change in the history; the root revision has no patch */
+export interface HistoryRevision {
+  /** The patch ID, or ROOT_REVISION_ID */
+  readonly id: string;
+  readonly parentId: string | null;
+  readonly patch: GraphPatch | null;
+  readonly createdAt: number;
+}
+
+/** Named revision */
+export interface Bookmark {
+  readonly id: string;
+  readonly name: string;
+  readonly revisionId: string;
+  readonly createdAt: number;
+}
+
+/** Revisions from the root to a head revision without children */
+export interface HistoryBranch {
+  readonly headId: string;
+  /** Revision IDs after the root, oldest first */
+  readonly revisionIds: readonly string[];
+  /** Bookmarks on the branch's revisions */
+  readonly bookmarks: readonly Bookmark[];
+  /** The current revision is on this branch */
+  readonly current: boolean;
+}
+
+/** Patches that lead from one revision to another */
+export interface HistoryPath {
+  /** Patches to invert, walking up to the common ancestor */
+  readonly up: readonly GraphPatch[];
+  /** Patches to apply, walking down to the target */
+  readonly down: readonly GraphPatch[];
+}
+
+/** History in a form that survives JSON, parents before children */
+export interface SerializedHistory {
+  readonly revisions: readonly HistoryRevision[];
+  readonly currentId: string;
+  readonly bookmarks: readonly Bookmark[];
+}
+
+interface RevisionEntry extends HistoryRevision {
+  readonly children: string[];
+  /** Child that redo moves to: the one last created or left */
+  redoChildId: string | null;
+}
+
+/** Tree of a session's patches with bookmarks */
+export class HistoryTree {
+  private readonly revisions = new Map<string, RevisionEntry>();
+  private readonly bookmarks = new Map<string, Bookmark>();
+  private currentId = ROOT_REVISION_ID;
+
+  constructor() {
+    this.revisions.set(ROOT_REVISION_ID, {
+      id: ROOT_REVISION_ID,
+      parentId: null,
+      patch: null,
+      createdAt: Date.now(),
+      children: [],
+      redoChildId: null,
+    });
+  }
+
+  /** The revision the session's state is at */
+  getCurrent(): HistoryRevision {
+    return this.entry(this.currentId);
+  }
+
+  /** Record a change on the current revision and move to it */
+  commit(patch: GraphPatch): HistoryRevision {
+    const parent = this.entry(this.currentId);
+    const revision: RevisionEntry = {
+      id: patch.id,
+      parentId: parent.id,
+      patch,
+      createdAt: patch.timestamp,
+      children: [],
+      redoChildId: null,
+    };
+
+    this.revisions.set(revision.id, revision);
+    parent.children.push(revision.id);
+    parent.redoChildId = revision.id;
+    this.currentId = revision.id;
+    return revision;
+  }
+
+  /** Move to the parent revision; returns the patch to invert */
+  undo(): GraphPatch | null {
+    const current = this.entry(this.currentId);
+    if (current.parentId === null || !current.patch) return null;
+
+    this.entry(current.parentId).redoChildId = current.id;
+    this.currentId = current.parentId;
+    return current.patch;
+  }
+
+  /** Move to the child last created or left; returns the patch to apply */
+  redo(): GraphPatch | null {
+    const childId = this.entry(this.currentId).redoChildId;
+    if (childId === null) return null;
+
+    const child = this.entry(childId);
+    this.currentId = child.id;
+    return child.patch;
+  }
+
+  /** Patches from one revision to another, through their common ancestor */
+  path(fromId: string, toId: string): HistoryPath {
+    const [up, down] = this.lines(fromId, toId);
+    const patches = (line: string[]): GraphPatch[] =>
+      line.flatMap((id) => this.entry(id).patch ?? []);
+    return { up: patches(up), down: patches(down).reverse() };
+  }
+
+  /**
+   * Move to a revision. Redo then leads back down the line that was left,
+   * and from the common ancestor down to the revision.
+   */
+  moveTo(id: string): void {
+    const [up, down] = this.lines(this.currentId, id);
+    for (const line of [up, down]) {
+      for (const childId of line) {
+        const parentId = this.entry(childId).parentId;
+        if (parentId !== null) this.entry(parentId).redoChildId = childId;
+      }
+    }
+    this.currentId = id;
+  }
+
+  /** Name a revision, the current one by default */
+  addBookmark(name: string, revisionId = this.currentId): Bookmark {
+    if (name.trim() === "") {
+      throw new ValidationError("Bookmark name must not be empty", "name");
+    }
+    this.entry(revisionId);
+
+    const bookmark: Bookmark = {
+      id: `bookmark_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      name,
+      revisionId,
+      createdAt: Date.now(),
+    };
+    this.bookmarks.set(bookmark.id, bookmark);
+    return bookmark;
+  }
+
+  removeBookmark(id: string): boolean {
+    return this.bookmarks.delete(id);
+  }
+
+  getBookmark(id: string): Bookmark {
+    const bookmark = this.bookmarks.get(id);
+    if (!bookmark) {
+      throw new ValidationError(`Unknown bookmark '${id}'`, "bookmarkId");
+    }
+    return bookmark;
+  }
+
+  /** Bookmarks, oldest first */
+  getBookmarks(): Bookmark[] {
+    return [...this.bookmarks.values()];
+  }
+
+  /** Branches, one per head revision, oldest head first */
+  getBranches(): HistoryBranch[] {
+    return [...this.revisions.values()]
+      .filter((revision) => revision.children.length === 0)
+      .map((head) => {
+        const line = this.ancestors(head.id).reverse();
+        return {
+          headId: head.id,
+          revisionIds: line.slice(1),
+          bookmarks: this.getBookmarks().filter((b) =>
+            line.includes(b.revisionId)
+          ),
+          current: line.includes(this.currentId),
+        };
+      });
+  }
+
+  /** Patches from the root to the current revision */
+  getPatchHistory(): GraphPatch[] {
+    return this.ancestors(this.currentId)
+      .reverse()
+      .flatMap((id) => this.entry(id).patch ?? []);
+  }
+
+  /** Patches redo would apply, the next one last */
+  getRedoStack(): GraphPatch[] {
+    const stack: GraphPatch[] = [];
+    let childId = this.entry(this.currentId).redoChildId;
+    while (childId !== null) {
+      const child = this.entry(childId);
+      if (child.patch) stack.unshift(child.patch);
+      childId = child.redoChildId;
+    }
+    return stack;
+  }
+
+  serialize(): SerializedHistory {
+    return {
+      revisions: [...this.revisions.values()].map(
+        ({ id, parentId, patch, createdAt }) => ({
+          id,
+          parentId,
+          patch,
+          createdAt,
+        })
+      ),
+      currentId: this.currentId,
+      bookmarks: this.getBookmarks(),
+    };
+  }
+
+  /** Rebuild a tree from serialize(); parents must precede children */
+  static restore(serialized: SerializedHistory): HistoryTree {
+    const tree = new HistoryTree();
+    for (const revision of serialized.revisions) {
+      if (revision.parentId === null) continue;
+
+      const parent = tree.revisions.get(revision.parentId);
+      if (!parent) {
+        throw new ValidationError(
+          `Revision '${revision.id}' comes before its parent`,
+          "history"
+        );
+      }
+      tree.revisions.set(revision.id, {
+        ...revision,
+        children: [],
+        redoChildId: null,
+      });
+      parent.children.push(revision.id);
+      parent.redoChildId = revision.id;
+    }
+    for (const bookmark of serialized.bookmarks) {
+      tree.entry(bookmark.revisionId);
+      tree.bookmarks.set(bookmark.id, bookmark);
+    }
+    tree.moveTo(serialized.currentId);
+    return tree;
+  }
+
+  /** The revision and its ancestors, up to the root */
+  private ancestors(id: string): string[] {
+    const line: string[] = [];
+    for (let entry: RevisionEntry | undefined = this.entry(id); entry; ) {
+      line.push(entry.id);
+      entry = entry.parentId === null ? undefined : this.entry(entry.parentId);
+    }
+    return line;
+  }
+
+  /**
+   * Revisions from each of two revisions up to, but not including, their
+   * common ancestor; nearest first
+   */
+  private lines(fromId: string, toId: string): [string[], string[]] {
+    const fromLine = this.ancestors(fromId);
+    const toLine = this.ancestors(toId);
+    const common = fromLine.find((id) => toLine.includes(id));
+    const until = (line: string[]): string[] =>
+      common === undefined ? line : line.slice(0, line.indexOf(common));
+    return [until(fromLine), until(toLine)];
+  }
+
+  private entry(id: string): RevisionEntry {
+    const entry = this.revisions.get(id);
+    if (!entry) {
+      throw new ValidationError(`Unknown revision '${id}'`, "revisionId");
+    }
+    return entry;
+  }
+}
+
+/** State reached by following a path from `state` */
+export function followPath(state: GraphData, path: HistoryPath): GraphData {
+  let result = state;
+  for (const patch of path.up) result = applyPatch(result, invertPatch(patch));
+  for (const patch of path.down) result = applyPatch(result, patch);
+  return result;
+}
+
+/** Patch from the state at one revision to the state at another */
+export function diffRevisions(
+  history: HistoryTree,
+  state: GraphData,
+  fromId: string,
+  toId: string
+): GraphPatch {
+  const currentId = history.getCurrent().id;
+  return calculatePatch(
+    followPath(state, history.path(currentId, fromId)),
+    followPath(state, history.path(currentId, toId))
+  );
+}
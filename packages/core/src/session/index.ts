@@ -3,36 +3,143 @@
  */
 
 import { QueryCache, generateQueryCacheKey } from "../cache/index.js";
-import { ValidationError } from "../errors/index.js";
+import {
+  LimitExceededError,
+  QueryNotSupportedError,
+  QueryTimeoutError,
+  ValidationError,
+} from "../errors/index.js";
 import { LimitsEnforcer } from "../limits/index.js";
 import type { Logger } from "../logger/index.js";
 import { noopLogger } from "../logger/index.js";
 import type { GraphPatch, PatchSummary } from "../patch/index.js";
+import { getPatchSummary, invertPatch, isPatchEmpty } from "../patch/index.js";
+import type {
+  SessionSnapshot,
+  SnapshotSource,
+} from "../persistence/snapshot.js";
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  migrateSnapshot,
+} from "../persistence/snapshot.js";
 import {
-  applyPatch,
-  calculatePatch,
-  getPatchSummary,
-  invertPatch,
-  isPatchEmpty,
-} from "../patch/index.js";
-import type { Query } from "../query/index.js";
+  normalizeQuery,
+  querySignal,
+  raceCancellation,
+  throwIfCancelled,
+} from "../query/index.js";
+import type { FluentQuery, Query } from "../query/index.js";
+import { GraphStore } from "../store/index.js";
 import type {
+  EdgeId,
+  ElementViewState,
+  ExecuteOptions,
+  ExplainOptions,
   GraphData,
   GraphNode,
   GraphEdge,
+  GraphSchema,
   NodeId,
+  QueryExplanation,
   QueryResult,
+  SchemaOptions,
   SessionConfig,
   TelemetryHook,
 } from "../types/index.js";
-import {
-  DEFAULT_SESSION_CONFIG,
-  NOOP_TELEMETRY_HOOK,
-} from "../types/index.js";
+import { DEFAULT_SESSION_CONFIG, NOOP_TELEMETRY_HOOK } from "../types/index.js";
 
 import type { Connector } from "./connector.js";
+import type {
+  DuplicateRule,
+  EntityResolutionOptions,
+  MergeStrategy,
+} from "./entity-resolution.js";
+import {
+  DuplicateIndex,
+  findDuplicates,
+  mergeDuplicates,
+  mergeNodeGroup,
+} from "./entity-resolution.js";
+import { SessionEvents } from "./events.js";
+import type { SessionEventHandler, SessionEventType } from "./events.js";
+import type { EvictionOptions } from "./eviction.js";
+import { selectEvictions } from "./eviction.js";
+import type { IdResolver, SourceIdMap, SourceResult } from "./federation.js";
+import {
+  combineEdge,
+  combineNode,
+  combineResults,
+  identityIdResolver,
+  sourceCursors,
+  tagSourceData,
+  toSourceQuery,
+} from "./federation.js";
+import type { Bookmark, HistoryBranch } from "./history.js";
+import { HistoryTree, diffRevisions } from "./history.js";
+import { QueryScheduler } from "./scheduler.js";
+import type { SessionViewState } from "./view-state.js";
+import {
+  getViewState,
+  keepView,
+  releaseCollapsed,
+  withView,
+} from "./view-state.js";
 
 export type { Connector } from "./connector.js";
+export {
+  findDuplicates,
+  mergeDuplicates,
+  mergeNodeGroup,
+  normalizeKeyValue,
+} from "./entity-resolution.js";
+export type {
+  DuplicateRule,
+  EntityResolutionOptions,
+  MergeStrategy,
+  PropertyConflictPolicy,
+  PropertyConflictResolver,
+} from "./entity-resolution.js";
+export { SessionEvents } from "./events.js";
+export type {
+  LimitEvent,
+  QueryEndEvent,
+  QueryStartEvent,
+  SessionEventHandler,
+  SessionEventMap,
+  SessionEventType,
+  SourceEvent,
+} from "./events.js";
+export { selectEvictions } from "./eviction.js";
+export type {
+  EvictionContext,
+  EvictionOptions,
+  EvictionPolicy,
+} from "./eviction.js";
+export {
+  combineEdge,
+  combineNode,
+  elementSources,
+  identityIdResolver,
+} from "./federation.js";
+export type { IdResolver } from "./federation.js";
+export { HistoryTree, ROOT_REVISION_ID } from "./history.js";
+export type {
+  Bookmark,
+  HistoryBranch,
+  HistoryPath,
+  HistoryRevision,
+  SerializedHistory,
+} from "./history.js";
+export { QueryScheduler } from "./scheduler.js";
+export type { ScheduledRequest, SchedulerStats } from "./scheduler.js";
+export {
+  collapsedMembers,
+  getViewState,
+  isNodeVisible,
+  withView,
+} from "./view-state.js";
+export type { SessionViewState } from "./view-state.js";
 
 /** Session state */
 export interface SessionState {
@@ -41,6 +148,8 @@ export interface SessionState {
   readonly edgeCount: number;
   readonly patchHistory: readonly GraphPatch[];
   readonly undoStack: readonly GraphPatch[];
+  /** Pinned, hidden and collapsed nodes */
+  readonly view: SessionViewState;
 }
 
 /** Session options */
@@ -48,62 +157,231 @@ export interface SessionOptions {
   config?: Partial<SessionConfig>;
   logger?: Logger;
   telemetry?: TelemetryHook;
+  /**
+   * Maps source node and edge IDs to session IDs, so that the same entity
+   * fetched from several sources appears once. Defaults to the source IDs.
+   */
+  resolveId?: IdResolver;
+  /** Rules for finding duplicate nodes, and whether to merge them as found */
+  entityResolution?: EntityResolutionOptions;
+  /**
+   * Evict nodes to admit results that would exceed the node limit, instead
+   * of failing their queries
+   */
+  eviction?: EvictionOptions;
+}
+
+/** Options for restoring a session from a snapshot */
+export interface RestoreOptions extends SessionOptions {
+  /**
+   * Connector to attach for a saved source, or null to leave it detached.
+   * Sources are not reattached without this.
+   */
+  connectors?: (
+    source: SnapshotSource
+  ) => Connector | null | Promise<Connector | null>;
+}
+
+/** Connector attached to a session under a source name */
+interface AttachedSource {
+  readonly name: string;
+  readonly connector: Connector;
+}
+
+/** Connector request for one source of a query */
+interface SourceRequest extends AttachedSource {
+  readonly query: Query;
+}
+
+/** Query and sources behind a result, for fetchNextPage */
+interface ResultOrigin {
+  readonly query: Query;
+  readonly sources: readonly string[];
 }
 
 /** Graph session manager */
 export class GraphSession {
-  private state: GraphData = { nodes: [], edges: [] };
-  private patchHistory: GraphPatch[] = [];
-  private undoStack: GraphPatch[] = [];
+  private readonly store = new GraphStore();
+  private history = new HistoryTree();
 
   private readonly config: SessionConfig;
   private readonly logger: Logger;
   private readonly telemetry: TelemetryHook;
   private readonly limiter: LimitsEnforcer;
   private readonly cache: QueryCache;
-
-  private connector: Connector | null = null;
+  private readonly scheduler: QueryScheduler;
+  private readonly events: SessionEvents;
+  /** Settles once every query issued so far has merged or failed */
+  private mergeTail: Promise<void> = Promise.resolve();
+
+  /** Attached connectors by source name, in attach order */
+  private readonly connectors = new Map<string, Connector>();
+  private readonly resolveId: IdResolver;
+  private readonly entityResolution: EntityResolutionOptions | undefined;
+  /** Duplicate keys of the session's nodes, kept for automatic resolution */
+  private readonly duplicates: DuplicateIndex | null;
+  private readonly eviction: EvictionOptions | undefined;
+  /** When each node was last touched, for eviction */
+  private readonly touched = new Map<NodeId, number>();
+  private touchClock = 0;
+  private focus: readonly NodeId[] = [];
+  /** Session IDs that differ from each source's own IDs */
+  private readonly sourceIds = new Map<string, SourceIdMap>();
+  /** Origins of results returned by this session, for fetchNextPage */
+  private readonly resultOrigins = new WeakMap<QueryResult, ResultOrigin>();
 
   constructor(options: SessionOptions = {}) {
     this.config = { ...DEFAULT_SESSION_CONFIG, ...options.config };
     this.logger = options.logger ?? noopLogger;
     this.telemetry = options.telemetry ?? NOOP_TELEMETRY_HOOK;
-
-    this.limiter = new LimitsEnforcer(this.config, this.logger, this.telemetry);
+    this.resolveId = options.resolveId ?? identityIdResolver;
+    this.entityResolution = options.entityResolution;
+    this.duplicates = options.entityResolution?.auto
+      ? new DuplicateIndex(options.entityResolution.rules)
+      : null;
+    this.eviction = options.eviction;
+
+    this.events = new SessionEvents(this.logger);
+    // Limits reached and approached are reported to subscribers as well as
+    // to telemetry
+    const telemetry = this.telemetry;
+    this.limiter = new LimitsEnforcer(this.config, this.logger, {
+      onSessionChange: (nodeCount, edgeCount) =>
+        telemetry.onSessionChange?.(nodeCount, edgeCount),
+      onLimitReached: (limitType, currentValue, maxValue, evicted) => {
+        telemetry.onLimitReached?.(limitType, currentValue, maxValue, evicted);
+        this.events.emit("limit", {
+          limitType,
+          currentValue,
+          maxValue,
+          ...(evicted && { evicted }),
+        });
+      },
+      onLimitWarning: (limitType, currentValue, maxValue) => {
+        telemetry.onLimitWarning?.(limitType, currentValue, maxValue);
+        this.events.emit("limit:warning", {
+          limitType,
+          currentValue,
+          maxValue,
+        });
+      },
+    });
     this.cache = new QueryCache(
       { maxSize: 100, ttlMs: this.config.cacheTtlMs },
       this.logger
     );
+    this.scheduler = new QueryScheduler(this.config.maxConcurrentQueries);
+  }
+
+  /**
+   * Subscribe to a session event; returns a function that unsubscribes.
+   * "patch" carries every change to the session's data, so a renderer can
+   * follow with `session.on("patch", (patch) => renderer.applyPatch(patch))`.
+   */
+  on<K extends SessionEventType>(
+    type: K,
+    handler: SessionEventHandler<K>
+  ): () => void {
+    return this.events.on(type, handler);
   }
 
-  /** Connect to a data source */
+  /** Unsubscribe from a session event */
+  off<K extends SessionEventType>(
+    type: K,
+    handler: SessionEventHandler<K>
+  ): void {
+    this.events.off(type, handler);
+  }
+
+  /**
+   * Connect to a data source, replacing the attached sources. The source is
+   * named after the connector's ID.
+   */
   async connect(connector: Connector): Promise<void> {
-    this.connector = connector;
+    this.connectors.clear();
+    this.sourceIds.clear();
+    await this.attach(connector.getId(), connector);
+  }
+
+  /**
+   * Connect to a data source and attach it under `name`, next to the sources
+   * already attached. Queries go to every attached source unless routed with
+   * ExecuteOptions.source.
+   */
+  async attach(name: string, connector: Connector): Promise<void> {
+    if (this.connectors.has(name)) {
+      throw new ValidationError(
+        `Source '${name}' is already attached`,
+        "source"
+      );
+    }
+
     await connector.connect();
+    this.connectors.set(name, connector);
+    const connectorType = connector.getCapabilities().connectorType;
     this.logger.info("Connected to data source", {
-      type: connector.getCapabilities().connectorType,
+      source: name,
+      type: connectorType,
+    });
+    this.events.emit("connect", { source: name, connectorType });
+  }
+
+  /** Disconnect a source and detach it; data merged from it stays */
+  async detach(name: string): Promise<void> {
+    const connector = this.connectors.get(name);
+    if (!connector) return;
+
+    await connector.disconnect();
+    this.connectors.delete(name);
+    this.sourceIds.delete(name);
+    this.logger.info("Disconnected from data source", { source: name });
+    this.events.emit("disconnect", {
+      source: name,
+      connectorType: connector.getCapabilities().connectorType,
     });
   }
 
-  /** Disconnect from data source */
+  /** Disconnect from every data source */
   async disconnect(): Promise<void> {
-    if (this.connector) {
-      await this.connector.disconnect();
-      this.connector = null;
-      this.logger.info("Disconnected from data source");
+    for (const name of [...this.connectors.keys()]) {
+      await this.detach(name);
     }
   }
 
-  /** Get current connector */
-  getConnector(): Connector | null {
-    return this.connector;
+  /** Get the connector of a source, or the first attached connector */
+  getConnector(source?: string): Connector | null {
+    if (source !== undefined) return this.connectors.get(source) ?? null;
+    return this.connectors.values().next().value ?? null;
   }
 
-  /** Execute query and merge results */
-  async executeQuery(query: Query): Promise<QueryResult> {
-    if (!this.connector) {
-      throw new ValidationError("No connector attached to session");
-    }
+  /** Get the names of the attached sources */
+  getSources(): string[] {
+    return [...this.connectors.keys()];
+  }
+
+  /**
+   * Execute a canonical or fluent query and merge results. A query cancelled
+   * through options.signal or its timeoutMs rejects with QueryCancelledError
+   * and leaves session state and cache untouched.
+   *
+   * Connector queries run through the session's scheduler: at most
+   * maxConcurrentQueries at once, interactive before background, and
+   * identical queries in flight share one request. Results are merged in the
+   * order the queries were issued, whichever finishes first.
+   *
+   * With several sources attached the query is fanned out to every source,
+   * or those named in options.source, and their results are combined: IDs
+   * are mapped through the session's resolveId and elements with the same
+   * ID are merged. Every element is tagged with its source in
+   * `metadata.source`.
+   */
+  async executeQuery(
+    input: Query | FluentQuery,
+    options: ExecuteOptions = {}
+  ): Promise<QueryResult> {
+    const sources = this.routeSources(options.source);
+    const query = this.limiter.withTimeBudget(normalizeQuery(input));
+    const signal = querySignal(query, options.signal);
 
     // Query validation is done by the connector
 
@@ -111,11 +389,15 @@ export class GraphSession {
     const startTime = Date.now();
 
     this.telemetry.onQueryStart?.(queryId, query.type);
+    this.events.emit("query:start", { queryId, query });
 
     try {
+      throwIfCancelled(signal, query);
+      this.limiter.enforceQueryLimits(query);
+
       // Check cache first
       const cacheKey = generateQueryCacheKey(
-        this.connector.getId(),
+        sources.map(sourceKey).join(","),
         query.type,
         query as unknown as Record<string, unknown>
       );
@@ -129,7 +411,7 @@ export class GraphSession {
           duration,
           cached.nodes.length + cached.edges.length
         );
-        return {
+        const cachedResult: QueryResult = {
           data: cached,
           metadata: {
             executionTimeMs: duration,
@@ -138,29 +420,76 @@ export class GraphSession {
             cursor: null,
           },
         };
+        this.resultOrigins.set(cachedResult, {
+          query,
+          sources: sources.map((s) => s.name),
+        });
+        this.events.emit("query:end", {
+          queryId,
+          query,
+          durationMs: duration,
+          result: cachedResult,
+          error: null,
+          cached: true,
+        });
+        return cachedResult;
       }
 
-      // Execute query
-      const result = await this.connector.executeQuery(query);
-
-      // Check limits before merging
-      const newNodes = result.data.nodes.filter(
-        (n) => !this.state.nodes.some((existing) => existing.id === n.id)
-      );
-      const newEdges = result.data.edges.filter(
-        (e) => !this.state.edges.some((existing) => existing.id === e.id)
-      );
+      this.limiter.enforceQueryRate(sources.map((s) => s.name));
+      const requests = this.sourceRequests(query, sources);
+      const turn = this.takeMergeTurn();
+      let result: QueryResult;
+      try {
+        // Execute query; connectors that ignore the signal are raced against it
+        const results = await raceCancellation(
+          Promise.all(
+            requests.map((request) =>
+              this.runSourceRequest(request, options, signal)
+            )
+          ),
+          signal,
+          query
+        );
+        const [only] = results;
+        result =
+          sources.length === 1 && only ? only.result : combineResults(results);
+        await raceCancellation(turn.ready, signal, query);
+
+        // Check limits before merging
+        const newNodes = result.data.nodes.filter(
+          (n) => !this.store.hasNode(n.id)
+        );
+        const newEdges = result.data.edges.filter(
+          (e) => !this.store.hasEdge(e.id)
+        );
 
-      this.limiter.enforceNodeLimit(newNodes.length);
-      this.limiter.enforceEdgeLimit(newEdges.length);
+        // Eviction is committed, so every other limit is checked first
+        this.limiter.enforceEdgeLimit(newEdges.length);
+        this.limiter.enforceNodeLimit(
+          newNodes.length,
+          this.evictor(resultNodeIds(result.data))
+        );
 
-      // Merge results
-      this.mergeData(result.data);
+        // Merge results
+        this.mergeData(result.data);
+        this.touch(result.data.nodes.map((n) => n.id));
+      } catch (error) {
+        // A query cut off by the time budget has exceeded a limit
+        if (error instanceof QueryTimeoutError) {
+          this.limiter.enforceQueryTime(Date.now() - startTime, error);
+        }
+        throw error;
+      } finally {
+        turn.done();
+      }
 
-      // Cache results
-      this.cache.set(cacheKey, result.data);
+      // Cache results; pages with a cursor are refetched so it is not lost
+      if (result.metadata.cursor === null) {
+        this.cache.set(cacheKey, result.data);
+      }
 
       const duration = Date.now() - startTime;
+      this.limiter.checkQueryTime(duration);
       this.telemetry.onQueryComplete?.(
         queryId,
         duration,
@@ -174,67 +503,357 @@ export class GraphSession {
         edgesReturned: result.data.edges.length,
       });
 
+      this.resultOrigins.set(result, {
+        query,
+        sources: sources.map((s) => s.name),
+      });
+      this.events.emit("query:end", {
+        queryId,
+        query,
+        durationMs: duration,
+        result,
+        error: null,
+        cached: false,
+      });
       return result;
     } catch (error) {
-      this.telemetry.onQueryError?.(
+      const failure = error instanceof Error ? error : new Error(String(error));
+      const duration = Date.now() - startTime;
+      this.telemetry.onQueryError?.(queryId, failure);
+      this.events.emit("query:end", {
         queryId,
-        error instanceof Error ? error : new Error(String(error))
+        query,
+        durationMs: duration,
+        result: null,
+        error: failure,
+        cached: false,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the page after a result returned by this session and merge it.
+   * Resolves to null when there are no more pages, or when the next page
+   * would exceed the session's node or edge limits.
+   */
+  async fetchNextPage(
+    result: QueryResult,
+    options: ExecuteOptions = {}
+  ): Promise<QueryResult | null> {
+    const origin = this.resultOrigins.get(result);
+    if (!origin) {
+      throw new ValidationError(
+        "Result was not returned by this session",
+        "result"
       );
+    }
+    const { query, sources } = origin;
+
+    const cursor = result.metadata.cursor;
+    if (cursor === null) return null;
+
+    const remaining = this.limiter.getSafeFetchLimit();
+    if (remaining <= 0) {
+      this.logger.info("Pagination stopped at session limits", {
+        queryType: query.type,
+      });
+      return null;
+    }
+
+    const pageSizes = sources.flatMap(
+      (s) => this.connectors.get(s)?.getCapabilities().maxPageSize ?? []
+    );
+    const pageSize =
+      query.pagination?.limit ??
+      (pageSizes.length > 0 ? Math.min(...pageSizes) : undefined);
+    const limit = Math.min(pageSize ?? remaining, remaining);
+
+    try {
+      return await this.executeQuery(
+        {
+          ...query,
+          pagination: { limit, cursor },
+        },
+        { ...options, source: sources }
+      );
+    } catch (error) {
+      if (
+        error instanceof LimitExceededError &&
+        (error.limitType === "maxNodes" || error.limitType === "maxEdges")
+      ) {
+        this.logger.info("Pagination stopped at session limits", {
+          queryType: query.type,
+          limitType: error.limitType,
+        });
+        return null;
+      }
       throw error;
     }
   }
 
-  /** Merge graph data into session */
-  private mergeData(data: GraphData): void {
-    const oldState = this.state;
+  /**
+   * Execute a query and then each following page, merging every page into
+   * the session. Stops when the connector has no more pages or the session's
+   * limits are reached.
+   */
+  async *pages(
+    query: Query | FluentQuery,
+    options: ExecuteOptions = {}
+  ): AsyncGenerator<QueryResult, void, undefined> {
+    let result: QueryResult | null = await this.executeQuery(query, options);
+    while (result) {
+      yield result;
+      result = await this.fetchNextPage(result, options);
+    }
+  }
 
-    const nodeMap = new Map(this.state.nodes.map((n) => [n.id, n]));
-    const edgeMap = new Map(this.state.edges.map((e) => [e.id, e]));
+  /**
+   * Get schema statistics (label and edge type counts, connectivity and
+   * property statistics) from the connector. Nothing is merged into the
+   * session. With several sources attached, `source` names the one to ask.
+   */
+  async getSchema(
+    options?: SchemaOptions,
+    source?: string
+  ): Promise<GraphSchema> {
+    const { connector } = this.singleSource(source);
+
+    const capabilities = connector.getCapabilities();
+    if (!capabilities.supportsSchema || !connector.getSchema) {
+      throw new QueryNotSupportedError(
+        `Schema statistics are not supported by ${capabilities.connectorType}`,
+        "schema"
+      );
+    }
+
+    const startTime = Date.now();
+    const schema = await connector.getSchema(options);
+    this.logger.debug("Schema fetched", {
+      durationMs: Date.now() - startTime,
+      labels: schema.labels.length,
+      edgeTypes: schema.edgeTypes.length,
+    });
+    return schema;
+  }
 
-    for (const node of data.nodes) {
-      nodeMap.set(node.id, node);
+  /**
+   * Explain a canonical or fluent query: the native statements the connector
+   * would send, their redacted parameters, the applied limits and, where the
+   * backend supports it, the database plan. The query is not run and nothing
+   * is merged or cached. With several sources attached, `source` names the
+   * one to ask.
+   */
+  async explain(
+    input: Query | FluentQuery,
+    options?: ExplainOptions,
+    source?: string
+  ): Promise<QueryExplanation> {
+    const { name, connector } = this.singleSource(source);
+
+    const capabilities = connector.getCapabilities();
+    if (!capabilities.supportsExplain || !connector.explain) {
+      throw new QueryNotSupportedError(
+        `Query explanation is not supported by ${capabilities.connectorType}`,
+        "explain"
+      );
     }
 
-    for (const edge of data.edges) {
-      edgeMap.set(edge.id, edge);
+    const query = toSourceQuery(normalizeQuery(input), this.idMap(name));
+    const explanation = await connector.explain(query, options);
+    this.logger.debug("Query explained", {
+      queryType: query.type,
+      statements: explanation.statements.length,
+    });
+    return explanation;
+  }
+
+  /** Attached sources a query is routed to */
+  private routeSources(source: ExecuteOptions["source"]): AttachedSource[] {
+    if (this.connectors.size === 0) {
+      throw new ValidationError("No connector attached to session");
     }
 
-    const newState: GraphData = {
-      nodes: Array.from(nodeMap.values()),
-      edges: Array.from(edgeMap.values()),
-    };
+    const names =
+      source === undefined
+        ? [...this.connectors.keys()]
+        : [...new Set(typeof source === "string" ? [source] : source)];
+    if (names.length === 0) {
+      throw new ValidationError("No source selected", "source");
+    }
 
-    const patch = calculatePatch(oldState, newState);
+    return names.map((name) => {
+      const connector = this.connectors.get(name);
+      if (!connector) {
+        throw new ValidationError(`Unknown source '${name}'`, "source");
+      }
+      return { name, connector };
+    });
+  }
 
-    if (!isPatchEmpty(patch)) {
-      this.state = newState;
-      this.patchHistory.push(patch);
-      this.undoStack = []; // Clear redo stack on new changes
-      this.limiter.updateCounts(newState.nodes.length, newState.edges.length);
+  /** The one source asked for schema statistics or explanations */
+  private singleSource(source: string | undefined): AttachedSource {
+    const [first, ...others] = this.routeSources(source);
+    if (!first || others.length > 0) {
+      throw new ValidationError(
+        "Several sources are attached; name the source to use",
+        "source"
+      );
     }
+    return first;
   }
 
-  /** Add nodes to session */
-  addNodes(nodes: GraphNode[]): GraphPatch {
-    this.limiter.enforceNodeLimit(nodes.length);
+  /**
+   * Requests for a query routed to `sources`, with session IDs mapped to
+   * source IDs. A fanned-out page skips the sources without more pages.
+   */
+  private sourceRequests(
+    query: Query,
+    sources: readonly AttachedSource[]
+  ): SourceRequest[] {
+    const pagination = query.pagination;
+    const cursors =
+      sources.length > 1 && pagination?.cursor !== undefined
+        ? sourceCursors(pagination.cursor)
+        : null;
+
+    const requests: SourceRequest[] = [];
+    for (const source of sources) {
+      const sourceQuery = toSourceQuery(query, this.idMap(source.name));
+      if (!cursors || !pagination) {
+        requests.push({ ...source, query: sourceQuery });
+        continue;
+      }
 
-    const oldState = this.state;
-    const nodeMap = new Map(this.state.nodes.map((n) => [n.id, n]));
+      const cursor = cursors.get(source.name);
+      if (cursor !== undefined) {
+        requests.push({
+          ...source,
+          query: { ...sourceQuery, pagination: { ...pagination, cursor } },
+        });
+      }
+    }
+    return requests;
+  }
 
-    for (const node of nodes) {
-      nodeMap.set(node.id, node);
+  /**
+   * Run one source's request through the scheduler. Its data is tagged once,
+   * so callers sharing the request share the result.
+   */
+  private async runSourceRequest(
+    request: SourceRequest,
+    options: ExecuteOptions,
+    signal: AbortSignal | undefined
+  ): Promise<SourceResult> {
+    const { name, connector, query } = request;
+    const result = await this.scheduler.run(
+      generateQueryCacheKey(
+        sourceKey(request),
+        query.type,
+        query as unknown as Record<string, unknown>
+      ),
+      options.priority ?? "interactive",
+      signal,
+      async (scheduled) => {
+        const raw = await connector.executeQuery(query, { signal: scheduled });
+        const ids = this.idMap(name);
+        return {
+          ...raw,
+          data: tagSourceData(raw.data, name, this.resolveId, ids),
+        };
+      }
+    );
+    return { source: name, result };
+  }
+
+  private idMap(source: string): SourceIdMap {
+    let ids = this.sourceIds.get(source);
+    if (!ids) {
+      ids = { nodes: new Map(), edges: new Map() };
+      this.sourceIds.set(source, ids);
     }
+    return ids;
+  }
 
-    const newState: GraphData = {
-      nodes: Array.from(nodeMap.values()),
-      edges: this.state.edges,
-    };
+  /**
+   * Take the next place in the merge order. `ready` settles once every
+   * earlier query is done; call `done` after merging, or on failure.
+   */
+  private takeMergeTurn(): { ready: Promise<void>; done: () => void } {
+    const ready = this.mergeTail;
+    let done = (): void => {};
+    const finished = new Promise<void>((resolve) => {
+      done = resolve;
+    });
+    this.mergeTail = ready.then(() => finished);
+    return { ready, done };
+  }
+
+  /** Merge graph data into session */
+  private mergeData(data: GraphData): void {
+    const patch = this.store.change((store) => {
+      // The same entity from another source is combined, not replaced
+      const incoming: GraphNode[] = [];
+      for (const node of data.nodes) {
+        const existing = store.getNode(node.id);
+        const merged = existing
+          ? keepView(existing, combineNode(existing, node))
+          : node;
+        store.setNode(merged);
+        incoming.push(merged);
+      }
 
-    const patch = calculatePatch(oldState, newState);
-    this.state = newState;
-    this.patchHistory.push(patch);
-    this.undoStack = [];
-    this.limiter.updateCounts(newState.nodes.length, newState.edges.length);
+      for (const edge of data.edges) {
+        const existing = store.getEdge(edge.id);
+        store.setEdge(
+          existing ? keepView(existing, combineEdge(existing, edge)) : edge
+        );
+      }
+
+      // Duplicates of the incoming nodes are merged within the query's
+      // patch, undone with it
+      for (const group of this.duplicates?.groupsOf(incoming) ?? []) {
+        mergeInto(store, group, {
+          onConflict: this.entityResolution?.onConflict,
+        });
+      }
+    });
+
+    if (!isPatchEmpty(patch)) {
+      this.history.commit(patch);
+      this.changed(patch);
+    }
+  }
+
+  /** Update counts and tell subscribers about a change to the data */
+  private changed(patch: GraphPatch): void {
+    for (const { operation, node } of patch.nodePatch) {
+      if (operation === "remove") {
+        this.touched.delete(node.id);
+        this.duplicates?.delete(node.id);
+      } else {
+        this.touched.set(node.id, ++this.touchClock);
+        this.duplicates?.set(node);
+      }
+    }
+    this.limiter.updateCounts(this.store.nodeCount, this.store.edgeCount);
+    if (!isPatchEmpty(patch)) this.events.emit("patch", patch);
+  }
+
+  /** Add nodes to session */
+  addNodes(nodes: GraphNode[]): GraphPatch {
+    this.limiter.enforceNodeLimit(
+      nodes.length,
+      this.evictor(new Set(nodes.map((n) => n.id)))
+    );
+
+    const patch = this.store.change((store) => {
+      for (const node of nodes) {
+        store.setNode(node);
+      }
+    });
+    this.history.commit(patch);
+    this.changed(patch);
 
     return patch;
   }
@@ -243,133 +862,395 @@ export class GraphSession {
   addEdges(edges: GraphEdge[]): GraphPatch {
     this.limiter.enforceEdgeLimit(edges.length);
 
-    const oldState = this.state;
-    const edgeMap = new Map(this.state.edges.map((e) => [e.id, e]));
+    const patch = this.store.change((store) => {
+      for (const edge of edges) {
+        store.setEdge(edge);
+      }
+    });
+    this.history.commit(patch);
+    this.changed(patch);
 
-    for (const edge of edges) {
-      edgeMap.set(edge.id, edge);
-    }
+    return patch;
+  }
 
-    const newState: GraphData = {
-      nodes: this.state.nodes,
-      edges: Array.from(edgeMap.values()),
-    };
+  /** Remove nodes by ID, with the edges connected to them */
+  removeNodes(nodeIds: NodeId[]): GraphPatch {
+    const patch = this.store.change((store) => removeFrom(store, nodeIds));
+    this.history.commit(patch);
+    this.changed(patch);
 
-    const patch = calculatePatch(oldState, newState);
-    this.state = newState;
-    this.patchHistory.push(patch);
-    this.undoStack = [];
-    this.limiter.updateCounts(newState.nodes.length, newState.edges.length);
+    return patch;
+  }
+
+  /**
+   * Merge nodes that stand for the same entity into one. The survivor (first
+   * ID by default) gets every label, properties are combined by the
+   * strategy's conflict policy, and the other nodes' edges are rewired to
+   * it. Recorded as one patch, so undo restores the merged nodes.
+   */
+  mergeNodes(ids: readonly NodeId[], strategy?: MergeStrategy): GraphPatch {
+    const merged = mergeNodeGroup(this.store.getData(), ids, {
+      onConflict: this.entityResolution?.onConflict,
+      ...strategy,
+    });
 
+    const patch = this.store.change((store) => store.replace(merged));
+    this.history.commit(patch);
+    this.changed(patch);
+
+    this.logger.debug("Nodes merged", {
+      nodes: ids.length,
+      survivor: strategy?.survivor ?? ids[0],
+    });
     return patch;
   }
 
-  /** Remove nodes by ID */
-  removeNodes(nodeIds: NodeId[]): GraphPatch {
-    const nodeIdSet = new Set(nodeIds);
-    const oldState = this.state;
+  /**
+   * Find groups of duplicate nodes in the session by the given rules, or
+   * the session's entity resolution rules
+   */
+  findDuplicates(
+    rules: readonly DuplicateRule[] = this.entityResolution?.rules ?? []
+  ): NodeId[][] {
+    return findDuplicates(this.store.getData(), rules);
+  }
 
-    const remainingNodes = this.state.nodes.filter((n) => !nodeIdSet.has(n.id));
-    // Also remove edges connected to removed nodes
-    const remainingEdges = this.state.edges.filter(
-      (e) => !nodeIdSet.has(e.source) && !nodeIdSet.has(e.target)
+  /**
+   * Merge every group of duplicates found by the rules into its first node,
+   * as one patch. Returns null when there are no duplicates.
+   */
+  resolveDuplicates(
+    rules: readonly DuplicateRule[] = this.entityResolution?.rules ?? []
+  ): GraphPatch | null {
+    const merged = mergeDuplicates(
+      this.store.getData(),
+      rules,
+      this.entityResolution?.onConflict
     );
 
-    const newState: GraphData = {
-      nodes: remainingNodes,
-      edges: remainingEdges,
-    };
+    const patch = this.store.change((store) => store.replace(merged));
+    if (isPatchEmpty(patch)) return null;
 
-    const patch = calculatePatch(oldState, newState);
-    this.state = newState;
-    this.patchHistory.push(patch);
-    this.undoStack = [];
-    this.limiter.updateCounts(newState.nodes.length, newState.edges.length);
+    this.history.commit(patch);
+    this.changed(patch);
+    return patch;
+  }
+
+  /** Pin nodes, so that prune() keeps them */
+  pinNodes(nodeIds: readonly NodeId[]): GraphPatch {
+    return this.setNodeViews(nodeIds, { pinned: true });
+  }
+
+  unpinNodes(nodeIds: readonly NodeId[]): GraphPatch {
+    return this.setNodeViews(nodeIds, { pinned: false });
+  }
+
+  /** Hide nodes without removing them; their edges are not drawn either */
+  hideNodes(nodeIds: readonly NodeId[]): GraphPatch {
+    return this.setNodeViews(nodeIds, { hidden: true });
+  }
 
+  showNodes(nodeIds: readonly NodeId[]): GraphPatch {
+    return this.setNodeViews(nodeIds, { hidden: false });
+  }
+
+  hideEdges(edgeIds: readonly EdgeId[]): GraphPatch {
+    return this.setEdgeViews(edgeIds, { hidden: true });
+  }
+
+  showEdges(edgeIds: readonly EdgeId[]): GraphPatch {
+    return this.setEdgeViews(edgeIds, { hidden: false });
+  }
+
+  /**
+   * Fold a hub's neighbors into one placeholder: the hub is marked collapsed
+   * and each neighbor records the hub in `view.collapsedBy`. Pinned
+   * neighbors stay drawn.
+   */
+  collapseNeighbors(hubId: NodeId): GraphPatch {
+    return this.changeView((store) => {
+      store.setNode(withView(requireNode(store, hubId), { collapsed: true }));
+      for (const edge of store.getEdgesForNode(hubId)) {
+        const neighbor = store.getNode(
+          edge.source === hubId ? edge.target : edge.source
+        );
+        if (!neighbor || neighbor.id === hubId || neighbor.view?.pinned) {
+          continue;
+        }
+
+        const collapsedBy = neighbor.view?.collapsedBy ?? [];
+        if (!collapsedBy.includes(hubId)) {
+          store.setNode(
+            withView(neighbor, { collapsedBy: [...collapsedBy, hubId] })
+          );
+        }
+      }
+    });
+  }
+
+  /** Draw a collapsed hub's neighbors again */
+  uncollapseNeighbors(hubId: NodeId): GraphPatch {
+    return this.changeView((store) => {
+      store.setNode(withView(requireNode(store, hubId), { collapsed: false }));
+      releaseCollapsed(store, new Set([hubId]));
+    });
+  }
+
+  /**
+   * Remove every node that is not pinned, with its edges, as one patch that
+   * undo restores
+   */
+  prune(): GraphPatch {
+    return this.changeView((store) =>
+      removeFrom(
+        store,
+        store
+          .getData()
+          .nodes.filter((n) => !n.view?.pinned)
+          .map((n) => n.id)
+      )
+    );
+  }
+
+  /**
+   * Mark nodes as in use, such as when selected, so that the
+   * leastRecentlyTouched eviction policy keeps them longer
+   */
+  touchNodes(nodeIds: readonly NodeId[]): void {
+    for (const nodeId of nodeIds) requireNode(this.store, nodeId);
+    this.touch(nodeIds);
+  }
+
+  /** Set the nodes that the farthestFromFocus eviction policy keeps near */
+  setFocus(nodeIds: readonly NodeId[]): void {
+    for (const nodeId of nodeIds) requireNode(this.store, nodeId);
+    this.focus = [...nodeIds];
+  }
+
+  getFocus(): readonly NodeId[] {
+    return this.focus;
+  }
+
+  private setNodeViews(
+    nodeIds: readonly NodeId[],
+    change: ElementViewState
+  ): GraphPatch {
+    return this.changeView((store) => {
+      for (const nodeId of nodeIds) {
+        store.setNode(withView(requireNode(store, nodeId), change));
+      }
+    });
+  }
+
+  private setEdgeViews(
+    edgeIds: readonly EdgeId[],
+    change: ElementViewState
+  ): GraphPatch {
+    return this.changeView((store) => {
+      for (const edgeId of edgeIds) {
+        const edge = store.getEdge(edgeId);
+        if (!edge) {
+          throw new ValidationError(
+            `Edge '${edgeId}' is not in the graph`,
+            "edgeIds"
+          );
+        }
+        store.setEdge(withView(edge, change));
+      }
+    });
+  }
+
+  private touch(nodeIds: readonly NodeId[]): void {
+    for (const nodeId of nodeIds) {
+      if (this.store.hasNode(nodeId)) {
+        this.touched.set(nodeId, ++this.touchClock);
+      }
+    }
+  }
+
+  /**
+   * Removes nodes other than `keep` under the session's eviction policy, as
+   * one patch that undo restores. Undefined without a policy.
+   */
+  private evictor(
+    keep: ReadonlySet<NodeId>
+  ): ((count: number) => NodeId[]) | undefined {
+    const eviction = this.eviction;
+    if (!eviction) return undefined;
+
+    return (count) => {
+      const nodeIds = selectEvictions(this.store, count, eviction.policy, {
+        touched: this.touched,
+        focus: this.focus,
+        keep,
+      });
+      // Nothing is evicted unless enough can be to admit the result
+      if (nodeIds.length < count) return [];
+
+      const patch = this.store.change((store) => removeFrom(store, nodeIds));
+      this.history.commit(patch);
+      this.changed(patch);
+      return nodeIds;
+    };
+  }
+
+  /** Record a change to view state; nothing is recorded if nothing changed */
+  private changeView(apply: (store: GraphStore) => void): GraphPatch {
+    const patch = this.store.change(apply);
+    if (!isPatchEmpty(patch)) {
+      this.history.commit(patch);
+      this.changed(patch);
+    }
     return patch;
   }
 
   /** Undo last patch */
   undo(): GraphPatch | null {
-    const lastPatch = this.patchHistory.pop();
+    const lastPatch = this.history.undo();
     if (!lastPatch) {
       return null;
     }
 
     const invertedPatch = invertPatch(lastPatch);
-    this.state = applyPatch(this.state, invertedPatch);
-    this.undoStack.push(lastPatch);
-    this.limiter.updateCounts(
-      this.state.nodes.length,
-      this.state.edges.length
-    );
+    this.store.applyPatch(invertedPatch);
+    this.changed(invertedPatch);
 
     return invertedPatch;
   }
 
-  /** Redo last undone patch */
+  /**
+   * Redo last undone patch. After a checkout, redo follows the branch that
+   * was left.
+   */
   redo(): GraphPatch | null {
-    const patchToRedo = this.undoStack.pop();
+    const patchToRedo = this.history.redo();
     if (!patchToRedo) {
       return null;
     }
 
-    this.state = applyPatch(this.state, patchToRedo);
-    this.patchHistory.push(patchToRedo);
-    this.limiter.updateCounts(
-      this.state.nodes.length,
-      this.state.edges.length
-    );
+    this.store.applyPatch(patchToRedo);
+    this.changed(patchToRedo);
 
     return patchToRedo;
   }
 
+  /**
+   * Bookmark the current state under a name. Changes made after checking
+   * out a bookmark start a new branch; no branch is discarded.
+   */
+  bookmark(name: string): Bookmark {
+    return this.history.addBookmark(name);
+  }
+
+  /** Get bookmarks, oldest first */
+  getBookmarks(): Bookmark[] {
+    return this.history.getBookmarks();
+  }
+
+  /** Remove a bookmark; the revisions it named stay in the history */
+  removeBookmark(bookmarkId: string): boolean {
+    return this.history.removeBookmark(bookmarkId);
+  }
+
+  /**
+   * Return to a bookmarked state, undoing changes up to the branch point and
+   * redoing the bookmarked branch. Returns the change to the session's data.
+   */
+  checkout(bookmarkId: string): GraphPatch {
+    const { revisionId } = this.history.getBookmark(bookmarkId);
+    const path = this.history.path(this.history.getCurrent().id, revisionId);
+    const patch = this.store.change((store) => {
+      for (const up of path.up) store.applyPatch(invertPatch(up));
+      for (const down of path.down) store.applyPatch(down);
+    });
+
+    this.history.moveTo(revisionId);
+    this.changed(patch);
+    this.logger.debug("Checked out bookmark", { bookmarkId });
+    return patch;
+  }
+
+  /** Get the history's branches, one per head revision */
+  getBranches(): HistoryBranch[] {
+    return this.history.getBranches();
+  }
+
+  /** Change from one bookmarked state to another */
+  diffBookmarks(fromBookmarkId: string, toBookmarkId: string): GraphPatch {
+    return diffRevisions(
+      this.history,
+      this.store.getData(),
+      this.history.getBookmark(fromBookmarkId).revisionId,
+      this.history.getBookmark(toBookmarkId).revisionId
+    );
+  }
+
   /** Get current state */
   getState(): SessionState {
     return {
-      data: this.state,
-      nodeCount: this.state.nodes.length,
-      edgeCount: this.state.edges.length,
-      patchHistory: this.patchHistory,
-      undoStack: this.undoStack,
+      data: this.store.getData(),
+      nodeCount: this.store.nodeCount,
+      edgeCount: this.store.edgeCount,
+      patchHistory: this.history.getPatchHistory(),
+      undoStack: this.history.getRedoStack(),
+      view: getViewState(this.store.getData()),
     };
   }
 
   /** Get graph data */
   getData(): GraphData {
-    return this.state;
+    return this.store.getData();
   }
 
   /** Get node by ID */
   getNode(nodeId: NodeId): GraphNode | undefined {
-    return this.state.nodes.find((n) => n.id === nodeId);
+    return this.store.getNode(nodeId);
+  }
+
+  /** Get edge by ID */
+  getEdge(edgeId: EdgeId): GraphEdge | undefined {
+    return this.store.getEdge(edgeId);
   }
 
   /** Get edges for a node */
   getEdgesForNode(nodeId: NodeId): GraphEdge[] {
-    return this.state.edges.filter(
-      (e) => e.source === nodeId || e.target === nodeId
-    );
+    return this.store.getEdgesForNode(nodeId);
+  }
+
+  /** Get nodes with a label */
+  getNodesByLabel(label: string): GraphNode[] {
+    return this.store.getNodesByLabel(label);
+  }
+
+  /** Get edges of a type */
+  getEdgesByType(type: string): GraphEdge[] {
+    return this.store.getEdgesByType(type);
   }
 
-  /** Get patch history */
+  /** Get patch history, from the first change to the current state */
   getPatchHistory(): readonly GraphPatch[] {
-    return this.patchHistory;
+    return this.history.getPatchHistory();
   }
 
   /** Get last patch summary */
   getLastPatchSummary(): PatchSummary | null {
-    const lastPatch = this.patchHistory[this.patchHistory.length - 1];
+    const lastPatch = this.history.getCurrent().patch;
     return lastPatch ? getPatchSummary(lastPatch) : null;
   }
 
   /** Clear session */
   clear(): void {
-    this.state = { nodes: [], edges: [] };
-    this.patchHistory = [];
-    this.undoStack = [];
+    // Subscribers see the removal as a patch; it is not recorded in history
+    const patch = this.store.change((store) =>
+      store.replace({ nodes: [], edges: [] })
+    );
+    this.history = new HistoryTree();
     this.cache.clear();
     this.limiter.reset();
+    this.touched.clear();
+    this.duplicates?.clear();
+    this.focus = [];
+    if (!isPatchEmpty(patch)) this.events.emit("patch", patch);
     this.logger.info("Session cleared");
   }
 
@@ -389,34 +1270,176 @@ export class GraphSession {
     };
   }
 
-  /** Export session to JSON */
+  /**
+   * Snapshot of the session: data, history with bookmarks, configuration,
+   * attached sources and cached results. Connectors are recorded by name, ID
+   * and type only, without credentials.
+   */
+  toSnapshot(): SessionSnapshot {
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      config: this.config,
+      data: this.store.getData(),
+      history: this.history.serialize(),
+      sources: [...this.connectors].map(([name, connector]) => {
+        const ids = this.sourceIds.get(name);
+        return {
+          name,
+          connectorId: connector.getId(),
+          connectorType: connector.getCapabilities().connectorType,
+          nodeIds: [...(ids?.nodes ?? [])],
+          edgeIds: [...(ids?.edges ?? [])],
+        };
+      }),
+      cache: this.cache
+        .entries()
+        .map(({ key, value, timestamp }) => ({ key, data: value, timestamp })),
+    };
+  }
+
+  /** Export session to JSON, as a snapshot */
   toJSON(): string {
-    return JSON.stringify({
-      data: this.state,
-      patchHistory: this.patchHistory,
-      timestamp: new Date().toISOString(),
-    });
+    return JSON.stringify(this.toSnapshot());
   }
 
-  /** Import session from JSON */
+  /**
+   * Restore a session from a snapshot of any supported version, which is
+   * validated first. Saved sources are reattached through
+   * options.connectors; configuration in options overrides the saved one.
+   */
+  static async fromSnapshot(
+    snapshot: unknown,
+    options: RestoreOptions = {}
+  ): Promise<GraphSession> {
+    const valid = migrateSnapshot(snapshot);
+    const session = GraphSession.restore(valid, options);
+
+    for (const source of valid.sources) {
+      const connector = await options.connectors?.(source);
+      if (connector) {
+        await session.attach(source.name, connector);
+      } else {
+        session.logger.info("Source not reattached", { source: source.name });
+      }
+    }
+    return session;
+  }
+
+  /**
+   * Import session from JSON written by toJSON(). Sources are not
+   * reattached; use fromSnapshot for that.
+   */
   static fromJSON(json: string, options?: SessionOptions): GraphSession {
-    const parsed = JSON.parse(json) as {
-      data: GraphData;
-      patchHistory: GraphPatch[];
-    };
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new ValidationError("Snapshot is not valid JSON", "snapshot", {
+        cause: error,
+      });
+    }
+    return GraphSession.restore(migrateSnapshot(parsed), options);
+  }
 
-    const session = new GraphSession(options);
-    session.state = parsed.data;
-    session.patchHistory = parsed.patchHistory;
+  private static restore(
+    snapshot: SessionSnapshot,
+    options: SessionOptions = {}
+  ): GraphSession {
+    const session = new GraphSession({
+      ...options,
+      config: { ...snapshot.config, ...options.config },
+    });
+    session.store.load(snapshot.data);
+    for (const node of snapshot.data.nodes) session.duplicates?.set(node);
+    session.history = HistoryTree.restore(snapshot.history);
+    session.cache.restore(
+      snapshot.cache.map(({ key, data, timestamp }) => ({
+        key,
+        value: data,
+        timestamp,
+      }))
+    );
+    for (const source of snapshot.sources) {
+      session.sourceIds.set(source.name, {
+        nodes: new Map(source.nodeIds),
+        edges: new Map(source.edgeIds),
+      });
+    }
     session.limiter.updateCounts(
-      parsed.data.nodes.length,
-      parsed.data.edges.length
+      snapshot.data.nodes.length,
+      snapshot.data.edges.length
     );
 
     return session;
   }
 }
 
+/** Cache key part for a source; sources may share a connector ID */
+function sourceKey(source: AttachedSource): string {
+  const id = source.connector.getId();
+  return source.name === id ? id : `${source.name}:${id}`;
+}
+
+/** Nodes a result needs in the session: its own and its edges' endpoints */
+function resultNodeIds(data: GraphData): Set<NodeId> {
+  const ids = new Set(data.nodes.map((n) => n.id));
+  for (const edge of data.edges) {
+    ids.add(edge.source);
+    ids.add(edge.target);
+  }
+  return ids;
+}
+
+/**
+ * Merge nodes into the first in place, changing only them and their edges
+ */
+function mergeInto(
+  store: GraphStore,
+  nodeIds: readonly NodeId[],
+  strategy: MergeStrategy
+): void {
+  const nodes: GraphNode[] = [];
+  const edges = new Map<EdgeId, GraphEdge>();
+  for (const nodeId of nodeIds) {
+    const node = store.getNode(nodeId);
+    if (node) nodes.push(node);
+    for (const edge of store.getEdgesForNode(nodeId)) edges.set(edge.id, edge);
+  }
+
+  const merged = mergeNodeGroup(
+    { nodes, edges: [...edges.values()] },
+    nodeIds,
+    strategy
+  );
+  for (const nodeId of nodeIds.slice(1)) store.removeNode(nodeId);
+  for (const node of merged.nodes) store.setNode(node);
+  for (const edge of merged.edges) store.setEdge(edge);
+}
+
+/** Remove nodes and their edges, releasing the nodes folded into them */
+function removeFrom(store: GraphStore, nodeIds: readonly NodeId[]): void {
+  const hubIds = new Set(
+    nodeIds.filter((id) => store.getNode(id)?.view?.collapsed)
+  );
+  for (const nodeId of nodeIds) {
+    store.removeNode(nodeId);
+  }
+  releaseCollapsed(store, hubIds);
+}
+
+function requireNode(store: GraphStore, nodeId: NodeId): GraphNode {
+  const node = store.getNode(nodeId);
+  if (!node) {
+    throw new ValidationError(
+      `Node '${nodeId}' is not in the graph`,
+      "nodeIds"
+    );
+  }
+  return node;
+}
+
 /** Create a new graph session */
 export function createSession(options?: SessionOptions): GraphSession {
   return new GraphSession(options);
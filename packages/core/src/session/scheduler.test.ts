@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "../errors/index.js";
+import type { QueryResult } from "../types/index.js";
+
+import { QueryScheduler } from "./scheduler.js";
+
+const RESULT: QueryResult = {
+  data: { nodes: [], edges: [] },
+  metadata: {
+    executionTimeMs: 0,
+    totalAvailable: null,
+    truncated: false,
+    cursor: null,
+  },
+};
+
+/** Let settled requests release their slots */
+const flush = (): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, 0));
+
+/** Requests that finish when the test resolves them */
+function manualRequests(): {
+  started: string[];
+  signals: Map<string, AbortSignal>;
+  request: (name: string) => (signal: AbortSignal) => Promise<QueryResult>;
+  finish: (name: string) => void;
+} {
+  const started: string[] = [];
+  const signals = new Map<string, AbortSignal>();
+  const resolvers = new Map<string, () => void>();
+
+  return {
+    started,
+    signals,
+    request: (name) => (signal) => {
+      started.push(name);
+      signals.set(name, signal);
+      return new Promise<QueryResult>((resolve) => {
+        resolvers.set(name, () => resolve(RESULT));
+      });
+    },
+    finish: (name) => resolvers.get(name)?.(),
+  };
+}
+
+describe("QueryScheduler", () => {
+  it("should run at most maxConcurrent requests at once", async () => {
+    const scheduler = new QueryScheduler(2);
+    const { started, request, finish } = manualRequests();
+
+    scheduler.run("a", "interactive", undefined, request("a"));
+    scheduler.run("b", "interactive", undefined, request("b"));
+    scheduler.run("c", "interactive", undefined, request("c"));
+
+    expect(started).toEqual(["a", "b"]);
+    expect(scheduler.getStats().queued.interactive).toBe(1);
+
+    finish("a");
+    await flush();
+    expect(started).toEqual(["a", "b", "c"]);
+  });
+
+  it("should start interactive requests before background ones", async () => {
+    const scheduler = new QueryScheduler(1);
+    const { started, request, finish } = manualRequests();
+
+    scheduler.run("a", "interactive", undefined, request("a"));
+    scheduler.run("prefetch", "background", undefined, request("prefetch"));
+    scheduler.run("b", "interactive", undefined, request("b"));
+
+    finish("a");
+    await flush();
+    expect(started).toEqual(["a", "b"]);
+  });
+
+  it("should share an in-flight request between identical queries", async () => {
+    const scheduler = new QueryScheduler(1);
+    const { started, request, finish } = manualRequests();
+
+    scheduler.run("busy", "interactive", undefined, request("busy"));
+    const background = scheduler.run(
+      "q",
+      "background",
+      undefined,
+      request("q")
+    );
+    const interactive = scheduler.run(
+      "q",
+      "interactive",
+      undefined,
+      request("q2")
+    );
+    scheduler.run("other", "interactive", undefined, request("other"));
+
+    finish("busy");
+    await flush();
+    // The joined request was promoted to the interactive lane
+    expect(started).toEqual(["busy", "q"]);
+
+    finish("q");
+    expect(await background).toBe(await interactive);
+  });
+
+  it("should abort a request only when every caller has cancelled", () => {
+    const scheduler = new QueryScheduler(1);
+    const { signals, request } = manualRequests();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    void scheduler
+      .run("q", "interactive", first.signal, request("q"))
+      .catch(() => {});
+    void scheduler.run("q", "interactive", second.signal, request("q"));
+
+    first.abort();
+    expect(signals.get("q")?.aborted).toBe(false);
+    second.abort();
+    expect(signals.get("q")?.aborted).toBe(true);
+  });
+
+  it("should reject invalid concurrency", () => {
+    expect(() => new QueryScheduler(0)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Query scheduler
+ * Runs connector requests with bounded concurrency, interactive requests ahead
+ * of background ones, and shares one request between identical queries that
+ * are in flight at the same time.
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { QueryPriority, QueryResult } from "../types/index.js";
+
+/** Connector request, given the signal that cancels it */
+export type ScheduledRequest = (signal: AbortSignal) => Promise<QueryResult>;
+
+/** Scheduler statistics */
+export interface SchedulerStats {
+  /** Requests holding a concurrency slot */
+  readonly running: number;
+  /** Requests waiting for a slot, per lane */
+  readonly queued: Readonly<Record<QueryPriority, number>>;
+}
+
+/** Request shared by every caller of the same query */
+interface InFlightRequest {
+  readonly key: string;
+  priority: QueryPriority;
+  readonly controller: AbortController;
+  readonly promise: Promise<QueryResult>;
+  /** Callers that have not cancelled */
+  waiting: number;
+  running: boolean;
+  start(): void;
+  drop(reason: unknown): void;
+}
+
+/** Schedules connector requests for a GraphSession */
+export class QueryScheduler {
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private readonly lanes: Record<QueryPriority, InFlightRequest[]> = {
+    interactive: [],
+    background: [],
+  };
+  private running = 0;
+
+  constructor(private readonly maxConcurrent: number) {
+    if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+      throw new ValidationError(
+        "maxConcurrentQueries must be a positive integer",
+        "maxConcurrentQueries"
+      );
+    }
+  }
+
+  /**
+   * Run `request` once a slot is free, or join the identical request (same
+   * key) that is already in flight. The request is aborted when every caller
+   * waiting for it has cancelled through its signal.
+   */
+  run(
+    key: string,
+    priority: QueryPriority,
+    signal: AbortSignal | undefined,
+    request: ScheduledRequest
+  ): Promise<QueryResult> {
+    let entry = this.inFlight.get(key);
+    if (entry) {
+      if (priority === "interactive") this.promote(entry);
+    } else {
+      entry = this.enqueue(key, priority, request);
+    }
+
+    entry.waiting++;
+    this.watch(entry, signal);
+    this.drain();
+    return entry.promise;
+  }
+
+  /** Get scheduler statistics */
+  getStats(): SchedulerStats {
+    return {
+      running: this.running,
+      queued: {
+        interactive: this.lanes.interactive.length,
+        background: this.lanes.background.length,
+      },
+    };
+  }
+
+  private enqueue(
+    key: string,
+    priority: QueryPriority,
+    request: ScheduledRequest
+  ): InFlightRequest {
+    let resolve: (result: QueryResult) => void = () => {};
+    let reject: (reason: unknown) => void = () => {};
+    const promise = new Promise<QueryResult>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const entry: InFlightRequest = {
+      key,
+      priority,
+      controller: new AbortController(),
+      promise,
+      waiting: 0,
+      running: false,
+      start: () => {
+        entry.running = true;
+        this.running++;
+        void request(entry.controller.signal)
+          .then(resolve, reject)
+          .finally(() => {
+            this.running--;
+            this.release(entry);
+            this.drain();
+          });
+      },
+      drop: reject,
+    };
+
+    this.inFlight.set(key, entry);
+    this.lanes[priority].push(entry);
+    return entry;
+  }
+
+  /** Move a queued background request to the interactive lane */
+  private promote(entry: InFlightRequest): void {
+    if (entry.priority === "interactive") return;
+    entry.priority = "interactive";
+    if (entry.running) return;
+
+    const background = this.lanes.background;
+    background.splice(background.indexOf(entry), 1);
+    this.lanes.interactive.push(entry);
+  }
+
+  /** Abandon the request once the caller's signal aborts and no one waits */
+  private watch(entry: InFlightRequest, signal: AbortSignal | undefined): void {
+    if (!signal) return;
+
+    const onAbort = (): void => {
+      entry.waiting--;
+      if (entry.waiting > 0) return;
+
+      // Later callers of the same query start a new request
+      this.release(entry);
+      if (entry.running) {
+        entry.controller.abort(signal.reason);
+      } else {
+        const lane = this.lanes[entry.priority];
+        lane.splice(lane.indexOf(entry), 1);
+        entry.drop(signal.reason);
+      }
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    const detach = (): void => signal.removeEventListener("abort", onAbort);
+    entry.promise.then(detach, detach);
+  }
+
+  private release(entry: InFlightRequest): void {
+    if (this.inFlight.get(entry.key) === entry) {
+      this.inFlight.delete(entry.key);
+    }
+  }
+
+  /** Start queued requests while slots are free, interactive first */
+  private drain(): void {
+    while (this.running < this.maxConcurrent) {
+      const next =
+        this.lanes.interactive.shift() ?? this.lanes.background.shift();
+      if (!next) return;
+      next.start();
+    }
+  }
+}
@@ -51,6 +51,10 @@ const DEFAULT_SESSION_CONFIG: SessionConfig = {
   limitWarnThreshold: 0.8,
 };
 
+/**
+ * @deprecated Use GraphSession, whose LimitsEnforcer covers the warning
+ * threshold, depth and path length limits configured here.
+ */
 export class SessionManager {
   private readonly config: SessionConfig;
   private readonly cache: CacheManager<Graph>;
@@ -0,0 +1,85 @@
+/**
+ * Element view state
+ * Pinned, hidden and collapsed flags kept on the elements themselves, so
+ * they travel in patches, undo history and snapshots with the data.
+ */
+
+import type { GraphStore } from "../store/index.js";
+import type {
+  ElementViewState,
+  GraphData,
+  GraphEdge,
+  GraphNode,
+  NodeId,
+} from "../types/index.js";
+
+/** IDs of the nodes in each view state */
+export interface SessionViewState {
+  readonly pinned: readonly NodeId[];
+  readonly hidden: readonly NodeId[];
+  readonly collapsed: readonly NodeId[];
+}
+
+/**
+ * Element with its view state changed. False and empty fields are dropped,
+ * and so is a view left empty, so undoing a change by hand gives back an
+ * equal element.
+ */
+export function withView<T extends GraphNode | GraphEdge>(
+  element: T,
+  change: ElementViewState
+): T {
+  const { view: previous, ...rest } = element;
+  const view: Record<string, unknown> = { ...previous, ...change };
+  for (const [key, value] of Object.entries(view)) {
+    if (value === undefined || value === false) delete view[key];
+    if (Array.isArray(value) && value.length === 0) delete view[key];
+  }
+  return (Object.keys(view).length > 0 ? { ...rest, view } : rest) as T;
+}
+
+/** `next` with the view state of `existing`, when it has none of its own */
+export function keepView<T extends GraphNode | GraphEdge>(
+  existing: T,
+  next: T
+): T {
+  return existing.view && !next.view ? { ...next, view: existing.view } : next;
+}
+
+/** Whether a node is drawn: not hidden nor folded into a collapsed hub */
+export function isNodeVisible(node: GraphNode): boolean {
+  return !node.view?.hidden && !node.view?.collapsedBy?.length;
+}
+
+/** Nodes folded into a hub */
+export function collapsedMembers(data: GraphData, hubId: NodeId): GraphNode[] {
+  return data.nodes.filter((n) => n.view?.collapsedBy?.includes(hubId));
+}
+
+export function getViewState(data: GraphData): SessionViewState {
+  const ids = (flag: "pinned" | "hidden" | "collapsed"): NodeId[] =>
+    data.nodes.filter((n) => n.view?.[flag]).map((n) => n.id);
+  return {
+    pinned: ids("pinned"),
+    hidden: ids("hidden"),
+    collapsed: ids("collapsed"),
+  };
+}
+
+/** Release the nodes folded into hubs, such as hubs being removed */
+export function releaseCollapsed(
+  store: GraphStore,
+  hubIds: ReadonlySet<NodeId>
+): void {
+  if (hubIds.size === 0) return;
+  for (const node of store.getData().nodes) {
+    const collapsedBy = node.view?.collapsedBy;
+    if (collapsedBy?.some((id) => hubIds.has(id))) {
+      store.setNode(
+        withView(node, {
+          collapsedBy: collapsedBy.filter((id) => !hubIds.has(id)),
+        })
+      );
+    }
+  }
+}
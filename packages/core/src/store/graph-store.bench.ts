@@ -0,0 +1,109 @@
+/**
+ * GraphStore against the array scans GraphSession used before, at the
+ * default session limits. Run with `pnpm bench`.
+ */
+
+import { bench, describe } from "vitest";
+
+import { calculatePatch } from "../patch/index.js";
+import type { GraphData, GraphEdge, GraphNode } from "../types/index.js";
+
+import { GraphStore } from "./graph-store.js";
+
+const NODES = 10000;
+const EDGES = 50000;
+const PAGE = 500;
+
+function node(i: number): GraphNode {
+  return { id: `n${i}`, labels: [`L${i % 10}`], properties: { i } };
+}
+
+function edge(i: number): GraphEdge {
+  return {
+    id: `e${i}`,
+    source: `n${i % NODES}`,
+    target: `n${(i * 7) % NODES}`,
+    type: `T${i % 5}`,
+    properties: {},
+  };
+}
+
+const GRAPH: GraphData = {
+  nodes: Array.from({ length: NODES }, (_, i) => node(i)),
+  edges: Array.from({ length: EDGES }, (_, i) => edge(i)),
+};
+
+// A page of half new, half updated elements
+const PAGE_DATA: GraphData = {
+  nodes: Array.from({ length: PAGE }, (_, i) => ({
+    ...node(NODES - PAGE / 2 + i),
+    properties: { page: true },
+  })),
+  edges: Array.from({ length: PAGE }, (_, i) => ({
+    ...edge(EDGES - PAGE / 2 + i),
+    type: "PAGED",
+  })),
+};
+
+/** Fresh copies, as a refetched page would be */
+function page(): GraphData {
+  return {
+    nodes: PAGE_DATA.nodes.map((n) => ({ ...n })),
+    edges: PAGE_DATA.edges.map((e) => ({ ...e })),
+  };
+}
+
+/** Limit check and merge as GraphSession did them over arrays */
+function mergeArrays(state: GraphData, data: GraphData): GraphData {
+  data.nodes.filter((n) => !state.nodes.some((e) => e.id === n.id));
+  data.edges.filter((e) => !state.edges.some((x) => x.id === e.id));
+
+  const nodeMap = new Map(state.nodes.map((n) => [n.id, n]));
+  const edgeMap = new Map(state.edges.map((e) => [e.id, e]));
+  for (const n of data.nodes) nodeMap.set(n.id, n);
+  for (const e of data.edges) edgeMap.set(e.id, e);
+
+  const next = { nodes: [...nodeMap.values()], edges: [...edgeMap.values()] };
+  calculatePatch(state, next);
+  return next;
+}
+
+function mergeStore(store: GraphStore, data: GraphData): void {
+  data.nodes.filter((n) => !store.hasNode(n.id));
+  data.edges.filter((e) => !store.hasEdge(e.id));
+
+  store.change((s) => {
+    for (const n of data.nodes) s.setNode(n);
+    for (const e of data.edges) s.setEdge(e);
+  });
+}
+
+describe("merge a page", () => {
+  bench("arrays", () => {
+    mergeArrays(GRAPH, page());
+  });
+
+  const store = new GraphStore(GRAPH);
+  bench("GraphStore", () => {
+    mergeStore(store, page());
+  });
+});
+
+describe("look up a page of nodes and their edges", () => {
+  const ids = PAGE_DATA.nodes.map((n) => n.id);
+
+  bench("arrays", () => {
+    for (const id of ids) {
+      GRAPH.nodes.find((n) => n.id === id);
+      GRAPH.edges.filter((e) => e.source === id || e.target === id);
+    }
+  });
+
+  const store = new GraphStore(GRAPH);
+  bench("GraphStore", () => {
+    for (const id of ids) {
+      store.getNode(id);
+      store.getEdgesForNode(id);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import { applyPatch, calculatePatch } from "../patch/index.js";
+import type { GraphData } from "../types/index.js";
+
+import { GraphStore } from "./graph-store.js";
+
+const DATA: GraphData = {
+  nodes: [
+    { id: "a", labels: ["Person"], properties: { name: "Ada" } },
+    { id: "b", labels: ["Person", "Author"], properties: { name: "Bob" } },
+    { id: "c", labels: ["Company"], properties: {} },
+  ],
+  edges: [
+    { id: "e1", source: "a", target: "b", type: "KNOWS", properties: {} },
+    { id: "e2", source: "b", target: "c", type: "WORKS_AT", properties: {} },
+    { id: "e3", source: "a", target: "a", type: "KNOWS", properties: {} },
+  ],
+};
+
+const ids = (elements: readonly { id: string }[]): string[] =>
+  elements.map((e) => e.id);
+
+describe("GraphStore", () => {
+  it("should index nodes and edges by ID, endpoint, label and type", () => {
+    const store = new GraphStore(DATA);
+
+    expect(store.nodeCount).toBe(3);
+    expect(store.getEdge("e2")?.target).toBe("c");
+    expect(ids(store.getEdgesForNode("a"))).toEqual(["e1", "e3"]);
+    expect(ids(store.getNodesByLabel("Person"))).toEqual(["a", "b"]);
+    expect(ids(store.getEdgesByType("KNOWS"))).toEqual(["e1", "e3"]);
+
+    store.change((s) => {
+      s.setNode({ id: "b", labels: ["Author"], properties: {} });
+      s.setEdge({
+        id: "e1",
+        source: "c",
+        target: "b",
+        type: "OWNS",
+        properties: {},
+      });
+    });
+
+    expect(ids(store.getNodesByLabel("Person"))).toEqual(["a"]);
+    expect(ids(store.getEdgesForNode("a"))).toEqual(["e3"]);
+    expect(ids(store.getEdgesForNode("c"))).toEqual(["e2", "e1"]);
+    expect(store.getEdgesByType("OWNS")).toHaveLength(1);
+  });
+
+  it("should record a change as the patch a full diff would give", () => {
+    const store = new GraphStore(DATA);
+    const before = store.getData();
+
+    const patch = store.change((s) => {
+      s.setNode({ id: "d", labels: ["Person"], properties: {} });
+      s.setNode({ ...DATA.nodes[0]!, properties: { name: "Ada L." } });
+      s.removeNode("c");
+      // Set back to what it was, so left out of the patch
+      s.setNode({ ...DATA.nodes[1]! });
+    });
+    const expected = calculatePatch(before, store.getData());
+
+    expect(patch.nodePatch).toHaveLength(3);
+    expect(patch.edgePatch).toEqual([
+      { operation: "remove", edge: DATA.edges[1] },
+    ]);
+    expect(new Set(patch.nodePatch)).toEqual(new Set(expected.nodePatch));
+    expect(applyPatch(before, patch)).toEqual(store.getData());
+  });
+
+  it("should apply patches in place and return the same data until changed", () => {
+    const store = new GraphStore();
+    const patch = calculatePatch(store.getData(), DATA);
+
+    store.applyPatch(patch);
+    const data = store.getData();
+
+    expect(data).toEqual(DATA);
+    expect(store.getData()).toBe(data);
+
+    store.removeEdge("e1");
+    expect(store.getData()).not.toBe(data);
+    expect(store.edgeCount).toBe(2);
+  });
+
+  it("should roll back a change that throws", () => {
+    const store = new GraphStore(DATA);
+
+    expect(() =>
+      store.change((s) => {
+        s.removeNode("b");
+        s.setNode({ id: "x", labels: [], properties: {} });
+        throw new Error("failed");
+      })
+    ).toThrow("failed");
+
+    expect(store.hasNode("x")).toBe(false);
+    expect(ids(store.getEdgesForNode("b"))).toEqual(["e1", "e2"]);
+    expect(store.nodeCount).toBe(3);
+    expect(store.edgeCount).toBe(3);
+  });
+});
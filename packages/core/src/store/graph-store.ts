@@ -0,0 +1,330 @@
+/**
+ * Indexed graph store
+ * Session data kept in ID maps with adjacency, label and edge type indexes,
+ * changed in place. Changes are recorded as they are made, so a patch comes
+ * from the elements touched rather than from diffing whole graphs.
+ */
+
+import type { EdgePatch, GraphPatch, NodePatch } from "../patch/index.js";
+import { createPatch, edgesEqual, nodesEqual } from "../patch/index.js";
+import type {
+  EdgeId,
+  GraphData,
+  GraphEdge,
+  GraphNode,
+  NodeId,
+} from "../types/index.js";
+
+/** Originals of the elements touched by a change, undefined if absent */
+interface ChangeRecord {
+  readonly nodes: Map<NodeId, GraphNode | undefined>;
+  readonly edges: Map<EdgeId, GraphEdge | undefined>;
+}
+
+/** Graph data indexed for lookups by ID, endpoint, label and edge type */
+export class GraphStore {
+  private readonly nodes = new Map<NodeId, GraphNode>();
+  private readonly edges = new Map<EdgeId, GraphEdge>();
+  /** Edge IDs by endpoint; a self-loop is listed once */
+  private readonly adjacency = new Map<NodeId, Set<EdgeId>>();
+  private readonly labelIndex = new Map<string, Set<NodeId>>();
+  private readonly typeIndex = new Map<string, Set<EdgeId>>();
+
+  /** Changes being recorded, innermost last */
+  private readonly records: ChangeRecord[] = [];
+  /** getData() result until the next change */
+  private data: GraphData | null = null;
+
+  constructor(data?: GraphData) {
+    if (data) this.load(data);
+  }
+
+  get nodeCount(): number {
+    return this.nodes.size;
+  }
+
+  get edgeCount(): number {
+    return this.edges.size;
+  }
+
+  getNode(id: NodeId): GraphNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  getEdge(id: EdgeId): GraphEdge | undefined {
+    return this.edges.get(id);
+  }
+
+  hasNode(id: NodeId): boolean {
+    return this.nodes.has(id);
+  }
+
+  hasEdge(id: EdgeId): boolean {
+    return this.edges.has(id);
+  }
+
+  /** Edges from or to a node */
+  getEdgesForNode(id: NodeId): GraphEdge[] {
+    return this.resolve(this.adjacency.get(id), this.edges);
+  }
+
+  getNodesByLabel(label: string): GraphNode[] {
+    return this.resolve(this.labelIndex.get(label), this.nodes);
+  }
+
+  getEdgesByType(type: string): GraphEdge[] {
+    return this.resolve(this.typeIndex.get(type), this.edges);
+  }
+
+  /**
+   * The stored graph, in insertion order. The same object is returned until
+   * the store changes.
+   */
+  getData(): GraphData {
+    this.data ??= {
+      nodes: [...this.nodes.values()],
+      edges: [...this.edges.values()],
+    };
+    return this.data;
+  }
+
+  /**
+   * Run `apply` and return what it changed as one patch. Elements set back
+   * to what they were are left out. If `apply` throws, its changes are rolled
+   * back. Changes may be nested; the outer patch includes the inner ones.
+   */
+  change(apply: (store: this) => void): GraphPatch {
+    const record: ChangeRecord = { nodes: new Map(), edges: new Map() };
+    this.records.push(record);
+    try {
+      apply(this);
+    } catch (error) {
+      this.rollBack(record);
+      throw error;
+    } finally {
+      this.records.splice(this.records.indexOf(record), 1);
+    }
+    return this.toPatch(record);
+  }
+
+  /** Add a node, or replace the node with its ID */
+  setNode(node: GraphNode): void {
+    const previous = this.nodes.get(node.id);
+    if (previous === node) return;
+    this.recordNode(node.id, previous);
+    if (previous) this.unindexNode(previous);
+    this.nodes.set(node.id, node);
+    this.indexNode(node);
+  }
+
+  /** Add an edge, or replace the edge with its ID */
+  setEdge(edge: GraphEdge): void {
+    const previous = this.edges.get(edge.id);
+    if (previous === edge) return;
+    this.recordEdge(edge.id, previous);
+    if (previous) this.unindexEdge(previous);
+    this.edges.set(edge.id, edge);
+    this.indexEdge(edge);
+  }
+
+  /** Remove a node and the edges from or to it */
+  removeNode(id: NodeId): void {
+    for (const edgeId of [...(this.adjacency.get(id) ?? [])]) {
+      this.removeEdge(edgeId);
+    }
+
+    const node = this.nodes.get(id);
+    if (!node) return;
+    this.recordNode(id, node);
+    this.unindexNode(node);
+    this.nodes.delete(id);
+  }
+
+  removeEdge(id: EdgeId): void {
+    const edge = this.edges.get(id);
+    if (!edge) return;
+    this.recordEdge(id, edge);
+    this.unindexEdge(edge);
+    this.edges.delete(id);
+  }
+
+  /** Apply a patch in place */
+  applyPatch(patch: GraphPatch): void {
+    for (const { operation, node } of patch.nodePatch) {
+      if (operation === "remove") {
+        this.removeNodeOnly(node.id);
+      } else {
+        this.setNode(node);
+      }
+    }
+    for (const { operation, edge } of patch.edgePatch) {
+      if (operation === "remove") {
+        this.removeEdge(edge.id);
+      } else {
+        this.setEdge(edge);
+      }
+    }
+  }
+
+  /** Replace the stored graph, as one change */
+  replace(data: GraphData): void {
+    const nodeIds = new Set(data.nodes.map((n) => n.id));
+    const edgeIds = new Set(data.edges.map((e) => e.id));
+    for (const id of [...this.edges.keys()]) {
+      if (!edgeIds.has(id)) this.removeEdge(id);
+    }
+    for (const id of [...this.nodes.keys()]) {
+      if (!nodeIds.has(id)) this.removeNode(id);
+    }
+    for (const node of data.nodes) {
+      const existing = this.nodes.get(node.id);
+      if (!existing || !nodesEqual(existing, node)) this.setNode(node);
+    }
+    for (const edge of data.edges) {
+      const existing = this.edges.get(edge.id);
+      if (!existing || !edgesEqual(existing, edge)) this.setEdge(edge);
+    }
+  }
+
+  /** Remove everything, without recording a change */
+  clear(): void {
+    this.nodes.clear();
+    this.edges.clear();
+    this.adjacency.clear();
+    this.labelIndex.clear();
+    this.typeIndex.clear();
+    this.data = null;
+  }
+
+  /** Replace the stored graph without recording a change */
+  load(data: GraphData): void {
+    this.clear();
+    for (const node of data.nodes) {
+      this.nodes.set(node.id, node);
+      this.indexNode(node);
+    }
+    for (const edge of data.edges) {
+      this.edges.set(edge.id, edge);
+      this.indexEdge(edge);
+    }
+  }
+
+  /**
+   * Remove a node but not its edges, for patches that remove the edges
+   * themselves
+   */
+  private removeNodeOnly(id: NodeId): void {
+    const node = this.nodes.get(id);
+    if (!node) return;
+    this.recordNode(id, node);
+    this.unindexNode(node);
+    this.nodes.delete(id);
+  }
+
+  private recordNode(id: NodeId, original: GraphNode | undefined): void {
+    this.data = null;
+    for (const record of this.records) {
+      if (!record.nodes.has(id)) record.nodes.set(id, original);
+    }
+  }
+
+  private recordEdge(id: EdgeId, original: GraphEdge | undefined): void {
+    this.data = null;
+    for (const record of this.records) {
+      if (!record.edges.has(id)) record.edges.set(id, original);
+    }
+  }
+
+  private toPatch(record: ChangeRecord): GraphPatch {
+    const nodePatch: NodePatch[] = [];
+    for (const [id, previous] of record.nodes) {
+      const node = this.nodes.get(id);
+      if (!node) {
+        if (previous) nodePatch.push({ operation: "remove", node: previous });
+      } else if (!previous) {
+        nodePatch.push({ operation: "add", node });
+      } else if (!nodesEqual(previous, node)) {
+        nodePatch.push({ operation: "update", node, previousNode: previous });
+      }
+    }
+
+    const edgePatch: EdgePatch[] = [];
+    for (const [id, previous] of record.edges) {
+      const edge = this.edges.get(id);
+      if (!edge) {
+        if (previous) edgePatch.push({ operation: "remove", edge: previous });
+      } else if (!previous) {
+        edgePatch.push({ operation: "add", edge });
+      } else if (!edgesEqual(previous, edge)) {
+        edgePatch.push({ operation: "update", edge, previousEdge: previous });
+      }
+    }
+
+    return createPatch(nodePatch, edgePatch);
+  }
+
+  private rollBack(record: ChangeRecord): void {
+    for (const [id, original] of record.edges) {
+      if (original) this.setEdge(original);
+      else this.removeEdge(id);
+    }
+    for (const [id, original] of record.nodes) {
+      if (original) this.setNode(original);
+      else this.removeNodeOnly(id);
+    }
+  }
+
+  private indexNode(node: GraphNode): void {
+    for (const label of node.labels) addTo(this.labelIndex, label, node.id);
+  }
+
+  private unindexNode(node: GraphNode): void {
+    for (const label of node.labels) {
+      removeFrom(this.labelIndex, label, node.id);
+    }
+  }
+
+  private indexEdge(edge: GraphEdge): void {
+    addTo(this.adjacency, edge.source, edge.id);
+    addTo(this.adjacency, edge.target, edge.id);
+    addTo(this.typeIndex, edge.type, edge.id);
+  }
+
+  private unindexEdge(edge: GraphEdge): void {
+    removeFrom(this.adjacency, edge.source, edge.id);
+    removeFrom(this.adjacency, edge.target, edge.id);
+    removeFrom(this.typeIndex, edge.type, edge.id);
+  }
+
+  private resolve<T>(
+    ids: Set<string> | undefined,
+    elements: Map<string, T>
+  ): T[] {
+    const result: T[] = [];
+    for (const id of ids ?? []) {
+      const element = elements.get(id);
+      if (element) result.push(element);
+    }
+    return result;
+  }
+}
+
+function addTo(index: Map<string, Set<string>>, key: string, id: string): void {
+  let ids = index.get(key);
+  if (!ids) {
+    ids = new Set();
+    index.set(key, ids);
+  }
+  ids.add(id);
+}
+
+function removeFrom(
+  index: Map<string, Set<string>>,
+  key: string,
+  id: string
+): void {
+  const ids = index.get(key);
+  if (!ids) return;
+  ids.delete(id);
+  if (ids.size === 0) index.delete(key);
+}
@@ -0,0 +1,5 @@
+/**
+ * Indexed graph store
+ */
+
+export { GraphStore } from "./graph-store.js";
@@ -18,11 +18,40 @@ export type PropertyValue =
 /** Node properties map */
 export type Properties = Record<string, PropertyValue>;
 
+/**
+ * Element metadata. `source` is the connector an element was first fetched
+ * from and `sources` every connector it was merged from.
+ */
+export interface ElementMetadata {
+  readonly source?: string;
+  readonly fetchedAt?: number;
+  readonly [key: string]: PropertyValue | undefined;
+}
+
+/**
+ * How an element is shown, set by the session. Absent fields are false or
+ * empty.
+ */
+export interface ElementViewState {
+  /** Kept when the session is pruned */
+  readonly pinned?: boolean;
+  /** Kept in the session but not drawn */
+  readonly hidden?: boolean;
+  /** A hub whose neighbors are drawn as one placeholder */
+  readonly collapsed?: boolean;
+  /** Collapsed hubs this node is folded into; not drawn while non-empty */
+  readonly collapsedBy?: readonly NodeId[];
+}
+
 /** Graph node representation */
 export interface GraphNode {
   readonly id: NodeId;
   readonly labels: readonly string[];
   readonly properties: Properties;
+  /** Origin of the element, set by the session */
+  readonly metadata?: ElementMetadata;
+  /** Pinned, hidden and collapsed state, set by the session */
+  readonly view?: ElementViewState;
 }
 
 /** Graph edge representation */
@@ -32,6 +61,10 @@ export interface GraphEdge {
   readonly target: NodeId;
   readonly type: string;
   readonly properties: Properties;
+  /** Origin of the element, set by the session */
+  readonly metadata?: ElementMetadata;
+  /** Hidden state, set by the session */
+  readonly view?: ElementViewState;
 }
 
 /** Graph data container */
@@ -61,6 +94,23 @@ export interface SessionConfig {
   readonly cacheTtlMs: number;
   /** Enable Rust accelerator if available */
   readonly enableAccelerator: boolean;
+  /** Maximum connector queries running at once */
+  readonly maxConcurrentQueries: number;
+  /** Report limits as they are approached */
+  readonly warnOnLimitApproach: boolean;
+  /** Fraction of a limit at which its approach is reported */
+  readonly limitWarnThreshold: number;
+  /** Maximum depth of expandNode and getNeighbors queries */
+  readonly maxNeighborhoodDepth: number;
+  /** Maximum path length of findPath queries */
+  readonly maxPathLength: number;
+  /**
+   * Time budget of each query in milliseconds, or 0 for none. A query's own
+   * shorter timeoutMs applies instead.
+   */
+  readonly queryTimeBudgetMs: number;
+  /** Queries each source may run in any minute, or 0 for no budget */
+  readonly maxQueriesPerMinute: number;
 }
 
 /** Default session configuration */
@@ -70,6 +120,13 @@ export const DEFAULT_SESSION_CONFIG: SessionConfig = {
   maxElementsPerFetch: 500,
   cacheTtlMs: 5 * 60 * 1000, // 5 minutes
   enableAccelerator: true,
+  maxConcurrentQueries: 4,
+  warnOnLimitApproach: true,
+  limitWarnThreshold: 0.8,
+  maxNeighborhoodDepth: 3,
+  maxPathLength: 10,
+  queryTimeBudgetMs: 0,
+  maxQueriesPerMinute: 0,
 } as const;
 
 /** Query result metadata */
@@ -78,6 +135,8 @@ export interface QueryMetadata {
   readonly totalAvailable: number | null;
   readonly truncated: boolean;
   readonly cursor: string | null;
+  /** Request units consumed, for backends that meter queries (Cosmos DB) */
+  readonly requestCharge?: number;
 }
 
 /** Query result with data and metadata */
@@ -86,6 +145,138 @@ export interface QueryResult {
   readonly metadata: QueryMetadata;
 }
 
+/** Type of a property value in schema statistics */
+export type PropertyType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "null"
+  | "list"
+  | "map";
+
+/** Number of nodes with a label */
+export interface LabelCount {
+  readonly label: string;
+  readonly count: number;
+}
+
+/** Number of edges of a type */
+export interface EdgeTypeCount {
+  readonly type: string;
+  readonly count: number;
+}
+
+/** Number of edges of a type from nodes with one label to nodes with another */
+export interface LabelConnectivity {
+  readonly sourceLabel: string;
+  readonly edgeType: string;
+  readonly targetLabel: string;
+  readonly count: number;
+}
+
+/** Statistics of a property key among the nodes of a label or edges of a type */
+export interface PropertyStats {
+  readonly element: "node" | "edge";
+  /** Node label or edge type */
+  readonly owner: string;
+  readonly key: string;
+  /** Value types seen, sorted */
+  readonly types: readonly PropertyType[];
+  /** Examined elements that have the property */
+  readonly count: number;
+  /** Distinct values among them */
+  readonly distinctCount: number;
+  /** Elements of the label or type that were examined */
+  readonly sampleSize: number;
+}
+
+/**
+ * Schema statistics of a data source. Counts are sorted by count, highest
+ * first; nodes without labels only count towards nodeCount.
+ */
+export interface GraphSchema {
+  readonly nodeCount: number;
+  readonly edgeCount: number;
+  readonly labels: readonly LabelCount[];
+  readonly edgeTypes: readonly EdgeTypeCount[];
+  readonly connectivity: readonly LabelConnectivity[];
+  readonly properties: readonly PropertyStats[];
+}
+
+/** Schema statistics options */
+export interface SchemaOptions {
+  /** Compute property statistics (default true) */
+  readonly includeProperties?: boolean;
+  /** Nodes and edges examined for property statistics (connector default) */
+  readonly sampleSize?: number;
+}
+
+/** Operator in a database query plan */
+export interface QueryPlanOperator {
+  readonly operator: string;
+  /** Operator arguments, such as identifiers and estimated rows */
+  readonly details: Readonly<Record<string, unknown>>;
+  readonly children: readonly QueryPlanOperator[];
+}
+
+/** Native statement a connector would send for a query */
+export interface ExplainedStatement {
+  readonly language: "cypher" | "gremlin" | "sparql";
+  readonly text: string;
+  /** Bound parameters, with sensitive values redacted */
+  readonly parameters: Readonly<Record<string, unknown>>;
+  /** Database plan, for backends that explain without running the query */
+  readonly plan: QueryPlanOperator | null;
+}
+
+/** Limits applied to an explained query */
+export interface ExplainLimits {
+  /** Result limit sent to the database, null when unbounded */
+  readonly limit: number | null;
+  /** Timeout in milliseconds, null when none */
+  readonly timeoutMs: number | null;
+  /** Largest page the connector returns */
+  readonly maxPageSize: number;
+}
+
+/** What a connector would send for a query, without running it */
+export interface QueryExplanation {
+  readonly connectorType: string;
+  readonly queryType: string;
+  /**
+   * Statements in the order they would be sent. Statements that depend on
+   * the results of earlier ones are built as if those results were empty,
+   * or left out.
+   */
+  readonly statements: readonly ExplainedStatement[];
+  readonly limits: ExplainLimits;
+}
+
+/** Query explanation options */
+export interface ExplainOptions {
+  /** Ask the database for its plan, where supported (default true) */
+  readonly includePlan?: boolean;
+}
+
+/**
+ * Scheduling lane of a query: interactive queries start before background
+ * ones, such as prefetching
+ */
+export type QueryPriority = "interactive" | "background";
+
+/** Options for executing a query */
+export interface ExecuteOptions {
+  /** Cancels the query, which then rejects with QueryCancelledError */
+  readonly signal?: AbortSignal;
+  /** Scheduling lane, "interactive" by default */
+  readonly priority?: QueryPriority;
+  /**
+   * Sessions with several connectors: the source, or sources, to query.
+   * Defaults to every attached source.
+   */
+  readonly source?: string | readonly string[];
+}
+
 /** Pagination options */
 export interface PaginationOptions {
   readonly limit: number;
@@ -96,10 +287,29 @@ export interface PaginationOptions {
 /** Telemetry hook interface */
 export interface TelemetryHook {
   onQueryStart?(queryId: string, queryType: string): void;
-  onQueryComplete?(queryId: string, durationMs: number, elementCount: number): void;
+  onQueryComplete?(
+    queryId: string,
+    durationMs: number,
+    elementCount: number
+  ): void;
   onQueryError?(queryId: string, error: Error): void;
   onSessionChange?(nodeCount: number, edgeCount: number): void;
-  onLimitReached?(limitType: string, currentValue: number, maxValue: number): void;
+  /**
+   * A limit was reached. `evicted` lists the nodes removed to stay within
+   * it, when the session evicts rather than failing.
+   */
+  onLimitReached?(
+    limitType: string,
+    currentValue: number,
+    maxValue: number,
+    evicted?: readonly NodeId[]
+  ): void;
+  /** A value reached the warning threshold of its limit */
+  onLimitWarning?(
+    limitType: string,
+    currentValue: number,
+    maxValue: number
+  ): void;
 }
 
 /** Noop telemetry hook (default) */
@@ -1,7 +1,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: {
+    index: "src/index.ts",
+    // Node.js only, kept out of the browser-safe index
+    "persistence/file-store": "src/persistence/file-store.ts",
+  },
   format: ["cjs", "esm"],
   dts: true,
   clean: true,
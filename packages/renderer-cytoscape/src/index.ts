@@ -7,3 +7,4 @@ export * from "./theme.js";
 export * from "./layout.js";
 export * from "./interactions.js";
 export * from "./patch-applier.js";
+export * from "./view-state.js";
@@ -10,14 +10,19 @@ import type {
 } from "@queryscape/core";
 
 import type { CytoscapeInstance, CytoscapeElement } from "./renderer.js";
+import { setViewClasses, syncPlaceholders, viewClasses } from "./view-state.js";
 
-/** Apply a graph patch to Cytoscape instance */
+/**
+ * Apply a graph patch to Cytoscape instance. With `placeholders`, the
+ * placeholders of collapsed hubs are kept in step (see syncPlaceholders).
+ */
 export function applyPatchToCytoscape(
   cy: CytoscapeInstance,
   patch: GraphPatch,
   nodeDataMap: Map<NodeId, GraphNode>,
   edgeDataMap: Map<string, GraphEdge>,
-  getNodeLabel: (node: GraphNode) => string
+  getNodeLabel: (node: GraphNode) => string,
+  placeholders?: Map<NodeId, number>
 ): void {
   cy.batch(() => {
     // Apply node patches
@@ -32,6 +37,7 @@ export function applyPatchToCytoscape(
               label: getNodeLabel(nodePatch.node),
               ...nodePatch.node.properties,
             },
+            classes: viewClasses(nodePatch.node).join(" "),
           } as unknown as CytoscapeElement);
           break;
 
@@ -52,6 +58,7 @@ export function applyPatchToCytoscape(
             for (const [key, value] of Object.entries(newData)) {
               (nodeEle as unknown as { data(k: string, v: unknown): void }).data(key, value);
             }
+            setViewClasses(nodeEle, nodePatch.node);
           }
           break;
         }
@@ -72,6 +79,7 @@ export function applyPatchToCytoscape(
               label: edgePatch.edge.type,
               ...edgePatch.edge.properties,
             },
+            classes: viewClasses(edgePatch.edge).join(" "),
           } as unknown as CytoscapeElement);
           break;
 
@@ -91,10 +99,19 @@ export function applyPatchToCytoscape(
             for (const [key, value] of Object.entries(newData)) {
               (edgeEle as unknown as { data(k: string, v: unknown): void }).data(key, value);
             }
+            setViewClasses(edgeEle, edgePatch.edge);
           }
           break;
         }
       }
     }
+
+    // Only patches touching view state can change the placeholders
+    const touchesView = patch.nodePatch.some(
+      (p) => p.node.view !== undefined || p.previousNode?.view !== undefined
+    );
+    if (placeholders && touchesView) {
+      syncPlaceholders(cy, nodeDataMap, placeholders);
+    }
   });
 }
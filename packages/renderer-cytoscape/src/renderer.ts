@@ -14,6 +14,7 @@ import { createInteractionHandlers, type InteractionHandlers } from "./interacti
 import { runLayout, type LayoutOptions, DEFAULT_LAYOUT_OPTIONS } from "./layout.js";
 import { applyPatchToCytoscape } from "./patch-applier.js";
 import { type Theme, DEFAULT_THEME } from "./theme.js";
+import { syncPlaceholders, viewClasses } from "./view-state.js";
 
 /** Cytoscape instance type */
 export interface CytoscapeInstance {
@@ -53,6 +54,7 @@ export interface CytoscapeElement {
   position(pos?: { x: number; y: number }): { x: number; y: number };
   neighborhood(): CytoscapeCollection;
   connectedEdges(): CytoscapeCollection;
+  remove(): void;
 }
 
 export interface CytoscapeCollection {
@@ -122,6 +124,8 @@ export class GraphRenderer {
   private readonly layoutOptions: LayoutOptions;
   private nodeDataMap = new Map<NodeId, GraphNode>();
   private edgeDataMap = new Map<string, GraphEdge>();
+  /** Drawn placeholders of collapsed hubs: folded node count by hub */
+  private placeholders = new Map<NodeId, number>();
   private interactionHandlers: InteractionHandlers | null = null;
 
   constructor(config: RendererConfig) {
@@ -221,6 +225,43 @@ export class GraphRenderer {
           "border-width": 4,
         },
       },
+      // Session view state
+      {
+        selector: ".hidden",
+        style: {
+          display: "none",
+        },
+      },
+      {
+        selector: "node.pinned",
+        style: {
+          "border-style": "double",
+          "border-width": 4,
+        },
+      },
+      {
+        selector: "node.collapsed",
+        style: {
+          "border-style": "dashed",
+        },
+      },
+      {
+        selector: "node.placeholder",
+        style: {
+          shape: "round-rectangle",
+          "background-color": this.theme.edgeColor,
+          width: this.theme.nodeSize * 0.75,
+          height: this.theme.nodeSize * 0.5,
+        },
+      },
+      {
+        selector: "edge.placeholder",
+        style: {
+          "line-style": "dashed",
+          "target-arrow-shape": "none",
+          label: "",
+        },
+      },
     ];
   }
 
@@ -231,6 +272,7 @@ export class GraphRenderer {
       this.cy.elements().remove();
       this.nodeDataMap.clear();
       this.edgeDataMap.clear();
+      this.placeholders.clear();
 
       // Add nodes
       for (const node of data.nodes) {
@@ -242,6 +284,7 @@ export class GraphRenderer {
             label: this.getNodeLabel(node),
             ...node.properties,
           },
+          classes: viewClasses(node).join(" "),
         } as unknown as CytoscapeElement);
       }
 
@@ -257,8 +300,11 @@ export class GraphRenderer {
             label: edge.type,
             ...edge.properties,
           },
+          classes: viewClasses(edge).join(" "),
         } as unknown as CytoscapeElement);
       }
+
+      syncPlaceholders(this.cy, this.nodeDataMap, this.placeholders);
     });
 
     this.runLayout();
@@ -271,7 +317,8 @@ export class GraphRenderer {
       patch,
       this.nodeDataMap,
       this.edgeDataMap,
-      (node) => this.getNodeLabel(node)
+      (node) => this.getNodeLabel(node),
+      this.placeholders
     );
   }
 
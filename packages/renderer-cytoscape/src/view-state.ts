@@ -0,0 +1,92 @@
+/**
+ * Session view state in Cytoscape
+ * Hidden nodes and nodes folded into a collapsed hub are not displayed, and
+ * each collapsed hub gets a placeholder node counting its folded neighbors.
+ */
+
+import type { GraphEdge, GraphNode, NodeId } from "@queryscape/core";
+import { isNodeVisible } from "@queryscape/core";
+
+import type { CytoscapeElement, CytoscapeInstance } from "./renderer.js";
+
+/** Classes set from an element's view state */
+export const VIEW_STATE_CLASSES = ["hidden", "pinned", "collapsed"] as const;
+
+/** View state classes of a node or edge */
+export function viewClasses(element: GraphNode | GraphEdge): string[] {
+  const visible =
+    "labels" in element ? isNodeVisible(element) : !element.view?.hidden;
+  const classes: string[] = [];
+  if (!visible) classes.push("hidden");
+  if (element.view?.pinned) classes.push("pinned");
+  if (element.view?.collapsed) classes.push("collapsed");
+  return classes;
+}
+
+/** Replace the view state classes of a drawn element */
+export function setViewClasses(
+  ele: CytoscapeElement,
+  element: GraphNode | GraphEdge
+): void {
+  for (const className of VIEW_STATE_CLASSES) ele.removeClass(className);
+  for (const className of viewClasses(element)) ele.addClass(className);
+}
+
+/** ID of the placeholder drawn for a collapsed hub */
+export function placeholderId(hubId: NodeId): string {
+  return `${hubId}::collapsed`;
+}
+
+/**
+ * Add, relabel or remove placeholders so that every collapsed hub with
+ * folded neighbors has one. `placeholders` holds the drawn placeholders'
+ * counts by hub and is updated.
+ */
+export function syncPlaceholders(
+  cy: CytoscapeInstance,
+  nodeDataMap: ReadonlyMap<NodeId, GraphNode>,
+  placeholders: Map<NodeId, number>
+): void {
+  const counts = new Map<NodeId, number>();
+  for (const node of nodeDataMap.values()) {
+    for (const hubId of node.view?.collapsedBy ?? []) {
+      if (nodeDataMap.get(hubId)?.view?.collapsed) {
+        counts.set(hubId, (counts.get(hubId) ?? 0) + 1);
+      }
+    }
+  }
+
+  for (const hubId of placeholders.keys()) {
+    if (!counts.has(hubId)) {
+      // Removing the placeholder node removes its edge
+      cy.getElementById(placeholderId(hubId)).remove();
+      placeholders.delete(hubId);
+    }
+  }
+
+  for (const [hubId, count] of counts) {
+    const id = placeholderId(hubId);
+    const drawn = placeholders.get(hubId);
+    if (drawn === undefined) {
+      cy.add([
+        {
+          group: "nodes",
+          data: { id, label: `+${count}`, collapsedHub: hubId },
+          classes: "placeholder",
+        },
+        {
+          group: "edges",
+          data: { id: `${id}:edge`, source: hubId, target: id },
+          classes: "placeholder",
+        },
+      ] as unknown as CytoscapeElement[]);
+    } else if (drawn !== count) {
+      (
+        cy.getElementById(id) as unknown as {
+          data(k: string, v: unknown): void;
+        }
+      ).data("label", `+${count}`);
+    }
+    placeholders.set(hubId, count);
+  }
+}